@@ -5,18 +5,32 @@ import SimplificationPage from './pages/SimplificationPage'
 import SmoothingPage from './pages/SmoothingPage'
 import AnnotationsPage from './pages/AnnotationsPage'
 import MeshChecksPage from './pages/MeshChecksPage'
+import PipelinePage from './pages/PipelinePage'
+import BatchPage from './pages/BatchPage'
+import MeasurePage from './pages/MeasurePage'
+import SectionsPage from './pages/SectionsPage'
+import { MeshSessionProvider } from './context/MeshSessionContext'
+import { ViewSettingsProvider } from './context/ViewSettingsContext'
 
 function App() {
     return (
         <BrowserRouter>
-            <Routes>
-                <Route path="/" element={<HomePage />} />
-                <Route path="/basics" element={<BasicsPage />} />
-                <Route path="/simplification" element={<SimplificationPage />} />
-                <Route path="/smoothing" element={<SmoothingPage />} />
-                <Route path="/annotations" element={<AnnotationsPage />} />
-                <Route path="/mesh-checks" element={<MeshChecksPage />} />
-            </Routes>
+            <MeshSessionProvider>
+                <ViewSettingsProvider>
+                    <Routes>
+                        <Route path="/" element={<HomePage />} />
+                        <Route path="/basics" element={<BasicsPage />} />
+                        <Route path="/simplification" element={<SimplificationPage />} />
+                        <Route path="/smoothing" element={<SmoothingPage />} />
+                        <Route path="/annotations" element={<AnnotationsPage />} />
+                        <Route path="/mesh-checks" element={<MeshChecksPage />} />
+                        <Route path="/pipeline" element={<PipelinePage />} />
+                        <Route path="/batch" element={<BatchPage />} />
+                        <Route path="/measure" element={<MeasurePage />} />
+                        <Route path="/sections" element={<SectionsPage />} />
+                    </Routes>
+                </ViewSettingsProvider>
+            </MeshSessionProvider>
         </BrowserRouter>
     )
 }
@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react'
+import { useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+
+export interface CameraFocusTarget {
+    /** Point to orbit around, in the coordinates of wherever CameraFocus is mounted */
+    center: THREE.Vector3
+    /** Unit direction to look from, e.g. the surface normal at the target */
+    direction: THREE.Vector3
+    /** Radius of the region that should fill the view */
+    radius: number
+}
+
+/** The part of drei's OrbitControls this component drives */
+type OrbitTarget = { target: THREE.Vector3; update: () => void }
+
+interface CameraFocusProps {
+    /** A new object re-frames the camera; null leaves it where the user put it */
+    focus: CameraFocusTarget | null
+}
+
+/**
+ * Moves the camera and orbit target to frame a region. Needs the Scene's
+ * OrbitControls registered as the default controls. Mount it inside the
+ * same group as the content it frames so the group's transform (e.g. true
+ * scale) is taken into account.
+ */
+function CameraFocus({ focus }: CameraFocusProps) {
+    const { camera, controls } = useThree()
+    const anchorRef = useRef<THREE.Group>(null)
+
+    useEffect(() => {
+        const anchor = anchorRef.current
+        if (!focus || !anchor) return
+        anchor.updateWorldMatrix(true, false)
+        const center = anchor.localToWorld(focus.center.clone())
+        const scale = anchor.getWorldScale(new THREE.Vector3()).x
+        const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov : 24
+        const distance = Math.max(5, (focus.radius * 1.6) / Math.tan(THREE.MathUtils.degToRad(fov / 2))) * scale
+        const direction = focus.direction.clone()
+        // Looking straight down the up axis leaves the orbit without a heading
+        if (Math.abs(direction.z) > 0.98) direction.y -= 0.2
+        direction.normalize()
+        camera.position.copy(center).addScaledVector(direction, distance)
+        const orbit = controls as unknown as OrbitTarget | null
+        if (orbit) {
+            orbit.target.copy(center)
+            orbit.update()
+        } else {
+            camera.lookAt(center)
+        }
+    }, [focus, camera, controls])
+
+    return <group ref={anchorRef} />
+}
+
+export default CameraFocus
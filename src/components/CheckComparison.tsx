@@ -0,0 +1,51 @@
+import { CheckId, CheckResult, CheckStatus } from '../lib/meshChecks'
+
+const STATUS_COLORS: Record<CheckStatus, string> = {
+    idle: '#94a3b8',
+    running: '#fde68a',
+    pass: '#4ade80',
+    fail: '#fca5a5',
+    error: '#fca5a5',
+}
+
+interface CheckComparisonProps {
+    /** Rows, in display order */
+    checks: { id: CheckId; label: string }[]
+    before: Record<CheckId, CheckResult>
+    after: Record<CheckId, CheckResult>
+}
+
+function Cell({ result }: { result: CheckResult }) {
+    return (
+        <td style={{ padding: '3px 6px', color: STATUS_COLORS[result.status] }}>
+            {result.status === 'pass' ? '✓ ' : result.status === 'fail' ? '✗ ' : ''}
+            {result.summary}
+        </td>
+    )
+}
+
+/** Before/after table of check results around a repair. */
+function CheckComparison({ checks, before, after }: CheckComparisonProps) {
+    return (
+        <table style={{ borderCollapse: 'collapse', width: '100%', fontSize: 12 }}>
+            <thead>
+                <tr style={{ color: '#94a3b8', textAlign: 'left' }}>
+                    <th style={{ padding: '3px 6px', fontWeight: 600 }}>Check</th>
+                    <th style={{ padding: '3px 6px', fontWeight: 600 }}>Before</th>
+                    <th style={{ padding: '3px 6px', fontWeight: 600 }}>After</th>
+                </tr>
+            </thead>
+            <tbody>
+                {checks.map(({ id, label }) => (
+                    <tr key={id} style={{ borderTop: '1px solid rgba(148,163,184,0.15)' }}>
+                        <td style={{ padding: '3px 6px', color: '#e2e8f0' }}>{label}</td>
+                        <Cell result={before[id]} />
+                        <Cell result={after[id]} />
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    )
+}
+
+export default CheckComparison
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react'
+import { ResultCardButton } from './ResultCard'
+import { CheckProfilesState } from '../hooks/useCheckProfiles'
+import { CHECKS, CheckId, CheckProfile } from '../lib/meshChecks'
+import { EDGE_CATEGORIES } from '../lib/meshAnalysis'
+import { downloadText } from '../lib/download'
+
+interface CheckProfileEditorProps {
+    profiles: CheckProfilesState
+    /** Editing is locked while checks run */
+    disabled?: boolean
+    /** Import failures, e.g. a malformed file */
+    onError: (message: string) => void
+}
+
+const inputStyle = {
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e5e7eb',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 6,
+    padding: '1px 4px',
+    fontSize: 12,
+}
+
+interface NumberFieldProps {
+    label: string
+    value: number | null
+    onChange: (value: number | null) => void
+    /** Show an empty box for null, e.g. "no limit" */
+    emptyLabel?: string
+    step?: number | 'any'
+    max?: number
+    /** Shown after the input, e.g. "%" */
+    unit?: string
+    disabled?: boolean
+}
+
+/** Non-negative number input; clearing it gives null when `emptyLabel` is set. */
+function NumberField({ label, value, onChange, emptyLabel, step = 1, max, unit, disabled }: NumberFieldProps) {
+    return (
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#94a3b8' }}>
+            {label}
+            <input
+                type="number"
+                min={0}
+                max={max}
+                step={step}
+                placeholder={emptyLabel}
+                value={value ?? ''}
+                disabled={disabled}
+                onChange={(e) => {
+                    if (e.target.value === '') {
+                        onChange(emptyLabel ? null : 0)
+                        return
+                    }
+                    const v = Math.max(0, Number(e.target.value) || 0)
+                    const clamped = max === undefined ? v : Math.min(max, v)
+                    onChange(step === 1 ? Math.round(clamped) : clamped)
+                }}
+                style={{ ...inputStyle, width: 64 }}
+            />
+            {unit}
+        </label>
+    )
+}
+
+/** Pick, edit, copy, delete, import and export mesh check profiles. */
+function CheckProfileEditor({ profiles, disabled, onError }: CheckProfileEditorProps) {
+    const { active } = profiles
+    const importRef = useRef<HTMLInputElement>(null)
+
+    // Renames are committed on blur so clearing the box doesn't clash names mid-typing
+    const [nameDraft, setNameDraft] = useState(active.name)
+    useEffect(() => setNameDraft(active.name), [active.name])
+
+    function set<K extends CheckId>(id: K, patch: Partial<CheckProfile[K]>) {
+        profiles.update({ ...active, [id]: { ...active[id], ...patch } })
+    }
+
+    function onExport() {
+        downloadText(profiles.exportJson(), 'mesh-check-profiles.json', 'application/json')
+    }
+
+    async function onImport(file: File) {
+        try {
+            profiles.importJson(await file.text())
+        } catch (e: any) {
+            onError(String(e?.message || e))
+        }
+    }
+
+    function fields(id: CheckId) {
+        switch (id) {
+            case 'holes':
+                return (
+                    <>
+                        <NumberField label="max holes" value={active.holes.maxHoles} onChange={(v) => set('holes', { maxHoles: v ?? 0 })} disabled={disabled} />
+                        <NumberField label="max perimeter" value={active.holes.maxPerimeter} emptyLabel="none" step="any" onChange={(v) => set('holes', { maxPerimeter: v })} disabled={disabled} />
+                    </>
+                )
+            case 'intersections':
+                return <NumberField label="max pairs" value={active.intersections.maxPairs} onChange={(v) => set('intersections', { maxPairs: v ?? 0 })} disabled={disabled} />
+            case 'shells':
+                return (
+                    <>
+                        <NumberField
+                            label="noise below"
+                            value={+(active.shells.minAreaRatio * 100).toPrecision(6)}
+                            step="any"
+                            max={100}
+                            unit="%"
+                            onChange={(v) => set('shells', { minAreaRatio: (v ?? 0) / 100 })}
+                            disabled={disabled}
+                        />
+                        <NumberField label="max noise shells" value={active.shells.maxNoiseShells} onChange={(v) => set('shells', { maxNoiseShells: v ?? 0 })} disabled={disabled} />
+                    </>
+                )
+            case 'normals':
+                return <NumberField label="max inverted faces" value={active.normals.maxInvertedFaces} onChange={(v) => set('normals', { maxInvertedFaces: v ?? 0 })} disabled={disabled} />
+            case 'edges':
+                return (
+                    <>
+                        <NumberField
+                            label="short below"
+                            value={active.edges.thresholds.minEdgeLength}
+                            step="any"
+                            onChange={(v) => set('edges', { thresholds: { ...active.edges.thresholds, minEdgeLength: v ?? 0 } })}
+                            disabled={disabled}
+                        />
+                        <NumberField
+                            label="sharp above"
+                            value={active.edges.thresholds.maxDihedralDeg}
+                            max={180}
+                            unit="°"
+                            onChange={(v) => set('edges', { thresholds: { ...active.edges.thresholds, maxDihedralDeg: v ?? 0 } })}
+                            disabled={disabled}
+                        />
+                        {EDGE_CATEGORIES.map(({ category, label }) => (
+                            <NumberField
+                                key={category}
+                                label={`max ${label.replace(/ edges$/, '').toLowerCase()}`}
+                                value={active.edges.rules[category]}
+                                emptyLabel="off"
+                                onChange={(v) => set('edges', { rules: { ...active.edges.rules, [category]: v } })}
+                                disabled={disabled}
+                            />
+                        ))}
+                    </>
+                )
+            case 'overlaps':
+                return (
+                    <>
+                        <NumberField label="max partial" value={active.overlaps.maxPairs} onChange={(v) => set('overlaps', { maxPairs: v ?? 0 })} disabled={disabled} />
+                        <NumberField label="max duplicates" value={active.overlaps.maxDuplicates} onChange={(v) => set('overlaps', { maxDuplicates: v ?? 0 })} disabled={disabled} />
+                    </>
+                )
+        }
+    }
+
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+                background: 'rgba(15,23,42,0.85)',
+                border: '1px solid rgba(148,163,184,0.25)',
+                borderRadius: 10,
+                padding: '8px 12px',
+                color: '#e2e8f0',
+                fontSize: 12,
+            }}
+        >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+                <input
+                    value={nameDraft}
+                    disabled={disabled}
+                    onChange={(e) => setNameDraft(e.target.value)}
+                    onBlur={() => profiles.update({ ...active, name: nameDraft })}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    style={{ ...inputStyle, width: 140, fontWeight: 700 }}
+                    aria-label="Profile name"
+                />
+                <ResultCardButton onClick={profiles.duplicate} disabled={disabled}>Duplicate</ResultCardButton>
+                <ResultCardButton onClick={profiles.remove} disabled={disabled || profiles.profiles.length < 2}>Delete</ResultCardButton>
+                <ResultCardButton onClick={() => importRef.current?.click()} disabled={disabled}>Import</ResultCardButton>
+                <ResultCardButton onClick={onExport}>Export</ResultCardButton>
+                <input
+                    ref={importRef}
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: 'none' }}
+                    onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        e.target.value = ''
+                        if (file) void onImport(file)
+                    }}
+                />
+            </div>
+            {CHECKS.map(({ id, label }) => (
+                <div key={id} style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontWeight: 600 }}>
+                        <input
+                            type="checkbox"
+                            checked={active[id].enabled}
+                            disabled={disabled}
+                            onChange={(e) => set(id, { enabled: e.target.checked })}
+                        />
+                        {label}
+                    </label>
+                    {active[id].enabled && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 10px', paddingLeft: 22 }}>
+                            {fields(id)}
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+export default CheckProfileEditor
@@ -0,0 +1,189 @@
+import { ResultCardButton } from './ResultCard'
+import { PlaneSection, Vec3 } from '../lib/meshAnalysis'
+import { CLIP_AXES, ClipAxis, ClipPlane, MAX_CLIP_PLANES, clipDirection, offsetRange } from '../lib/sections'
+
+/** Cap and outline colour per plane, by position in the list */
+export const CLIP_PLANE_COLORS = ['#ef4444', '#22c55e', '#a855f7']
+
+export type SectionFormat = 'svg' | 'dxf'
+
+interface ClipPlanePanelProps {
+    planes: ClipPlane[]
+    /** Mesh bounding box in STL coordinates, for the offset sliders */
+    bounds: { min: Vec3; max: Vec3 }
+    /** Computed sections by plane id; missing while stale or not yet computed */
+    sections: Map<number, PlaneSection> | null
+    onChange: (id: number, patch: Partial<ClipPlane>) => void
+    onAdd: () => void
+    onRemove: (id: number) => void
+    onExport: (id: number, format: SectionFormat) => void
+    disabled?: boolean
+}
+
+const num = (x: number) => Number(x.toPrecision(5)).toString()
+
+const numberInputStyle: React.CSSProperties = {
+    width: 52,
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e5e7eb',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 4,
+    padding: '1px 4px',
+    fontSize: 12,
+}
+
+/** Clipping planes with their offsets, and each plane's section once computed. */
+function ClipPlanePanel({
+    planes,
+    bounds,
+    sections,
+    onChange,
+    onAdd,
+    onRemove,
+    onExport,
+    disabled,
+}: ClipPlanePanelProps) {
+    // Re-centre the plane on the mesh whenever its direction changes
+    function setDirection(c: ClipPlane, patch: Partial<ClipPlane>) {
+        const next = { ...c, ...patch }
+        const [lo, hi] = offsetRange(bounds.min, bounds.max, clipDirection(next))
+        onChange(c.id, { ...patch, offset: (lo + hi) / 2 })
+    }
+
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+                background: 'rgba(15,23,42,0.85)',
+                border: '1px solid rgba(148,163,184,0.25)',
+                borderRadius: 10,
+                padding: '8px 12px',
+                color: '#e2e8f0',
+                fontSize: 12,
+                minWidth: 320,
+            }}
+        >
+            <span style={{ display: 'flex', alignItems: 'center', gap: 6, fontWeight: 700 }}>
+                Clipping planes
+                <span style={{ marginLeft: 'auto', fontWeight: 400, color: '#94a3b8' }}>STL units</span>
+            </span>
+            {planes.map((c, i) => {
+                const color = CLIP_PLANE_COLORS[i % CLIP_PLANE_COLORS.length]
+                const [lo, hi] = offsetRange(bounds.min, bounds.max, clipDirection(c))
+                const section = sections?.get(c.id)
+                const openLoops = section?.loops.filter((l) => !l.closed).length ?? 0
+                return (
+                    <div key={c.id} style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                            <span style={{ width: 10, height: 10, borderRadius: 2, background: color }} />
+                            <input
+                                type="checkbox"
+                                checked={c.enabled}
+                                onChange={(e) => onChange(c.id, { enabled: e.target.checked })}
+                                disabled={disabled}
+                                title="Cut with this plane"
+                            />
+                            <span style={{ fontWeight: 600 }}>Plane {i + 1}</span>
+                            <select
+                                value={c.axis}
+                                onChange={(e) => setDirection(c, { axis: e.target.value as ClipAxis })}
+                                disabled={disabled}
+                                style={{ padding: '1px 4px', fontSize: 12 }}
+                            >
+                                {CLIP_AXES.map((a) => (
+                                    <option key={a.axis} value={a.axis}>
+                                        {a.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: 3, color: '#94a3b8' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={c.flipped}
+                                    onChange={(e) => onChange(c.id, { flipped: e.target.checked })}
+                                    disabled={disabled}
+                                />
+                                Flip
+                            </label>
+                            <button
+                                type="button"
+                                onClick={() => onRemove(c.id)}
+                                disabled={disabled}
+                                style={{
+                                    marginLeft: 'auto',
+                                    background: 'none',
+                                    border: 'none',
+                                    color: '#94a3b8',
+                                    cursor: 'pointer',
+                                    fontSize: 13,
+                                }}
+                                title="Remove plane"
+                            >
+                                ×
+                            </button>
+                        </div>
+                        {c.axis === 'custom' && (
+                            <div style={{ display: 'flex', alignItems: 'center', gap: 4, color: '#94a3b8' }}>
+                                Normal
+                                {[0, 1, 2].map((k) => (
+                                    <input
+                                        key={k}
+                                        type="number"
+                                        step={0.1}
+                                        value={c.direction[k]}
+                                        onChange={(e) => {
+                                            const direction = [...c.direction] as Vec3
+                                            direction[k] = Number(e.target.value)
+                                            setDirection(c, { direction })
+                                        }}
+                                        disabled={disabled}
+                                        style={numberInputStyle}
+                                        title={'XYZ'[k]}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                            <input
+                                type="range"
+                                min={lo}
+                                max={hi}
+                                step={(hi - lo) / 500 || 1}
+                                value={c.offset}
+                                onChange={(e) => onChange(c.id, { offset: Number(e.target.value) })}
+                                disabled={disabled}
+                                style={{ flex: 1, accentColor: color }}
+                            />
+                            <span style={{ minWidth: 56, textAlign: 'right', color }}>{num(c.offset)}</span>
+                        </div>
+                        {section && (
+                            <div style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#cbd5e1' }}>
+                                <span title="Summed length of every section loop">
+                                    Perimeter {num(section.perimeter)}
+                                </span>
+                                <span title="Enclosed area, holes subtracted">Area {num(section.area)}</span>
+                                <span style={{ color: '#94a3b8' }}>
+                                    {section.loops.length} loop{section.loops.length === 1 ? '' : 's'}
+                                    {openLoops > 0 && `, ${openLoops} open`}
+                                </span>
+                                <span style={{ marginLeft: 'auto', display: 'flex', gap: 4 }}>
+                                    <ResultCardButton onClick={() => onExport(c.id, 'svg')}>SVG</ResultCardButton>
+                                    <ResultCardButton onClick={() => onExport(c.id, 'dxf')}>DXF</ResultCardButton>
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+            {planes.length < MAX_CLIP_PLANES && (
+                <ResultCardButton onClick={onAdd} disabled={disabled}>
+                    Add Plane
+                </ResultCardButton>
+            )}
+        </div>
+    )
+}
+
+export default ClipPlanePanel
@@ -0,0 +1,82 @@
+import { deviationGradientCss } from '../lib/deviation'
+
+interface DeviationLegendProps {
+    /** Paint results by their distance from the source instead of their colour */
+    show: boolean
+    onShowChange: (show: boolean) => void
+    /** Distance mapped to the ends of the ramp */
+    range: number
+    /** The largest deviation across the results, used while no range is set */
+    autoRange: number
+    /** null returns to the automatic range */
+    onRangeChange: (range: number | null) => void
+}
+
+const num = (x: number) => Number(x.toPrecision(3)).toString()
+
+/** Toggle, colour ramp and range slider for the deviation heatmap. */
+function DeviationLegend({ show, onShowChange, range, autoRange, onRangeChange }: DeviationLegendProps) {
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 6,
+                background: 'rgba(15,23,42,0.85)',
+                padding: '6px 14px',
+                borderRadius: 10,
+                color: '#e2e8f0',
+                fontSize: 12,
+                minWidth: 240,
+            }}
+        >
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, fontWeight: 600 }}>
+                <input
+                    type="checkbox"
+                    checked={show}
+                    onChange={(e) => onShowChange(e.target.checked)}
+                    style={{ accentColor: '#FFB500' }}
+                />
+                Deviation heatmap
+            </label>
+            {show && (
+                <>
+                    <div style={{ height: 10, borderRadius: 3, background: deviationGradientCss() }} />
+                    <div style={{ display: 'flex', justifyContent: 'space-between', color: '#94a3b8' }}>
+                        <span title="Inside the source">−{num(range)}</span>
+                        <span>0</span>
+                        <span title="Outside the source">+{num(range)}</span>
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                        <span style={{ color: '#94a3b8' }}>Range</span>
+                        <input
+                            type="range"
+                            min={autoRange / 100}
+                            max={autoRange}
+                            step={autoRange / 100}
+                            value={Math.min(range, autoRange)}
+                            onChange={(e) => onRangeChange(Number(e.target.value))}
+                            style={{ flex: 1, accentColor: '#FFB500' }}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => onRangeChange(null)}
+                            style={{
+                                background: 'none',
+                                border: 'none',
+                                color: range === autoRange ? '#64748b' : '#FFB500',
+                                cursor: 'pointer',
+                                fontSize: 12,
+                            }}
+                            title="Fit the range to the largest deviation"
+                        >
+                            Auto
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+export default DeviationLegend
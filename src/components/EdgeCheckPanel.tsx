@@ -0,0 +1,72 @@
+import { EDGE_CATEGORIES, EdgeAnalysis, EdgeCategory, EdgeRules } from '../lib/meshAnalysis'
+
+/** Overlay colour per category, shared with the viewer's line overlays */
+export const EDGE_COLORS: Record<EdgeCategory, string> = {
+    boundary: '#facc15',
+    nonManifold: '#f97316',
+    short: '#a855f7',
+    sharp: '#22d3ee',
+}
+
+interface EdgeCheckPanelProps {
+    /** Last run's edges */
+    edges: EdgeAnalysis
+    /** The active profile's per-category limits */
+    rules: EdgeRules
+    /** Categories drawn in the viewer */
+    visible: Record<EdgeCategory, boolean>
+    onVisibleChange: (visible: Record<EdgeCategory, boolean>) => void
+}
+
+/** Per-category edge counts against their limits, with overlay toggles. */
+function EdgeCheckPanel({ edges, rules, visible, onVisibleChange }: EdgeCheckPanelProps) {
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 6,
+                background: 'rgba(15,23,42,0.85)',
+                border: '1px solid rgba(148,163,184,0.25)',
+                borderRadius: 10,
+                padding: '8px 12px',
+                color: '#e2e8f0',
+                fontSize: 12,
+            }}
+        >
+            <span style={{ fontWeight: 700 }}>Edges</span>
+            {EDGE_CATEGORIES.map(({ category, label }) => {
+                const count = edges[category].length / 6
+                const rule = rules[category]
+                const fails = rule !== null && count > rule
+                return (
+                    <div key={category} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                        <input
+                            type="checkbox"
+                            checked={visible[category]}
+                            onChange={(e) => onVisibleChange({ ...visible, [category]: e.target.checked })}
+                            title="Draw in viewer"
+                        />
+                        <span
+                            style={{
+                                width: 10,
+                                height: 3,
+                                background: EDGE_COLORS[category],
+                                flexShrink: 0,
+                            }}
+                        />
+                        <span style={{ minWidth: 120 }}>{label}</span>
+                        <span style={{ minWidth: 56, textAlign: 'right', color: fails ? '#fca5a5' : '#cbd5e1' }}>
+                            {count.toLocaleString()}
+                        </span>
+                        <span style={{ marginLeft: 'auto', color: '#94a3b8' }}>
+                            {rule === null ? 'report only' : `limit ${rule}`}
+                        </span>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
+
+export default EdgeCheckPanel
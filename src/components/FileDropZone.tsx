@@ -0,0 +1,60 @@
+import { DragEvent, ReactNode, useRef, useState } from 'react'
+
+interface FileDropZoneProps {
+    children: ReactNode
+    onFilesDropped: (files: File[]) => void
+    /** Text shown in the overlay while files are dragged over the zone */
+    label?: string
+}
+
+/**
+ * Wraps the canvas so mesh files can be dropped straight onto it.
+ * Shows a dashed overlay while a drag carrying files is over the zone.
+ */
+function FileDropZone({ children, onFilesDropped, label = 'Drop mesh files to load' }: FileDropZoneProps) {
+    const [isDragging, setIsDragging] = useState(false)
+    // dragenter/dragleave fire for every child element; count depth instead
+    const depthRef = useRef(0)
+
+    function hasFiles(e: DragEvent) {
+        return Array.from(e.dataTransfer.types).includes('Files')
+    }
+
+    return (
+        <div
+            style={{ position: 'relative', width: '100%', height: '100%' }}
+            onDragEnter={(e) => {
+                if (!hasFiles(e)) return
+                e.preventDefault()
+                depthRef.current++
+                setIsDragging(true)
+            }}
+            onDragOver={(e) => {
+                if (!hasFiles(e)) return
+                e.preventDefault()
+                e.dataTransfer.dropEffect = 'copy'
+            }}
+            onDragLeave={() => {
+                depthRef.current = Math.max(0, depthRef.current - 1)
+                if (depthRef.current === 0) setIsDragging(false)
+            }}
+            onDrop={(e) => {
+                if (!hasFiles(e)) return
+                e.preventDefault()
+                depthRef.current = 0
+                setIsDragging(false)
+                const files = Array.from(e.dataTransfer.files)
+                if (files.length > 0) onFilesDropped(files)
+            }}
+        >
+            {children}
+            {isDragging && (
+                <div className="file-drop-overlay">
+                    <span className="file-drop-overlay__label">{label}</span>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default FileDropZone
@@ -1,25 +1,79 @@
+import { ReactNode, useRef } from 'react'
+import { MESH_FILE_ACCEPT, MeshFileEntry } from '../lib/meshFiles'
+
 interface FileSelectorProps {
-    files: string[]
+    files: MeshFileEntry[]
     selectedFile: string
-    onFileSelect: (filename: string) => void
+    onFileSelect: (key: string) => void
+    /** When provided, shows an "Open file…" button for picking files from disk */
+    onFilesAdded?: (files: File[]) => void
+    isLoading?: boolean
+    error?: string
+    /** Extra content rendered at the bottom of the panel */
+    children?: ReactNode
 }
 
-function FileSelector({ files, selectedFile, onFileSelect }: FileSelectorProps) {
+function FileSelector({ files, selectedFile, onFileSelect, onFilesAdded, isLoading = false, error, children }: FileSelectorProps) {
+    const inputRef = useRef<HTMLInputElement>(null)
+    const builtin = files.filter((f) => f.source === 'builtin')
+    const local = files.filter((f) => f.source === 'local')
+
     return (
         <div className="ui-panel">
             <label>
-                STL File:
+                Mesh File:
                 <select
                     value={selectedFile}
                     onChange={(e) => onFileSelect(e.target.value)}
                 >
-                    {files.map((file) => (
-                        <option key={file} value={file}>
-                            {file}
-                        </option>
-                    ))}
+                    <optgroup label="Built-in">
+                        {builtin.map((file) => (
+                            <option key={file.key} value={file.key}>
+                                {file.name}
+                            </option>
+                        ))}
+                    </optgroup>
+                    {local.length > 0 && (
+                        <optgroup label="Local files">
+                            {local.map((file) => (
+                                <option key={file.key} value={file.key}>
+                                    {file.name}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
                 </select>
             </label>
+            {onFilesAdded && (
+                <>
+                    <button
+                        type="button"
+                        className="file-selector__open"
+                        onClick={() => inputRef.current?.click()}
+                    >
+                        Open file…
+                    </button>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        accept={MESH_FILE_ACCEPT}
+                        multiple
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                            const picked = Array.from(e.target.files ?? [])
+                            // Reset so picking the same file again still fires onChange
+                            e.target.value = ''
+                            if (picked.length > 0) onFilesAdded(picked)
+                        }}
+                    />
+                    <span style={{ color: '#64748b', fontSize: 11 }}>
+                        …or drop STL, OBJ, PLY or 3MF files onto the canvas
+                    </span>
+                </>
+            )}
+            {isLoading && <span style={{ color: '#94a3b8', fontSize: 12 }}>Loading…</span>}
+            {error && <span style={{ color: '#fca5a5', fontSize: 12 }}>{error}</span>}
+            {children}
         </div>
     )
 }
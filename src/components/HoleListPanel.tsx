@@ -0,0 +1,128 @@
+import { ResultCardButton } from './ResultCard'
+import { HOLE_FILL_METHODS, HoleFillMethod, HoleLoop } from '../lib/meshAnalysis'
+
+/** Boundary colours shared with the viewer overlay */
+export const HOLE_COLORS = {
+    selected: '#38bdf8',
+    focused: '#f8fafc',
+}
+
+interface HoleListPanelProps {
+    holes: HoleLoop[]
+    /** Indices of the holes ticked for filling */
+    selected: Set<number>
+    onSelectedChange: (selected: Set<number>) => void
+    /** The hole the camera is framed on */
+    focused: number | null
+    onFocus: (index: number) => void
+    method: HoleFillMethod
+    onMethodChange: (method: HoleFillMethod) => void
+    onFill: () => void
+    disabled?: boolean
+}
+
+/** Every boundary loop with its size and flatness; click to frame, tick to fill. */
+function HoleListPanel({
+    holes,
+    selected,
+    onSelectedChange,
+    focused,
+    onFocus,
+    method,
+    onMethodChange,
+    onFill,
+    disabled,
+}: HoleListPanelProps) {
+    function toggle(index: number, on: boolean) {
+        const next = new Set(selected)
+        if (on) next.add(index)
+        else next.delete(index)
+        onSelectedChange(next)
+    }
+
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 6,
+                background: 'rgba(15,23,42,0.85)',
+                border: '1px solid rgba(148,163,184,0.25)',
+                borderRadius: 10,
+                padding: '8px 12px',
+                color: '#e2e8f0',
+                fontSize: 12,
+            }}
+        >
+            <span style={{ display: 'flex', alignItems: 'center', gap: 6, fontWeight: 700 }}>
+                Holes
+                <label style={{ marginLeft: 'auto', fontWeight: 400, color: '#94a3b8' }}>
+                    <input
+                        type="checkbox"
+                        checked={selected.size === holes.length}
+                        onChange={(e) => onSelectedChange(new Set(e.target.checked ? holes.map((h) => h.index) : []))}
+                    />{' '}
+                    all
+                </label>
+            </span>
+            <div style={{ maxHeight: 180, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+                {holes.map((h) => (
+                    <div
+                        key={h.index}
+                        onClick={() => onFocus(h.index)}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 6,
+                            cursor: 'pointer',
+                            borderRadius: 4,
+                            background: focused === h.index ? 'rgba(56,189,248,0.15)' : undefined,
+                            color: selected.has(h.index) ? HOLE_COLORS.selected : '#cbd5e1',
+                        }}
+                        title="Frame in viewer"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={selected.has(h.index)}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => toggle(h.index, e.target.checked)}
+                            title="Fill this hole"
+                        />
+                        <span style={{ minWidth: 28 }}>#{h.index + 1}</span>
+                        <span style={{ minWidth: 64 }}>{h.edgeCount.toLocaleString()} edges</span>
+                        <span style={{ minWidth: 86 }}>perim. {h.perimeter.toPrecision(4)}</span>
+                        <span style={{ minWidth: 80 }}>area {h.area.toPrecision(3)}</span>
+                        <span style={{ color: '#94a3b8' }} title="Largest distance from the hole's mean plane">
+                            {h.planarity === 0 ? 'flat' : `±${h.planarity.toPrecision(2)}`}
+                        </span>
+                    </div>
+                ))}
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+                <select
+                    value={method}
+                    onChange={(e) => onMethodChange(e.target.value as HoleFillMethod)}
+                    style={{
+                        background: 'rgba(2,6,23,0.6)',
+                        color: '#e5e7eb',
+                        border: '1px solid rgba(148,163,184,0.25)',
+                        borderRadius: 6,
+                        padding: '2px 4px',
+                        fontSize: 12,
+                    }}
+                >
+                    {HOLE_FILL_METHODS.map((m) => (
+                        <option key={m.method} value={m.method}>
+                            {m.label}
+                        </option>
+                    ))}
+                </select>
+                <ResultCardButton onClick={onFill} disabled={disabled || selected.size === 0}>
+                    {selected.size > 0 ? `Fill ${selected.size} Selected` : 'Fill Selected'}
+                </ResultCardButton>
+            </div>
+        </div>
+    )
+}
+
+export default HoleListPanel
@@ -0,0 +1,76 @@
+import { ResultCardButton } from './ResultCard'
+import { IntersectionCluster } from '../lib/meshAnalysis'
+
+/** Face colours shared with the viewer */
+export const CLUSTER_COLORS = {
+    all: '#f97316',
+    selected: '#ef4444',
+}
+
+interface IntersectionClusterPanelProps {
+    clusters: IntersectionCluster[]
+    /** The cluster painted and offered for repair; null paints every cut face */
+    selected: number | null
+    onSelect: (index: number | null) => void
+    onRepair: () => void
+    disabled?: boolean
+}
+
+/** Regions of self-intersecting faces, largest first; click one to repair it alone. */
+function IntersectionClusterPanel({ clusters, selected, onSelect, onRepair, disabled }: IntersectionClusterPanelProps) {
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 6,
+                background: 'rgba(15,23,42,0.85)',
+                border: '1px solid rgba(148,163,184,0.25)',
+                borderRadius: 10,
+                padding: '8px 12px',
+                color: '#e2e8f0',
+                fontSize: 12,
+                minWidth: 260,
+            }}
+        >
+            <span style={{ display: 'flex', alignItems: 'center', gap: 6, fontWeight: 700 }}>
+                Intersection clusters
+                {selected !== null && (
+                    <span
+                        onClick={() => onSelect(null)}
+                        style={{ marginLeft: 'auto', fontWeight: 400, color: '#94a3b8', cursor: 'pointer' }}
+                    >
+                        show all
+                    </span>
+                )}
+            </span>
+            <div style={{ maxHeight: 180, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+                {clusters.map((c) => (
+                    <div
+                        key={c.index}
+                        onClick={() => onSelect(selected === c.index ? null : c.index)}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 6,
+                            cursor: 'pointer',
+                            borderRadius: 4,
+                            background: selected === c.index ? 'rgba(239,68,68,0.15)' : undefined,
+                            color: selected === c.index ? CLUSTER_COLORS.selected : '#cbd5e1',
+                        }}
+                        title="Select this cluster"
+                    >
+                        <span style={{ minWidth: 28 }}>#{c.index + 1}</span>
+                        <span style={{ minWidth: 72 }}>{c.faceCount.toLocaleString()} faces</span>
+                        <span style={{ color: '#94a3b8' }}>{c.segmentCount.toLocaleString()} segments</span>
+                    </div>
+                ))}
+            </div>
+            <ResultCardButton onClick={onRepair} disabled={disabled || selected === null}>
+                {selected !== null ? `Repair Cluster #${selected + 1}` : 'Select a Cluster to Repair'}
+            </ResultCardButton>
+        </div>
+    )
+}
+
+export default IntersectionClusterPanel
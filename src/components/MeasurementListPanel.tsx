@@ -0,0 +1,113 @@
+import { ResultCardButton } from './ResultCard'
+import { MEASUREMENT_COLORS } from './MeasurementOverlay'
+import { MEASUREMENT_TOOLS, Measurement, formatMeasurement } from '../lib/measurements'
+
+interface MeasurementListPanelProps {
+    measurements: Measurement[]
+    selectedId: number | null
+    onSelect: (id: number | null) => void
+    onRename: (id: number, label: string) => void
+    onRemove: (id: number) => void
+    onClear: () => void
+    onExportCsv: () => void
+}
+
+const inputStyle: React.CSSProperties = {
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e5e7eb',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 4,
+    padding: '1px 4px',
+    fontSize: 12,
+    width: 110,
+}
+
+/** Saved measurements with editable labels; values are in STL units. */
+function MeasurementListPanel({
+    measurements,
+    selectedId,
+    onSelect,
+    onRename,
+    onRemove,
+    onClear,
+    onExportCsv,
+}: MeasurementListPanelProps) {
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 6,
+                background: 'rgba(15,23,42,0.85)',
+                border: '1px solid rgba(148,163,184,0.25)',
+                borderRadius: 10,
+                padding: '8px 12px',
+                color: '#e2e8f0',
+                fontSize: 12,
+                minWidth: 300,
+            }}
+        >
+            <span style={{ display: 'flex', alignItems: 'center', gap: 6, fontWeight: 700 }}>
+                Measurements
+                <span style={{ marginLeft: 'auto', fontWeight: 400, color: '#94a3b8' }}>STL units</span>
+            </span>
+            <div style={{ maxHeight: 220, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+                {measurements.map((m) => (
+                    <div
+                        key={m.id}
+                        onClick={() => onSelect(selectedId === m.id ? null : m.id)}
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 6,
+                            cursor: 'pointer',
+                            borderRadius: 4,
+                            background: selectedId === m.id ? 'rgba(249,115,22,0.15)' : undefined,
+                        }}
+                    >
+                        <input
+                            value={m.label}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => onRename(m.id, e.target.value)}
+                            style={inputStyle}
+                            title="Rename"
+                        />
+                        <span style={{ color: '#94a3b8', minWidth: 64 }}>
+                            {MEASUREMENT_TOOLS.find((t) => t.kind === m.kind)?.label}
+                        </span>
+                        <span
+                            style={{ color: selectedId === m.id ? MEASUREMENT_COLORS.selected : MEASUREMENT_COLORS.line }}
+                            title={m.circle ? `Fit RMS ${m.circle.rms.toPrecision(3)}` : undefined}
+                        >
+                            {formatMeasurement(m)}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onRemove(m.id)
+                            }}
+                            style={{
+                                marginLeft: 'auto',
+                                background: 'none',
+                                border: 'none',
+                                color: '#94a3b8',
+                                cursor: 'pointer',
+                                fontSize: 13,
+                            }}
+                            title="Delete"
+                        >
+                            ×
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <div style={{ display: 'flex', gap: 6 }}>
+                <ResultCardButton onClick={onExportCsv}>Export CSV</ResultCardButton>
+                <ResultCardButton onClick={onClear}>Clear All</ResultCardButton>
+            </div>
+        </div>
+    )
+}
+
+export default MeasurementListPanel
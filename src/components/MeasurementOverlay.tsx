@@ -0,0 +1,129 @@
+import { Billboard, Line, Text } from '@react-three/drei'
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import { Vec3 } from '../lib/meshAnalysis'
+import { Measurement, formatMeasurement } from '../lib/measurements'
+import { ViewerTransform, toViewer } from '../lib/viewerTransform'
+
+export const MEASUREMENT_COLORS = {
+    line: '#facc15',
+    selected: '#f97316',
+    pending: '#38bdf8',
+}
+
+/** Segments drawn around a fitted circle */
+const CIRCLE_SEGMENTS = 64
+
+interface MeasurementOverlayProps {
+    measurements: Measurement[]
+    /** Points picked for the measurement in progress, STL coordinates */
+    pending: Vec3[]
+    selectedId: number | null
+    transform: ViewerTransform
+}
+
+interface Drawn {
+    id: number
+    lines: THREE.Vector3[][]
+    points: THREE.Vector3[]
+    labelAt: THREE.Vector3
+    text: string
+}
+
+/** Lines, pick markers and labels for every measurement, in viewer space. */
+function MeasurementOverlay({ measurements, pending, selectedId, transform }: MeasurementOverlayProps) {
+    const drawn = useMemo<Drawn[]>(() => {
+        const v = (p: ArrayLike<number>, i = 0) => toViewer(transform, p[i], p[i + 1], p[i + 2])
+        return measurements.map((m) => {
+            const points = m.picks.map((pick) => v(pick.point))
+            let lines: THREE.Vector3[][] = []
+            let labelAt = points[0]
+            switch (m.kind) {
+                case 'distance':
+                    lines = [points]
+                    labelAt = points[0].clone().lerp(points[1], 0.5)
+                    break
+                case 'angle':
+                    lines = [[points[0], points[1], points[2]]]
+                    labelAt = points[1]
+                    break
+                case 'circle': {
+                    const c = m.circle!
+                    const normal = new THREE.Vector3(...c.normal)
+                    const u = new THREE.Vector3().crossVectors(normal, Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0)).normalize()
+                    const w = new THREE.Vector3().crossVectors(normal, u)
+                    const ring: THREE.Vector3[] = []
+                    for (let i = 0; i <= CIRCLE_SEGMENTS; i++) {
+                        const a = (i / CIRCLE_SEGMENTS) * Math.PI * 2
+                        const q = new THREE.Vector3(...c.center)
+                            .addScaledVector(u, Math.cos(a) * c.radius)
+                            .addScaledVector(w, Math.sin(a) * c.radius)
+                        ring.push(v([q.x, q.y, q.z]))
+                    }
+                    lines = [ring]
+                    labelAt = v(c.center)
+                    break
+                }
+                case 'path': {
+                    const path = m.path ?? []
+                    const polyline: THREE.Vector3[] = []
+                    for (let i = 0; i < path.length; i += 3) polyline.push(v(path, i))
+                    lines = [polyline]
+                    labelAt = polyline[Math.floor(polyline.length / 2)] ?? labelAt
+                    break
+                }
+            }
+            return { id: m.id, lines, points, labelAt, text: `${m.label}: ${formatMeasurement(m)}` }
+        })
+    }, [measurements, transform])
+
+    const pendingPoints = useMemo(
+        () => pending.map((p) => toViewer(transform, p[0], p[1], p[2])),
+        [pending, transform],
+    )
+
+    return (
+        <group>
+            {drawn.map((d) => {
+                const color = d.id === selectedId ? MEASUREMENT_COLORS.selected : MEASUREMENT_COLORS.line
+                return (
+                    <group key={d.id}>
+                        {d.lines.filter((l) => l.length > 1).map((l, i) => (
+                            <Line key={i} points={l} color={color} lineWidth={d.id === selectedId ? 3 : 2} depthTest={false} />
+                        ))}
+                        {d.points.map((p, i) => (
+                            <mesh key={i} position={p} renderOrder={2}>
+                                <sphereGeometry args={[0.35, 12, 12]} />
+                                <meshBasicMaterial color={color} depthTest={false} />
+                            </mesh>
+                        ))}
+                        <Billboard position={d.labelAt}>
+                            <Text
+                                position={[0, 1.2, 0]}
+                                fontSize={1.6}
+                                color={color}
+                                anchorX="center"
+                                anchorY="bottom"
+                                outlineWidth={0.12}
+                                outlineColor="#000000"
+                            >
+                                {d.text}
+                            </Text>
+                        </Billboard>
+                    </group>
+                )
+            })}
+            {pendingPoints.length > 1 && (
+                <Line points={pendingPoints} color={MEASUREMENT_COLORS.pending} lineWidth={1.5} dashed dashSize={0.8} gapSize={0.5} depthTest={false} />
+            )}
+            {pendingPoints.map((p, i) => (
+                <mesh key={i} position={p} renderOrder={2}>
+                    <sphereGeometry args={[0.35, 12, 12]} />
+                    <meshBasicMaterial color={MEASUREMENT_COLORS.pending} depthTest={false} />
+                </mesh>
+            ))}
+        </group>
+    )
+}
+
+export default MeasurementOverlay
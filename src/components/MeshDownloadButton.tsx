@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import { ResultCardButton } from './ResultCard'
+import { MESH_EXPORT_FORMATS, MeshExportFormat, downloadMesh } from '../lib/meshExport'
+
+interface MeshDownloadButtonProps {
+    /** Binary STL bytes of the mesh to export */
+    data: ArrayBuffer
+    /** File name without extension */
+    name: string
+    disabled?: boolean
+}
+
+/** Format picker plus "Download" button, sized to sit inside a result card. */
+function MeshDownloadButton({ data, name, disabled }: MeshDownloadButtonProps) {
+    const [format, setFormat] = useState<MeshExportFormat>('stl-binary')
+    const [error, setError] = useState('')
+
+    function onDownload() {
+        try {
+            setError('')
+            downloadMesh(data, format, name)
+        } catch (e: any) {
+            console.error('[MeshDownload] export failed:', e)
+            setError(String(e?.message || e))
+        }
+    }
+
+    return (
+        <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+            <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as MeshExportFormat)}
+                disabled={disabled}
+                style={{
+                    background: 'rgba(2,6,23,0.6)',
+                    color: '#e5e7eb',
+                    border: '1px solid rgba(148,163,184,0.25)',
+                    borderRadius: 6,
+                    padding: '2px 4px',
+                    fontSize: 12,
+                }}
+            >
+                {MESH_EXPORT_FORMATS.map((f) => (
+                    <option key={f.format} value={f.format}>{f.label}</option>
+                ))}
+            </select>
+            <ResultCardButton onClick={onDownload} disabled={disabled}>
+                Download
+            </ResultCardButton>
+            {error && <span style={{ color: '#fca5a5', fontSize: 11 }}>{error}</span>}
+        </span>
+    )
+}
+
+export default MeshDownloadButton
@@ -0,0 +1,67 @@
+import { useMeshSession } from '../context/MeshSessionContext'
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '3px 10px',
+    borderRadius: 6,
+    border: '1px solid rgba(148,163,184,0.25)',
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e2e8f0',
+    fontSize: 12,
+    cursor: 'pointer',
+}
+
+/**
+ * Edit history of the shared mesh session. Click an entry to make it the
+ * current mesh again; Undo / Redo step through the list.
+ */
+function MeshHistory() {
+    const { history, historyIndex, undo, redo, revertTo } = useMeshSession()
+    if (history.length <= 1) return null
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <span style={{ color: '#cbd5e1', fontWeight: 500 }}>Edit history</span>
+                <button
+                    type="button"
+                    style={{ ...smallButtonStyle, marginLeft: 'auto' }}
+                    disabled={historyIndex <= 0}
+                    onClick={undo}
+                >
+                    Undo
+                </button>
+                <button
+                    type="button"
+                    style={smallButtonStyle}
+                    disabled={historyIndex >= history.length - 1}
+                    onClick={redo}
+                >
+                    Redo
+                </button>
+            </div>
+            {history.map((entry, i) => (
+                <button
+                    key={i}
+                    type="button"
+                    onClick={() => revertTo(i)}
+                    style={{
+                        ...smallButtonStyle,
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        gap: 8,
+                        textAlign: 'left',
+                        borderColor: i === historyIndex ? '#FFB500' : 'rgba(148,163,184,0.25)',
+                        color: i > historyIndex ? '#64748b' : '#e2e8f0',
+                    }}
+                >
+                    <span>{i + 1}. {entry.label}</span>
+                    {entry.faces !== null && (
+                        <span style={{ color: '#94a3b8' }}>{entry.faces.toLocaleString()} faces</span>
+                    )}
+                </button>
+            ))}
+        </div>
+    )
+}
+
+export default MeshHistory
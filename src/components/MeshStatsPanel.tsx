@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { Histogram, MeshStatistics, Vec3 } from '../lib/meshAnalysis'
+import { MeshAnalysisClient } from '../lib/meshAnalysisClient'
+import { isAbortError } from '../lib/rpc/protocol'
+
+const HISTOGRAM_WIDTH = 220
+const HISTOGRAM_HEIGHT = 36
+
+function num(value: number): string {
+    if (value === 0) return '0'
+    const abs = Math.abs(value)
+    return abs >= 1e5 || abs < 1e-3 ? value.toExponential(3) : Number(value.toPrecision(5)).toString()
+}
+
+function vec(v: Vec3): string {
+    return v.map(num).join(', ')
+}
+
+function HistogramChart({ label, histogram }: { label: string; histogram: Histogram }) {
+    const peak = Math.max(1, ...histogram.counts)
+    const barWidth = HISTOGRAM_WIDTH / histogram.counts.length
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <span style={{ color: '#cbd5e1' }}>{label}</span>
+            <svg width={HISTOGRAM_WIDTH} height={HISTOGRAM_HEIGHT} style={{ background: 'rgba(2,6,23,0.6)', borderRadius: 4 }}>
+                {histogram.counts.map((count, i) => {
+                    const h = (count / peak) * (HISTOGRAM_HEIGHT - 2)
+                    return (
+                        <rect
+                            key={i}
+                            x={i * barWidth + 0.5}
+                            y={HISTOGRAM_HEIGHT - h}
+                            width={Math.max(1, barWidth - 1)}
+                            height={h}
+                            fill="#38bdf8"
+                        >
+                            <title>{count.toLocaleString()}</title>
+                        </rect>
+                    )
+                })}
+            </svg>
+            <span style={{ display: 'flex', justifyContent: 'space-between', color: '#64748b', fontSize: 11 }}>
+                <span>{num(histogram.min)}</span>
+                <span>{histogram.clipped ? `≥ ${num(histogram.max)}` : num(histogram.max)}</span>
+            </span>
+        </div>
+    )
+}
+
+function Row({ label, value, color }: { label: string; value: string; color?: string }) {
+    return (
+        <span style={{ display: 'flex', gap: 8 }}>
+            <span style={{ color: '#94a3b8', minWidth: 86 }}>{label}</span>
+            <span style={{ color: color ?? '#e2e8f0' }}>{value}</span>
+        </span>
+    )
+}
+
+/**
+ * Geometry metrics of the session's current mesh, in the file's own units.
+ * Computed in the analysis worker the first time the panel is opened for a
+ * mesh, so closed panels cost nothing.
+ */
+function MeshStatsPanel() {
+    const { data } = useMeshSession()
+    const [open, setOpen] = useState(false)
+    const [stats, setStats] = useState<{ data: ArrayBuffer; stats: MeshStatistics } | null>(null)
+    const [error, setError] = useState('')
+    const clientRef = useRef<MeshAnalysisClient | null>(null)
+
+    useEffect(() => {
+        const client = new MeshAnalysisClient()
+        clientRef.current = client
+        return () => {
+            client.dispose()
+            clientRef.current = null
+        }
+    }, [])
+
+    const current = stats && stats.data === data ? stats.stats : null
+
+    useEffect(() => {
+        const client = clientRef.current
+        if (!open || !data || !client || current) return
+        const controller = new AbortController()
+        setError('')
+        client
+            .statistics(data, { signal: controller.signal })
+            .then((r) => setStats({ data, stats: r }))
+            .catch((e) => {
+                if (!isAbortError(e)) setError(String(e?.message || e))
+            })
+        return () => controller.abort()
+    }, [open, data, current])
+
+    if (!data) return null
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12 }}>
+            <span
+                onClick={() => setOpen(!open)}
+                style={{ color: '#cbd5e1', fontWeight: 500, fontSize: 13, cursor: 'pointer', userSelect: 'none' }}
+            >
+                {open ? '▾' : '▸'} Statistics
+            </span>
+            {open && !current && !error && <span style={{ color: '#94a3b8' }}>Measuring…</span>}
+            {open && error && <span style={{ color: '#fca5a5' }}>{error}</span>}
+            {open && current && (
+                <>
+                    <Row
+                        label="Elements"
+                        value={`${current.vertexCount.toLocaleString()} V · ${current.faceCount.toLocaleString()} F · ${current.edgeCount.toLocaleString()} E`}
+                    />
+                    <Row label="Shells" value={current.shellCount.toLocaleString()} />
+                    <Row
+                        label="Watertight"
+                        value={
+                            current.watertight
+                                ? 'yes'
+                                : `no (${current.boundaryEdges.toLocaleString()} boundary, ${current.nonManifoldEdges.toLocaleString()} non-manifold edges)`
+                        }
+                        color={current.watertight ? '#4ade80' : '#fbbf24'}
+                    />
+                    <Row
+                        label="Genus"
+                        value={current.genus === null ? '— (not closed)' : `${current.genus} (χ = ${current.eulerCharacteristic})`}
+                    />
+                    <Row label="Surface area" value={num(current.surfaceArea)} />
+                    <Row
+                        label="Volume"
+                        value={current.watertight ? num(current.volume) : `${num(current.volume)} (open mesh)`}
+                        color={current.volume < 0 ? '#fbbf24' : undefined}
+                    />
+                    <Row label={`Centroid (${current.centroidKind})`} value={vec(current.centroid)} />
+                    <Row label="Bounds min" value={vec(current.bboxMin)} />
+                    <Row label="Bounds max" value={vec(current.bboxMax)} />
+                    <Row
+                        label="Size"
+                        value={vec(current.bboxMax.map((v, d) => v - current.bboxMin[d]) as Vec3)}
+                    />
+                    <HistogramChart label="Edge length" histogram={current.edgeLength} />
+                    <HistogramChart label="Face area" histogram={current.faceArea} />
+                    <HistogramChart
+                        label={
+                            current.degenerateFaces > 0
+                                ? `Aspect ratio (${current.degenerateFaces.toLocaleString()} degenerate faces left out)`
+                                : 'Aspect ratio'
+                        }
+                        histogram={current.aspectRatio}
+                    />
+                </>
+            )}
+        </div>
+    )
+}
+
+export default MeshStatsPanel
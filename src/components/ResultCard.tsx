@@ -0,0 +1,65 @@
+import { ReactNode } from 'react'
+
+interface ResultCardProps {
+    /** Headline, usually matching the billboard label over the result */
+    title: string
+    /** Accent colour matching the result's mesh colour */
+    color: string
+    /** One line of secondary info per entry */
+    details?: string[]
+    /** Action buttons */
+    children?: ReactNode
+}
+
+/** Small DOM card describing one processed result shown on the grid. */
+function ResultCard({ title, color, details = [], children }: ResultCardProps) {
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 4,
+                background: 'rgba(15,23,42,0.85)',
+                border: `1px solid ${color}`,
+                borderRadius: 10,
+                padding: '8px 12px',
+            }}
+        >
+            <span style={{ color, fontWeight: 700, fontSize: 13 }}>{title}</span>
+            {details.map((d, i) => (
+                <span key={i} style={{ color: '#94a3b8', fontSize: 11 }}>{d}</span>
+            ))}
+            {children && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 2 }}>
+                    {children}
+                </div>
+            )}
+        </div>
+    )
+}
+
+/** Compact button used inside result cards. */
+export function ResultCardButton({ onClick, disabled, children }: { onClick: () => void; disabled?: boolean; children: ReactNode }) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={disabled}
+            style={{
+                padding: '3px 10px',
+                borderRadius: 6,
+                border: '1px solid rgba(255,181,0,0.35)',
+                background: 'rgba(2,6,23,0.6)',
+                color: '#FFB500',
+                fontSize: 12,
+                fontWeight: 600,
+                cursor: disabled ? 'not-allowed' : 'pointer',
+                opacity: disabled ? 0.6 : 1,
+            }}
+        >
+            {children}
+        </button>
+    )
+}
+
+export default ResultCard
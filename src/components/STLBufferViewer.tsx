@@ -1,50 +1,43 @@
 import { useMemo } from 'react'
 import { STLLoader } from 'three/addons/loaders/STLLoader.js'
 import * as THREE from 'three'
+import { ViewerTransform, toViewerGeometry } from '../lib/viewerTransform'
 
 interface STLBufferViewerProps {
     data: ArrayBuffer
+    /**
+     * The session's transform for the mesh `data` was derived from, so a
+     * result sits at the same scale and position as its source
+     */
+    transform: ViewerTransform
     color?: string
+    /**
+     * Optional rgb (0–1) per STL corner (3 per face, in face order), e.g. a
+     * deviation heatmap. Ignored when it does not match the geometry.
+     */
+    vertexColors?: Float32Array | null
 }
 
-function processGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
-    const geo = geometry.clone()
-    geo.computeVertexNormals()
-    geo.center()
-
-    geo.computeBoundingBox()
-    const bbox = geo.boundingBox
-    if (bbox) {
-        const size = new THREE.Vector3()
-        bbox.getSize(size)
-        const maxDim = Math.max(size.x, size.y, size.z)
-
-        if (maxDim > 0) {
-            const scale = 50 / maxDim
-            geo.scale(scale, scale, scale)
-        }
-
-        geo.computeBoundingBox()
-        const bbox2 = geo.boundingBox
-        if (bbox2) {
-            geo.translate(0, 0, -bbox2.min.z)
-        }
-    }
-
-    return geo
-}
-
-function STLBufferViewer({ data, color = '#22c55e' }: STLBufferViewerProps) {
+function STLBufferViewer({ data, transform, color = '#22c55e', vertexColors }: STLBufferViewerProps) {
     const geometry = useMemo(() => {
         const loader = new STLLoader()
         const parsed = loader.parse(data) as THREE.BufferGeometry
-        return processGeometry(parsed)
-    }, [data])
+        return toViewerGeometry(transform, parsed)
+    }, [data, transform])
+
+    const coloredGeometry = useMemo(() => {
+        if (!vertexColors || vertexColors.length !== geometry.getAttribute('position').count * 3) return null
+        const geo = geometry.clone()
+        geo.setAttribute('color', new THREE.BufferAttribute(vertexColors, 3))
+        return geo
+    }, [geometry, vertexColors])
 
     return (
-        <mesh geometry={geometry} castShadow receiveShadow>
+        <mesh geometry={coloredGeometry ?? geometry} castShadow receiveShadow>
             <meshPhysicalMaterial
-                color={color}
+                key={coloredGeometry ? 'colored' : 'plain'}
+                color={coloredGeometry ? '#ffffff' : color}
+                vertexColors={!!coloredGeometry}
                 roughness={0.45}
                 metalness={0.05}
                 clearcoat={0.15}
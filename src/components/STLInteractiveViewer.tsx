@@ -1,5 +1,5 @@
 /**
- * STLInteractiveViewer – loads an STL file and supports face-level interaction.
+ * STLInteractiveViewer – renders a parsed STL and supports face-level interaction.
  *
  * Features:
  *   • Raycasting on click → returns faceIndex + intersection point
@@ -11,11 +11,11 @@
  * triangle's three vertices can be coloured independently, enabling per-face
  * highlighting.
  */
-import { useLoader, ThreeEvent } from '@react-three/fiber'
-import { STLLoader } from 'three/addons/loaders/STLLoader.js'
+import { ThreeEvent } from '@react-three/fiber'
 import { Line } from '@react-three/drei'
 import { useCallback, useEffect, useMemo, useRef } from 'react'
 import * as THREE from 'three'
+import { ViewerTransform, toViewerGeometry } from '../lib/viewerTransform'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -38,7 +38,10 @@ export interface ContourData {
 }
 
 interface STLInteractiveViewerProps {
-    filename: string
+    /** Parsed STL in original coordinates (shared from the mesh session) */
+    geometry: THREE.BufferGeometry
+    /** The session's transform for `geometry`; click points are in its viewer space */
+    transform: ViewerTransform
     /** Set of face indices to highlight */
     highlightedFaces?: Set<number>
     /** Colour used for highlighted faces (CSS hex) */
@@ -56,34 +59,19 @@ interface STLInteractiveViewerProps {
 // ---------------------------------------------------------------------------
 
 function STLInteractiveViewer({
-    filename,
+    geometry: rawGeometry,
+    transform,
     highlightedFaces,
     highlightColor = '#ef4444',
     landmarks,
     contours,
     onFaceClick,
 }: STLInteractiveViewerProps) {
-    const rawGeometry = useLoader(STLLoader, `/stl/${filename}`)
     const meshRef = useRef<THREE.Mesh>(null)
 
     // ---- process geometry (center, scale, sit on Z=0) ----------------------
     const processedGeometry = useMemo(() => {
-        const geo = rawGeometry.clone()
-        geo.computeVertexNormals()
-        geo.center()
-
-        geo.computeBoundingBox()
-        const bbox = geo.boundingBox!
-        const size = new THREE.Vector3()
-        bbox.getSize(size)
-        const maxDim = Math.max(size.x, size.y, size.z)
-        const scale = maxDim > 0 ? 50 / maxDim : 1
-        geo.scale(scale, scale, scale)
-
-        geo.computeBoundingBox()
-        const bbox2 = geo.boundingBox!
-        const tz = -bbox2.min.z
-        geo.translate(0, 0, tz)
+        const geo = toViewerGeometry(transform, rawGeometry)
 
         // Initialize per-face colour attribute (all default blue)
         const posAttr = geo.getAttribute('position')
@@ -97,7 +85,7 @@ function STLInteractiveViewer({
         geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
 
         return geo
-    }, [rawGeometry])
+    }, [rawGeometry, transform])
 
     // ---- update face colours when highlightedFaces changes ------------------
     useEffect(() => {
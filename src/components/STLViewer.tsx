@@ -1,57 +1,57 @@
-import { useLoader } from '@react-three/fiber'
-import { STLLoader } from 'three/addons/loaders/STLLoader.js'
 import { useMemo } from 'react'
 import * as THREE from 'three'
+import { ViewerTransform, toViewerGeometry } from '../lib/viewerTransform'
 
 interface STLViewerProps {
-    filename: string
+    /** Parsed STL in original coordinates (shared from the mesh session) */
+    geometry: THREE.BufferGeometry
+    /** The session's transform for `geometry` */
+    transform: ViewerTransform
+    /**
+     * Optional rgb (0–1) per face, in STL face order, e.g. to tell shells
+     * apart. Ignored when it does not match the geometry's face count.
+     */
+    faceColors?: Float32Array | null
+    /** World-space planes; the part of the mesh in front of any of them is hidden */
+    clippingPlanes?: THREE.Plane[]
 }
 
-function STLViewer({ filename }: STLViewerProps) {
-    const geometry = useLoader(STLLoader, `/stl/${filename}`)
+function STLViewer({ geometry, transform, faceColors, clippingPlanes }: STLViewerProps) {
 
-    // Center and scale the geometry
-    const processedGeometry = useMemo(() => {
-        const geo = geometry.clone()
-        geo.computeVertexNormals()
-        geo.center()
+    // Center, scale and sit the geometry on Z=0
+    const processedGeometry = useMemo(() => toViewerGeometry(transform, geometry), [geometry, transform])
 
-        // Get bounding box to determine scale
-        geo.computeBoundingBox()
-        const bbox = geo.boundingBox
-        if (bbox) {
-            const size = new THREE.Vector3()
-            bbox.getSize(size)
-            const maxDim = Math.max(size.x, size.y, size.z)
-
-            // Scale to reasonable size (e.g., 50 units max dimension)
-            if (maxDim > 0) {
-                const scale = 50 / maxDim
-                geo.scale(scale, scale, scale)
-            }
-
-            // After scaling, recompute bounds and move the model up so it sits on Z=0.
-            // (Keep X/Y centered from geo.center(), but ensure it doesn't go below the floor.)
-            geo.computeBoundingBox()
-            const bbox2 = geo.boundingBox
-            if (bbox2) {
-                geo.translate(0, 0, -bbox2.min.z)
+    // STLLoader geometry is non-indexed: face f owns vertices 3f..3f+2
+    const coloredGeometry = useMemo(() => {
+        const vertexCount = processedGeometry.getAttribute('position').count
+        if (!faceColors || processedGeometry.index || faceColors.length !== vertexCount) {
+            return null
+        }
+        const colors = new Float32Array(vertexCount * 3)
+        for (let f = 0; f < vertexCount / 3; f++) {
+            for (let k = 0; k < 3; k++) {
+                colors.set(faceColors.subarray(f * 3, f * 3 + 3), (f * 3 + k) * 3)
             }
         }
-
+        const geo = processedGeometry.clone()
+        geo.setAttribute('color', new THREE.BufferAttribute(colors, 3))
         return geo
-    }, [geometry])
+    }, [processedGeometry, faceColors])
 
     return (
-        <mesh geometry={processedGeometry} castShadow receiveShadow>
+        <mesh geometry={coloredGeometry ?? processedGeometry} castShadow receiveShadow>
             <meshPhysicalMaterial
-                color="#3b82f6"
+                key={coloredGeometry ? 'colored' : 'plain'}
+                color={coloredGeometry ? '#ffffff' : '#3b82f6'}
+                vertexColors={!!coloredGeometry}
                 roughness={0.45}
                 metalness={0.05}
                 clearcoat={0.15}
                 clearcoatRoughness={0.4}
                 flatShading
                 side={THREE.FrontSide}
+                clippingPlanes={clippingPlanes ?? null}
+                clipShadows
             />
         </mesh>
     )
@@ -0,0 +1,198 @@
+import { Billboard, Line, Text } from '@react-three/drei'
+import { useFrame, useThree } from '@react-three/fiber'
+import { useMemo, useState } from 'react'
+import * as THREE from 'three'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { useViewSettings } from '../context/ViewSettingsContext'
+import { formatLength, millimetresPerUnit, niceStep } from '../lib/units'
+
+/** Minor grid cells across the grid */
+const GRID_CELLS = 40
+/** Minor cells per labelled major line */
+const MAJOR_EVERY = 5
+/** Roughly this many minor cells between the camera and its target */
+const CELLS_PER_DISTANCE = 15
+/** Ticks along a ruler */
+const RULER_TICKS = 8
+
+const GRID_COLORS = { minor: '#1f2937', major: '#475569', label: '#94a3b8' }
+const RULER_COLORS = { x: '#f87171', y: '#4ade80', z: '#60a5fa' }
+
+type OrbitTarget = { target: THREE.Vector3 }
+
+/**
+ * Labelled floor grid that follows the camera: the cell size is a round
+ * number of the chosen unit and grows or shrinks with the zoom level.
+ */
+function AdaptiveGrid() {
+    const { unit } = useViewSettings()
+    const { controls } = useThree()
+    const mmPerUnit = millimetresPerUnit(unit)
+    const [grid, setGrid] = useState({ step: 10, cx: 0, cy: 0 })
+
+    useFrame(({ camera }) => {
+        const target = (controls as unknown as OrbitTarget | null)?.target ?? new THREE.Vector3()
+        const distance = camera.position.distanceTo(target)
+        const step = niceStep(distance / CELLS_PER_DISTANCE / mmPerUnit) * mmPerUnit
+        // Snap to major lines so labels stay on round values while panning
+        const major = step * MAJOR_EVERY
+        const cx = Math.round(target.x / major) * major
+        const cy = Math.round(target.y / major) * major
+        if (step !== grid.step || cx !== grid.cx || cy !== grid.cy) setGrid({ step, cx, cy })
+    })
+
+    const helpers = useMemo(() => {
+        const size = grid.step * GRID_CELLS
+        const minor = new THREE.GridHelper(size, GRID_CELLS, GRID_COLORS.minor, GRID_COLORS.minor)
+        const major = new THREE.GridHelper(size, GRID_CELLS / MAJOR_EVERY, GRID_COLORS.major, GRID_COLORS.major)
+        for (const g of [minor, major]) g.rotation.x = Math.PI / 2
+        major.position.z = 0.001 * grid.step
+        return { minor, major }
+    }, [grid.step])
+
+    const labels = useMemo(() => {
+        const major = grid.step * MAJOR_EVERY
+        const half = GRID_CELLS / MAJOR_EVERY / 2
+        const list: { key: string; position: [number, number, number]; text: string }[] = []
+        for (let i = -half; i <= half; i++) {
+            const x = grid.cx + i * major
+            const y = grid.cy + i * major
+            list.push({ key: `x${i}`, position: [x, grid.cy - grid.step * 0.6, 0], text: formatLength(x, unit) })
+            if (i !== 0) list.push({ key: `y${i}`, position: [grid.cx + grid.step * 0.6, y, 0], text: formatLength(y, unit) })
+        }
+        return list
+    }, [grid, unit])
+
+    return (
+        <>
+            <group position={[grid.cx, grid.cy, 0]}>
+                <primitive object={helpers.minor} />
+                <primitive object={helpers.major} />
+            </group>
+            <group position={[0, 0, 0.002 * grid.step]}>
+                {labels.map((l) => (
+                    <Text
+                        key={l.key}
+                        position={l.position}
+                        fontSize={grid.step * 0.45}
+                        color={GRID_COLORS.label}
+                        anchorX="center"
+                        anchorY="middle"
+                    >
+                        {l.text}
+                    </Text>
+                ))}
+            </group>
+        </>
+    )
+}
+
+interface RulerProps {
+    from: THREE.Vector3
+    /** Unit vector the ruler runs along */
+    axis: THREE.Vector3
+    length: number
+    /** Unit vector the ticks point along */
+    tickDirection: THREE.Vector3
+    color: string
+}
+
+/** A measuring stick from `from`, ticked every round step and labelled with its total. */
+function Ruler({ from, axis, length, tickDirection, color }: RulerProps) {
+    const { unit } = useViewSettings()
+    const mmPerUnit = millimetresPerUnit(unit)
+
+    const { lines, labels, total } = useMemo(() => {
+        const step = niceStep(length / RULER_TICKS / mmPerUnit) * mmPerUnit
+        const tick = step * 0.25
+        const lines: [THREE.Vector3, THREE.Vector3][] = [[from, from.clone().addScaledVector(axis, length)]]
+        const labels: { position: THREE.Vector3; text: string }[] = []
+        for (let d = 0, i = 0; d <= length + 1e-9; d += step, i++) {
+            const p = from.clone().addScaledVector(axis, d)
+            const major = i % 2 === 0
+            lines.push([p, p.clone().addScaledVector(tickDirection, major ? tick * 2 : tick)])
+            if (major && d > 0 && length - d > step) {
+                labels.push({ position: p.clone().addScaledVector(tickDirection, tick * 4), text: formatLength(d, unit) })
+            }
+        }
+        const end = from.clone().addScaledVector(axis, length).addScaledVector(tickDirection, tick * 4)
+        return { lines, labels, total: { position: end, text: formatLength(length, unit), size: step * 0.5 } }
+    }, [from, axis, length, tickDirection, mmPerUnit, unit])
+
+    return (
+        <group>
+            {lines.map(([a, b], i) => (
+                <Line key={i} points={[a, b]} color={color} lineWidth={i === 0 ? 2 : 1} />
+            ))}
+            {labels.map((l, i) => (
+                <Billboard key={i} position={l.position}>
+                    <Text fontSize={total.size * 0.7} color={color} anchorX="center" anchorY="middle">
+                        {l.text}
+                    </Text>
+                </Billboard>
+            ))}
+            <Billboard position={total.position}>
+                <Text fontSize={total.size} color={color} anchorX="center" anchorY="middle" fontWeight={700}>
+                    {total.text}
+                </Text>
+            </Billboard>
+        </group>
+    )
+}
+
+/**
+ * World-space guides for true scale mode: the adaptive grid plus X, Y and Z
+ * rulers along the session mesh's bounding box.
+ */
+function ScaleGuides() {
+    const { geometry } = useMeshSession()
+
+    const rulers = useMemo<(RulerProps & { key: string })[]>(() => {
+        if (!geometry) return []
+        if (!geometry.boundingBox) geometry.computeBoundingBox()
+        const size = new THREE.Vector3()
+        geometry.boundingBox!.getSize(size)
+        // True scale world space: centred in X/Y, resting on Z=0, in millimetres
+        const x0 = -size.x / 2
+        const y0 = -size.y / 2
+        const gap = Math.max(size.x, size.y, size.z) * 0.06
+        const list = [
+            {
+                key: 'x',
+                from: new THREE.Vector3(x0, y0 - gap, 0),
+                axis: new THREE.Vector3(1, 0, 0),
+                length: size.x,
+                tickDirection: new THREE.Vector3(0, -1, 0),
+                color: RULER_COLORS.x,
+            },
+            {
+                key: 'y',
+                from: new THREE.Vector3(x0 - gap, y0, 0),
+                axis: new THREE.Vector3(0, 1, 0),
+                length: size.y,
+                tickDirection: new THREE.Vector3(-1, 0, 0),
+                color: RULER_COLORS.y,
+            },
+            {
+                key: 'z',
+                from: new THREE.Vector3(x0 - gap, y0 - gap, 0),
+                axis: new THREE.Vector3(0, 0, 1),
+                length: size.z,
+                tickDirection: new THREE.Vector3(-1, 0, 0),
+                color: RULER_COLORS.z,
+            },
+        ]
+        return list.filter((r) => r.length > 0)
+    }, [geometry])
+
+    return (
+        <>
+            <AdaptiveGrid />
+            {rulers.map(({ key, ...ruler }) => (
+                <Ruler key={key} {...ruler} />
+            ))}
+        </>
+    )
+}
+
+export default ScaleGuides
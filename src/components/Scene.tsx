@@ -1,10 +1,19 @@
 import { OrbitControls } from '@react-three/drei'
 import { useThree } from '@react-three/fiber'
-import { useEffect, useMemo } from 'react'
+import { useEffect, useMemo, useRef } from 'react'
 import * as THREE from 'three'
+import ScaleGuides from './ScaleGuides'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { useViewSettings, worldScale } from '../context/ViewSettingsContext'
+
+type OrbitTarget = { target: THREE.Vector3; update: () => void }
 
 function Scene() {
-    const { scene, camera, gl } = useThree()
+    const { scene, camera, gl, controls } = useThree()
+    const { trueScale } = useViewSettings()
+    const { transform } = useMeshSession()
+    // Lights, floor and camera were tuned for fitted meshes; true scale grows them with the mesh
+    const k = worldScale(trueScale, transform)
 
     useEffect(() => {
         // Set Z-up coordinate system 
@@ -37,52 +46,68 @@ function Scene() {
     }, [])
 
     useEffect(() => {
+        if (trueScale) return
         scene.add(grid)
         return () => {
             scene.remove(grid)
         }
-    }, [scene, grid])
+    }, [scene, grid, trueScale])
+
+    // Keep the framing when the world scale changes: move camera and target with it
+    const appliedScale = useRef(1)
+    useEffect(() => {
+        const orbit = controls as unknown as OrbitTarget | null
+        if (!orbit || k === appliedScale.current) return
+        const ratio = k / appliedScale.current
+        appliedScale.current = k
+        camera.position.multiplyScalar(ratio)
+        orbit.target.multiplyScalar(ratio)
+        orbit.update()
+    }, [k, camera, controls])
 
     return (
         <>
             <ambientLight color={0xffffff} intensity={0.8} />
             <directionalLight
                 color={0xffffff}
-                position={[50, -50, 100]}
+                position={[50 * k, -50 * k, 100 * k]}
                 intensity={1.5}
                 castShadow
                 shadow-mapSize={[2048, 2048]}
-                shadow-camera-near={0.1}
-                shadow-camera-far={500}
-                shadow-camera-left={-250}
-                shadow-camera-right={250}
-                shadow-camera-top={250}
-                shadow-camera-bottom={-250}
+                shadow-camera-near={0.1 * k}
+                shadow-camera-far={500 * k}
+                shadow-camera-left={-250 * k}
+                shadow-camera-right={250 * k}
+                shadow-camera-top={250 * k}
+                shadow-camera-bottom={-250 * k}
                 shadow-bias={-0.0005}
-                shadow-normalBias={0.05}
+                shadow-normalBias={0.05 * k}
             />
 
             <directionalLight
                 color={0xffffff}
-                position={[-30, 40, 60]}
+                position={[-30 * k, 40 * k, 60 * k]}
                 intensity={0.2}
             />
 
             <directionalLight
                 color={0xccddff}
-                position={[0, 50, -80]}
+                position={[0, 50 * k, -80 * k]}
                 intensity={0.35}
             />
 
-            <mesh rotation={[0, 0, 0]} position={[0, 0, -0.04]} receiveShadow>
-                <planeGeometry args={[210, 210]} />
+            <mesh rotation={[0, 0, 0]} position={[0, 0, -0.04 * k]} receiveShadow>
+                <planeGeometry args={[210 * k, 210 * k]} />
                 <meshStandardMaterial color="#111827" roughness={1} />
             </mesh>
 
+            {trueScale && <ScaleGuides />}
+
             <OrbitControls
+                makeDefault
                 enableDamping={true}
                 target={[0, 0, 15]}
-                maxDistance={900}
+                maxDistance={900 * k}
                 zoomSpeed={.16}
             />
         </>
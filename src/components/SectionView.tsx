@@ -0,0 +1,160 @@
+/**
+ * SectionView – a mesh sliced by clipping planes, with the cut faces capped.
+ *
+ * Each plane hides the part of the mesh in front of it (the side its
+ * normal points at). The caps use the stencil technique from the three.js
+ * clipping examples: the clipped mesh's back faces add to the stencil and
+ * its front faces subtract, which leaves a non-zero count exactly where
+ * the plane lies inside the solid. A large quad on the plane is then drawn
+ * only there. With several planes, each cap is clipped by the others.
+ *
+ * The Canvas needs a stencil buffer (`gl={{ stencil: true }}`).
+ */
+import { Line } from '@react-three/drei'
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useMemo, useRef } from 'react'
+import * as THREE from 'three'
+import STLViewer from './STLViewer'
+import { SectionPlane } from '../lib/meshAnalysis'
+import { ViewerTransform, toViewer, toViewerGeometry } from '../lib/viewerTransform'
+
+interface SectionViewProps {
+    /** Parsed STL in original coordinates (shared from the mesh session) */
+    geometry: THREE.BufferGeometry
+    /** The session's transform for `geometry` */
+    transform: ViewerTransform
+    /** Cutting planes in STL coordinates */
+    planes: SectionPlane[]
+    /** Cap and outline colour per plane (CSS hex) */
+    colors: string[]
+}
+
+const Z_AXIS = new THREE.Vector3(0, 0, 1)
+
+function SectionView({ geometry, transform, planes, colors }: SectionViewProps) {
+    const { gl } = useThree()
+    const groupRef = useRef<THREE.Group>(null)
+
+    // Material clipping planes are ignored unless the renderer opts in
+    useEffect(() => {
+        const previous = gl.localClippingEnabled
+        gl.localClippingEnabled = true
+        return () => {
+            gl.localClippingEnabled = previous
+        }
+    }, [gl])
+
+    // Only the stencil passes use this copy; STLViewer makes its own
+    const viewerGeometry = useMemo(() => {
+        const geo = toViewerGeometry(transform, geometry)
+        geo.computeBoundingSphere()
+        return geo
+    }, [geometry, transform])
+
+    // three.js keeps the side where dot(normal, p) + constant >= 0, so flip the normal
+    const localPlanes = useMemo(
+        () =>
+            planes.map((plane) => {
+                const n = new THREE.Vector3(...plane.normal)
+                const onPlane = toViewer(transform, n.x * plane.offset, n.y * plane.offset, n.z * plane.offset)
+                return new THREE.Plane().setFromNormalAndCoplanarPoint(n.negate(), onPlane)
+            }),
+        [planes, transform],
+    )
+
+    // Materials clip in world space; these follow the group (e.g. true-scale scaling) every frame
+    const worldPlanes = useMemo(() => localPlanes.map((p) => p.clone()), [localPlanes])
+    useFrame(() => {
+        const group = groupRef.current
+        if (!group) return
+        group.updateWorldMatrix(true, false)
+        worldPlanes.forEach((w, i) => w.copy(localPlanes[i]).applyMatrix4(group.matrixWorld))
+    })
+
+    // A cap quad per plane, centred under the mesh and facing the cut-away side
+    const caps = useMemo(() => {
+        const sphere = viewerGeometry.boundingSphere!
+        const size = sphere.radius * 2.5
+        return localPlanes.map((plane) => {
+            const position = plane.projectPoint(sphere.center, new THREE.Vector3())
+            const facing = plane.normal.clone().negate()
+            const quaternion = new THREE.Quaternion().setFromUnitVectors(Z_AXIS, facing)
+            const half = size / 2
+            const outline = [
+                [-half, -half],
+                [half, -half],
+                [half, half],
+                [-half, half],
+                [-half, -half],
+            ].map(([x, y]) => new THREE.Vector3(x, y, 0).applyQuaternion(quaternion).add(position))
+            return { position, quaternion, size, outline }
+        })
+    }, [localPlanes, viewerGeometry])
+
+    return (
+        <group ref={groupRef}>
+            <STLViewer geometry={geometry} transform={transform} clippingPlanes={worldPlanes} />
+            {caps.map((cap, i) => (
+                <group key={i}>
+                    {/* Stencil passes: back faces +1, front faces −1 */}
+                    <mesh geometry={viewerGeometry} renderOrder={i + 1}>
+                        <meshBasicMaterial
+                            side={THREE.BackSide}
+                            clippingPlanes={[worldPlanes[i]]}
+                            depthWrite={false}
+                            depthTest={false}
+                            colorWrite={false}
+                            stencilWrite
+                            stencilFunc={THREE.AlwaysStencilFunc}
+                            stencilFail={THREE.IncrementWrapStencilOp}
+                            stencilZFail={THREE.IncrementWrapStencilOp}
+                            stencilZPass={THREE.IncrementWrapStencilOp}
+                        />
+                    </mesh>
+                    <mesh geometry={viewerGeometry} renderOrder={i + 1}>
+                        <meshBasicMaterial
+                            side={THREE.FrontSide}
+                            clippingPlanes={[worldPlanes[i]]}
+                            depthWrite={false}
+                            depthTest={false}
+                            colorWrite={false}
+                            stencilWrite
+                            stencilFunc={THREE.AlwaysStencilFunc}
+                            stencilFail={THREE.DecrementWrapStencilOp}
+                            stencilZFail={THREE.DecrementWrapStencilOp}
+                            stencilZPass={THREE.DecrementWrapStencilOp}
+                        />
+                    </mesh>
+
+                    {/* Cap, drawn where the count is non-zero; resets the stencil for the next plane */}
+                    <mesh
+                        position={cap.position}
+                        quaternion={cap.quaternion}
+                        renderOrder={i + 1.1}
+                        onAfterRender={(renderer) => renderer.clearStencil()}
+                    >
+                        <planeGeometry args={[cap.size, cap.size]} />
+                        <meshStandardMaterial
+                            color={colors[i]}
+                            metalness={0.1}
+                            roughness={0.75}
+                            side={THREE.DoubleSide}
+                            clippingPlanes={worldPlanes.filter((_, j) => j !== i)}
+                            stencilWrite
+                            stencilRef={0}
+                            stencilFunc={THREE.NotEqualStencilFunc}
+                            stencilFail={THREE.ReplaceStencilOp}
+                            stencilZFail={THREE.ReplaceStencilOp}
+                            stencilZPass={THREE.ReplaceStencilOp}
+                        />
+                    </mesh>
+
+                    {/* Where the plane is, even where it misses the mesh */}
+                    <Line points={cap.outline} color={colors[i]} lineWidth={1} transparent opacity={0.6} />
+                </group>
+            ))}
+        </group>
+    )
+}
+
+export default SectionView
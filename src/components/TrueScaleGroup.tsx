@@ -0,0 +1,18 @@
+import { ReactNode } from 'react'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { useViewSettings, worldScale } from '../context/ViewSettingsContext'
+
+/**
+ * Holds a page's meshes and overlays, which are laid out in fitted viewer
+ * space. In true scale mode the whole group is scaled so one world unit is
+ * one millimetre of the session mesh; side-by-side offsets and labels keep
+ * their proportions.
+ */
+function TrueScaleGroup({ children }: { children: ReactNode }) {
+    const { trueScale } = useViewSettings()
+    const { transform } = useMeshSession()
+    const k = worldScale(trueScale, transform)
+    return <group scale={[k, k, k]}>{children}</group>
+}
+
+export default TrueScaleGroup
@@ -0,0 +1,51 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { useViewSettings } from '../context/ViewSettingsContext'
+import { LENGTH_UNITS, LengthUnit, formatLength } from '../lib/units'
+
+/** True scale toggle, unit choice and the current mesh's bounding-box size. */
+function ViewScaleControls() {
+    const { geometry } = useMeshSession()
+    const { trueScale, setTrueScale, unit, setUnit } = useViewSettings()
+
+    const size = useMemo(() => {
+        if (!geometry) return null
+        if (!geometry.boundingBox) geometry.computeBoundingBox()
+        return geometry.boundingBox!.getSize(new THREE.Vector3())
+    }, [geometry])
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <span
+                    onClick={() => setTrueScale(!trueScale)}
+                    style={{ display: 'flex', alignItems: 'center', gap: 4, color: '#cbd5e1', cursor: 'pointer', userSelect: 'none' }}
+                    title="Show the mesh at its real size (file units read as millimetres) with a grid and rulers"
+                >
+                    <input type="checkbox" checked={trueScale} readOnly />
+                    True scale
+                </span>
+                <select
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value as LengthUnit)}
+                    style={{ marginLeft: 'auto', padding: '2px 6px', fontSize: 12 }}
+                    title="Unit for the grid, rulers and dimensions"
+                >
+                    {LENGTH_UNITS.map((u) => (
+                        <option key={u.unit} value={u.unit}>
+                            {u.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            {size && (
+                <span style={{ color: '#94a3b8' }}>
+                    {formatLength(size.x, unit)} × {formatLength(size.y, unit)} × {formatLength(size.z, unit)}
+                </span>
+            )}
+        </div>
+    )
+}
+
+export default ViewScaleControls
@@ -0,0 +1,30 @@
+import { MutableRefObject, useEffect } from 'react'
+import { useThree } from '@react-three/fiber'
+
+/** Grabs the viewer's current frame as a PNG data URL */
+export type CaptureViewer = () => string
+
+interface ViewerCaptureProps {
+    /** Set while mounted inside a Canvas */
+    captureRef: MutableRefObject<CaptureViewer | null>
+}
+
+/** Renders nothing; lets DOM code outside the Canvas take screenshots of it. */
+function ViewerCapture({ captureRef }: ViewerCaptureProps) {
+    const { gl, scene, camera } = useThree()
+
+    useEffect(() => {
+        captureRef.current = () => {
+            // Render and read back in one task: the drawing buffer isn't preserved
+            gl.render(scene, camera)
+            return gl.domElement.toDataURL('image/png')
+        }
+        return () => {
+            captureRef.current = null
+        }
+    }, [gl, scene, camera, captureRef])
+
+    return null
+}
+
+export default ViewerCapture
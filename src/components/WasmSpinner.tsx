@@ -0,0 +1,22 @@
+interface WasmSpinnerProps {
+    label: string
+    /** Shows a Cancel button under the label */
+    onCancel?: () => void
+}
+
+/** Full-screen overlay shown while a WASM worker is busy */
+function WasmSpinner({ label, onCancel }: WasmSpinnerProps) {
+    return (
+        <div className="wasm-spinner-overlay">
+            <div className="wasm-spinner-ring" />
+            <div className="wasm-spinner-label">{label}</div>
+            {onCancel && (
+                <button type="button" className="wasm-spinner-cancel" onClick={onCancel}>
+                    Cancel
+                </button>
+            )}
+        </div>
+    )
+}
+
+export default WasmSpinner
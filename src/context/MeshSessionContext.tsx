@@ -0,0 +1,236 @@
+/**
+ * MeshSessionContext – app-level store for the mesh being worked on.
+ *
+ * Holds the loaded source file, its parsed geometry and viewer transform,
+ * and an edit history of processed versions, so a mesh simplified on one
+ * page can be smoothed, checked or annotated on another without reloading.
+ *
+ * The current mesh is always `history[historyIndex]`; committing a result
+ * drops any redo entries after the current index (like an editor's undo
+ * stack).
+ *
+ * Every file entering the session goes through MeshImportClient, so the
+ * history only ever holds binary STL regardless of the source format.
+ */
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import * as THREE from 'three'
+import { STLLoader } from 'three/addons/loaders/STLLoader.js'
+import {
+    MeshFileEntry,
+    fetchBuiltinMesh,
+    filterMeshFiles,
+    localEntry,
+    readLocalMesh,
+    triangleCountFromStl,
+} from '../lib/meshFiles'
+import { ViewerTransform, computeViewerTransform } from '../lib/viewerTransform'
+import { MeshImportClient } from '../lib/meshImportClient'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MeshHistoryEntry {
+    /** Human-readable description, e.g. "Original" or "Simplified 50%" */
+    label: string
+    /** Binary STL of this version */
+    data: ArrayBuffer
+    /** Triangle count read from the STL header */
+    faces: number | null
+}
+
+export interface MeshSession {
+    /** File the current history was started from */
+    source: MeshFileEntry | null
+    /** Files read from disk this session */
+    localEntries: MeshFileEntry[]
+    history: MeshHistoryEntry[]
+    historyIndex: number
+    /** Current mesh bytes (history[historyIndex]) */
+    data: ArrayBuffer | null
+    /** Current mesh parsed once with STLLoader, in original STL coordinates */
+    geometry: THREE.BufferGeometry | null
+    /** Viewer transform derived from `geometry` */
+    transform: ViewerTransform | null
+    isLoading: boolean
+    error: string
+    /** Load a file and start a fresh history from it */
+    open: (entry: MeshFileEntry) => void
+    /** Read local files into memory and open the first one */
+    addFiles: (files: Iterable<File>) => Promise<void>
+    /** Make a processed mesh the current one */
+    commit: (data: ArrayBuffer, label: string) => void
+    undo: () => void
+    redo: () => void
+    /** Jump to any entry in the history */
+    revertTo: (index: number) => void
+}
+
+/** Oldest edits are dropped once the history grows past this length. */
+const MAX_HISTORY = 20
+
+const MeshSessionContext = createContext<MeshSession | null>(null)
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+export function MeshSessionProvider({ children }: { children: ReactNode }) {
+    const [source, setSource] = useState<MeshFileEntry | null>(null)
+    const [localEntries, setLocalEntries] = useState<MeshFileEntry[]>([])
+    const [history, setHistory] = useState<MeshHistoryEntry[]>([])
+    const [historyIndex, setHistoryIndex] = useState(-1)
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState('')
+
+    // Normalized bytes of the current source only, so reopening it is
+    // instant; other files are fetched or re-read from disk when opened
+    const sourceBufferRef = useRef<{ key: string; data: ArrayBuffer } | null>(null)
+    // Handles of files added from disk; a File does not hold its bytes
+    const filesRef = useRef(new Map<string, File>())
+    // Only the latest open() may update state
+    const loadTokenRef = useRef(0)
+    const importClientRef = useRef<MeshImportClient | null>(null)
+
+    useEffect(() => () => importClientRef.current?.dispose(), [])
+
+    /** Convert any supported mesh file to binary STL. */
+    const normalize = useCallback((buf: ArrayBuffer, name: string) => {
+        if (!importClientRef.current) importClientRef.current = new MeshImportClient()
+        return importClientRef.current.importMesh(buf, name).then((r) => r.output)
+    }, [])
+
+    const startHistory = useCallback((entry: MeshFileEntry, data: ArrayBuffer) => {
+        setSource(entry)
+        setHistory([{ label: 'Original', data, faces: triangleCountFromStl(data) }])
+        setHistoryIndex(0)
+    }, [])
+
+    const open = useCallback((entry: MeshFileEntry) => {
+        const token = ++loadTokenRef.current
+        setError('')
+
+        const cached = sourceBufferRef.current
+        if (cached?.key === entry.key) {
+            setIsLoading(false)
+            startHistory(entry, cached.data)
+            return
+        }
+        const file = filesRef.current.get(entry.key)
+        if (entry.source !== 'builtin' && !file) {
+            setError(`${entry.name} is no longer available`)
+            return
+        }
+
+        setIsLoading(true)
+        const read = file ? readLocalMesh(file) : fetchBuiltinMesh(entry.name)
+        read
+            .then((raw) => normalize(raw, entry.name))
+            .then((buf) => {
+                if (token !== loadTokenRef.current) return
+                sourceBufferRef.current = { key: entry.key, data: buf }
+                startHistory(entry, buf)
+            })
+            .catch((e: any) => {
+                if (token === loadTokenRef.current) setError(String(e?.message || e))
+            })
+            .finally(() => {
+                if (token === loadTokenRef.current) setIsLoading(false)
+            })
+    }, [startHistory, normalize])
+
+    const addFiles = useCallback(async (files: Iterable<File>) => {
+        const accepted = filterMeshFiles(files)
+        if (accepted.length === 0) {
+            setError('No supported mesh files were provided')
+            return
+        }
+
+        const added: MeshFileEntry[] = []
+        const failures: string[] = []
+        let first: ArrayBuffer | null = null
+        setError('')
+        setIsLoading(true)
+        for (const file of accepted) {
+            try {
+                // Import every file now so failures show up at once; only the
+                // one being opened keeps its bytes
+                const buf = await normalize(await readLocalMesh(file), file.name)
+                const entry = localEntry(file)
+                filesRef.current.set(entry.key, file)
+                if (!first) first = buf
+                added.push(entry)
+            } catch (e: any) {
+                failures.push(`${file.name}: ${e?.message || e}`)
+            }
+        }
+        setIsLoading(false)
+
+        if (first) {
+            sourceBufferRef.current = { key: added[0].key, data: first }
+            setLocalEntries((prev) => [
+                ...prev.filter((p) => !added.some((a) => a.key === p.key)),
+                ...added,
+            ])
+            open(added[0])
+        }
+        // After open(), which clears the error of the previous load
+        if (failures.length > 0) setError(failures.join('; '))
+    }, [open, normalize])
+
+    const commit = useCallback((data: ArrayBuffer, label: string) => {
+        const entry: MeshHistoryEntry = { label, data, faces: triangleCountFromStl(data) }
+        const next = [...history.slice(0, historyIndex + 1), entry]
+        const dropped = Math.max(0, next.length - MAX_HISTORY)
+        setHistory(next.slice(dropped))
+        setHistoryIndex(next.length - 1 - dropped)
+    }, [history, historyIndex])
+
+    const revertTo = useCallback((index: number) => {
+        if (index >= 0 && index < history.length) setHistoryIndex(index)
+    }, [history.length])
+
+    const undo = useCallback(() => revertTo(historyIndex - 1), [revertTo, historyIndex])
+    const redo = useCallback(() => revertTo(historyIndex + 1), [revertTo, historyIndex])
+
+    const data = history[historyIndex]?.data ?? null
+
+    const geometry = useMemo(
+        () => (data ? (new STLLoader().parse(data) as THREE.BufferGeometry) : null),
+        [data],
+    )
+    const transform = useMemo(
+        () => (geometry ? computeViewerTransform(geometry) : null),
+        [geometry],
+    )
+
+    const value: MeshSession = {
+        source,
+        localEntries,
+        history,
+        historyIndex,
+        data,
+        geometry,
+        transform,
+        isLoading,
+        error,
+        open,
+        addFiles,
+        commit,
+        undo,
+        redo,
+        revertTo,
+    }
+
+    return <MeshSessionContext.Provider value={value}>{children}</MeshSessionContext.Provider>
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+export function useMeshSession(): MeshSession {
+    const session = useContext(MeshSessionContext)
+    if (!session) throw new Error('useMeshSession must be used inside <MeshSessionProvider>')
+    return session
+}
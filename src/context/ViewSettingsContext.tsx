@@ -0,0 +1,80 @@
+/**
+ * ViewSettingsContext – app-level viewer preferences shared by every page.
+ *
+ * True scale shows meshes at their native size in millimetres instead of
+ * fitted to 50 viewer units; the unit only changes how grid, rulers and
+ * dimensions are labelled. Both are saved in localStorage.
+ */
+import { ReactNode, createContext, useContext, useEffect, useState } from 'react'
+import { LENGTH_UNITS, LengthUnit } from '../lib/units'
+import { ViewerTransform } from '../lib/viewerTransform'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ViewSettings {
+    trueScale: boolean
+    setTrueScale: (on: boolean) => void
+    unit: LengthUnit
+    setUnit: (unit: LengthUnit) => void
+}
+
+const STORAGE_KEY = 'viewer.settings'
+
+const ViewSettingsContext = createContext<ViewSettings | null>(null)
+
+function load(): { trueScale: boolean; unit: LengthUnit } {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+        if (raw) {
+            return {
+                trueScale: raw.trueScale === true,
+                unit: LENGTH_UNITS.some((u) => u.unit === raw.unit) ? raw.unit : 'mm',
+            }
+        }
+    } catch (e) {
+        console.warn('[ViewSettings] ignoring unreadable saved settings:', e)
+    }
+    return { trueScale: false, unit: 'mm' }
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+export function ViewSettingsProvider({ children }: { children: ReactNode }) {
+    const [saved] = useState(load)
+    const [trueScale, setTrueScale] = useState(saved.trueScale)
+    const [unit, setUnit] = useState<LengthUnit>(saved.unit)
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify({ trueScale, unit }))
+        } catch (e) {
+            console.warn('[ViewSettings] could not save settings:', e)
+        }
+    }, [trueScale, unit])
+
+    const value: ViewSettings = { trueScale, setTrueScale, unit, setUnit }
+
+    return <ViewSettingsContext.Provider value={value}>{children}</ViewSettingsContext.Provider>
+}
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+export function useViewSettings(): ViewSettings {
+    const settings = useContext(ViewSettingsContext)
+    if (!settings) throw new Error('useViewSettings must be used inside <ViewSettingsProvider>')
+    return settings
+}
+
+/**
+ * World units per viewer unit for a mesh: 1 when fitted, 1 / scale in true
+ * scale mode so that one world unit is one millimetre.
+ */
+export function worldScale(trueScale: boolean, transform: ViewerTransform | null): number {
+    return trueScale && transform ? 1 / transform.scale : 1
+}
@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useRef } from 'react'
+
+export interface Cancellable {
+    /** Cancel any previous operation and return the signal for a new one */
+    begin: () => AbortSignal
+    /** Abort the current operation, if any */
+    cancel: () => void
+}
+
+/**
+ * One AbortController per page operation, for passing `signal` to the WASM
+ * clients. Whatever is still running is aborted when the page unmounts.
+ */
+export function useCancellable(): Cancellable {
+    const controllerRef = useRef<AbortController | null>(null)
+
+    useEffect(() => () => controllerRef.current?.abort(), [])
+
+    // Stable identity, so it can sit in hook dependency lists
+    return useMemo(
+        () => ({
+            begin: () => {
+                controllerRef.current?.abort()
+                const controller = new AbortController()
+                controllerRef.current = controller
+                return controller.signal
+            },
+            cancel: () => {
+                controllerRef.current?.abort()
+                controllerRef.current = null
+            },
+        }),
+        [],
+    )
+}
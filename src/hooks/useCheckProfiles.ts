@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+    CheckProfile,
+    DEFAULT_CHECK_PROFILE,
+    normalizeCheckProfile,
+    parseCheckProfiles,
+    serializeCheckProfiles,
+} from '../lib/meshChecks'
+
+const STORAGE_KEY = 'meshChecks.profiles'
+
+export interface CheckProfilesState {
+    profiles: CheckProfile[]
+    active: CheckProfile
+    select: (name: string) => void
+    /** Replace the active profile (renaming keeps it active) */
+    update: (profile: CheckProfile) => void
+    /** Copy the active profile under a new, unique name and select it */
+    duplicate: () => void
+    /** Delete the active profile; the last one left cannot be deleted */
+    remove: () => void
+    /** Add the profiles in an exported file, renaming clashes. Returns how many were added. */
+    importJson: (json: string) => number
+    exportJson: () => string
+}
+
+interface StoredProfiles {
+    profiles: CheckProfile[]
+    active: string
+}
+
+function load(): StoredProfiles {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+        if (raw && Array.isArray(raw.profiles) && raw.profiles.length > 0) {
+            const profiles = raw.profiles.map((p: unknown, i: number) => normalizeCheckProfile(p, `Profile ${i + 1}`))
+            return { profiles, active: typeof raw.active === 'string' ? raw.active : profiles[0].name }
+        }
+    } catch (e) {
+        console.warn('[CheckProfiles] ignoring unreadable saved profiles:', e)
+    }
+    return { profiles: [DEFAULT_CHECK_PROFILE], active: DEFAULT_CHECK_PROFILE.name }
+}
+
+function uniqueName(name: string, taken: CheckProfile[], except?: CheckProfile): string {
+    const used = new Set(taken.filter((p) => p !== except).map((p) => p.name))
+    if (!used.has(name)) return name
+    let n = 2
+    while (used.has(`${name} (${n})`)) n++
+    return `${name} (${n})`
+}
+
+/**
+ * Named mesh check profiles, persisted in localStorage. There is always at
+ * least one profile and exactly one active one.
+ */
+export function useCheckProfiles(): CheckProfilesState {
+    const [state, setState] = useState<StoredProfiles>(load)
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+        } catch (e) {
+            console.warn('[CheckProfiles] could not save profiles:', e)
+        }
+    }, [state])
+
+    const active = state.profiles.find((p) => p.name === state.active) ?? state.profiles[0]
+
+    const select = useCallback((name: string) => {
+        setState((prev) => ({ ...prev, active: name }))
+    }, [])
+
+    const update = useCallback((profile: CheckProfile) => {
+        setState((prev) => {
+            const current = prev.profiles.find((p) => p.name === prev.active) ?? prev.profiles[0]
+            const name = uniqueName(profile.name.trim() || current.name, prev.profiles, current)
+            return {
+                profiles: prev.profiles.map((p) => (p === current ? { ...profile, name } : p)),
+                active: name,
+            }
+        })
+    }, [])
+
+    const duplicate = useCallback(() => {
+        setState((prev) => {
+            const current = prev.profiles.find((p) => p.name === prev.active) ?? prev.profiles[0]
+            const name = uniqueName(`${current.name} copy`, prev.profiles)
+            return { profiles: [...prev.profiles, { ...current, name }], active: name }
+        })
+    }, [])
+
+    const remove = useCallback(() => {
+        setState((prev) => {
+            if (prev.profiles.length < 2) return prev
+            const profiles = prev.profiles.filter((p) => p.name !== prev.active)
+            return { profiles, active: profiles[0].name }
+        })
+    }, [])
+
+    const importJson = useCallback((json: string) => {
+        const imported = parseCheckProfiles(json)
+        setState((prev) => {
+            const profiles = [...prev.profiles]
+            for (const p of imported) profiles.push({ ...p, name: uniqueName(p.name, profiles) })
+            return { profiles, active: profiles[prev.profiles.length].name }
+        })
+        return imported.length
+    }, [])
+
+    const exportJson = useCallback(() => serializeCheckProfiles(state.profiles), [state.profiles])
+
+    return { profiles: state.profiles, active, select, update, duplicate, remove, importJson, exportJson }
+}
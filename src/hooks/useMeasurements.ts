@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react'
+import { MEASUREMENT_TOOLS, Measurement } from '../lib/measurements'
+
+const STORAGE_PREFIX = 'measurements.'
+
+export interface MeasurementsState {
+    measurements: Measurement[]
+    /** Append a measurement, labelled e.g. "Distance 3" */
+    add: (m: Omit<Measurement, 'id' | 'label'>) => void
+    rename: (id: number, label: string) => void
+    remove: (id: number) => void
+    clear: () => void
+}
+
+function load(meshKey: string | null): Measurement[] {
+    if (!meshKey) return []
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_PREFIX + meshKey) ?? 'null')
+        if (Array.isArray(raw)) return raw as Measurement[]
+    } catch (e) {
+        console.warn('[Measurements] ignoring unreadable saved measurements:', e)
+    }
+    return []
+}
+
+/**
+ * The measurements taken on one mesh, persisted in localStorage under the
+ * mesh's file key so they are still there when the file is opened again.
+ */
+export function useMeasurements(meshKey: string | null): MeasurementsState {
+    const [state, setState] = useState(() => ({ key: meshKey, list: load(meshKey) }))
+    // Switching meshes swaps in that mesh's list before anything renders with the old one
+    if (state.key !== meshKey) setState({ key: meshKey, list: load(meshKey) })
+
+    useEffect(() => {
+        if (!state.key) return
+        try {
+            if (state.list.length > 0) localStorage.setItem(STORAGE_PREFIX + state.key, JSON.stringify(state.list))
+            else localStorage.removeItem(STORAGE_PREFIX + state.key)
+        } catch (e) {
+            console.warn('[Measurements] could not save measurements:', e)
+        }
+    }, [state])
+
+    const add = useCallback((m: Omit<Measurement, 'id' | 'label'>) => {
+        setState((s) => {
+            const id = s.list.reduce((max, x) => Math.max(max, x.id), 0) + 1
+            const tool = MEASUREMENT_TOOLS.find((t) => t.kind === m.kind)!
+            const n = s.list.filter((x) => x.kind === m.kind).length + 1
+            return { ...s, list: [...s.list, { ...m, id, label: `${tool.label} ${n}` }] }
+        })
+    }, [])
+
+    const rename = useCallback((id: number, label: string) => {
+        setState((s) => ({ ...s, list: s.list.map((x) => (x.id === id ? { ...x, label } : x)) }))
+    }, [])
+
+    const remove = useCallback((id: number) => {
+        setState((s) => ({ ...s, list: s.list.filter((x) => x.id !== id) }))
+    }, [])
+
+    const clear = useCallback(() => setState((s) => ({ ...s, list: [] })), [])
+
+    return { measurements: state.list, add, rename, remove, clear }
+}
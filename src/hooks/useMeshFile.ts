@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import * as THREE from 'three'
+import { MeshFileEntry, builtinEntry } from '../lib/meshFiles'
+import { ViewerTransform } from '../lib/viewerTransform'
+import { useMeshSession } from '../context/MeshSessionContext'
+
+export interface MeshFileState {
+    /** The page's built-in files, then any files the user added this session */
+    entries: MeshFileEntry[]
+    selectedKey: string
+    selectedEntry: MeshFileEntry | null
+    /** Bytes of the current mesh (latest session edit), null while loading */
+    data: ArrayBuffer | null
+    /** Current mesh parsed once by the session, in STL coordinates */
+    geometry: THREE.BufferGeometry | null
+    transform: ViewerTransform | null
+    isLoading: boolean
+    error: string
+    select: (key: string) => void
+    /** Read local files into memory and select the first one */
+    addFiles: (files: Iterable<File>) => Promise<void>
+}
+
+/**
+ * Page-level view of the shared mesh session: offers the page's built-in
+ * `/stl/` files plus any files picked from disk or dropped onto the canvas.
+ *
+ * The mesh itself lives in MeshSessionContext, so whatever is loaded (or
+ * committed by another page) carries over when navigating. A page only
+ * loads its first built-in file when nothing is loaded yet.
+ */
+export function useMeshFile(builtinFiles: string[]): MeshFileState {
+    const session = useMeshSession()
+    const builtinEntries = useMemo(() => builtinFiles.map(builtinEntry), [builtinFiles])
+
+    const entries = useMemo(() => {
+        const list = [...builtinEntries]
+        // A built-in file opened on another page still shows up here
+        if (session.source?.source === 'builtin' && !list.some((e) => e.key === session.source!.key)) {
+            list.push(session.source)
+        }
+        return [...list, ...session.localEntries]
+    }, [builtinEntries, session.source, session.localEntries])
+
+    const { source, isLoading, error, open } = session
+    useEffect(() => {
+        if (!source && !isLoading && !error && builtinEntries[0]) open(builtinEntries[0])
+    }, [source, isLoading, error, open, builtinEntries])
+
+    const select = useCallback((key: string) => {
+        const entry = entries.find((e) => e.key === key)
+        if (entry) open(entry)
+    }, [entries, open])
+
+    return {
+        entries,
+        selectedKey: session.source?.key ?? '',
+        selectedEntry: session.source,
+        data: session.data,
+        geometry: session.geometry,
+        transform: session.transform,
+        isLoading: session.isLoading,
+        error: session.error,
+        select,
+        addFiles: session.addFiles,
+    }
+}
@@ -8,11 +8,7 @@
  *   client.dispose()
  */
 
-interface PendingRequest {
-  resolve: (value: any) => void;
-  reject: (reason: any) => void;
-  onStatus?: (status: string) => void;
-}
+import { RpcClient } from "./rpc/rpcClient";
 
 // ---------------------------------------------------------------------------
 // selectPatch options & result
@@ -26,6 +22,8 @@ export interface SelectPatchOpts {
   /** Maximum normal angle in degrees. Pass -1 to disable. */
   maxNormalAngleDeg: number;
   onStatus?: (status: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
 export interface SelectPatchResult {
@@ -49,6 +47,8 @@ export interface CreateLandmarkOpts {
   posY: number;
   posZ: number;
   onStatus?: (status: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
 export interface CreateLandmarkResult {
@@ -66,6 +66,8 @@ export interface PatchFromLandmarksOpts {
   /** Flat array of landmark positions in STL coords [x0,y0,z0, x1,y1,z1, …] */
   positions: number[];
   onStatus?: (status: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
 export interface PatchFromLandmarksResult {
@@ -77,39 +79,71 @@ export interface PatchFromLandmarksResult {
   numContours: number;
 }
 
+// ---------------------------------------------------------------------------
+// Worker API
+// ---------------------------------------------------------------------------
+
+/** Patch selection as it crosses the worker boundary (typed arrays as buffers) */
+type RawPatch = {
+  faceIndices: ArrayBuffer;
+  contourPoints: ArrayBuffer;
+  contourSizes: ArrayBuffer;
+  numFaces: number;
+  numContourPts: number;
+  numContours: number;
+};
+
+/** Methods served by annotations.worker.ts */
+export type AnnotationsApi = {
+  selectPatch: {
+    params: { stlBuffer: ArrayBuffer } & Omit<SelectPatchOpts, "onStatus" | "signal">;
+    result: RawPatch;
+  };
+  createLandmark: {
+    params: { stlBuffer: ArrayBuffer } & Omit<CreateLandmarkOpts, "onStatus" | "signal">;
+    result: CreateLandmarkResult;
+  };
+  patchFromLandmarks: {
+    params: { stlBuffer: ArrayBuffer } & Omit<PatchFromLandmarksOpts, "onStatus" | "signal">;
+    result: RawPatch;
+  };
+};
+
+function toPatch(raw: RawPatch): SelectPatchResult {
+  return {
+    faceIndices: new Uint32Array(raw.faceIndices),
+    contourPoints: new Float32Array(raw.contourPoints),
+    contourSizes: new Uint32Array(raw.contourSizes),
+    numFaces: raw.numFaces,
+    numContourPts: raw.numContourPts,
+    numContours: raw.numContours,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Client
 // ---------------------------------------------------------------------------
 export class AnnotationsClient {
-  private worker: Worker;
-  private pending = new Map<number, PendingRequest>();
-  private nextId = 1;
-  private readyPromise: Promise<void>;
-
-  constructor() {
-    this.worker = new Worker(
-      new URL("../workers/annotations.worker.ts", import.meta.url),
-      { type: "module" },
-    );
+  private rpc = new RpcClient<AnnotationsApi>({
+    name: "Annotations",
+    createWorker: () =>
+      new Worker(new URL("../workers/annotations.worker.ts", import.meta.url), {
+        type: "module",
+      }),
+  });
+
+  /** Verify the worker is alive. */
+  ping(): Promise<void> {
+    return this.rpc.ping();
+  }
 
-    this.worker.addEventListener("message", this.onMessage);
-
-    // Ping/pong handshake
-    this.readyPromise = new Promise<void>((resolve) => {
-      const id = this.nextId++;
-      this.pending.set(id, {
-        resolve: () => {
-          resolve();
-        },
-        reject: () => resolve(), // still resolve on error
-      });
-      this.worker.postMessage({ id, type: "ping" });
-    });
+  /** Kill the worker and create a fresh one on next call. */
+  resetWorker(): void {
+    this.rpc.restart();
   }
 
   dispose() {
-    this.worker.terminate();
-    this.pending.clear();
+    this.rpc.dispose();
   }
 
   // ---- public API -------------------------------------------------------
@@ -118,108 +152,25 @@ export class AnnotationsClient {
     stlBuffer: ArrayBuffer,
     opts: SelectPatchOpts,
   ): Promise<SelectPatchResult> {
-    await this.readyPromise;
-
-    const raw = await this.send(
-      "select_patch",
-      {
-        stlBuffer,
-        seedFaceIndex: opts.seedFaceIndex,
-        centerX: opts.centerX,
-        centerY: opts.centerY,
-        centerZ: opts.centerZ,
-        radius: opts.radius,
-        maxNormalAngleDeg: opts.maxNormalAngleDeg,
-      },
-      opts.onStatus,
-    );
-
-    return {
-      faceIndices: new Uint32Array(raw.faceIndices),
-      contourPoints: new Float32Array(raw.contourPoints),
-      contourSizes: new Uint32Array(raw.contourSizes),
-      numFaces: raw.numFaces,
-      numContourPts: raw.numContourPts,
-      numContours: raw.numContours,
-    };
+    const { onStatus, signal, ...params } = opts;
+    return toPatch(await this.rpc.call("selectPatch", { stlBuffer, ...params }, { onStatus, signal }));
   }
 
   async createLandmark(
     stlBuffer: ArrayBuffer,
     opts: CreateLandmarkOpts,
   ): Promise<CreateLandmarkResult> {
-    await this.readyPromise;
-
-    return this.send(
-      "create_landmark",
-      {
-        stlBuffer,
-        faceIndex: opts.faceIndex,
-        posX: opts.posX,
-        posY: opts.posY,
-        posZ: opts.posZ,
-      },
-      opts.onStatus,
-    );
+    const { onStatus, signal, ...params } = opts;
+    return this.rpc.call("createLandmark", { stlBuffer, ...params }, { onStatus, signal });
   }
 
   async patchFromLandmarks(
     stlBuffer: ArrayBuffer,
     opts: PatchFromLandmarksOpts,
   ): Promise<PatchFromLandmarksResult> {
-    await this.readyPromise;
-
-    const raw = await this.send(
-      "patch_from_landmarks",
-      {
-        stlBuffer,
-        faceIndices: opts.faceIndices,
-        positions: opts.positions,
-        numLandmarks: opts.faceIndices.length,
-      },
-      opts.onStatus,
+    const { onStatus, signal, ...params } = opts;
+    return toPatch(
+      await this.rpc.call("patchFromLandmarks", { stlBuffer, ...params }, { onStatus, signal }),
     );
-
-    return {
-      faceIndices: new Uint32Array(raw.faceIndices),
-      contourPoints: new Float32Array(raw.contourPoints),
-      contourSizes: new Uint32Array(raw.contourSizes),
-      numFaces: raw.numFaces,
-      numContourPts: raw.numContourPts,
-      numContours: raw.numContours,
-    };
   }
-
-  // ---- internals --------------------------------------------------------
-
-  private send(
-    type: string,
-    payload: any,
-    onStatus?: (s: string) => void,
-  ): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const id = this.nextId++;
-      this.pending.set(id, { resolve, reject, onStatus });
-      this.worker.postMessage({ id, type, payload });
-    });
-  }
-
-  private onMessage = (e: MessageEvent) => {
-    const { id, type, result, error, status } = e.data;
-    const req = this.pending.get(id);
-    if (!req) return;
-
-    if (type === "status") {
-      req.onStatus?.(status);
-      return; // don't delete – still waiting for result
-    }
-
-    this.pending.delete(id);
-
-    if (type === "pong" || type === "result") {
-      req.resolve(result);
-    } else if (type === "error") {
-      req.reject(new Error(error));
-    }
-  };
 }
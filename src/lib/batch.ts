@@ -0,0 +1,332 @@
+/**
+ * Batch processing: run the same checks and pipeline steps over many mesh
+ * files and collect one row of results per file.
+ *
+ * Files are imported and processed independently of the shared mesh
+ * session. Up to `concurrency` files are in flight at once; with pooled
+ * clients (see WorkerPool) their WASM calls run in parallel.
+ */
+
+import { MeshImportClient } from "./meshImportClient";
+import { MeshAnalysisClient } from "./meshAnalysisClient";
+import { MeshFormat } from "./meshImport";
+import { MESH_EXPORT_FORMATS, MeshExportFormat, exportMesh } from "./meshExport";
+import { readLocalMesh } from "./meshFiles";
+import {
+  PipelineClients,
+  PipelineStep,
+  STEP_LABELS,
+  runPipeline,
+  serializePipeline,
+} from "./pipeline";
+import { baseName, csvCell } from "./download";
+import { writeZip } from "./zip";
+import { isAbortError } from "./rpc/protocol";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BatchConfig {
+  /** Count self-intersections on each input before processing */
+  detectIntersections: boolean;
+  /** Processing steps, run in order; empty for a check-only batch */
+  steps: PipelineStep[];
+}
+
+export interface BatchClients extends PipelineClients {
+  import: MeshImportClient;
+  /** Counts boundary loops around fill-holes steps */
+  analysis: MeshAnalysisClient;
+}
+
+export type BatchFileStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface BatchFileResult {
+  /** Position in the submitted file list */
+  index: number;
+  /** Path relative to the picked folder, or the plain file name */
+  path: string;
+  sizeBytes: number;
+  status: BatchFileStatus;
+  /** What the file is waiting on while running */
+  stage?: string;
+  format: MeshFormat | null;
+  inputFaces: number | null;
+  outputFaces: number | null;
+  intersectionsFound: number | null;
+  /** Faces removed by repair-intersections steps */
+  intersectionFacesRemoved: number | null;
+  /** Boundary loops closed by fill-holes steps, counted before and after each fill */
+  holesFilled: number | null;
+  /** Faces added by fill-holes steps */
+  holeFillFacesAdded: number | null;
+  elapsedMs: number | null;
+  error?: string;
+  /** Processed binary STL, once done (only when the batch has steps) */
+  output?: ArrayBuffer;
+}
+
+export interface RunBatchOptions {
+  /** Files processed at the same time. Default 2. */
+  concurrency?: number;
+  /** Stops starting new files and cancels those in flight */
+  signal?: AbortSignal;
+  /** Called with the updated row whenever a file changes state or stage */
+  onUpdate?: (row: BatchFileResult) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+/** Folder-relative path of a picked file (set for directory picks), else its name. */
+export function filePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+export function initialBatchRows(files: File[]): BatchFileResult[] {
+  return files.map((f, index) => ({
+    index,
+    path: filePath(f),
+    sizeBytes: f.size,
+    status: "queued",
+    format: null,
+    inputFaces: null,
+    outputFaces: null,
+    intersectionsFound: null,
+    intersectionFacesRemoved: null,
+    holesFilled: null,
+    holeFillFacesAdded: null,
+    elapsedMs: null,
+  }));
+}
+
+async function processFile(
+  file: File,
+  config: BatchConfig,
+  clients: BatchClients,
+  signal: AbortSignal | undefined,
+  update: (patch: Partial<BatchFileResult>) => void,
+): Promise<void> {
+  const startMs = performance.now();
+
+  update({ status: "running", stage: "Reading file" });
+  const raw = await readLocalMesh(file);
+
+  update({ stage: "Importing" });
+  const imported = await clients.import.importMesh(raw, file.name, { signal });
+  const input = imported.output;
+  update({ format: imported.format, inputFaces: imported.faces });
+
+  if (config.detectIntersections) {
+    update({ stage: "Detecting self-intersections" });
+    const r = await clients.selfIntersections.detect(input, { signal });
+    update({ intersectionsFound: r.count });
+  }
+
+  let output: ArrayBuffer | undefined;
+  let outputFaces: number | null = imported.faces;
+  let removed: number | null = null;
+  let filled: number | null = null;
+  let added: number | null = null;
+
+  if (config.steps.length > 0) {
+    const results = await runPipeline(input, config.steps, clients, {
+      signal,
+      onStepStart: (i, step) =>
+        update({ stage: `Step ${i + 1}/${config.steps.length}: ${STEP_LABELS[step.kind]}` }),
+    });
+    for (let i = 0; i < config.steps.length; i++) {
+      const step = config.steps[i];
+      const r = results[i];
+      if (step.kind === "repairIntersections") {
+        removed = (removed ?? 0) + (r.removedFaces ?? 0);
+      } else if (step.kind === "fillHoles") {
+        // The fill reports no hole count, so compare the boundary loops around it
+        update({ stage: `Counting holes filled by step ${i + 1}` });
+        const before = await clients.analysis.holes(i === 0 ? input : results[i - 1].output, { signal });
+        const after = await clients.analysis.holes(r.output, { signal });
+        filled = (filled ?? 0) + Math.max(0, before.holes.length - after.holes.length);
+        if (r.inputFaces !== null && r.outputFaces !== null) {
+          added = (added ?? 0) + (r.outputFaces - r.inputFaces);
+        }
+      }
+    }
+    const last = results[results.length - 1];
+    output = last.output;
+    outputFaces = last.outputFaces;
+  }
+
+  update({
+    status: "done",
+    stage: undefined,
+    output,
+    outputFaces,
+    intersectionFacesRemoved: removed,
+    holesFilled: filled,
+    holeFillFacesAdded: added,
+    elapsedMs: performance.now() - startMs,
+  });
+}
+
+/**
+ * Process every file with the same configuration. Never rejects: per-file
+ * failures and cancellations are recorded on the returned rows.
+ */
+export async function runBatch(
+  files: File[],
+  config: BatchConfig,
+  clients: BatchClients,
+  opts: RunBatchOptions = {},
+): Promise<BatchFileResult[]> {
+  const rows = initialBatchRows(files);
+  const { signal } = opts;
+  let next = 0;
+
+  const update = (i: number, patch: Partial<BatchFileResult>) => {
+    rows[i] = { ...rows[i], ...patch };
+    opts.onUpdate?.(rows[i]);
+  };
+
+  async function lane() {
+    while (next < files.length) {
+      const i = next++;
+      if (signal?.aborted) {
+        update(i, { status: "cancelled" });
+        continue;
+      }
+      const startMs = performance.now();
+      try {
+        await processFile(files[i], config, clients, signal, (p) => update(i, p));
+      } catch (e: any) {
+        const cancelled = isAbortError(e);
+        if (!cancelled) console.error(`[Batch] ${rows[i].path} failed:`, e);
+        update(i, {
+          status: cancelled ? "cancelled" : "failed",
+          stage: undefined,
+          error: cancelled ? undefined : String(e?.message || e),
+          elapsedMs: performance.now() - startMs,
+        });
+      }
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(opts.concurrency ?? 2, files.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+export type BatchColumnKey =
+  | "path"
+  | "status"
+  | "format"
+  | "inputFaces"
+  | "outputFaces"
+  | "holesFilled"
+  | "holeFillFacesAdded"
+  | "intersectionsFound"
+  | "intersectionFacesRemoved"
+  | "elapsedMs"
+  | "error";
+
+export interface BatchColumn {
+  key: BatchColumnKey;
+  label: string;
+  /** Numeric columns sort numerically and are right-aligned */
+  numeric: boolean;
+}
+
+/** Report columns, in table and CSV order. */
+export const BATCH_COLUMNS: BatchColumn[] = [
+  { key: "path", label: "File", numeric: false },
+  { key: "status", label: "Status", numeric: false },
+  { key: "format", label: "Format", numeric: false },
+  { key: "inputFaces", label: "Input faces", numeric: true },
+  { key: "outputFaces", label: "Output faces", numeric: true },
+  { key: "holesFilled", label: "Holes filled", numeric: true },
+  { key: "holeFillFacesAdded", label: "Hole-fill faces added", numeric: true },
+  { key: "intersectionsFound", label: "Intersections found", numeric: true },
+  { key: "intersectionFacesRemoved", label: "Intersection faces removed", numeric: true },
+  { key: "elapsedMs", label: "Time (ms)", numeric: true },
+  { key: "error", label: "Error", numeric: false },
+];
+
+export function batchCellValue(row: BatchFileResult, key: BatchColumnKey): string | number | null {
+  const v = row[key];
+  if (key === "elapsedMs" && typeof v === "number") return Math.round(v);
+  return v ?? null;
+}
+
+/** Order rows by one column; empty cells always sort last. */
+export function sortBatchRows(
+  rows: BatchFileResult[],
+  key: BatchColumnKey,
+  descending: boolean,
+): BatchFileResult[] {
+  const dir = descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const va = batchCellValue(a, key);
+    const vb = batchCellValue(b, key);
+    if (va === null || vb === null) {
+      return va === vb ? a.index - b.index : va === null ? 1 : -1;
+    }
+    const cmp =
+      typeof va === "number" && typeof vb === "number"
+        ? va - vb
+        : String(va).localeCompare(String(vb), undefined, { numeric: true });
+    return cmp * dir || a.index - b.index;
+  });
+}
+
+export function batchReportCsv(rows: BatchFileResult[]): string {
+  const lines = [BATCH_COLUMNS.map((c) => csvCell(c.label)).join(",")];
+  for (const row of rows) {
+    lines.push(BATCH_COLUMNS.map((c) => csvCell(batchCellValue(row, c.key))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function batchReportJson(rows: BatchFileResult[], config: BatchConfig): string {
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      detectIntersections: config.detectIntersections,
+      pipeline: JSON.parse(serializePipeline("batch", config.steps)),
+      files: rows.map(({ output: _output, stage: _stage, ...row }) => ({
+        ...row,
+        elapsedMs: row.elapsedMs === null ? null : Math.round(row.elapsedMs),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Every processed output in one ZIP, keeping the picked folder structure:
+ * "scans/part.obj" → "scans/part_processed.stl".
+ */
+export async function batchOutputsZip(
+  rows: BatchFileResult[],
+  format: MeshExportFormat,
+): Promise<Blob> {
+  const ext = MESH_EXPORT_FORMATS.find((f) => f.format === format)!.extension;
+  const used = new Set<string>();
+  const files = [];
+  for (const row of rows) {
+    if (!row.output) continue;
+    const dir = row.path.includes("/") ? row.path.slice(0, row.path.lastIndexOf("/") + 1) : "";
+    const stem = `${dir}${baseName(row.path)}_processed`;
+    let name = `${stem}.${ext}`;
+    for (let n = 2; used.has(name); n++) name = `${stem}_${n}.${ext}`;
+    used.add(name);
+    const blob = exportMesh(row.output, format, baseName(row.path));
+    files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return writeZip(files);
+}
@@ -0,0 +1,57 @@
+/**
+ * Colouring and wording for the deviation between a processed mesh and its
+ * source (see meshDeviation in meshAnalysis.ts). Distances are signed and
+ * in STL units: negative inside the source, positive outside.
+ */
+
+import { DeviationStats } from "./meshAnalysis";
+
+/**
+ * Diverging colour ramp from −range to +range: blue inside, green on the
+ * source surface, red outside. Stops are [position 0–1, r, g, b].
+ */
+export const DEVIATION_COLOR_STOPS: [number, number, number, number][] = [
+  [0, 0.15, 0.25, 0.95],
+  [0.25, 0.1, 0.75, 0.95],
+  [0.5, 0.2, 0.85, 0.3],
+  [0.75, 0.98, 0.85, 0.15],
+  [1, 0.95, 0.2, 0.15],
+];
+
+/** Ramp colour for a signed distance; values beyond ±range take the end colours. */
+export function deviationRgb(distance: number, range: number): [number, number, number] {
+  const t = range > 0 ? Math.min(1, Math.max(0, distance / range / 2 + 0.5)) : 0.5;
+  for (let i = 1; i < DEVIATION_COLOR_STOPS.length; i++) {
+    const [p1, r1, g1, b1] = DEVIATION_COLOR_STOPS[i];
+    if (t > p1) continue;
+    const [p0, r0, g0, b0] = DEVIATION_COLOR_STOPS[i - 1];
+    const f = (t - p0) / (p1 - p0);
+    return [r0 + (r1 - r0) * f, g0 + (g1 - g0) * f, b0 + (b1 - b0) * f];
+  }
+  const [, r, g, b] = DEVIATION_COLOR_STOPS[DEVIATION_COLOR_STOPS.length - 1];
+  return [r, g, b];
+}
+
+/** rgb per corner for per-corner distances, as a non-indexed colour attribute. */
+export function deviationColors(distances: Float32Array, range: number): Float32Array {
+  const colors = new Float32Array(distances.length * 3);
+  for (let i = 0; i < distances.length; i++) colors.set(deviationRgb(distances[i], range), i * 3);
+  return colors;
+}
+
+/** The CSS gradient matching the ramp, left (−range) to right (+range). */
+export function deviationGradientCss(): string {
+  const stops = DEVIATION_COLOR_STOPS.map(
+    ([p, r, g, b]) => `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}) ${p * 100}%`,
+  );
+  return `linear-gradient(to right, ${stops.join(", ")})`;
+}
+
+/** Card lines, e.g. "Deviation max 0.12, mean 0.021, RMS 0.034" and "Hausdorff 0.15". */
+export function describeDeviation(d: DeviationStats): string[] {
+  const num = (x: number) => Number(x.toPrecision(3)).toString();
+  return [
+    `Deviation max ${num(Math.max(-d.min, d.max))}, mean ${num(d.meanAbs)}, RMS ${num(d.rms)}`,
+    `Hausdorff ${num(d.hausdorff)}`,
+  ];
+}
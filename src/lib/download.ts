@@ -0,0 +1,51 @@
+/** Trigger a browser download of in-memory data. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
+
+export function downloadText(
+  text: string,
+  filename: string,
+  type = "text/plain",
+): void {
+  downloadBlob(new Blob([text], { type }), filename);
+}
+
+/** One CSV field, quoted when it holds a comma, quote or line break. */
+export function csvCell(v: string | number | null): string {
+  if (v === null) return "";
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** File name without its extension or directory, e.g. "complex/Duck.stl" → "Duck". */
+export function baseName(name: string): string {
+  const file = name.split(/[\\/]/).pop() ?? name;
+  const dot = file.lastIndexOf(".");
+  return dot > 0 ? file.slice(0, dot) : file;
+}
+
+/**
+ * Open an HTML document in a new tab and show the print dialog, so it can
+ * be saved as PDF. Throws when the browser blocks the new tab.
+ */
+export function printHtml(html: string): void {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  const win = window.open(url, "_blank");
+  if (!win) {
+    URL.revokeObjectURL(url);
+    throw new Error("The browser blocked the print tab; allow pop-ups for this site");
+  }
+  win.addEventListener("load", () => {
+    win.print();
+    URL.revokeObjectURL(url);
+  });
+}
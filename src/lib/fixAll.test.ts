@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { FIX_STEPS, FixAllClients, planFixes, runFixAll } from "./fixAll";
+import { CheckId } from "./meshChecks";
+import { PipelineStepError } from "./pipeline";
+import { writeBinaryStl } from "./meshExport";
+import { cube } from "../test/meshes";
+
+const kinds = (failing: CheckId[]) => planFixes(new Set(failing)).map((s) => s.kind);
+
+describe("planFixes", () => {
+  it("orders repairs the fixed way whatever order checks fail in", () => {
+    expect(kinds(["normals", "holes", "overlaps"])).toEqual(["removeDuplicates", "fillHoles", "reorient"]);
+    expect(kinds(FIX_STEPS.map((s) => s.check))).toEqual(FIX_STEPS.map((s) => s.kind));
+  });
+
+  it("fills the holes that intersection repair or bad edges leave", () => {
+    expect(kinds(["intersections"])).toEqual(["repairIntersections", "fillHoles"]);
+    expect(kinds(["edges"])).toEqual(["fillHoles"]);
+  });
+
+  it("plans nothing for checks without a repair", () => {
+    expect(kinds([])).toEqual([]);
+  });
+});
+
+describe("runFixAll", () => {
+  const input = writeBinaryStl(cube());
+
+  function fakeClients(): FixAllClients {
+    return {
+      analysis: {
+        removeDuplicates: async (stl: ArrayBuffer) => ({ output: stl, removedFaces: 2 }),
+        removeComponents: vi.fn(async (stl: ArrayBuffer) => ({ output: stl, removedComponents: 3 })),
+        reorient: async () => Promise.reject(new Error("no shells")),
+      },
+      fillHoles: { fillHoles: async (stl: ArrayBuffer) => stl },
+      selfIntersections: { repair: async (stl: ArrayBuffer) => ({ output: stl, removedFaces: 0 }) },
+    } as unknown as FixAllClients;
+  }
+
+  it("notes what each step changed and passes the area ratio on", async () => {
+    const clients = fakeClients();
+    const results = await runFixAll(input, planFixes(new Set<CheckId>(["overlaps", "shells"])), clients, {
+      minAreaRatio: 0.02,
+    });
+    expect(results.map((r) => r.note)).toEqual(["2 duplicate face(s) removed", "3 shell(s) removed"]);
+    expect(results[1]).toMatchObject({ inputFaces: 12, outputFaces: 12 });
+    expect(clients.analysis.removeComponents).toHaveBeenCalledWith(input, 0.02, expect.anything());
+  });
+
+  it("labels a failure with the failing step", async () => {
+    const run = runFixAll(input, planFixes(new Set<CheckId>(["holes", "normals"])), fakeClients(), { minAreaRatio: 0 });
+    await expect(run).rejects.toBeInstanceOf(PipelineStepError);
+    await expect(run).rejects.toThrow("Step 2 (Reorient normals) failed: no shells");
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * "Fix all" for the Mesh Checks page: the repairs for a set of failing
+ * checks, chained so that each step's output feeds the next.
+ *
+ * Steps run in a fixed order chosen so that later repairs don't undo or
+ * trip over earlier ones:
+ *   1. delete duplicate faces — duplicates read as intersections and
+ *      non-manifold edges to everything downstream
+ *   2. remove noise shells — no point repairing geometry that is dropped
+ *   3. repair self-intersections — removes faces, which leaves holes
+ *   4. fill holes — also closes the holes step 3 opened
+ *   5. reorient normals — last, so fill patches are oriented too
+ */
+
+import { CheckId } from "./meshChecks";
+import { FillHolesClient } from "./fillHolesClient";
+import { MeshAnalysisClient } from "./meshAnalysisClient";
+import { SelfIntersectionsClient } from "./selfIntersectionsClient";
+import { ChainedStepResult, RunStepChainOptions, StepCallOptions, runStepChain } from "./pipeline";
+
+// ---------------------------------------------------------------------------
+// Plan
+// ---------------------------------------------------------------------------
+
+export type FixStepKind =
+  | "removeDuplicates"
+  | "removeNoiseShells"
+  | "repairIntersections"
+  | "fillHoles"
+  | "reorient";
+
+export interface FixStep {
+  kind: FixStepKind;
+  /** The check this step repairs */
+  check: CheckId;
+  label: string;
+}
+
+/** Every repair, in the order they run. */
+export const FIX_STEPS: FixStep[] = [
+  { kind: "removeDuplicates", check: "overlaps", label: "Delete duplicate faces" },
+  { kind: "removeNoiseShells", check: "shells", label: "Remove noise shells" },
+  { kind: "repairIntersections", check: "intersections", label: "Repair self-intersections" },
+  { kind: "fillHoles", check: "holes", label: "Fill holes" },
+  { kind: "reorient", check: "normals", label: "Reorient normals" },
+];
+
+/**
+ * The steps that repair `failing` checks, in run order. Bad edges have no
+ * repair of their own; open boundaries among them are closed by filling
+ * holes.
+ */
+export function planFixes(failing: ReadonlySet<CheckId>): FixStep[] {
+  const wanted = new Set<FixStepKind>();
+  for (const step of FIX_STEPS) {
+    if (failing.has(step.check)) wanted.add(step.kind);
+  }
+  // Intersection repair cuts faces out; fill the holes it leaves
+  if (wanted.has("repairIntersections") || failing.has("edges")) wanted.add("fillHoles");
+  return FIX_STEPS.filter((s) => wanted.has(s.kind));
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+export interface FixAllClients {
+  analysis: MeshAnalysisClient;
+  fillHoles: FillHolesClient;
+  selfIntersections: SelfIntersectionsClient;
+}
+
+export interface FixStepOutput {
+  step: FixStep;
+  /** Binary STL produced by the step */
+  output: ArrayBuffer;
+  /** What the step changed, e.g. "3 shell(s) removed" */
+  note?: string;
+}
+
+export type FixStepResult = ChainedStepResult<FixStepOutput>;
+
+export interface RunFixAllOptions extends RunStepChainOptions<FixStep, FixStepOutput> {
+  /** Shells below this fraction of the largest shell's area are noise */
+  minAreaRatio: number;
+}
+
+async function runFixStep(
+  step: FixStep,
+  input: ArrayBuffer,
+  clients: FixAllClients,
+  minAreaRatio: number,
+  call: StepCallOptions,
+): Promise<{ output: ArrayBuffer; note?: string }> {
+  switch (step.kind) {
+    case "removeDuplicates": {
+      const r = await clients.analysis.removeDuplicates(input, call);
+      return { output: r.output, note: `${r.removedFaces} duplicate face(s) removed` };
+    }
+    case "removeNoiseShells": {
+      const r = await clients.analysis.removeComponents(input, minAreaRatio, call);
+      return { output: r.output, note: `${r.removedComponents} shell(s) removed` };
+    }
+    case "repairIntersections": {
+      const r = await clients.selfIntersections.repair(input, call);
+      return { output: r.output, note: `${r.removedFaces} face(s) removed` };
+    }
+    case "fillHoles":
+      return { output: await clients.fillHoles.fillHoles(input, call) };
+    case "reorient": {
+      const r = await clients.analysis.reorient(input, call);
+      return { output: r.output, note: `${r.flippedFaces} face(s) flipped` };
+    }
+  }
+}
+
+/**
+ * Run `steps` in order, feeding each output into the next (see
+ * runStepChain for how failures and cancels surface).
+ */
+export function runFixAll(
+  input: ArrayBuffer,
+  steps: FixStep[],
+  clients: FixAllClients,
+  opts: RunFixAllOptions,
+): Promise<FixStepResult[]> {
+  return runStepChain(
+    input,
+    steps,
+    async (step, current, call) => ({ step, ...(await runFixStep(step, current, clients, opts.minAreaRatio, call)) }),
+    (step) => step.label,
+    opts,
+  );
+}
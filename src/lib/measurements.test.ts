@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { Measurement, angleDegrees, distance, fitCircle, formatMeasurement, measurementsCsv } from "./measurements";
+import { Vec3 } from "./meshAnalysis";
+
+/** `count` points evenly around a circle in the plane spanned by `u` and `v`. */
+function circlePoints(center: Vec3, radius: number, u: Vec3, v: Vec3, count: number): Vec3[] {
+  return Array.from({ length: count }, (_, i) => {
+    const t = (2 * Math.PI * i) / count;
+    const c = Math.cos(t) * radius;
+    const s = Math.sin(t) * radius;
+    return [0, 1, 2].map((d) => center[d] + u[d] * c + v[d] * s) as Vec3;
+  });
+}
+
+describe("distance and angleDegrees", () => {
+  it("measures straight-line distance", () => {
+    expect(distance([1, 2, 3], [4, 6, 3])).toBe(5);
+  });
+
+  it("measures the angle at the corner", () => {
+    expect(angleDegrees([1, 0, 0], [0, 0, 0], [0, 2, 0])).toBeCloseTo(90);
+    expect(angleDegrees([1, 0, 0], [0, 0, 0], [-1, 0, 0])).toBeCloseTo(180);
+    expect(angleDegrees([1, 0, 0], [0, 0, 0], [1, 1, 0])).toBeCloseTo(45);
+  });
+});
+
+describe("fitCircle", () => {
+  it("recovers a tilted circle from three points", () => {
+    const s = Math.SQRT1_2;
+    const fit = fitCircle(circlePoints([1, 2, 3], 4, [s, s, 0], [0, 0, 1], 3));
+    expect(fit.radius).toBeCloseTo(4);
+    fit.center.forEach((x, d) => expect(x).toBeCloseTo([1, 2, 3][d]));
+    expect(Math.abs(fit.normal[0] * s - fit.normal[1] * s)).toBeCloseTo(1);
+    expect(fit.rms).toBeCloseTo(0);
+  });
+
+  it("averages noisy picks", () => {
+    const points = circlePoints([0, 0, 0], 10, [1, 0, 0], [0, 1, 0], 12).map(
+      (q, i) => [q[0] * (1 + (i % 2 ? 0.01 : -0.01)), q[1] * (1 + (i % 2 ? 0.01 : -0.01)), q[2]] as Vec3,
+    );
+    const fit = fitCircle(points);
+    expect(fit.radius).toBeCloseTo(10, 1);
+    expect(fit.rms).toBeCloseTo(0.1, 2);
+  });
+
+  it("rejects too few or collinear points", () => {
+    expect(() => fitCircle([[0, 0, 0], [1, 0, 0]])).toThrow(/three points/);
+    expect(() => fitCircle([[0, 0, 0], [1, 1, 1], [2, 2, 2]])).toThrow(/collinear/);
+  });
+
+  it("fits a circle far smaller than one unit", () => {
+    const fit = fitCircle(circlePoints([0, 0, 0], 1e-4, [1, 0, 0], [0, 1, 0], 5));
+    expect(fit.radius / 1e-4).toBeCloseTo(1, 9);
+  });
+
+  it("fits a circle far from the origin", () => {
+    const fit = fitCircle(circlePoints([1e6, -2e6, 3e6], 5, [0, 1, 0], [0, 0, 1], 6));
+    expect(fit.radius).toBeCloseTo(5, 6);
+    fit.center.forEach((x, d) => expect(x).toBeCloseTo([1e6, -2e6, 3e6][d], 6));
+  });
+
+  it("rejects nearly collinear points far from the origin", () => {
+    const points = [0, 1, 2, 3].map((t) => [1e6 + 10 * t, 2e6 + 20 * t + 1e-9 * t * t, 3e6 + 30 * t] as Vec3);
+    expect(() => fitCircle(points)).toThrow(/collinear/);
+  });
+});
+
+describe("formatting", () => {
+  const circle: Measurement = {
+    id: 1,
+    kind: "circle",
+    label: "Bore, left",
+    picks: [{ face: 0, point: [1, 2, 3] }],
+    value: 4.0061,
+    circle: { center: [1, 2, 3], normal: [0, 0, 1], radius: 4.0061, rms: 0.002 },
+  };
+
+  it("formats values per kind", () => {
+    expect(formatMeasurement(circle)).toBe("Ø 8.0122 (r 4.0061)");
+    expect(formatMeasurement({ ...circle, kind: "angle", value: 89.96 })).toBe("90.0°");
+    expect(formatMeasurement({ ...circle, kind: "distance", value: 12.345678 })).toBe("12.346");
+  });
+
+  it("writes one quoted CSV row per measurement", () => {
+    const lines = measurementsCsv([circle]).split("\r\n");
+    expect(lines[0]).toBe("label,kind,value,unit,diameter,fit_rms,center_x,center_y,center_z,points");
+    expect(lines[1]).toBe('"Bore, left",circle,4.0061,stl,8.0122,0.002,1,2,3,1 2 3');
+    expect(lines[2]).toBe("");
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Measurements picked on a mesh surface: point-to-point distance,
+ * three-point angle, circle fit and path length over the surface.
+ *
+ * Picks and results are in the STL's own coordinates, never the viewer's
+ * fitted or true-scale space, so a measurement reads the same however the
+ * mesh is displayed. Each pick keeps its face so surface paths can be
+ * traced from it (see surfacePath in meshAnalysis.ts).
+ */
+
+import { SurfacePoint, Vec3 } from "./meshAnalysis";
+import { csvCell } from "./download";
+
+// ---------------------------------------------------------------------------
+// Tools
+// ---------------------------------------------------------------------------
+
+export type MeasurementKind = "distance" | "angle" | "circle" | "path";
+
+export interface MeasurementTool {
+  kind: MeasurementKind;
+  label: string;
+  minPoints: number;
+  /** Measures as soon as this many points are picked; null = finished by hand */
+  maxPoints: number | null;
+  hint: string;
+}
+
+export const MEASUREMENT_TOOLS: MeasurementTool[] = [
+  { kind: "distance", label: "Distance", minPoints: 2, maxPoints: 2, hint: "Pick two points" },
+  {
+    kind: "angle",
+    label: "Angle",
+    minPoints: 3,
+    maxPoints: 3,
+    hint: "Pick a point, the corner, then a second point",
+  },
+  {
+    kind: "circle",
+    label: "Circle",
+    minPoints: 3,
+    maxPoints: null,
+    hint: "Pick three or more points around a round edge or hole",
+  },
+  {
+    kind: "path",
+    label: "Surface path",
+    minPoints: 2,
+    maxPoints: null,
+    hint: "Pick points to walk through along the surface",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Measurements
+// ---------------------------------------------------------------------------
+
+export interface CircleFit {
+  center: Vec3;
+  /** Unit normal of the fitted plane */
+  normal: Vec3;
+  radius: number;
+  /** RMS distance of the picks from the fitted circle */
+  rms: number;
+}
+
+export interface Measurement {
+  /** Unique within a list */
+  id: number;
+  kind: MeasurementKind;
+  label: string;
+  picks: SurfacePoint[];
+  /** Distance or path length, angle in degrees, or circle radius */
+  value: number;
+  /** Circle fits only */
+  circle?: CircleFit;
+  /** Surface paths only: polyline over the surface, flat [x,y,z, …] */
+  path?: number[];
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(a: Vec3): Vec3 {
+  const len = Math.hypot(...a);
+  return len > 0 ? [a[0] / len, a[1] / len, a[2] / len] : [0, 0, 1];
+}
+
+/** Below this, relative to the points' spread, picks count as collinear */
+const COLLINEAR_TOLERANCE = 1e-9;
+
+export function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(...sub(a, b));
+}
+
+/** Angle at `corner` between the rays to `a` and `b`, in degrees. */
+export function angleDegrees(a: Vec3, corner: Vec3, b: Vec3): number {
+  const u = sub(a, corner);
+  const v = sub(b, corner);
+  return (Math.atan2(Math.hypot(...cross(u, v)), dot(u, v)) * 180) / Math.PI;
+}
+
+/**
+ * Best-fit circle through three or more points: the plane comes from the
+ * points' Newell normal (so pick them in order around the circle), then an
+ * algebraic least-squares circle is fitted in that plane. Throws when the
+ * points are collinear.
+ *
+ * The fit runs on the points centred on their centroid and scaled to unit
+ * RMS distance from it, so the collinearity tolerances are relative: a
+ * 0.1 mm hole reads the same as a 1 m flange, and far from the origin.
+ */
+export function fitCircle(points: Vec3[]): CircleFit {
+  if (points.length < 3) throw new Error("A circle needs at least three points");
+  const n = points.length;
+  const centroid: Vec3 = [0, 0, 0];
+  for (const q of points) for (let d = 0; d < 3; d++) centroid[d] += q[d] / n;
+  let spread = 0;
+  for (const q of points) spread += dot(sub(q, centroid), sub(q, centroid)) / n;
+  const scale = Math.sqrt(spread);
+  if (!(scale > 0)) throw new Error("The picked points are collinear");
+  const local = points.map((q) => sub(q, centroid).map((x) => x / scale) as Vec3);
+
+  let newell: Vec3 = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    const a = local[i];
+    const b = local[(i + 1) % n];
+    newell = [newell[0] + a[1] * b[2] - a[2] * b[1], newell[1] + a[2] * b[0] - a[0] * b[2], newell[2] + a[0] * b[1] - a[1] * b[0]];
+  }
+  if (Math.hypot(...newell) < COLLINEAR_TOLERANCE * n) throw new Error("The picked points are collinear");
+  const normal = normalize(newell);
+  const u = normalize(Math.abs(normal[0]) < 0.9 ? cross(normal, [1, 0, 0]) : cross(normal, [0, 1, 0]));
+  const v = cross(normal, u);
+
+  // x² + y² + Dx + Ey + F = 0, least squares over the projected points
+  const m = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const rhs = [0, 0, 0];
+  const flat = local.map((r) => [dot(r, u), dot(r, v)]);
+  for (const [x, y] of flat) {
+    const row = [x, y, 1];
+    const b = -(x * x + y * y);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) m[i][j] += row[i] * row[j];
+      rhs[i] += row[i] * b;
+    }
+  }
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const full = det(m);
+  // Unit spread bounds every entry of m by n
+  if (Math.abs(full) < COLLINEAR_TOLERANCE * n ** 3) throw new Error("The picked points are collinear");
+  const solve = (col: number) => det(m.map((row, i) => row.map((x, j) => (j === col ? rhs[i] : x)))) / full;
+  const [D, E, F] = [solve(0), solve(1), solve(2)];
+
+  const cx = -D / 2;
+  const cy = -E / 2;
+  const radius = Math.sqrt(Math.max(0, cx * cx + cy * cy - F));
+  let sq = 0;
+  for (const [x, y] of flat) sq += (Math.hypot(x - cx, y - cy) - radius) ** 2;
+
+  const center: Vec3 = [0, 1, 2].map((d) => centroid[d] + (u[d] * cx + v[d] * cy) * scale) as Vec3;
+  return { center, normal, radius: radius * scale, rms: Math.sqrt(sq / n) * scale };
+}
+
+/** Short human-readable value, e.g. "12.35", "90.0°" or "Ø 8.012 (r 4.006)". */
+export function formatMeasurement(m: Measurement): string {
+  const num = (x: number) => Number(x.toPrecision(5)).toString();
+  switch (m.kind) {
+    case "distance":
+    case "path":
+      return num(m.value);
+    case "angle":
+      return `${m.value.toFixed(1)}°`;
+    case "circle":
+      return `Ø ${num(m.value * 2)} (r ${num(m.value)})`;
+  }
+}
+
+/** One row per measurement, lengths in STL units and angles in degrees. */
+export function measurementsCsv(list: Measurement[]): string {
+  const header = ["label", "kind", "value", "unit", "diameter", "fit_rms", "center_x", "center_y", "center_z", "points"];
+  const lines = [header.join(",")];
+  for (const m of list) {
+    const points = m.picks.map((p) => p.point.map((x) => Number(x.toPrecision(7))).join(" ")).join("; ");
+    lines.push(
+      [
+        m.label,
+        m.kind,
+        m.value,
+        m.kind === "angle" ? "deg" : "stl",
+        m.circle ? m.circle.radius * 2 : null,
+        m.circle ? m.circle.rms : null,
+        m.circle ? m.circle.center[0] : null,
+        m.circle ? m.circle.center[1] : null,
+        m.circle ? m.circle.center[2] : null,
+        points,
+      ]
+        .map(csvCell)
+        .join(","),
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EDGE_THRESHOLDS,
+  analyzeEdges,
+  analyzeOrientation,
+  fillHoleLoops,
+  findComponents,
+  findHoles,
+  findOverlaps,
+  flipFaces,
+  meshDeviation,
+  planeSection,
+  removeDuplicateFaces,
+  removeIsolatedVertices,
+  removeSmallComponents,
+  surfacePath,
+} from "./meshAnalysis";
+import { IndexedMesh } from "./meshExport";
+import { cube, grid, merge, pick, withoutFaces } from "../test/meshes";
+
+/** Cube faces 2 and 3 make up its top (z = max) side. */
+const TOP = [2, 3];
+
+describe("findHoles", () => {
+  it("finds nothing on a closed cube", () => {
+    expect(findHoles(cube())).toEqual([]);
+  });
+
+  it("measures the open top of a cube", () => {
+    const holes = findHoles(withoutFaces(cube(2), TOP));
+    expect(holes).toHaveLength(1);
+    const [hole] = holes;
+    expect(hole.edgeCount).toBe(4);
+    expect(hole.perimeter).toBeCloseTo(8);
+    expect(hole.area).toBeCloseTo(4);
+    expect(hole.planarity).toBeCloseTo(0);
+    expect(hole.centroid).toEqual([1, 1, 2]);
+    expect(hole.normal[2]).toBeCloseTo(1);
+  });
+});
+
+describe("fillHoleLoops", () => {
+  for (const method of ["planar", "smooth"] as const) {
+    it(`closes the cube with outward faces (${method})`, () => {
+      const open = withoutFaces(cube(), TOP);
+      const r = fillHoleLoops(open, findHoles(open), method);
+      expect(r.addedFaces).toBeGreaterThanOrEqual(2);
+      expect(findHoles(r.mesh)).toEqual([]);
+      expect(analyzeOrientation(r.mesh).invertedFaces).toBe(0);
+    });
+  }
+});
+
+describe("findComponents", () => {
+  const mesh = merge(cube(1), cube(0.1, [5, 5, 5]));
+
+  it("splits shells and ranks them by area", () => {
+    const { components, faceComponent } = findComponents(mesh);
+    expect(components).toHaveLength(2);
+    expect(components[0].faceCount).toBe(12);
+    expect(components[0].area).toBeCloseTo(6);
+    expect(components[1].areaRatio).toBeCloseTo(0.01);
+    expect(components[1].bboxMin).toEqual([5, 5, 5]);
+    expect(faceComponent[0]).toBe(0);
+    expect(faceComponent[12]).toBe(1);
+  });
+
+  it("removes shells below the area ratio", () => {
+    const r = removeSmallComponents(mesh, findComponents(mesh), 0.05);
+    expect(r.removedComponents).toBe(1);
+    expect(r.mesh.indices.length / 3).toBe(12);
+  });
+});
+
+describe("analyzeOrientation", () => {
+  it("finds a face wound against its neighbours and flips it back", () => {
+    const mesh = cube();
+    const indices = mesh.indices.slice();
+    [indices[1], indices[2]] = [indices[2], indices[1]];
+    const flipped: IndexedMesh = { positions: mesh.positions, indices };
+
+    const r = analyzeOrientation(flipped);
+    expect(r.invertedFaces).toBe(1);
+    expect(r.faceInverted[0]).toBe(1);
+    expect(r.shells[0]).toMatchObject({ closed: true, method: "volume" });
+    expect(r.shells[0].volume).toBeCloseTo(1);
+
+    expect(analyzeOrientation(flipFaces(flipped, r.faceInverted)).invertedFaces).toBe(0);
+  });
+
+  it("orients an inside-out cube outwards", () => {
+    const mesh = cube();
+    const indices = mesh.indices.slice();
+    for (let f = 0; f < indices.length; f += 3) [indices[f + 1], indices[f + 2]] = [indices[f + 2], indices[f + 1]];
+    expect(analyzeOrientation({ positions: mesh.positions, indices }).invertedFaces).toBe(12);
+  });
+});
+
+describe("analyzeEdges", () => {
+  it("reports boundary edges and the cube's sharp creases", () => {
+    const closed = analyzeEdges(cube(), { ...DEFAULT_EDGE_THRESHOLDS, maxDihedralDeg: 45 });
+    expect(closed.boundary.length).toBe(0);
+    expect(closed.sharp.length / 6).toBe(12);
+
+    const open = analyzeEdges(withoutFaces(cube(), TOP), DEFAULT_EDGE_THRESHOLDS);
+    expect(open.boundary.length / 6).toBe(4);
+    expect(open.nonManifold.length).toBe(0);
+  });
+});
+
+describe("findOverlaps", () => {
+  it("finds duplicates and removes one copy", () => {
+    const mesh = cube();
+    const doubled: IndexedMesh = {
+      positions: mesh.positions,
+      indices: Uint32Array.from([...mesh.indices, ...mesh.indices.subarray(0, 3)]),
+    };
+    const r = findOverlaps(doubled);
+    expect(r.pairs).toEqual([{ a: 0, b: 12, area: expect.closeTo(0.5), duplicate: true }]);
+    expect(r.faceOverlap[0]).toBe(2);
+
+    const cleaned = removeDuplicateFaces(doubled, r.pairs);
+    expect(cleaned.removedFaces).toBe(1);
+    expect(findOverlaps(cleaned.mesh).pairs).toEqual([]);
+  });
+
+  it("measures partial overlaps of coplanar faces", () => {
+    const patch: IndexedMesh = {
+      positions: new Float32Array([0.25, 0.25, 1, 0.75, 0.25, 1, 0.25, 0.75, 1]),
+      indices: new Uint32Array([0, 1, 2]),
+    };
+    const r = findOverlaps(merge(cube(), patch));
+    expect(r.pairs.every((pair) => !pair.duplicate && pair.b === 12)).toBe(true);
+    expect(r.pairs.reduce((sum, pair) => sum + pair.area, 0)).toBeCloseTo(0.125);
+  });
+
+  it("ignores faces that only share an edge", () => {
+    expect(findOverlaps(cube()).pairs).toEqual([]);
+  });
+});
+
+describe("removeIsolatedVertices", () => {
+  it("drops vertices no face uses", () => {
+    const mesh = cube();
+    const positions = new Float32Array([...mesh.positions, 9, 9, 9]);
+    const r = removeIsolatedVertices({ positions, indices: mesh.indices });
+    expect(r.removedVertices).toBe(1);
+    expect(r.mesh.positions.length).toBe(24);
+  });
+});
+
+describe("surfacePath", () => {
+  for (const n of [10, 40, 100]) {
+    it(`is the straight line on a flat ${n} × ${n} grid`, () => {
+      const mesh = grid(n);
+      const r = surfacePath(mesh, [pick(mesh, [0.03, 0.07, 0]), pick(mesh, [0.91, 0.58, 0])]);
+      expect(r.length).toBeCloseTo(Math.hypot(0.88, 0.51), 5);
+      // Every crossing lies on the segment between the picks
+      for (let i = 0; i < r.points.length; i += 3) {
+        expect(Math.abs((r.points[i] - 0.03) * 0.51 - (r.points[i + 1] - 0.07) * 0.88)).toBeLessThan(1e-5);
+      }
+    });
+  }
+
+  it("unfolds across one cube edge", () => {
+    const mesh = cube();
+    const r = surfacePath(mesh, [pick(mesh, [0.2, 0.3, 1]), pick(mesh, [1, 0.7, 0.4])]);
+    expect(r.length).toBeCloseTo(Math.hypot(1.4, 0.4), 5);
+  });
+
+  it("crosses a side face between opposite faces of a cube", () => {
+    const mesh = cube();
+    const straight = surfacePath(mesh, [pick(mesh, [0.25, 0.5, 1]), pick(mesh, [0.25, 0.5, 0])]);
+    expect(straight.length).toBeCloseTo(1.5, 5);
+    const diagonal = surfacePath(mesh, [pick(mesh, [0.1, 0.2, 1]), pick(mesh, [0.3, 0.9, 0])]);
+    expect(diagonal.length).toBeCloseTo(Math.hypot(1.4, 0.7), 5);
+  });
+
+  it("takes the shorter way past a cube corner", () => {
+    const mesh = cube();
+    // Across the bottom face (√2) beats across the side faces' shared edge (1.8)
+    const r = surfacePath(mesh, [pick(mesh, [0.9, 0, 0.1]), pick(mesh, [0, 0.9, 0.1])]);
+    expect(r.length).toBeCloseTo(Math.SQRT2, 5);
+    for (let i = 2; i < r.points.length; i += 3) expect(r.points[i]).toBeLessThan(0.11);
+  });
+
+  it("bends round the inner corner of an L-shaped sheet", () => {
+    const full = grid(10);
+    const notch: number[] = [];
+    for (let j = 5; j < 10; j++) for (let i = 5; i < 10; i++) notch.push((j * 10 + i) * 2, (j * 10 + i) * 2 + 1);
+    const mesh = withoutFaces(full, notch);
+    const r = surfacePath(mesh, [pick(mesh, [0.9, 0.3, 0]), pick(mesh, [0.3, 0.9, 0])]);
+    expect(r.length).toBeCloseTo(2 * Math.hypot(0.4, 0.2), 5);
+  });
+
+  it("joins several stops and keeps a leg within one face straight", () => {
+    const mesh = grid(10);
+    const stops = [pick(mesh, [0.02, 0.01, 0]), pick(mesh, [0.06, 0.03, 0]), pick(mesh, [0.5, 0.5, 0])];
+    expect(stops[0].face).toBe(stops[1].face);
+    const r = surfacePath(mesh, stops);
+    expect(r.length).toBeCloseTo(Math.hypot(0.04, 0.02) + Math.hypot(0.44, 0.47), 5);
+    expect(Array.from(r.points.slice(0, 6))).toEqual(Array.from(new Float32Array([0.02, 0.01, 0, 0.06, 0.03, 0])));
+  });
+
+  it("rejects stops on separate shells", () => {
+    const mesh = merge(cube(), cube(1, [5, 0, 0]));
+    expect(() => surfacePath(mesh, [pick(mesh, [0.5, 0.5, 1]), pick(mesh, [5.5, 0.5, 1])])).toThrow(/unconnected/);
+  });
+});
+
+describe("planeSection", () => {
+  it("cuts a cube into one closed square", () => {
+    const s = planeSection(cube(10), { normal: [0, 0, 1], offset: 5 });
+    expect(s.loops).toHaveLength(1);
+    expect(s.loops[0].closed).toBe(true);
+    expect(s.perimeter).toBeCloseTo(40);
+    expect(s.area).toBeCloseTo(100);
+    for (let i = 2; i < s.points.length; i += 3) expect(s.points[i]).toBeCloseTo(5);
+  });
+
+  it("reports a hole as negative area", () => {
+    const outer = cube(10);
+    const inner = cube(4, [3, 3, 3]);
+    const indices = inner.indices.slice();
+    for (let f = 0; f < indices.length; f += 3) [indices[f + 1], indices[f + 2]] = [indices[f + 2], indices[f + 1]];
+    const s = planeSection(merge(outer, { positions: inner.positions, indices }), { normal: [0, 0, 1], offset: 5 });
+    expect(s.loops).toHaveLength(2);
+    expect(s.area).toBeCloseTo(100 - 16);
+  });
+
+  it("is empty when the plane misses the mesh", () => {
+    expect(planeSection(cube(), { normal: [0, 0, 1], offset: 2 }).loops).toEqual([]);
+  });
+});
+
+describe("meshDeviation", () => {
+  const source = cube(1);
+
+  it("is positive for a mesh outside the source", () => {
+    const r = meshDeviation(cube(1.2, [-0.1, -0.1, -0.1]), source);
+    expect(r.min).toBeGreaterThan(0);
+    expect(r.max).toBeCloseTo(Math.sqrt(3) * 0.1, 5);
+  });
+
+  it("is negative for a mesh inside the source", () => {
+    const r = meshDeviation(cube(0.8, [0.1, 0.1, 0.1]), source);
+    expect(r.max).toBeLessThan(0);
+    expect(r.min).toBeCloseTo(-0.1, 5);
+    expect(r.hausdorff).toBeGreaterThan(0.1);
+  });
+
+  it("is zero against itself", () => {
+    const r = meshDeviation(source, source);
+    expect(r.rms).toBeCloseTo(0);
+    expect(r.distances).toHaveLength(36);
+  });
+});
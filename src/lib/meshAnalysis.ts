@@ -0,0 +1,2658 @@
+/**
+ * Mesh analysis that runs on the indexed mesh rather than through a WASM
+ * module: holes (boundary loops) and filling them, connected shells (noise
+ * shells), face orientation, bad edges, overlapping triangles, the faces
+ * behind MeshLib's self-intersection lines, the isolated vertex, short
+ * edge and degenerate face repairs, summary statistics, paths over the
+ * surface, planar sections and the deviation between two meshes.
+ * Runs inside the workers; this module only holds the pure functions so
+ * they stay independent of the worker plumbing.
+ *
+ * Vertices are welded bit-exactly (see indexedMeshFromStl), so two faces are
+ * connected only when they share an edge with identical coordinates.
+ */
+
+import { IndexedMesh } from "./meshExport";
+
+export type Vec3 = [number, number, number];
+
+// ---------------------------------------------------------------------------
+// Geometry helpers
+// ---------------------------------------------------------------------------
+
+export function faceArea(mesh: IndexedMesh, f: number): number {
+  const { positions: p, indices: ix } = mesh;
+  const a = ix[f * 3] * 3;
+  const b = ix[f * 3 + 1] * 3;
+  const c = ix[f * 3 + 2] * 3;
+  const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+  const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+  const nx = e1y * e2z - e1z * e2y;
+  const ny = e1z * e2x - e1x * e2z;
+  const nz = e1x * e2y - e1y * e2x;
+  return Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+}
+
+/**
+ * Faces on each undirected edge, keyed by `min * vertexCount + max` of its
+ * vertex indices. Each use is stored as ±(face + 1): positive when the face
+ * walks the edge from the lower to the higher vertex index.
+ */
+function buildEdgeUses(mesh: IndexedMesh): Map<number, number[]> {
+  const ix = mesh.indices;
+  const faceCount = ix.length / 3;
+  const vertexCount = mesh.positions.length / 3;
+  const edgeUses = new Map<number, number[]>();
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const a = ix[f * 3 + k];
+      const b = ix[f * 3 + ((k + 1) % 3)];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      const uses = edgeUses.get(key);
+      const use = a < b ? f + 1 : -(f + 1);
+      if (uses) uses.push(use);
+      else edgeUses.set(key, [use]);
+    }
+  }
+  return edgeUses;
+}
+
+/** Union-find over face indices with path halving. */
+function createDisjointSet(size: number) {
+  const parent = new Uint32Array(size);
+  for (let i = 0; i < size; i++) parent[i] = i;
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+  return { find, union };
+}
+
+// ---------------------------------------------------------------------------
+// Holes
+// ---------------------------------------------------------------------------
+
+export interface HoleLoop {
+  /** Position in the list; holes are sorted by perimeter, longest first */
+  index: number;
+  edgeCount: number;
+  /** Total boundary length (mesh units) */
+  perimeter: number;
+  /** Boundary vertex indices, in the order the surrounding faces walk them */
+  vertices: number[];
+  /** Boundary points, xyz per entry of `vertices` */
+  points: number[];
+  /** Area spanned by the loop (vector area); exact for flat holes, a lower bound otherwise */
+  area: number;
+  /** Largest distance of a boundary point from the loop's mean plane; 0 for a flat hole */
+  planarity: number;
+  centroid: Vec3;
+  /** Unit normal of the mean plane, pointing out of the surface */
+  normal: Vec3;
+}
+
+/** Centroid, Newell normal and flatness of a loop of vertices. */
+function loopGeometry(
+  p: ArrayLike<number>,
+  loop: number[],
+): Pick<HoleLoop, "area" | "planarity" | "centroid" | "normal"> {
+  const n = loop.length;
+  let cx = 0, cy = 0, cz = 0;
+  for (const v of loop) {
+    cx += p[v * 3];
+    cy += p[v * 3 + 1];
+    cz += p[v * 3 + 2];
+  }
+  cx /= n;
+  cy /= n;
+  cz /= n;
+
+  // Newell's method: twice the vector area of the loop as walked
+  let nx = 0, ny = 0, nz = 0;
+  for (let i = 0; i < n; i++) {
+    const a = loop[i] * 3;
+    const b = loop[(i + 1) % n] * 3;
+    nx += (p[a + 1] - p[b + 1]) * (p[a + 2] + p[b + 2]);
+    ny += (p[a + 2] - p[b + 2]) * (p[a] + p[b]);
+    nz += (p[a] - p[b]) * (p[a + 1] + p[b + 1]);
+  }
+  const len = Math.hypot(nx, ny, nz);
+  // The faces walk the boundary clockwise seen from outside, so the outward normal is reversed
+  const normal: Vec3 = len > 0 ? [-nx / len, -ny / len, -nz / len] : [0, 0, 1];
+
+  let planarity = 0;
+  for (const v of loop) {
+    const d = (p[v * 3] - cx) * normal[0] + (p[v * 3 + 1] - cy) * normal[1] + (p[v * 3 + 2] - cz) * normal[2];
+    planarity = Math.max(planarity, Math.abs(d));
+  }
+  return { area: len / 2, planarity, centroid: [cx, cy, cz], normal };
+}
+
+/**
+ * Chain boundary edges (edges with a single face) into loops. Each loop is
+ * one hole; where boundaries touch at a vertex the split is arbitrary but
+ * every boundary edge lands in exactly one loop.
+ */
+export function findHoles(mesh: IndexedMesh): HoleLoop[] {
+  const p = mesh.positions;
+  const vertexCount = p.length / 3;
+
+  // Boundary edges in the direction their face walks them
+  const outgoing = new Map<number, number[]>();
+  let remaining = 0;
+  for (const [key, uses] of buildEdgeUses(mesh)) {
+    if (uses.length !== 1) continue;
+    const lo = Math.floor(key / vertexCount);
+    const hi = key % vertexCount;
+    const [from, to] = uses[0] > 0 ? [lo, hi] : [hi, lo];
+    const list = outgoing.get(from);
+    if (list) list.push(to);
+    else outgoing.set(from, [to]);
+    remaining++;
+  }
+
+  const length = (a: number, b: number) =>
+    Math.hypot(p[b * 3] - p[a * 3], p[b * 3 + 1] - p[a * 3 + 1], p[b * 3 + 2] - p[a * 3 + 2]);
+
+  const holes: HoleLoop[] = [];
+  while (remaining > 0) {
+    const start = outgoing.keys().next().value as number;
+    const vertices: number[] = [];
+    let v = start;
+    let perimeter = 0;
+    for (;;) {
+      const list = outgoing.get(v);
+      if (!list) break;
+      const next = list.pop()!;
+      if (list.length === 0) outgoing.delete(v);
+      remaining--;
+      vertices.push(v);
+      perimeter += length(v, next);
+      v = next;
+      if (v === start) break;
+    }
+    const points: number[] = [];
+    for (const u of vertices) points.push(p[u * 3], p[u * 3 + 1], p[u * 3 + 2]);
+    holes.push({
+      index: 0,
+      edgeCount: vertices.length,
+      perimeter,
+      vertices,
+      points,
+      ...loopGeometry(p, vertices),
+    });
+  }
+
+  holes.sort((a, b) => b.perimeter - a.perimeter);
+  holes.forEach((h, i) => (h.index = i));
+  return holes;
+}
+
+// ---------------------------------------------------------------------------
+// Hole filling
+// ---------------------------------------------------------------------------
+
+/**
+ * planar: ear-clip the loop on its mean plane, adding no vertices.
+ * smooth: refine that patch to the boundary's edge length, then fair it so
+ * the fill continues the surrounding surface's curvature.
+ */
+export type HoleFillMethod = "planar" | "smooth";
+
+export const HOLE_FILL_METHODS: { method: HoleFillMethod; label: string }[] = [
+  { method: "planar", label: "Planar (ear clipping)" },
+  { method: "smooth", label: "Smooth (curvature-continuous)" },
+];
+
+/** Fairing sweeps for a smooth fill; patches start flat, so this is plenty. */
+const FAIRING_ITERATIONS = 300;
+/** Refinement passes; each splits every oversized triangle once */
+const MAX_REFINE_PASSES = 12;
+
+/**
+ * Triangulate a loop by ear clipping on the plane with the given normal.
+ * The loop must wind counter-clockwise seen from the normal's side; the
+ * triangles (as positions in `loop`) wind the same way.
+ */
+function earClip(p: ArrayLike<number>, loop: number[], normal: Vec3): number[] {
+  const n = loop.length;
+  // In-plane basis with u × v = normal
+  const [nx, ny, nz] = normal;
+  const ref: Vec3 = Math.abs(nx) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  let ux = ref[1] * nz - ref[2] * ny, uy = ref[2] * nx - ref[0] * nz, uz = ref[0] * ny - ref[1] * nx;
+  const ul = Math.hypot(ux, uy, uz);
+  ux /= ul;
+  uy /= ul;
+  uz /= ul;
+  const vx = ny * uz - nz * uy, vy = nz * ux - nx * uz, vz = nx * uy - ny * ux;
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const o = loop[i] * 3;
+    xs[i] = p[o] * ux + p[o + 1] * uy + p[o + 2] * uz;
+    ys[i] = p[o] * vx + p[o + 1] * vy + p[o + 2] * vz;
+  }
+  const cross = (o: number, a: number, b: number) =>
+    (xs[a] - xs[o]) * (ys[b] - ys[o]) - (ys[a] - ys[o]) * (xs[b] - xs[o]);
+  const inside = (q: number, a: number, b: number, c: number) =>
+    cross(a, b, q) >= 0 && cross(b, c, q) >= 0 && cross(c, a, q) >= 0;
+
+  const tris: number[] = [];
+  const ring = Array.from({ length: n }, (_, i) => i);
+  while (ring.length > 3) {
+    const m = ring.length;
+    let ear = -1;
+    let best = -1;
+    let bestTurn = -Infinity;
+    for (let i = 0; i < m && ear < 0; i++) {
+      const a = ring[(i + m - 1) % m], b = ring[i], c = ring[(i + 1) % m];
+      const turn = cross(a, b, c);
+      if (turn > bestTurn) {
+        bestTurn = turn;
+        best = i;
+      }
+      if (turn <= 0) continue;
+      // Loops that touch themselves repeat a vertex; those copies never block an ear
+      const blocked = ring.some(
+        (q) => q !== a && q !== b && q !== c &&
+          loop[q] !== loop[a] && loop[q] !== loop[b] && loop[q] !== loop[c] &&
+          inside(q, a, b, c),
+      );
+      if (!blocked) ear = i;
+    }
+    // No clean ear when the projection folds over itself; clip the most convex corner anyway
+    if (ear < 0) ear = best;
+    tris.push(ring[(ear + m - 1) % m], ring[ear], ring[(ear + 1) % m]);
+    ring.splice(ear, 1);
+  }
+  tris.push(ring[0], ring[1], ring[2]);
+  return tris;
+}
+
+/** Interior angle at `o` of the triangle o, a, b. */
+function cornerAngle(p: ArrayLike<number>, o: number, a: number, b: number): number {
+  const ax = p[a * 3] - p[o * 3], ay = p[a * 3 + 1] - p[o * 3 + 1], az = p[a * 3 + 2] - p[o * 3 + 2];
+  const bx = p[b * 3] - p[o * 3], by = p[b * 3 + 1] - p[o * 3 + 1], bz = p[b * 3 + 2] - p[o * 3 + 2];
+  const len = Math.hypot(ax, ay, az) * Math.hypot(bx, by, bz);
+  return len > 0 ? Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by + az * bz) / len))) : 0;
+}
+
+/**
+ * Split patch triangles larger than an equilateral triangle of edge
+ * `target` at their centroids, restoring a Delaunay-like patch with edge
+ * flips after each pass. Appends new vertices to `pos`.
+ */
+function refinePatch(pos: number[], tris: number[], target: number): void {
+  const maxArea = (Math.sqrt(3) / 4) * target * target * 2;
+  const triArea = (t: number) => {
+    const a = tris[t * 3] * 3, b = tris[t * 3 + 1] * 3, c = tris[t * 3 + 2] * 3;
+    const e1x = pos[b] - pos[a], e1y = pos[b + 1] - pos[a + 1], e1z = pos[b + 2] - pos[a + 2];
+    const e2x = pos[c] - pos[a], e2y = pos[c + 1] - pos[a + 1], e2z = pos[c + 2] - pos[a + 2];
+    return Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x) / 2;
+  };
+
+  for (let pass = 0; pass < MAX_REFINE_PASSES; pass++) {
+    let split = false;
+    const count = tris.length / 3;
+    for (let t = 0; t < count; t++) {
+      if (triArea(t) <= maxArea) continue;
+      const [a, b, c] = [tris[t * 3], tris[t * 3 + 1], tris[t * 3 + 2]];
+      const m = pos.length / 3;
+      for (let d = 0; d < 3; d++) pos.push((pos[a * 3 + d] + pos[b * 3 + d] + pos[c * 3 + d]) / 3);
+      tris[t * 3 + 2] = m;
+      tris.push(b, c, m, c, a, m);
+      split = true;
+    }
+    if (!split) break;
+    flipToDelaunay(pos, tris);
+  }
+}
+
+/** Flip interior patch edges whose opposite angles sum past 180°. */
+function flipToDelaunay(pos: number[], tris: number[]): void {
+  const key = (a: number, b: number) => `${a}_${b}`;
+  for (let sweep = 0; sweep < 8; sweep++) {
+    // Directed edge → triangle walking it
+    const edgeTri = new Map<string, number>();
+    for (let t = 0; t < tris.length / 3; t++) {
+      for (let k = 0; k < 3; k++) edgeTri.set(key(tris[t * 3 + k], tris[t * 3 + ((k + 1) % 3)]), t);
+    }
+    let flipped = false;
+    const touched = new Set<number>();
+    for (let t1 = 0; t1 < tris.length / 3; t1++) {
+      if (touched.has(t1)) continue;
+      for (let k = 0; k < 3; k++) {
+        const a = tris[t1 * 3 + k];
+        const b = tris[t1 * 3 + ((k + 1) % 3)];
+        const c = tris[t1 * 3 + ((k + 2) % 3)];
+        const t2 = edgeTri.get(key(b, a));
+        if (t2 === undefined || touched.has(t2)) continue;
+        const j = [0, 1, 2].find((i) => tris[t2 * 3 + i] !== a && tris[t2 * 3 + i] !== b)!;
+        const d = tris[t2 * 3 + j];
+        if (c === d || edgeTri.has(key(c, d)) || edgeTri.has(key(d, c))) continue;
+        if (cornerAngle(pos, c, a, b) + cornerAngle(pos, d, b, a) <= Math.PI + 1e-9) continue;
+        // a→b→c and b→a→d become a→d→c and d→b→c
+        tris.splice(t1 * 3, 3, a, d, c);
+        tris.splice(t2 * 3, 3, d, b, c);
+        touched.add(t1);
+        touched.add(t2);
+        flipped = true;
+        break;
+      }
+    }
+    if (!flipped) break;
+  }
+}
+
+/**
+ * Move the patch's interior vertices to solve the bi-Laplacian (thin
+ * plate) equation with the boundary and the ring of mesh faces around it
+ * held fixed, which matches the fill's slope to the surrounding surface.
+ */
+function fairPatch(
+  pos: number[],
+  interior: number[],
+  neighbors: Map<number, number[]>,
+): void {
+  const laplacian = (v: number, out: number[]) => {
+    const ring = neighbors.get(v)!;
+    out[0] = out[1] = out[2] = 0;
+    for (const u of ring) {
+      out[0] += pos[u * 3];
+      out[1] += pos[u * 3 + 1];
+      out[2] += pos[u * 3 + 2];
+    }
+    for (let d = 0; d < 3; d++) out[d] = out[d] / ring.length - pos[v * 3 + d];
+  };
+  // Diagonal of the bi-Laplacian per interior vertex
+  const weight = new Map<number, number>();
+  for (const v of interior) {
+    const ring = neighbors.get(v)!;
+    let sum = 0;
+    for (const u of ring) sum += 1 / neighbors.get(u)!.length;
+    weight.set(v, sum / ring.length + 1);
+  }
+
+  const lv = [0, 0, 0];
+  const lu = [0, 0, 0];
+  for (let it = 0; it < FAIRING_ITERATIONS; it++) {
+    for (const v of interior) {
+      const ring = neighbors.get(v)!;
+      laplacian(v, lv);
+      const bi = [-lv[0], -lv[1], -lv[2]];
+      for (const u of ring) {
+        laplacian(u, lu);
+        for (let d = 0; d < 3; d++) bi[d] += lu[d] / ring.length;
+      }
+      const w = weight.get(v)!;
+      for (let d = 0; d < 3; d++) pos[v * 3 + d] -= bi[d] / w;
+    }
+  }
+}
+
+/**
+ * Fill the given holes (as returned by findHoles on the same mesh). New
+ * faces are wound to match the faces around each hole.
+ */
+export function fillHoleLoops(
+  mesh: IndexedMesh,
+  holes: HoleLoop[],
+  method: HoleFillMethod,
+): { mesh: IndexedMesh; addedFaces: number; addedVertices: number } {
+  const pos = Array.from(mesh.positions);
+  const added: number[] = [];
+  const originalVertices = mesh.positions.length / 3;
+
+  for (const hole of holes) {
+    if (hole.vertices.length < 3) continue;
+    // The fill walks the boundary opposite to its neighbouring faces
+    const loop = hole.vertices.slice().reverse();
+    const tris = earClip(pos, loop, hole.normal).map((i) => loop[i]);
+
+    if (method === "smooth" && loop.length > 3) {
+      const boundary = new Set(loop);
+      const firstNew = pos.length / 3;
+      refinePatch(pos, tris, hole.perimeter / hole.edgeCount);
+      const interior: number[] = [];
+      for (let v = firstNew; v < pos.length / 3; v++) interior.push(v);
+      if (interior.length > 0) {
+        // One-ring of every patch vertex, boundary vertices including their mesh faces
+        const rings = new Map<number, Set<number>>();
+        const link = (f: ArrayLike<number>, t: number) => {
+          for (let k = 0; k < 3; k++) {
+            const v = f[t * 3 + k];
+            if (!boundary.has(v) && v < firstNew) continue;
+            let ring = rings.get(v);
+            if (!ring) rings.set(v, (ring = new Set()));
+            ring.add(f[t * 3 + ((k + 1) % 3)]);
+            ring.add(f[t * 3 + ((k + 2) % 3)]);
+          }
+        };
+        for (let t = 0; t < mesh.indices.length / 3; t++) link(mesh.indices, t);
+        for (let t = 0; t < added.length / 3; t++) link(added, t);
+        for (let t = 0; t < tris.length / 3; t++) link(tris, t);
+        const neighbors = new Map<number, number[]>();
+        for (const [v, ring] of rings) neighbors.set(v, [...ring]);
+        fairPatch(pos, interior, neighbors);
+      }
+    }
+    for (const v of tris) added.push(v);
+  }
+
+  const indices = new Uint32Array(mesh.indices.length + added.length);
+  indices.set(mesh.indices);
+  indices.set(added, mesh.indices.length);
+  return {
+    mesh: { positions: new Float32Array(pos), indices },
+    addedFaces: added.length / 3,
+    addedVertices: pos.length / 3 - originalVertices,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Connected components
+// ---------------------------------------------------------------------------
+
+export interface MeshComponent {
+  /** Position in the list; components are sorted by area, largest first */
+  index: number;
+  faceCount: number;
+  vertexCount: number;
+  area: number;
+  /** Area relative to the largest component (1 for the largest) */
+  areaRatio: number;
+  bboxMin: Vec3;
+  bboxMax: Vec3;
+}
+
+export interface ComponentAnalysis {
+  components: MeshComponent[];
+  /** Component index of every face */
+  faceComponent: Uint32Array;
+}
+
+/** Split the mesh into edge-connected shells. */
+export function findComponents(mesh: IndexedMesh): ComponentAnalysis {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const set = createDisjointSet(faceCount);
+
+  // First face seen on each undirected edge; later faces join its set
+  const edgeFace = new Map<number, number>();
+  const vertexCount = p.length / 3;
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const a = ix[f * 3 + k];
+      const b = ix[f * 3 + ((k + 1) % 3)];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      const other = edgeFace.get(key);
+      if (other === undefined) edgeFace.set(key, f);
+      else set.union(f, other);
+    }
+  }
+
+  // Gather per-root stats
+  const rootSlot = new Map<number, number>();
+  const stats: {
+    faceCount: number;
+    area: number;
+    vertices: Set<number>;
+    min: Vec3;
+    max: Vec3;
+  }[] = [];
+  const faceSlot = new Uint32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) {
+    const root = set.find(f);
+    let slot = rootSlot.get(root);
+    if (slot === undefined) {
+      slot = stats.length;
+      rootSlot.set(root, slot);
+      stats.push({
+        faceCount: 0,
+        area: 0,
+        vertices: new Set(),
+        min: [Infinity, Infinity, Infinity],
+        max: [-Infinity, -Infinity, -Infinity],
+      });
+    }
+    faceSlot[f] = slot;
+    const s = stats[slot];
+    s.faceCount++;
+    s.area += faceArea(mesh, f);
+    for (let k = 0; k < 3; k++) {
+      const v = ix[f * 3 + k];
+      s.vertices.add(v);
+      for (let d = 0; d < 3; d++) {
+        const x = p[v * 3 + d];
+        if (x < s.min[d]) s.min[d] = x;
+        if (x > s.max[d]) s.max[d] = x;
+      }
+    }
+  }
+
+  // Largest first; renumber faces to match
+  const order = stats.map((_, i) => i).sort((a, b) => stats[b].area - stats[a].area);
+  const slotToIndex = new Uint32Array(stats.length);
+  order.forEach((slot, i) => (slotToIndex[slot] = i));
+  const largest = order.length > 0 ? stats[order[0]].area : 0;
+
+  const components = order.map((slot, index) => {
+    const s = stats[slot];
+    return {
+      index,
+      faceCount: s.faceCount,
+      vertexCount: s.vertices.size,
+      area: s.area,
+      areaRatio: largest > 0 ? s.area / largest : 1,
+      bboxMin: s.min,
+      bboxMax: s.max,
+    };
+  });
+  const faceComponent = faceSlot.map((slot) => slotToIndex[slot]);
+  return { components, faceComponent };
+}
+
+/** Keep only the faces for which `keep(face)` is true. */
+export function filterFaces(mesh: IndexedMesh, keep: (face: number) => boolean): IndexedMesh {
+  const faceCount = mesh.indices.length / 3;
+  const kept: number[] = [];
+  for (let f = 0; f < faceCount; f++) {
+    if (keep(f)) kept.push(mesh.indices[f * 3], mesh.indices[f * 3 + 1], mesh.indices[f * 3 + 2]);
+  }
+  return { positions: mesh.positions, indices: Uint32Array.from(kept) };
+}
+
+/**
+ * Drop every shell whose area is below `minAreaRatio` of the largest one,
+ * the same rule as MeshLib's MeshComponentsConfig.
+ */
+export function removeSmallComponents(
+  mesh: IndexedMesh,
+  analysis: ComponentAnalysis,
+  minAreaRatio: number,
+): { mesh: IndexedMesh; removedComponents: number; removedFaces: number } {
+  const remove = analysis.components.map((c) => c.index > 0 && c.areaRatio < minAreaRatio);
+  const out = filterFaces(mesh, (f) => !remove[analysis.faceComponent[f]]);
+  return {
+    mesh: out,
+    removedComponents: remove.filter(Boolean).length,
+    removedFaces: (mesh.indices.length - out.indices.length) / 3,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Orientation
+// ---------------------------------------------------------------------------
+
+export interface OrientationShell {
+  faceCount: number;
+  /** Every edge is shared by exactly two faces */
+  closed: boolean;
+  /** How the outward side was chosen */
+  method: "volume" | "voting";
+  /** Enclosed volume (closed shells only) */
+  volume: number | null;
+  invertedFaces: number;
+}
+
+export interface OrientationAnalysis {
+  shells: OrientationShell[];
+  invertedFaces: number;
+  /** 1 for every face whose winding points inwards */
+  faceInverted: Uint8Array;
+}
+
+/**
+ * Find faces wound against the rest of the mesh.
+ *
+ * Winding is first propagated across manifold edges so each shell is
+ * consistently oriented relative to one seed face. The outward side is then
+ * picked per shell: by the sign of the enclosed volume for closed shells,
+ * and for open shells by an area-weighted vote of whether face normals
+ * point away from the shell's centroid. Non-manifold edges (three or more
+ * faces) do not propagate orientation.
+ */
+export function analyzeOrientation(mesh: IndexedMesh): OrientationAnalysis {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const edgeUses = buildEdgeUses(mesh);
+
+  // Manifold neighbours: flip[g] = flip[f] when they walk the edge in opposite directions
+  const neighbours: number[][] = Array.from({ length: faceCount }, () => []);
+  const onBoundary = new Uint8Array(faceCount);
+  for (const uses of edgeUses.values()) {
+    if (uses.length !== 2) {
+      for (const u of uses) onBoundary[Math.abs(u) - 1] = 1;
+      continue;
+    }
+    const [u, w] = uses;
+    const f = Math.abs(u) - 1;
+    const g = Math.abs(w) - 1;
+    if (f === g) continue;
+    // Encode "same direction" (needs a relative flip) in the sign
+    const sameDir = Math.sign(u) === Math.sign(w);
+    neighbours[f].push(sameDir ? -(g + 1) : g + 1);
+    neighbours[g].push(sameDir ? -(f + 1) : f + 1);
+  }
+
+  const visited = new Uint8Array(faceCount);
+  const relFlip = new Uint8Array(faceCount);
+  const faceInverted = new Uint8Array(faceCount);
+  const shells: OrientationShell[] = [];
+  let invertedFaces = 0;
+
+  for (let seed = 0; seed < faceCount; seed++) {
+    if (visited[seed]) continue;
+    const faces: number[] = [seed];
+    visited[seed] = 1;
+    for (let q = 0; q < faces.length; q++) {
+      const f = faces[q];
+      for (const n of neighbours[f]) {
+        const g = Math.abs(n) - 1;
+        if (visited[g]) continue;
+        visited[g] = 1;
+        relFlip[g] = n < 0 ? relFlip[f] ^ 1 : relFlip[f];
+        faces.push(g);
+      }
+    }
+
+    // Volume, area-weighted normal vote and centroid under the seed's winding
+    let volume = 0;
+    let cx = 0, cy = 0, cz = 0, totalArea = 0;
+    let closed = true;
+    for (const f of faces) {
+      if (onBoundary[f]) closed = false;
+      const a = ix[f * 3] * 3, b = ix[f * 3 + 1] * 3, c = ix[f * 3 + 2] * 3;
+      const sign = relFlip[f] ? -1 : 1;
+      volume +=
+        (sign *
+          (p[a] * (p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1]) -
+            p[a + 1] * (p[b] * p[c + 2] - p[b + 2] * p[c]) +
+            p[a + 2] * (p[b] * p[c + 1] - p[b + 1] * p[c]))) /
+        6;
+      const area = faceArea(mesh, f);
+      totalArea += area;
+      cx += (area * (p[a] + p[b] + p[c])) / 3;
+      cy += (area * (p[a + 1] + p[b + 1] + p[c + 1])) / 3;
+      cz += (area * (p[a + 2] + p[b + 2] + p[c + 2])) / 3;
+    }
+
+    let flipShell: boolean;
+    if (closed) {
+      flipShell = volume < 0;
+    } else {
+      if (totalArea > 0) {
+        cx /= totalArea;
+        cy /= totalArea;
+        cz /= totalArea;
+      }
+      let vote = 0;
+      for (const f of faces) {
+        const a = ix[f * 3] * 3, b = ix[f * 3 + 1] * 3, c = ix[f * 3 + 2] * 3;
+        const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+        const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+        // Unnormalized normal: its length already weights by area
+        const nx = e1y * e2z - e1z * e2y;
+        const ny = e1z * e2x - e1x * e2z;
+        const nz = e1x * e2y - e1y * e2x;
+        const dx = (p[a] + p[b] + p[c]) / 3 - cx;
+        const dy = (p[a + 1] + p[b + 1] + p[c + 1]) / 3 - cy;
+        const dz = (p[a + 2] + p[b + 2] + p[c + 2]) / 3 - cz;
+        vote += (relFlip[f] ? -1 : 1) * Math.sign(nx * dx + ny * dy + nz * dz) * Math.hypot(nx, ny, nz);
+      }
+      flipShell = vote < 0;
+    }
+
+    let inverted = 0;
+    for (const f of faces) {
+      if ((relFlip[f] === 1) !== flipShell) {
+        faceInverted[f] = 1;
+        inverted++;
+      }
+    }
+    invertedFaces += inverted;
+    shells.push({
+      faceCount: faces.length,
+      closed,
+      method: closed ? "volume" : "voting",
+      volume: closed ? Math.abs(volume) : null,
+      invertedFaces: inverted,
+    });
+  }
+
+  return { shells, invertedFaces, faceInverted };
+}
+
+/** Reverse the winding of every face flagged in `flags`. */
+export function flipFaces(mesh: IndexedMesh, flags: Uint8Array): IndexedMesh {
+  const indices = mesh.indices.slice();
+  for (let f = 0; f < flags.length; f++) {
+    if (!flags[f]) continue;
+    indices[f * 3 + 1] = mesh.indices[f * 3 + 2];
+    indices[f * 3 + 2] = mesh.indices[f * 3 + 1];
+  }
+  return { positions: mesh.positions, indices };
+}
+
+// ---------------------------------------------------------------------------
+// Bad edges
+// ---------------------------------------------------------------------------
+
+export type EdgeCategory = "boundary" | "nonManifold" | "short" | "sharp";
+
+export const EDGE_CATEGORIES: { category: EdgeCategory; label: string }[] = [
+  { category: "boundary", label: "Boundary edges" },
+  { category: "nonManifold", label: "Non-manifold edges" },
+  { category: "short", label: "Short edges" },
+  { category: "sharp", label: "Sharp edges" },
+];
+
+export interface EdgeThresholds {
+  /** Edges shorter than this (mesh units) count as short */
+  minEdgeLength: number;
+  /** Manifold edges whose face normals differ by more than this many degrees count as sharp */
+  maxDihedralDeg: number;
+}
+
+export const DEFAULT_EDGE_THRESHOLDS: EdgeThresholds = {
+  minEdgeLength: 1e-4,
+  maxDihedralDeg: 90,
+};
+
+/** Per category: fail when more than this many edges are found; null = report only. */
+export type EdgeRules = Record<EdgeCategory, number | null>;
+
+/** Open and non-manifold edges always fail; sharp creases are normal on CAD parts. */
+export const DEFAULT_EDGE_RULES: EdgeRules = {
+  boundary: 0,
+  nonManifold: 0,
+  short: 0,
+  sharp: null,
+};
+
+/** Line segments per category, 6 floats per edge in STL coordinates. */
+export type EdgeAnalysis = Record<EdgeCategory, Float32Array>;
+
+/**
+ * Sort every edge into the bad-edge categories. An edge can land in more
+ * than one, e.g. a short boundary edge.
+ *
+ * Boundary edges have one face, non-manifold edges three or more. The
+ * dihedral test compares the two face normals, so it only applies to
+ * manifold edges between non-degenerate faces.
+ */
+export function analyzeEdges(mesh: IndexedMesh, thresholds: EdgeThresholds): EdgeAnalysis {
+  const { positions: p, indices: ix } = mesh;
+  const vertexCount = p.length / 3;
+  const cosLimit = Math.cos((thresholds.maxDihedralDeg * Math.PI) / 180);
+  const minLenSq = thresholds.minEdgeLength * thresholds.minEdgeLength;
+  const out: Record<EdgeCategory, number[]> = { boundary: [], nonManifold: [], short: [], sharp: [] };
+
+  const normal = (f: number): Vec3 | null => {
+    const a = ix[f * 3] * 3, b = ix[f * 3 + 1] * 3, c = ix[f * 3 + 2] * 3;
+    const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+    const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+    const n: Vec3 = [e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x];
+    const len = Math.hypot(n[0], n[1], n[2]);
+    return len > 0 ? [n[0] / len, n[1] / len, n[2] / len] : null;
+  };
+
+  for (const [key, uses] of buildEdgeUses(mesh)) {
+    const a = Math.floor(key / vertexCount) * 3;
+    const b = (key % vertexCount) * 3;
+    const segment = [p[a], p[a + 1], p[a + 2], p[b], p[b + 1], p[b + 2]];
+
+    if (uses.length === 1) out.boundary.push(...segment);
+    else if (uses.length > 2) out.nonManifold.push(...segment);
+
+    const dx = p[b] - p[a], dy = p[b + 1] - p[a + 1], dz = p[b + 2] - p[a + 2];
+    if (dx * dx + dy * dy + dz * dz < minLenSq) out.short.push(...segment);
+
+    if (uses.length === 2) {
+      const n1 = normal(Math.abs(uses[0]) - 1);
+      const n2 = normal(Math.abs(uses[1]) - 1);
+      if (n1 && n2 && n1[0] * n2[0] + n1[1] * n2[1] + n1[2] * n2[2] < cosLimit) {
+        out.sharp.push(...segment);
+      }
+    }
+  }
+
+  return {
+    boundary: new Float32Array(out.boundary),
+    nonManifold: new Float32Array(out.nonManifold),
+    short: new Float32Array(out.short),
+    sharp: new Float32Array(out.sharp),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Overlapping triangles
+// ---------------------------------------------------------------------------
+
+export interface OverlapPair {
+  a: number;
+  b: number;
+  /** Shared area in the common plane (mesh units²) */
+  area: number;
+  /** Both faces use the same three vertices */
+  duplicate: boolean;
+}
+
+export interface OverlapAnalysis {
+  pairs: OverlapPair[];
+  /** Per face: 0 = clean, 1 = overlaps another face, 2 = duplicate of one */
+  faceOverlap: Uint8Array;
+}
+
+/** Pairs sent back to the page; the rest are only counted */
+export const MAX_REPORTED_OVERLAPS = 1000;
+
+/** Normals closer than this (1 - cos) count as parallel */
+const PARALLEL_TOLERANCE = 1e-6;
+/** Plane distance tolerance, relative to the mesh's bounding-box diagonal */
+const PLANE_TOLERANCE = 1e-6;
+/** Overlaps smaller than this fraction of the smaller face are edge contact */
+const MIN_OVERLAP_FRACTION = 1e-4;
+
+/** Area of the intersection of two 2D triangles (Sutherland–Hodgman). */
+function triangleOverlapArea(t1: number[], t2: number[]): number {
+  const signedArea = (poly: number[]) => {
+    let s = 0;
+    for (let i = 0; i < poly.length; i += 2) {
+      const j = (i + 2) % poly.length;
+      s += poly[i] * poly[j + 1] - poly[j] * poly[i + 1];
+    }
+    return s / 2;
+  };
+  // Clip against a counter-clockwise triangle
+  const clipper = signedArea(t2) < 0 ? [t2[0], t2[1], t2[4], t2[5], t2[2], t2[3]] : t2;
+  let poly = t1;
+  for (let e = 0; e < 6 && poly.length >= 6; e += 2) {
+    const ax = clipper[e], ay = clipper[e + 1];
+    const bx = clipper[(e + 2) % 6], by = clipper[(e + 3) % 6];
+    const side = (x: number, y: number) => (bx - ax) * (y - ay) - (by - ay) * (x - ax);
+    const next: number[] = [];
+    for (let i = 0; i < poly.length; i += 2) {
+      const px = poly[i], py = poly[i + 1];
+      const qx = poly[(i + 2) % poly.length], qy = poly[(i + 3) % poly.length];
+      const sp = side(px, py), sq = side(qx, qy);
+      if (sp >= 0) next.push(px, py);
+      if ((sp >= 0) !== (sq >= 0)) {
+        const t = sp / (sp - sq);
+        next.push(px + t * (qx - px), py + t * (qy - py));
+      }
+    }
+    poly = next;
+  }
+  return poly.length >= 6 ? Math.abs(signedArea(poly)) : 0;
+}
+
+/**
+ * Find pairs of coplanar faces whose areas overlap, including exact
+ * duplicates. Faces facing either way count as coplanar, so back-to-back
+ * duplicates are found too; faces that only share an edge are not.
+ *
+ * Candidates come from a uniform grid over face bounding boxes, sized by
+ * the average face extent.
+ */
+export function findOverlaps(mesh: IndexedMesh): OverlapAnalysis {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const faceOverlap = new Uint8Array(faceCount);
+  const pairs: OverlapPair[] = [];
+  if (faceCount < 2) return { pairs, faceOverlap };
+
+  // Face bounds, normals and the mesh diagonal
+  const boxes = new Float64Array(faceCount * 6);
+  const normals = new Float64Array(faceCount * 3);
+  const areas = new Float64Array(faceCount);
+  const meshMin = [Infinity, Infinity, Infinity];
+  const meshMax = [-Infinity, -Infinity, -Infinity];
+  let extentSum = 0;
+  for (let f = 0; f < faceCount; f++) {
+    const a = ix[f * 3] * 3, b = ix[f * 3 + 1] * 3, c = ix[f * 3 + 2] * 3;
+    let extent = 0;
+    for (let d = 0; d < 3; d++) {
+      const lo = Math.min(p[a + d], p[b + d], p[c + d]);
+      const hi = Math.max(p[a + d], p[b + d], p[c + d]);
+      boxes[f * 6 + d] = lo;
+      boxes[f * 6 + 3 + d] = hi;
+      meshMin[d] = Math.min(meshMin[d], lo);
+      meshMax[d] = Math.max(meshMax[d], hi);
+      extent = Math.max(extent, hi - lo);
+    }
+    extentSum += extent;
+    const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+    const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const len = Math.hypot(nx, ny, nz);
+    areas[f] = len / 2;
+    if (len > 0) {
+      normals[f * 3] = nx / len;
+      normals[f * 3 + 1] = ny / len;
+      normals[f * 3 + 2] = nz / len;
+    }
+  }
+  const diagonal = Math.hypot(meshMax[0] - meshMin[0], meshMax[1] - meshMin[1], meshMax[2] - meshMin[2]);
+  const planeTol = diagonal * PLANE_TOLERANCE;
+  const cell = Math.max(extentSum / faceCount, diagonal * 1e-6) || 1;
+
+  const cellRange = (f: number) => {
+    const r: number[] = [];
+    for (let d = 0; d < 3; d++) {
+      r.push(
+        Math.floor((boxes[f * 6 + d] - meshMin[d] - planeTol) / cell),
+        Math.floor((boxes[f * 6 + 3 + d] - meshMin[d] + planeTol) / cell),
+      );
+    }
+    return r;
+  };
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+  const grid = new Map<string, number[]>();
+  for (let f = 0; f < faceCount; f++) {
+    if (areas[f] === 0) continue;
+    const [x0, x1, y0, y1, z0, z1] = cellRange(f);
+    for (let x = x0; x <= x1; x++)
+      for (let y = y0; y <= y1; y++)
+        for (let z = z0; z <= z1; z++) {
+          const key = cellKey(x, y, z);
+          const list = grid.get(key);
+          if (list) list.push(f);
+          else grid.set(key, [f]);
+        }
+  }
+
+  const sameVertices = (f: number, g: number) => {
+    const fa = [ix[f * 3], ix[f * 3 + 1], ix[f * 3 + 2]].sort((u, v) => u - v);
+    const ga = [ix[g * 3], ix[g * 3 + 1], ix[g * 3 + 2]].sort((u, v) => u - v);
+    return fa[0] === ga[0] && fa[1] === ga[1] && fa[2] === ga[2];
+  };
+
+  const seen = new Set<number>();
+  for (let f = 0; f < faceCount; f++) {
+    if (areas[f] === 0) continue;
+    seen.clear();
+    const nf = [normals[f * 3], normals[f * 3 + 1], normals[f * 3 + 2]];
+    const a = ix[f * 3] * 3;
+    // Project onto the plane's dominant axes
+    const drop = Math.abs(nf[0]) > Math.abs(nf[1])
+      ? (Math.abs(nf[0]) > Math.abs(nf[2]) ? 0 : 2)
+      : (Math.abs(nf[1]) > Math.abs(nf[2]) ? 1 : 2);
+    const u = drop === 0 ? 1 : 0;
+    const v = drop === 2 ? 1 : 2;
+    const project = (g: number) => {
+      const out: number[] = [];
+      for (let k = 0; k < 3; k++) {
+        const o = ix[g * 3 + k] * 3;
+        out.push(p[o + u], p[o + v]);
+      }
+      return out;
+    };
+
+    const [x0, x1, y0, y1, z0, z1] = cellRange(f);
+    for (let x = x0; x <= x1; x++)
+      for (let y = y0; y <= y1; y++)
+        for (let z = z0; z <= z1; z++) {
+          for (const g of grid.get(cellKey(x, y, z)) ?? []) {
+            if (g <= f || seen.has(g)) continue;
+            seen.add(g);
+
+            // Boxes must touch
+            let apart = false;
+            for (let d = 0; d < 3 && !apart; d++) {
+              apart =
+                boxes[g * 6 + d] > boxes[f * 6 + 3 + d] + planeTol ||
+                boxes[f * 6 + d] > boxes[g * 6 + 3 + d] + planeTol;
+            }
+            if (apart) continue;
+
+            const duplicate = sameVertices(f, g);
+            if (!duplicate) {
+              // Parallel normals (either direction) and g's corners on f's plane
+              const dot = nf[0] * normals[g * 3] + nf[1] * normals[g * 3 + 1] + nf[2] * normals[g * 3 + 2];
+              if (1 - Math.abs(dot) > PARALLEL_TOLERANCE) continue;
+              let offPlane = false;
+              for (let k = 0; k < 3 && !offPlane; k++) {
+                const o = ix[g * 3 + k] * 3;
+                const dist = (p[o] - p[a]) * nf[0] + (p[o + 1] - p[a + 1]) * nf[1] + (p[o + 2] - p[a + 2]) * nf[2];
+                offPlane = Math.abs(dist) > planeTol;
+              }
+              if (offPlane) continue;
+            }
+
+            const area = duplicate ? areas[f] : triangleOverlapArea(project(f), project(g));
+            // Projection scales areas by |n[drop]|; undo it
+            const trueArea = duplicate ? area : area / Math.abs(nf[drop]);
+            if (!duplicate && trueArea <= MIN_OVERLAP_FRACTION * Math.min(areas[f], areas[g])) continue;
+
+            pairs.push({ a: f, b: g, area: trueArea, duplicate });
+            const flag = duplicate ? 2 : 1;
+            faceOverlap[f] = Math.max(faceOverlap[f], flag);
+            faceOverlap[g] = Math.max(faceOverlap[g], flag);
+          }
+        }
+  }
+
+  pairs.sort((x, y) => y.area - x.area);
+  return { pairs, faceOverlap };
+}
+
+/** Drop the second face of every duplicate pair, keeping one copy. */
+export function removeDuplicateFaces(
+  mesh: IndexedMesh,
+  pairs: OverlapPair[],
+): { mesh: IndexedMesh; removedFaces: number } {
+  const faceCount = mesh.indices.length / 3;
+  const remove = new Uint8Array(faceCount);
+  for (const pair of pairs) {
+    if (pair.duplicate && !remove[pair.a]) remove[pair.b] = 1;
+  }
+  const out = filterFaces(mesh, (f) => !remove[f]);
+  return { mesh: out, removedFaces: faceCount - out.indices.length / 3 };
+}
+
+// ---------------------------------------------------------------------------
+// Self-intersection faces
+// ---------------------------------------------------------------------------
+
+export interface IntersectionCluster {
+  /** Position in the list; clusters are sorted by face count, largest first */
+  index: number;
+  faceCount: number;
+  /** Intersection line segments inside the cluster */
+  segmentCount: number;
+  bboxMin: Vec3;
+  bboxMax: Vec3;
+}
+
+export interface IntersectionFaces {
+  /** Faces cut by an intersection line, ascending */
+  faces: Uint32Array;
+  clusters: IntersectionCluster[];
+  /** Cluster per face, -1 for faces no intersection line crosses */
+  faceCluster: Int32Array;
+}
+
+/** How far (relative to the mesh diagonal) a segment may sit from the faces it lies on */
+const SEGMENT_FACE_TOLERANCE = 1e-5;
+
+/**
+ * Find the faces each intersection line segment lies on (MeshLib's detect
+ * reports only the lines) and group the cut faces into clusters: faces cut
+ * by the same segment or sharing a vertex belong together.
+ */
+export function locateIntersectionFaces(mesh: IndexedMesh, segments: Float32Array): IntersectionFaces {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const segmentCount = segments.length / 6;
+  const faceCluster = new Int32Array(faceCount).fill(-1);
+  if (faceCount === 0 || segmentCount === 0) {
+    return { faces: new Uint32Array(0), clusters: [], faceCluster };
+  }
+
+  // Grid of face bounds, cell size about one face
+  const meshMin = [Infinity, Infinity, Infinity];
+  const meshMax = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < p.length; i += 3) {
+    for (let d = 0; d < 3; d++) {
+      meshMin[d] = Math.min(meshMin[d], p[i + d]);
+      meshMax[d] = Math.max(meshMax[d], p[i + d]);
+    }
+  }
+  const diagonal = Math.hypot(meshMax[0] - meshMin[0], meshMax[1] - meshMin[1], meshMax[2] - meshMin[2]);
+  const tol = diagonal * SEGMENT_FACE_TOLERANCE;
+  let extentSum = 0;
+  for (let f = 0; f < faceCount; f++) {
+    let extent = 0;
+    for (let d = 0; d < 3; d++) {
+      const va = p[ix[f * 3] * 3 + d], vb = p[ix[f * 3 + 1] * 3 + d], vc = p[ix[f * 3 + 2] * 3 + d];
+      extent = Math.max(extent, Math.max(va, vb, vc) - Math.min(va, vb, vc));
+    }
+    extentSum += extent;
+  }
+  const cell = Math.max(extentSum / faceCount, diagonal * 1e-6) || 1;
+  const cellOf = (v: number, d: number) => Math.floor((v - meshMin[d]) / cell);
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+  const grid = new Map<string, number[]>();
+  for (let f = 0; f < faceCount; f++) {
+    const r: number[] = [];
+    for (let d = 0; d < 3; d++) {
+      const va = p[ix[f * 3] * 3 + d], vb = p[ix[f * 3 + 1] * 3 + d], vc = p[ix[f * 3 + 2] * 3 + d];
+      r.push(cellOf(Math.min(va, vb, vc) - tol, d), cellOf(Math.max(va, vb, vc) + tol, d));
+    }
+    for (let x = r[0]; x <= r[1]; x++)
+      for (let y = r[2]; y <= r[3]; y++)
+        for (let z = r[4]; z <= r[5]; z++) {
+          const key = cellKey(x, y, z);
+          const list = grid.get(key);
+          if (list) list.push(f);
+          else grid.set(key, [f]);
+        }
+  }
+
+  /** Whether point q lies on face f, within `tol` of its plane and inside its edges. */
+  const onFace = (f: number, qx: number, qy: number, qz: number) => {
+    const a = ix[f * 3] * 3, b = ix[f * 3 + 1] * 3, c = ix[f * 3 + 2] * 3;
+    const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+    const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const n2 = nx * nx + ny * ny + nz * nz;
+    if (n2 === 0) return false;
+    const wx = qx - p[a], wy = qy - p[a + 1], wz = qz - p[a + 2];
+    if (Math.abs(wx * nx + wy * ny + wz * nz) > tol * Math.sqrt(n2)) return false;
+    // Barycentric coordinates of q's projection
+    const u = ((wy * e2z - wz * e2y) * nx + (wz * e2x - wx * e2z) * ny + (wx * e2y - wy * e2x) * nz) / n2;
+    const v = ((e1y * wz - e1z * wy) * nx + (e1z * wx - e1x * wz) * ny + (e1x * wy - e1y * wx) * nz) / n2;
+    const eps = 1e-6;
+    return u >= -eps && v >= -eps && u + v <= 1 + eps;
+  };
+
+  const { find, union } = createDisjointSet(faceCount);
+  const cut = new Uint8Array(faceCount);
+  const segmentFace = new Int32Array(segmentCount).fill(-1);
+  for (let s = 0; s < segmentCount; s++) {
+    const o = s * 6;
+    const mx = (segments[o] + segments[o + 3]) / 2;
+    const my = (segments[o + 1] + segments[o + 4]) / 2;
+    const mz = (segments[o + 2] + segments[o + 5]) / 2;
+    const candidates = grid.get(cellKey(cellOf(mx, 0), cellOf(my, 1), cellOf(mz, 2))) ?? [];
+    for (const f of candidates) {
+      if (!onFace(f, mx, my, mz)) continue;
+      cut[f] = 1;
+      if (segmentFace[s] < 0) segmentFace[s] = f;
+      else union(segmentFace[s], f);
+    }
+  }
+
+  // Cut faces touching at a vertex are one region to repair
+  const vertexFace = new Map<number, number>();
+  for (let f = 0; f < faceCount; f++) {
+    if (!cut[f]) continue;
+    for (let k = 0; k < 3; k++) {
+      const v = ix[f * 3 + k];
+      const g = vertexFace.get(v);
+      if (g === undefined) vertexFace.set(v, f);
+      else union(f, g);
+    }
+  }
+
+  const byRoot = new Map<number, number[]>();
+  const faces: number[] = [];
+  for (let f = 0; f < faceCount; f++) {
+    if (!cut[f]) continue;
+    faces.push(f);
+    const root = find(f);
+    const list = byRoot.get(root);
+    if (list) list.push(f);
+    else byRoot.set(root, [f]);
+  }
+  const segmentsByRoot = new Map<number, number>();
+  for (const f of segmentFace) {
+    if (f < 0) continue;
+    const root = find(f);
+    segmentsByRoot.set(root, (segmentsByRoot.get(root) ?? 0) + 1);
+  }
+
+  const groups = [...byRoot.entries()].sort((a, b) => b[1].length - a[1].length);
+  const clusters: IntersectionCluster[] = groups.map(([root, members], index) => {
+    const bboxMin: Vec3 = [Infinity, Infinity, Infinity];
+    const bboxMax: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (const f of members) {
+      faceCluster[f] = index;
+      for (let k = 0; k < 3; k++) {
+        const v = ix[f * 3 + k] * 3;
+        for (let d = 0; d < 3; d++) {
+          bboxMin[d] = Math.min(bboxMin[d], p[v + d]);
+          bboxMax[d] = Math.max(bboxMax[d], p[v + d]);
+        }
+      }
+    }
+    return { index, faceCount: members.length, segmentCount: segmentsByRoot.get(root) ?? 0, bboxMin, bboxMax };
+  });
+
+  return { faces: Uint32Array.from(faces), clusters, faceCluster };
+}
+
+/**
+ * Cut one cluster's faces out and fill the holes that leaves; faces outside
+ * the cluster are kept as they are.
+ */
+export function repairIntersectionCluster(
+  mesh: IndexedMesh,
+  located: IntersectionFaces,
+  cluster: number,
+  method: HoleFillMethod = "smooth",
+): { mesh: IndexedMesh; removedFaces: number; addedFaces: number } {
+  const faceCount = mesh.indices.length / 3;
+  const touched = new Set<number>();
+  for (let f = 0; f < faceCount; f++) {
+    if (located.faceCluster[f] !== cluster) continue;
+    for (let k = 0; k < 3; k++) touched.add(mesh.indices[f * 3 + k]);
+  }
+  const cut = filterFaces(mesh, (f) => located.faceCluster[f] !== cluster);
+  // Only the holes the cut opened; holes elsewhere stay open
+  const opened = findHoles(cut).filter((h) => h.vertices.some((v) => touched.has(v)));
+  const filled = fillHoleLoops(cut, opened, method);
+  return {
+    mesh: filled.mesh,
+    removedFaces: faceCount - cut.indices.length / 3,
+    addedFaces: filled.addedFaces,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Repair passes
+// ---------------------------------------------------------------------------
+
+/** Drop vertices no face uses, e.g. those left behind by removed faces. */
+export function removeIsolatedVertices(mesh: IndexedMesh): { mesh: IndexedMesh; removedVertices: number } {
+  const vertexCount = mesh.positions.length / 3;
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const positions: number[] = [];
+  const indices = new Uint32Array(mesh.indices.length);
+  for (let i = 0; i < mesh.indices.length; i++) {
+    const v = mesh.indices[i];
+    if (remap[v] < 0) {
+      remap[v] = positions.length / 3;
+      positions.push(mesh.positions[v * 3], mesh.positions[v * 3 + 1], mesh.positions[v * 3 + 2]);
+    }
+    indices[i] = remap[v];
+  }
+  return {
+    mesh: { positions: new Float32Array(positions), indices },
+    removedVertices: vertexCount - positions.length / 3,
+  };
+}
+
+/**
+ * Collapse each listed edge onto its midpoint and drop the faces that
+ * become degenerate. An edge is skipped when either end already moved in
+ * this call, so collapses never chain; callers run again for the rest.
+ */
+function collapseEdges(mesh: IndexedMesh, edges: [number, number][]): { mesh: IndexedMesh; collapsed: number } {
+  const pos = new Float32Array(mesh.positions);
+  const vertexCount = pos.length / 3;
+  const target = new Uint32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) target[v] = v;
+  const moved = new Uint8Array(vertexCount);
+  let collapsed = 0;
+  for (const [a, b] of edges) {
+    if (a === b || moved[a] || moved[b]) continue;
+    for (let d = 0; d < 3; d++) pos[a * 3 + d] = (pos[a * 3 + d] + pos[b * 3 + d]) / 2;
+    target[b] = a;
+    moved[a] = moved[b] = 1;
+    collapsed++;
+  }
+
+  const kept: number[] = [];
+  for (let f = 0; f < mesh.indices.length / 3; f++) {
+    const a = target[mesh.indices[f * 3]];
+    const b = target[mesh.indices[f * 3 + 1]];
+    const c = target[mesh.indices[f * 3 + 2]];
+    if (a !== b && b !== c && c !== a) kept.push(a, b, c);
+  }
+  return { mesh: { positions: pos, indices: Uint32Array.from(kept) }, collapsed };
+}
+
+/** Collapse every edge shorter than `minEdgeLength` (mesh units). */
+export function collapseShortEdges(
+  mesh: IndexedMesh,
+  minEdgeLength: number,
+): { mesh: IndexedMesh; collapsedEdges: number } {
+  const p = mesh.positions;
+  const vertexCount = p.length / 3;
+  const edges: [number, number][] = [];
+  for (const key of buildEdgeUses(mesh).keys()) {
+    const a = Math.floor(key / vertexCount);
+    const b = key % vertexCount;
+    const len = Math.hypot(p[b * 3] - p[a * 3], p[b * 3 + 1] - p[a * 3 + 1], p[b * 3 + 2] - p[a * 3 + 2]);
+    if (len < minEdgeLength) edges.push([a, b]);
+  }
+  const r = collapseEdges(mesh, edges);
+  return { mesh: r.mesh, collapsedEdges: r.collapsed };
+}
+
+/**
+ * Longest edge over the height onto it: about 1.15 for an equilateral
+ * triangle, Infinity for one with no area.
+ */
+function faceAspectRatio(mesh: IndexedMesh, f: number): number {
+  const { positions: p, indices: ix } = mesh;
+  let longest = 0;
+  for (let k = 0; k < 3; k++) {
+    const a = ix[f * 3 + k] * 3;
+    const b = ix[f * 3 + ((k + 1) % 3)] * 3;
+    longest = Math.max(longest, (p[b] - p[a]) ** 2 + (p[b + 1] - p[a + 1]) ** 2 + (p[b + 2] - p[a + 2]) ** 2);
+  }
+  const area = faceArea(mesh, f);
+  return area > 0 ? longest / (2 * area) : Infinity;
+}
+
+/**
+ * Remove needle and cap faces whose aspect ratio exceeds
+ * `criticalAspectRatio` by collapsing their shortest edge, so the
+ * surrounding faces close over them instead of leaving a hole.
+ */
+export function collapseDegenerateFaces(
+  mesh: IndexedMesh,
+  criticalAspectRatio: number,
+): { mesh: IndexedMesh; removedFaces: number } {
+  const { positions: p, indices: ix } = mesh;
+  const edges: [number, number][] = [];
+  for (let f = 0; f < ix.length / 3; f++) {
+    if (faceAspectRatio(mesh, f) <= criticalAspectRatio) continue;
+    let shortest: [number, number] = [ix[f * 3], ix[f * 3 + 1]];
+    let shortestSq = Infinity;
+    for (let k = 0; k < 3; k++) {
+      const a = ix[f * 3 + k];
+      const b = ix[f * 3 + ((k + 1) % 3)];
+      const sq = (p[b * 3] - p[a * 3]) ** 2 + (p[b * 3 + 1] - p[a * 3 + 1]) ** 2 + (p[b * 3 + 2] - p[a * 3 + 2]) ** 2;
+      if (sq < shortestSq) {
+        shortestSq = sq;
+        shortest = [a, b];
+      }
+    }
+    edges.push(shortest);
+  }
+  const r = collapseEdges(mesh, edges);
+  return { mesh: r.mesh, removedFaces: (ix.length - r.mesh.indices.length) / 3 };
+}
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+export interface Histogram {
+  /** Lower edge of the first bin */
+  min: number;
+  /** Upper edge of the last bin */
+  max: number;
+  /** Equal-width bins from min to max */
+  counts: number[];
+  /** Values above `max` were counted in the last bin */
+  clipped: boolean;
+}
+
+export interface MeshStatistics {
+  /** Vertices used by at least one face */
+  vertexCount: number;
+  faceCount: number;
+  edgeCount: number;
+  boundaryEdges: number;
+  nonManifoldEdges: number;
+  /** Edge-connected shells */
+  shellCount: number;
+  surfaceArea: number;
+  /** Signed: negative when the faces point inwards; only meaningful when watertight */
+  volume: number;
+  /** Centre of the enclosed volume, or of the surface when there is no volume */
+  centroid: Vec3;
+  centroidKind: "volume" | "surface";
+  /** In the file's own units */
+  bboxMin: Vec3;
+  bboxMax: Vec3;
+  /** Every edge shared by exactly two faces */
+  watertight: boolean;
+  /** V − E + F over the whole mesh */
+  eulerCharacteristic: number;
+  /** Total handles over all shells; null unless watertight */
+  genus: number | null;
+  edgeLength: Histogram;
+  faceArea: Histogram;
+  /** Circumradius / (2 × inradius): 1 for an equilateral triangle */
+  aspectRatio: Histogram;
+  /** Zero-area faces, left out of the aspect ratio histogram */
+  degenerateFaces: number;
+}
+
+export const STATISTICS_HISTOGRAM_BINS = 20;
+
+/** Aspect ratios above this share the last bin, so slivers don't flatten the rest. */
+const ASPECT_RATIO_CAP = 10;
+
+function histogram(values: Float64Array, bins: number, cap = Infinity): Histogram {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (values.length === 0) return { min: 0, max: 0, counts: new Array(bins).fill(0), clipped: false };
+  const clipped = max > cap;
+  if (clipped) max = cap;
+  const counts = new Array(bins).fill(0);
+  const width = (max - min) / bins;
+  for (const v of values) {
+    const bin = width > 0 ? Math.floor((v - min) / width) : 0;
+    counts[Math.min(bins - 1, Math.max(0, bin))]++;
+  }
+  return { min, max, counts, clipped };
+}
+
+/** Size, shape and topology figures for the statistics panel. */
+export function meshStatistics(mesh: IndexedMesh): MeshStatistics {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+
+  let surfaceArea = 0;
+  let volume = 0;
+  const volumeMoment: Vec3 = [0, 0, 0];
+  const areaMoment: Vec3 = [0, 0, 0];
+  const faceAreas = new Float64Array(faceCount);
+  const aspect: number[] = [];
+  let degenerateFaces = 0;
+
+  const used = new Uint8Array(p.length / 3);
+  const bboxMin: Vec3 = [Infinity, Infinity, Infinity];
+  const bboxMax: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+  for (let f = 0; f < faceCount; f++) {
+    const a = ix[f * 3] * 3;
+    const b = ix[f * 3 + 1] * 3;
+    const c = ix[f * 3 + 2] * 3;
+    for (const v of [a, b, c]) {
+      if (used[v / 3]) continue;
+      used[v / 3] = 1;
+      for (let d = 0; d < 3; d++) {
+        if (p[v + d] < bboxMin[d]) bboxMin[d] = p[v + d];
+        if (p[v + d] > bboxMax[d]) bboxMax[d] = p[v + d];
+      }
+    }
+
+    const area = faceArea(mesh, f);
+    faceAreas[f] = area;
+    surfaceArea += area;
+
+    // Signed tetrahedron against the origin; its centroid is the vertex sum / 4
+    const tet =
+      (p[a] * (p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1]) -
+        p[a + 1] * (p[b] * p[c + 2] - p[b + 2] * p[c]) +
+        p[a + 2] * (p[b] * p[c + 1] - p[b + 1] * p[c])) /
+      6;
+    volume += tet;
+    for (let d = 0; d < 3; d++) {
+      const sum = p[a + d] + p[b + d] + p[c + d];
+      volumeMoment[d] += (tet * sum) / 4;
+      areaMoment[d] += (area * sum) / 3;
+    }
+
+    const la = Math.hypot(p[b] - p[c], p[b + 1] - p[c + 1], p[b + 2] - p[c + 2]);
+    const lb = Math.hypot(p[c] - p[a], p[c + 1] - p[a + 1], p[c + 2] - p[a + 2]);
+    const lc = Math.hypot(p[a] - p[b], p[a + 1] - p[b + 1], p[a + 2] - p[b + 2]);
+    if (area > 0) {
+      // R = abc / 4A, r = A / s  ⇒  R / 2r = abc·s / 8A²
+      const s = (la + lb + lc) / 2;
+      aspect.push((la * lb * lc * s) / (8 * area * area));
+    } else {
+      degenerateFaces++;
+    }
+  }
+
+  let vertexCount = 0;
+  for (const u of used) vertexCount += u;
+
+  const edgeUses = buildEdgeUses(mesh);
+  const vertexTotal = p.length / 3;
+  const edgeLengths = new Float64Array(edgeUses.size);
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  let e = 0;
+  for (const [key, uses] of edgeUses) {
+    const va = Math.floor(key / vertexTotal) * 3;
+    const vb = (key % vertexTotal) * 3;
+    edgeLengths[e++] = Math.hypot(p[va] - p[vb], p[va + 1] - p[vb + 1], p[va + 2] - p[vb + 2]);
+    if (uses.length === 1) boundaryEdges++;
+    else if (uses.length > 2) nonManifoldEdges++;
+  }
+
+  const shellCount = findComponents(mesh).components.length;
+  const watertight = faceCount > 0 && boundaryEdges === 0 && nonManifoldEdges === 0;
+  const eulerCharacteristic = vertexCount - edgeUses.size + faceCount;
+
+  const hasVolume = watertight && Math.abs(volume) > 1e-12 * Math.pow(surfaceArea, 1.5);
+  const centroid: Vec3 = hasVolume
+    ? (volumeMoment.map((m) => m / volume) as Vec3)
+    : (areaMoment.map((m) => (surfaceArea > 0 ? m / surfaceArea : 0)) as Vec3);
+
+  return {
+    vertexCount,
+    faceCount,
+    edgeCount: edgeUses.size,
+    boundaryEdges,
+    nonManifoldEdges,
+    shellCount,
+    surfaceArea,
+    volume,
+    centroid,
+    centroidKind: hasVolume ? "volume" : "surface",
+    bboxMin: faceCount > 0 ? bboxMin : [0, 0, 0],
+    bboxMax: faceCount > 0 ? bboxMax : [0, 0, 0],
+    watertight,
+    eulerCharacteristic,
+    // χ = 2 − 2g for each closed shell
+    genus: watertight ? (2 * shellCount - eulerCharacteristic) / 2 : null,
+    edgeLength: histogram(edgeLengths, STATISTICS_HISTOGRAM_BINS),
+    faceArea: histogram(faceAreas, STATISTICS_HISTOGRAM_BINS),
+    aspectRatio: histogram(new Float64Array(aspect), STATISTICS_HISTOGRAM_BINS, ASPECT_RATIO_CAP),
+    degenerateFaces,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Surface paths
+// ---------------------------------------------------------------------------
+
+/** A point picked on the surface: the STL face it lies on and its position. */
+export interface SurfacePoint {
+  face: number;
+  point: Vec3;
+}
+
+export interface SurfacePath {
+  length: number;
+  /** Polyline along the surface, flat [x,y,z, …] in STL coordinates */
+  points: Float32Array;
+}
+
+type Vec2 = [number, number];
+
+/** Twice the signed area of o, a, b: positive when `b` lies left of the ray o → a. */
+function cross2(o: Vec2, a: Vec2, b: Vec2): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+/** An edge the path crosses, unfolded into the plane of its face strip. */
+interface Portal {
+  left: Vec2;
+  right: Vec2;
+  /** Mesh vertices at the two ends; -1 for the leg's start and end points */
+  leftVertex: number;
+  rightVertex: number;
+}
+
+/** A corner of the taut path: the portal end it bends around. */
+interface FunnelApex {
+  portal: number;
+  point: Vec2;
+  /** -1 for the leg's start and end points */
+  vertex: number;
+}
+
+/** Reroutes per leg; each one shortens the path, so this only stops degenerate cases */
+const MAX_PATH_REROUTES = 10_000;
+
+/**
+ * Shortest polyline through a sequence of unfolded portals (the "simple
+ * stupid funnel algorithm"); the first and last portal are the leg's start
+ * and end points. Returns null if the funnel stops making progress, which
+ * only degenerate strips cause.
+ */
+function funnel(portals: Portal[]): FunnelApex[] | null {
+  const same = (a: Vec2, b: Vec2) => a[0] === b[0] && a[1] === b[1];
+  const apexes: FunnelApex[] = [{ portal: 0, point: portals[0].left, vertex: -1 }];
+  let apex = portals[0].left;
+  let left = apex;
+  let right = apex;
+  let apexIndex = 0;
+  let leftIndex = 0;
+  let rightIndex = 0;
+
+  // The path bends at `point`, an end of portal `index`, and the funnel restarts there
+  const bend = (index: number, point: Vec2, vertex: number) => {
+    if (!same(point, apexes[apexes.length - 1].point)) apexes.push({ portal: index, point, vertex });
+    apex = left = right = point;
+    apexIndex = leftIndex = rightIndex = index;
+  };
+
+  for (let i = 1; i < portals.length; i++) {
+    const { left: l, right: r } = portals[i];
+    // Narrow the right side, or bend around the left end once it crosses over
+    if (cross2(apex, right, r) >= 0) {
+      if (same(apex, right) || cross2(apex, left, r) < 0) {
+        right = r;
+        rightIndex = i;
+      } else {
+        if (leftIndex <= apexIndex) return null;
+        bend(leftIndex, left, portals[leftIndex].leftVertex);
+        i = apexIndex;
+        continue;
+      }
+    }
+    if (cross2(apex, left, l) <= 0) {
+      if (same(apex, left) || cross2(apex, right, l) > 0) {
+        left = l;
+        leftIndex = i;
+      } else {
+        if (rightIndex <= apexIndex) return null;
+        bend(rightIndex, right, portals[rightIndex].rightVertex);
+        i = apexIndex;
+        continue;
+      }
+    }
+  }
+  const last = portals.length - 1;
+  apexes.push({ portal: last, point: portals[last].left, vertex: -1 });
+  return apexes;
+}
+
+/**
+ * Shortest path over the surface through `stops`, in order.
+ *
+ * Each leg starts as an A* search over the mesh vertices plus a point at
+ * every edge midpoint, which picks the strip of faces to cross. The strip is
+ * unfolded flat and the path pulled taut across it with the funnel
+ * algorithm. Wherever going round the other side of a vertex is shorter
+ * (see `shorten`), the strip is rerouted there and pulled again, until no
+ * reroute helps. The result is a locally shortest geodesic, exact on flat
+ * and developable regions such as a box's faces.
+ * Legs whose strip can't be unfolded (non-manifold fans, zero-length edges)
+ * keep the A* polyline, which is only an upper bound.
+ *
+ * Throws when two stops lie on unconnected shells.
+ */
+export function surfacePath(mesh: IndexedMesh, stops: SurfacePoint[]): SurfacePath {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const vertexCount = p.length / 3;
+
+  // Edge ids per face corner k (edge k → k+1)
+  const edgeIds = new Map<number, number>();
+  const faceEdges = new Uint32Array(faceCount * 3);
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const a = ix[f * 3 + k];
+      const b = ix[f * 3 + ((k + 1) % 3)];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      let id = edgeIds.get(key);
+      if (id === undefined) {
+        id = edgeIds.size;
+        edgeIds.set(key, id);
+      }
+      faceEdges[f * 3 + k] = id;
+    }
+  }
+  const edgeCount = edgeIds.size;
+
+  // The faces on either side of every edge; a third face makes it non-manifold
+  const edgeFaces = new Int32Array(edgeCount * 2).fill(-1);
+  const nonManifold = new Uint8Array(edgeCount);
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const e = faceEdges[f * 3 + k];
+      if (edgeFaces[e * 2] < 0) edgeFaces[e * 2] = f;
+      else if (edgeFaces[e * 2 + 1] < 0) edgeFaces[e * 2 + 1] = f;
+      else nonManifold[e] = 1;
+    }
+  }
+
+  // Graph nodes: vertices, then edge midpoints, then the two ends of a leg
+  const nodeCount = vertexCount + edgeCount;
+  const nodePos = new Float64Array((nodeCount + 2) * 3);
+  nodePos.set(p.subarray(0, vertexCount * 3));
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const e = vertexCount + faceEdges[f * 3 + k];
+      const a = ix[f * 3 + k] * 3;
+      const b = ix[f * 3 + ((k + 1) % 3)] * 3;
+      for (let d = 0; d < 3; d++) nodePos[e * 3 + d] = (p[a + d] + p[b + d]) / 2;
+    }
+  }
+
+  // Faces around each node (CSR), to walk from a node to its neighbours
+  const nodeFaceStart = new Uint32Array(nodeCount + 1);
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      nodeFaceStart[ix[f * 3 + k] + 1]++;
+      nodeFaceStart[vertexCount + faceEdges[f * 3 + k] + 1]++;
+    }
+  }
+  for (let n = 0; n < nodeCount; n++) nodeFaceStart[n + 1] += nodeFaceStart[n];
+  const nodeFaces = new Uint32Array(nodeFaceStart[nodeCount]);
+  const fill = nodeFaceStart.slice(0, nodeCount);
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      nodeFaces[fill[ix[f * 3 + k]]++] = f;
+      nodeFaces[fill[vertexCount + faceEdges[f * 3 + k]]++] = f;
+    }
+  }
+
+  const source = nodeCount;
+  const target = nodeCount + 1;
+  const dist = new Float64Array(nodeCount + 2);
+  const prev = new Int32Array(nodeCount + 2);
+  // Face each node was reached through
+  const prevFace = new Int32Array(nodeCount + 2);
+  const faceNodes = (f: number, out: number[]) => {
+    out.length = 0;
+    for (let k = 0; k < 3; k++) out.push(ix[f * 3 + k], vertexCount + faceEdges[f * 3 + k]);
+    return out;
+  };
+  const between = (a: number, b: number) =>
+    Math.hypot(
+      nodePos[a * 3] - nodePos[b * 3],
+      nodePos[a * 3 + 1] - nodePos[b * 3 + 1],
+      nodePos[a * 3 + 2] - nodePos[b * 3 + 2],
+    );
+
+  /** Graph nodes of the A* path from `from` to `to`, and the face of every hop. */
+  function search(from: SurfacePoint, to: SurfacePoint): number[] {
+    dist.fill(Infinity);
+    prev.fill(-1);
+    dist[source] = 0;
+    // Binary heap of [estimate, node]; stale entries are skipped when popped
+    const heap: [number, number][] = [[between(source, target), source]];
+    const push = (item: [number, number]) => {
+      heap.push(item);
+      for (let i = heap.length - 1; i > 0; ) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent][0] <= heap[i][0]) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = (): [number, number] => {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        for (let i = 0; ; ) {
+          const l = i * 2 + 1;
+          const r = l + 1;
+          let m = i;
+          if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+          if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+          if (m === i) break;
+          [heap[m], heap[i]] = [heap[i], heap[m]];
+          i = m;
+        }
+      }
+      return top;
+    };
+
+    const nodes: number[] = [];
+    const relax = (u: number, v: number, f: number) => {
+      const d = dist[u] + between(u, v);
+      if (d < dist[v]) {
+        dist[v] = d;
+        prev[v] = u;
+        prevFace[v] = f;
+        push([d + between(v, target), v]);
+      }
+    };
+    while (heap.length > 0) {
+      const [estimate, u] = pop();
+      if (u === target) break;
+      if (estimate - between(u, target) > dist[u]) continue;
+      const faces =
+        u === source ? [from.face] : Array.from(nodeFaces.subarray(nodeFaceStart[u], nodeFaceStart[u + 1]));
+      for (const f of faces) {
+        for (const v of faceNodes(f, nodes)) if (v !== u) relax(u, v, f);
+        if (f === to.face) relax(u, target, f);
+      }
+    }
+    if (prev[target] < 0) throw new Error("The picked points are on separate, unconnected shells");
+
+    const path: number[] = [];
+    for (let n = target; n >= 0; n = prev[n]) path.push(n);
+    return path.reverse();
+  }
+
+  const vertexPos = (v: number): Vec3 => [p[v * 3], p[v * 3 + 1], p[v * 3 + 2]];
+  const distSq = (a: Vec3, b: Vec3) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+  const hasVertex = (f: number, v: number) => ix[f * 3] === v || ix[f * 3 + 1] === v || ix[f * 3 + 2] === v;
+  const sharedVertices = (f: number, g: number) =>
+    Number(hasVertex(g, ix[f * 3])) + Number(hasVertex(g, ix[f * 3 + 1])) + Number(hasVertex(g, ix[f * 3 + 2]));
+
+  /** Total angle of the faces meeting at vertex `v`: 2π where the surface is flat there. */
+  const angleAround = (v: number) => {
+    let sum = 0;
+    for (const f of nodeFaces.subarray(nodeFaceStart[v], nodeFaceStart[v + 1])) {
+      const k = ix[f * 3] === v ? 0 : ix[f * 3 + 1] === v ? 1 : 2;
+      sum += cornerAngle(p, v, ix[f * 3 + ((k + 1) % 3)], ix[f * 3 + ((k + 2) % 3)]);
+    }
+    return sum;
+  };
+
+  /**
+   * The faces around vertex `v` in order, each sharing an edge with the
+   * next; `closed` when the last also shares one with the first. Null unless
+   * the faces form a single manifold fan.
+   */
+  const fanAround = (v: number): { faces: number[]; closed: boolean } | null => {
+    const around = nodeFaces.subarray(nodeFaceStart[v], nodeFaceStart[v + 1]);
+    // The two edges of f that meet at v
+    const spokes = (f: number) => {
+      const out: number[] = [];
+      for (let k = 0; k < 3; k++) {
+        if (ix[f * 3 + k] === v || ix[f * 3 + ((k + 1) % 3)] === v) out.push(faceEdges[f * 3 + k]);
+      }
+      return out.length === 2 && out[0] !== out[1] ? out : null;
+    };
+    // Faces met crossing `edge` out of `start` and onwards, until a border or back at `start`
+    const walk = (start: number, edge: number) => {
+      const faces: number[] = [];
+      for (let f = start, e = edge; faces.length < around.length; ) {
+        if (nonManifold[e]) return null;
+        const next = edgeFaces[e * 2] === f ? edgeFaces[e * 2 + 1] : edgeFaces[e * 2];
+        if (next < 0) return { faces, closed: false };
+        if (next === start) return { faces, closed: true };
+        const s = spokes(next);
+        if (!s) return null;
+        faces.push(next);
+        e = s[0] === e ? s[1] : s[0];
+        f = next;
+      }
+      return null;
+    };
+
+    if (around.length === 0) return null;
+    const first = around[0];
+    const s = spokes(first);
+    if (!s) return null;
+    const ahead = walk(first, s[1]);
+    if (!ahead) return null;
+    let faces = [first, ...ahead.faces];
+    if (!ahead.closed) {
+      const behind = walk(first, s[0]);
+      if (!behind || behind.closed) return null;
+      faces = [...behind.faces.reverse(), ...faces];
+    }
+    return faces.length === around.length ? { faces, closed: ahead.closed } : null;
+  };
+
+  /**
+   * Faces from `a` to `b` around vertex `v`, both included. Goes the shorter
+   * way round a closed fan, or the way that doesn't start with `avoid`.
+   */
+  const fanArc = (v: number, a: number, b: number, avoid = -1): number[] | null => {
+    const fan = fanAround(v);
+    if (!fan || (avoid >= 0 && !fan.closed)) return null;
+    const n = fan.faces.length;
+    const i = fan.faces.indexOf(a);
+    const j = fan.faces.indexOf(b);
+    if (i < 0 || j < 0) return null;
+    let step = j >= i ? 1 : -1;
+    if (fan.closed && Math.abs(j - i) * 2 > n) step = -step;
+    if (avoid >= 0) step = fan.faces[(i + 1) % n] === avoid ? -1 : 1;
+    const arc: number[] = [];
+    for (let k = i; ; k = (k + step + n) % n) {
+      arc.push(fan.faces[k]);
+      if (k === j) break;
+    }
+    return arc;
+  };
+
+  /** Cut out every stretch of `strip` that comes back to a face it already crossed. */
+  const removeLoops = (strip: number[]) => {
+    const out: number[] = [];
+    const at = new Map<number, number>();
+    for (const f of strip) {
+      const k = at.get(f);
+      if (k === undefined) {
+        at.set(f, out.length);
+        out.push(f);
+      } else {
+        for (const g of out.splice(k + 1)) at.delete(g);
+      }
+    }
+    return out;
+  };
+
+  /** The edge-connected faces an A* path crosses, filling in the fans around vertices it passes through. */
+  const stripOf = (path: number[], from: SurfacePoint): number[] | null => {
+    const strip = [from.face];
+    for (let j = 1; j < path.length; j++) {
+      const f = prevFace[path[j]];
+      const last = strip[strip.length - 1];
+      if (f === last) continue;
+      if (sharedVertices(f, last) === 2) {
+        strip.push(f);
+        continue;
+      }
+      const pivot = path[j - 1];
+      const arc = pivot < vertexCount ? fanArc(pivot, last, f) : null;
+      if (!arc) return null;
+      strip.push(...arc.slice(1));
+    }
+    return removeLoops(strip);
+  };
+
+  /** Place point c in the plane given a and b at `pa` and `pb`, left or right of pa → pb. */
+  const place = (pa: Vec2, pb: Vec2, a: Vec3, b: Vec3, c: Vec3, leftSide: boolean): Vec2 | null => {
+    const ab = Math.sqrt(distSq(a, b));
+    if (!(ab > 0)) return null;
+    const x = (distSq(a, c) - distSq(b, c) + ab * ab) / (2 * ab);
+    const h = Math.sqrt(Math.max(0, distSq(a, c) - x * x)) * (leftSide ? 1 : -1);
+    const dx = (pb[0] - pa[0]) / ab;
+    const dy = (pb[1] - pa[1]) / ab;
+    return [pa[0] + dx * x - dy * h, pa[1] + dy * x + dx * h];
+  };
+
+  /** Point `q` of face f, in the plane where f's corners lie at `flat`. */
+  const toFlat = (f: number, flat: Vec2[], q: Vec3): Vec2 => {
+    const a = vertexPos(ix[f * 3]);
+    const e1 = vertexPos(ix[f * 3 + 1]).map((x, d) => x - a[d]);
+    const e2 = vertexPos(ix[f * 3 + 2]).map((x, d) => x - a[d]);
+    const r = q.map((x, d) => x - a[d]);
+    const dot = (u: number[], w: number[]) => u[0] * w[0] + u[1] * w[1] + u[2] * w[2];
+    const d11 = dot(e1, e1), d12 = dot(e1, e2), d22 = dot(e2, e2);
+    const den = d11 * d22 - d12 * d12;
+    const s = den > 0 ? (d22 * dot(r, e1) - d12 * dot(r, e2)) / den : 0;
+    const t = den > 0 ? (d11 * dot(r, e2) - d12 * dot(r, e1)) / den : 0;
+    return [0, 1].map((d) => flat[0][d] + s * (flat[1][d] - flat[0][d]) + t * (flat[2][d] - flat[0][d])) as Vec2;
+  };
+
+  /** Unfold `strip` into one plane, face by face across the shared edges. */
+  const unfold = (strip: number[], from: Vec3, to: Vec3): Portal[] | null => {
+    const f0 = strip[0];
+    const corners = [0, 1, 2].map((k) => vertexPos(ix[f0 * 3 + k]));
+    const l01 = Math.sqrt(distSq(corners[0], corners[1]));
+    const c2 = place([0, 0], [l01, 0], corners[0], corners[1], corners[2], true);
+    if (!c2) return null;
+    let flat: Vec2[] = [[0, 0], [l01, 0], c2];
+    const start = toFlat(f0, flat, from);
+    const portals: Portal[] = [{ left: start, right: start, leftVertex: -1, rightVertex: -1 }];
+
+    for (let i = 1; i < strip.length; i++) {
+      const g = strip[i - 1];
+      const f = strip[i];
+      // Corner of g holding each corner of f; the one f doesn't share is new
+      const inG = [0, 1, 2].map((k) => [0, 1, 2].find((kg) => ix[g * 3 + kg] === ix[f * 3 + k]) ?? -1);
+      const kc = inG.indexOf(-1);
+      if (kc < 0 || inG.lastIndexOf(-1) !== kc) return null;
+      const ka = (kc + 1) % 3;
+      const kb = (kc + 2) % 3;
+      if (inG[ka] === inG[kb]) return null;
+      const pa = flat[inG[ka]];
+      const pb = flat[inG[kb]];
+      const behindLeft = cross2(pa, pb, flat[3 - inG[ka] - inG[kb]]) > 0;
+      const va = ix[f * 3 + ka];
+      const vb = ix[f * 3 + kb];
+      const pc = place(pa, pb, vertexPos(va), vertexPos(vb), vertexPos(ix[f * 3 + kc]), !behindLeft);
+      if (!pc) return null;
+      const next: Vec2[] = [];
+      next[ka] = pa;
+      next[kb] = pb;
+      next[kc] = pc;
+      portals.push(
+        behindLeft
+          ? { left: pb, right: pa, leftVertex: vb, rightVertex: va }
+          : { left: pa, right: pb, leftVertex: va, rightVertex: vb },
+      );
+      flat = next;
+    }
+
+    const end = toFlat(strip[strip.length - 1], flat, to);
+    portals.push({ left: end, right: end, leftVertex: -1, rightVertex: -1 });
+    return portals;
+  };
+
+  /** Where the taut path crosses each portal, as a fraction of the way from its left end to its right. */
+  const crossings = (portals: Portal[], apexes: FunnelApex[]): number[] => {
+    const t = [0];
+    for (let k = 1, j = 0; k + 1 < portals.length; k++) {
+      while (apexes[j + 1].portal < k) j++;
+      const [ax, ay] = apexes[j].point;
+      const [bx, by] = apexes[j + 1].point;
+      const { left: l, right: r } = portals[k];
+      const den = (bx - ax) * (r[1] - l[1]) - (by - ay) * (r[0] - l[0]);
+      t.push(den !== 0 ? Math.min(1, Math.max(0, ((bx - ax) * (ay - l[1]) - (by - ay) * (ax - l[0])) / den)) : 0.5);
+    }
+    t.push(0);
+    return t;
+  };
+
+  /** The taut path across `strip`, or null if the strip can't be unfolded. */
+  const pull = (strip: number[], from: SurfacePoint, to: SurfacePoint) => {
+    const portals = unfold(strip, from.point, to.point);
+    const apexes = portals && funnel(portals);
+    if (!portals || !apexes) return null;
+    let length = 0;
+    for (let j = 1; j < apexes.length; j++) {
+      length += Math.hypot(apexes[j].point[0] - apexes[j - 1].point[0], apexes[j].point[1] - apexes[j - 1].point[1]);
+    }
+    return { strip, portals, apexes, length, t: crossings(portals, apexes) };
+  };
+  type TautPath = NonNullable<ReturnType<typeof pull>>;
+
+  /**
+   * The first strip rerouted round one vertex whose taut path is shorter
+   * than `path`. Where the path bends at a vertex, its side of the vertex
+   * spans π plus the turn, and going round the other side is shorter when
+   * that spans less than π. A path passing a flat or saddle vertex is
+   * already shortest round it; past a cone vertex (e.g. a box corner) the
+   * other side may still be shorter, so that is tried.
+   */
+  const shorten = (path: TautPath, from: SurfacePoint, to: SurfacePoint): TautPath | null => {
+    const { strip, portals, apexes } = path;
+    const onPortal = (k: number, v: number) => portals[k].leftVertex === v || portals[k].rightVertex === v;
+
+    for (let k = 1; k + 1 < portals.length; k++) {
+      for (const v of [portals[k].leftVertex, portals[k].rightVertex]) {
+        // Each run of portals round v is tried once, from its first portal
+        if (onPortal(k - 1, v)) continue;
+        let last = k;
+        while (last + 2 < portals.length && onPortal(last + 1, v)) last++;
+
+        const total = angleAround(v);
+        const j = apexes.findIndex((a) => a.vertex === v && a.portal >= k && a.portal <= last);
+        if (j > 0) {
+          const [x, y] = apexes[j].point;
+          const ux = x - apexes[j - 1].point[0], uy = y - apexes[j - 1].point[1];
+          const wx = apexes[j + 1].point[0] - x, wy = apexes[j + 1].point[1] - y;
+          const turn = Math.atan2(Math.abs(ux * wy - uy * wx), ux * wx + uy * wy);
+          if (total - turn >= 2 * Math.PI - 1e-9) continue;
+        } else if (total >= 2 * Math.PI - 1e-9) {
+          continue;
+        }
+
+        // Faces s..e of the strip meet at v
+        const s = k - 1;
+        const e = last;
+        const arc = fanArc(v, strip[s], strip[e], strip[s + 1]);
+        if (!arc) continue;
+        const next = pull(removeLoops([...strip.slice(0, s), ...arc, ...strip.slice(e + 1)]), from, to);
+        if (next && next.length < path.length * (1 - 1e-12)) return next;
+      }
+    }
+    return null;
+  };
+
+  /** The taut path as a flat [x,y,z, …] polyline through its crossings of the mesh edges. */
+  const trace = ({ portals, t }: TautPath, from: Vec3, to: Vec3): number[] => {
+    const points: number[] = [...from];
+    for (let k = 1; k + 1 < portals.length; k++) {
+      const a = vertexPos(portals[k].leftVertex);
+      const b = vertexPos(portals[k].rightVertex);
+      const q: Vec3 = [a[0] + t[k] * (b[0] - a[0]), a[1] + t[k] * (b[1] - a[1]), a[2] + t[k] * (b[2] - a[2])];
+      // Consecutive portals round a vertex the path bends at all cross it there
+      if (distSq(q, points.slice(-3) as Vec3) > 1e-18 * distSq(a, b)) points.push(...q);
+    }
+    points.push(...to);
+    return points;
+  };
+
+  /** Pull the path across `strip` taut, then keep rerouting it while that shortens it. */
+  const straighten = (strip: number[], from: SurfacePoint, to: SurfacePoint): number[] | null => {
+    let path = pull(strip, from, to);
+    if (!path) return null;
+    for (let pass = 0; pass < MAX_PATH_REROUTES; pass++) {
+      const shorter = shorten(path, from, to);
+      if (!shorter) break;
+      path = shorter;
+    }
+    return trace(path, from.point, to.point);
+  };
+
+  /** One leg as a flat [x,y,z, …] polyline from `from` to `to`. */
+  function leg(from: SurfacePoint, to: SurfacePoint): number[] {
+    if (from.face === to.face) return [...from.point, ...to.point];
+    nodePos.set(from.point, source * 3);
+    nodePos.set(to.point, target * 3);
+    const path = search(from, to);
+    const strip = stripOf(path, from);
+    const straight = strip && straighten(strip, from, to);
+    if (straight) return straight;
+
+    const points: number[] = [];
+    for (const n of path) points.push(nodePos[n * 3], nodePos[n * 3 + 1], nodePos[n * 3 + 2]);
+    return points;
+  }
+
+  const polyline: number[] = [];
+  for (let i = 0; i + 1 < stops.length; i++) {
+    const points = leg(stops[i], stops[i + 1]);
+    polyline.push(...(i === 0 ? points : points.slice(3)));
+  }
+  if (stops.length === 1) polyline.push(...stops[0].point);
+
+  let length = 0;
+  for (let i = 3; i < polyline.length; i += 3) {
+    length += Math.hypot(
+      polyline[i] - polyline[i - 3],
+      polyline[i + 1] - polyline[i - 2],
+      polyline[i + 2] - polyline[i - 1],
+    );
+  }
+  return { length, points: new Float32Array(polyline) };
+}
+
+// ---------------------------------------------------------------------------
+// Planar sections
+// ---------------------------------------------------------------------------
+
+/** A cutting plane in STL coordinates: the points p with dot(p, normal) = offset. */
+export interface SectionPlane {
+  /** Unit normal, pointing at the side that is cut away */
+  normal: Vec3;
+  offset: number;
+}
+
+export interface SectionLoop {
+  /** First point of the loop in the section's `points`, counted in points */
+  start: number;
+  count: number;
+  /** False when the cut runs into a hole or open border */
+  closed: boolean;
+  length: number;
+  /**
+   * Area enclosed in the plane's (u, v) frame, closed loops only. Positive
+   * for outer boundaries and negative for holes on a consistently oriented
+   * mesh.
+   */
+  area: number;
+}
+
+export interface PlaneSection {
+  plane: SectionPlane;
+  /** In-plane axes with u × v = normal, for flattening the section to 2D */
+  u: Vec3;
+  v: Vec3;
+  loops: SectionLoop[];
+  /** Every loop's points, flat [x,y,z, …] in STL coordinates */
+  points: Float32Array;
+  /** Summed length of all loops */
+  perimeter: number;
+  /** Net enclosed area: outer boundaries minus holes */
+  area: number;
+}
+
+/** Two unit axes spanning the plane with the given normal, u × v = normal. */
+export function planeBasis(normal: Vec3): { u: Vec3; v: Vec3 } {
+  const [nx, ny, nz] = normal;
+  // Cross with whichever world axis is least parallel to the normal
+  let u: Vec3 = Math.abs(nz) < 0.9 ? [-ny, nx, 0] : [0, -nz, ny];
+  const len = Math.hypot(...u);
+  u = [u[0] / len, u[1] / len, u[2] / len];
+  const v: Vec3 = [ny * u[2] - nz * u[1], nz * u[0] - nx * u[2], nx * u[1] - ny * u[0]];
+  return { u, v };
+}
+
+/**
+ * Exact cut of the mesh by a plane, as polylines through the points where
+ * edges cross it. Vertices lying exactly on the plane count as being on the
+ * positive side, so every face is either cut across two edges or not at all
+ * and the pieces join up by edge. Pieces are oriented from each face's
+ * vertex order, which makes outer loops run counter-clockwise seen from the
+ * normal side.
+ */
+export function planeSection(mesh: IndexedMesh, plane: SectionPlane): PlaneSection {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const vertexCount = p.length / 3;
+  const [nx, ny, nz] = plane.normal;
+  const { u, v } = planeBasis(plane.normal);
+
+  const dist = new Float64Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    dist[i] = p[i * 3] * nx + p[i * 3 + 1] * ny + p[i * 3 + 2] * nz - plane.offset;
+  }
+
+  // One point per crossed edge, keyed by the edge's vertex pair
+  const crossing = new Map<number, Vec3>();
+  function edgePoint(a: number, b: number): number {
+    const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+    if (!crossing.has(key)) {
+      const t = dist[a] / (dist[a] - dist[b]);
+      crossing.set(key, [0, 1, 2].map((d) => p[a * 3 + d] + (p[b * 3 + d] - p[a * 3 + d]) * t) as Vec3);
+    }
+    return key;
+  }
+
+  // Directed pieces, start edge → end edge, running with the solid on the left
+  const pieceFrom: number[] = [];
+  const pieceTo: number[] = [];
+  for (let f = 0; f < faceCount; f++) {
+    const tri = [ix[f * 3], ix[f * 3 + 1], ix[f * 3 + 2]];
+    const neg = tri.map((i) => dist[i] < 0);
+    if (neg[0] === neg[1] && neg[1] === neg[2]) continue;
+    // The vertex alone on its side
+    const k = neg[0] === neg[1] ? 2 : neg[0] === neg[2] ? 1 : 0;
+    const into = edgePoint(tri[(k + 2) % 3], tri[k]);
+    const out = edgePoint(tri[k], tri[(k + 1) % 3]);
+    pieceFrom.push(neg[k] ? into : out);
+    pieceTo.push(neg[k] ? out : into);
+  }
+
+  const outgoing = new Map<number, number[]>();
+  const incoming = new Set<number>();
+  pieceFrom.forEach((key, i) => {
+    const list = outgoing.get(key);
+    if (list) list.push(i);
+    else outgoing.set(key, [i]);
+    incoming.add(pieceTo[i]);
+  });
+
+  const used = new Uint8Array(pieceFrom.length);
+  const points: number[] = [];
+  const loops: SectionLoop[] = [];
+  function trace(first: number): void {
+    const keys = [pieceFrom[first]];
+    let piece = first;
+    for (;;) {
+      used[piece] = 1;
+      keys.push(pieceTo[piece]);
+      const next = outgoing.get(pieceTo[piece])?.find((i) => !used[i]);
+      if (next === undefined) break;
+      piece = next;
+    }
+    const closed = keys.length > 2 && keys[keys.length - 1] === keys[0];
+    if (closed) keys.pop();
+
+    // A cut through a vertex on the plane repeats that point; keep one copy
+    const same = (a: Vec3, b: Vec3) => a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+    const loop: Vec3[] = [];
+    for (const key of keys) {
+      const q = crossing.get(key)!;
+      if (loop.length === 0 || !same(loop[loop.length - 1], q)) loop.push(q);
+    }
+    if (closed && loop.length > 1 && same(loop[0], loop[loop.length - 1])) loop.pop();
+
+    const start = points.length / 3;
+    let length = 0;
+    let area = 0;
+    for (let i = 0; i < loop.length; i++) {
+      const q = loop[i];
+      points.push(q[0], q[1], q[2]);
+      if (i + 1 === loop.length && !closed) break;
+      const r = loop[(i + 1) % loop.length];
+      length += Math.hypot(r[0] - q[0], r[1] - q[1], r[2] - q[2]);
+      // Shoelace in the plane's frame
+      const qu = q[0] * u[0] + q[1] * u[1] + q[2] * u[2];
+      const qv = q[0] * v[0] + q[1] * v[1] + q[2] * v[2];
+      const ru = r[0] * u[0] + r[1] * u[1] + r[2] * u[2];
+      const rv = r[0] * v[0] + r[1] * v[1] + r[2] * v[2];
+      area += (qu * rv - ru * qv) / 2;
+    }
+    loops.push({ start, count: loop.length, closed, length, area: closed ? area : 0 });
+  }
+
+  // Open chains first, from the ends nothing leads into, then the loops
+  for (let i = 0; i < pieceFrom.length; i++) if (!used[i] && !incoming.has(pieceFrom[i])) trace(i);
+  for (let i = 0; i < pieceFrom.length; i++) if (!used[i]) trace(i);
+
+  return {
+    plane,
+    u,
+    v,
+    loops,
+    points: new Float32Array(points),
+    perimeter: loops.reduce((sum, l) => sum + l.length, 0),
+    area: Math.abs(loops.reduce((sum, l) => sum + l.area, 0)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Deviation
+// ---------------------------------------------------------------------------
+
+/** Triangles per BVH leaf */
+const BVH_LEAF_SIZE = 4;
+
+/**
+ * Bounding volume hierarchy over a mesh's faces for closest-point queries.
+ * Node n's box is bounds[n*6 … n*6+5] (min xyz, max xyz). A leaf holds
+ * `count` faces from order[start…]; an inner node has count 0 and its two
+ * children at `left` and `left + 1`.
+ */
+interface TriangleBvh {
+  mesh: IndexedMesh;
+  order: Uint32Array;
+  bounds: Float64Array;
+  start: Uint32Array;
+  count: Uint32Array;
+  left: Uint32Array;
+  normals: PseudoNormals;
+}
+
+/**
+ * Angle-weighted pseudo-normals (Bærentzen & Aanæs, "Signed distance
+ * computation using the angle weighted pseudonormal", 2005): the sign of
+ * (point − closest point) · pseudo-normal of the closest feature tells
+ * inside from outside, even when that feature is an edge or vertex shared
+ * by faces facing different ways. Face and vertex normals are xyz per
+ * entry; edge normals are looked up by buildEdgeUses key.
+ */
+interface PseudoNormals {
+  face: Float64Array;
+  vertex: Float64Array;
+  edge: Map<number, Vec3>;
+}
+
+function buildPseudoNormals(mesh: IndexedMesh): PseudoNormals {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const vertexCount = p.length / 3;
+  const face = new Float64Array(faceCount * 3);
+  const vertex = new Float64Array(vertexCount * 3);
+
+  for (let f = 0; f < faceCount; f++) {
+    const [a, b, c] = [ix[f * 3] * 3, ix[f * 3 + 1] * 3, ix[f * 3 + 2] * 3];
+    const e1 = [p[b] - p[a], p[b + 1] - p[a + 1], p[b + 2] - p[a + 2]];
+    const e2 = [p[c] - p[a], p[c + 1] - p[a + 1], p[c + 2] - p[a + 2]];
+    const n = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+    const len = Math.hypot(n[0], n[1], n[2]);
+    // Degenerate faces have no direction and add nothing
+    if (len === 0) continue;
+    for (let d = 0; d < 3; d++) face[f * 3 + d] = n[d] / len;
+
+    for (let k = 0; k < 3; k++) {
+      const v = ix[f * 3 + k];
+      const u = ix[f * 3 + ((k + 1) % 3)] * 3;
+      const w = ix[f * 3 + ((k + 2) % 3)] * 3;
+      const du = [p[u] - p[v * 3], p[u + 1] - p[v * 3 + 1], p[u + 2] - p[v * 3 + 2]];
+      const dw = [p[w] - p[v * 3], p[w + 1] - p[v * 3 + 1], p[w + 2] - p[v * 3 + 2]];
+      const lu = Math.hypot(du[0], du[1], du[2]);
+      const lw = Math.hypot(dw[0], dw[1], dw[2]);
+      if (lu === 0 || lw === 0) continue;
+      const cos = (du[0] * dw[0] + du[1] * dw[1] + du[2] * dw[2]) / (lu * lw);
+      const angle = Math.acos(Math.min(1, Math.max(-1, cos)));
+      for (let d = 0; d < 3; d++) vertex[v * 3 + d] += angle * face[f * 3 + d];
+    }
+  }
+
+  // Both faces on an edge meet it at the same angle (π), so the weights cancel
+  const edge = new Map<number, Vec3>();
+  for (const [key, uses] of buildEdgeUses(mesh)) {
+    const n: Vec3 = [0, 0, 0];
+    for (const use of uses) {
+      const f = Math.abs(use) - 1;
+      for (let d = 0; d < 3; d++) n[d] += face[f * 3 + d];
+    }
+    edge.set(key, n);
+  }
+  return { face, vertex, edge };
+}
+
+function buildTriangleBvh(mesh: IndexedMesh): TriangleBvh {
+  const { positions: p, indices: ix } = mesh;
+  const faceCount = ix.length / 3;
+  const centroid = new Float64Array(faceCount * 3);
+  for (let f = 0; f < faceCount; f++) {
+    for (let d = 0; d < 3; d++) {
+      centroid[f * 3 + d] = (p[ix[f * 3] * 3 + d] + p[ix[f * 3 + 1] * 3 + d] + p[ix[f * 3 + 2] * 3 + d]) / 3;
+    }
+  }
+  const order = new Uint32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) order[f] = f;
+
+  // A binary tree with leaves of ≥ 1 face has fewer than 2 × faces nodes
+  const maxNodes = Math.max(1, 2 * faceCount);
+  const bounds = new Float64Array(maxNodes * 6);
+  const start = new Uint32Array(maxNodes);
+  const count = new Uint32Array(maxNodes);
+  const left = new Uint32Array(maxNodes);
+  let nodeCount = 1;
+
+  // Move the median face (by centroid on `axis`) of order[lo…hi) to `mid`
+  function select(lo: number, hi: number, mid: number, axis: number): void {
+    hi--;
+    while (hi > lo) {
+      const pivot = centroid[order[(lo + hi) >> 1] * 3 + axis];
+      let i = lo;
+      let j = hi;
+      while (i <= j) {
+        while (centroid[order[i] * 3 + axis] < pivot) i++;
+        while (centroid[order[j] * 3 + axis] > pivot) j--;
+        if (i <= j) {
+          const t = order[i];
+          order[i] = order[j];
+          order[j] = t;
+          i++;
+          j--;
+        }
+      }
+      if (mid <= j) hi = j;
+      else if (mid >= i) lo = i;
+      else return;
+    }
+  }
+
+  const stack: number[] = [0, 0, faceCount];
+  while (stack.length > 0) {
+    const hi = stack.pop()!;
+    const lo = stack.pop()!;
+    const node = stack.pop()!;
+    const box = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+    const cbox = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+    for (let i = lo; i < hi; i++) {
+      const f = order[i];
+      for (let k = 0; k < 3; k++) {
+        const v = ix[f * 3 + k] * 3;
+        for (let d = 0; d < 3; d++) {
+          box[d] = Math.min(box[d], p[v + d]);
+          box[d + 3] = Math.max(box[d + 3], p[v + d]);
+        }
+      }
+      for (let d = 0; d < 3; d++) {
+        cbox[d] = Math.min(cbox[d], centroid[f * 3 + d]);
+        cbox[d + 3] = Math.max(cbox[d + 3], centroid[f * 3 + d]);
+      }
+    }
+    bounds.set(box, node * 6);
+    start[node] = lo;
+    if (hi - lo <= BVH_LEAF_SIZE) {
+      count[node] = hi - lo;
+      continue;
+    }
+    const extent = [cbox[3] - cbox[0], cbox[4] - cbox[1], cbox[5] - cbox[2]];
+    const axis = extent[0] >= extent[1] && extent[0] >= extent[2] ? 0 : extent[1] >= extent[2] ? 1 : 2;
+    const mid = (lo + hi) >> 1;
+    select(lo, hi, mid, axis);
+    left[node] = nodeCount;
+    stack.push(nodeCount, lo, mid, nodeCount + 1, mid, hi);
+    nodeCount += 2;
+  }
+  return { mesh, order, bounds, start, count, left, normals: buildPseudoNormals(mesh) };
+}
+
+/**
+ * Closest point to (px, py, pz) on triangle abc, written to `out[0…2]`;
+ * returns the squared distance. `out[3]` and `out[4]` name the feature it
+ * lies on by corner (0 = a, 1 = b, 2 = c): the same corner twice for a
+ * vertex, two corners for an edge, -1 for the face's interior. From
+ * Ericson, Real-Time Collision Detection, 5.1.5.
+ */
+function closestPointOnTriangle(
+  p: ArrayLike<number>,
+  a: number,
+  b: number,
+  c: number,
+  px: number,
+  py: number,
+  pz: number,
+  out: number[],
+): number {
+  const abx = p[b] - p[a], aby = p[b + 1] - p[a + 1], abz = p[b + 2] - p[a + 2];
+  const acx = p[c] - p[a], acy = p[c + 1] - p[a + 1], acz = p[c + 2] - p[a + 2];
+  const apx = px - p[a], apy = py - p[a + 1], apz = pz - p[a + 2];
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  let s = 0;
+  let t = 0;
+  // Vertex a until a region test says otherwise
+  let from = 0;
+  let to = 0;
+  if (d1 <= 0 && d2 <= 0) {
+    // Vertex a
+  } else {
+    const bpx = px - p[b], bpy = py - p[b + 1], bpz = pz - p[b + 2];
+    const d3 = abx * bpx + aby * bpy + abz * bpz;
+    const d4 = acx * bpx + acy * bpy + acz * bpz;
+    const cpx = px - p[c], cpy = py - p[c + 1], cpz = pz - p[c + 2];
+    const d5 = abx * cpx + aby * cpy + abz * cpz;
+    const d6 = acx * cpx + acy * cpy + acz * cpz;
+    const vc = d1 * d4 - d3 * d2;
+    const vb = d5 * d2 - d1 * d6;
+    const va = d3 * d6 - d5 * d4;
+    if (d3 >= 0 && d4 <= d3) {
+      s = 1;
+      from = to = 1;
+    } else if (d6 >= 0 && d5 <= d6) {
+      t = 1;
+      from = to = 2;
+    } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      s = d1 / (d1 - d3);
+      to = 1;
+    } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      t = d2 / (d2 - d6);
+      to = 2;
+    } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      t = (d4 - d3) / (d4 - d3 + (d5 - d6));
+      s = 1 - t;
+      from = 1;
+      to = 2;
+    } else {
+      const denom = va + vb + vc;
+      s = vb / denom;
+      t = vc / denom;
+      from = to = -1;
+    }
+  }
+  out[0] = p[a] + abx * s + acx * t;
+  out[1] = p[a + 1] + aby * s + acy * t;
+  out[2] = p[a + 2] + abz * s + acz * t;
+  out[3] = from;
+  out[4] = to;
+  return (px - out[0]) ** 2 + (py - out[1]) ** 2 + (pz - out[2]) ** 2;
+}
+
+/**
+ * Signed distance from a point to the nearest face of the BVH's mesh:
+ * positive outside a closed, consistently oriented mesh. The sign comes
+ * from the pseudo-normal of the closest face, edge or vertex.
+ */
+function signedDistance(bvh: TriangleBvh, px: number, py: number, pz: number): number {
+  const { mesh, order, bounds, start, count, left, normals } = bvh;
+  const { positions: p, indices: ix } = mesh;
+  const q = [0, 0, 0, 0, 0];
+  const best = [0, 0, 0, 0, 0];
+  let bestD2 = Infinity;
+  let bestFace = -1;
+
+  const boxD2 = (n: number) => {
+    const o = n * 6;
+    const dx = Math.max(bounds[o] - px, 0, px - bounds[o + 3]);
+    const dy = Math.max(bounds[o + 1] - py, 0, py - bounds[o + 4]);
+    const dz = Math.max(bounds[o + 2] - pz, 0, pz - bounds[o + 5]);
+    return dx * dx + dy * dy + dz * dz;
+  };
+
+  const stack = [0];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (boxD2(node) >= bestD2) continue;
+    if (count[node] > 0) {
+      for (let i = start[node]; i < start[node] + count[node]; i++) {
+        const f = order[i];
+        const d2 = closestPointOnTriangle(p, ix[f * 3] * 3, ix[f * 3 + 1] * 3, ix[f * 3 + 2] * 3, px, py, pz, q);
+        if (d2 < bestD2) {
+          bestD2 = d2;
+          bestFace = f;
+          for (let k = 0; k < 5; k++) best[k] = q[k];
+        }
+      }
+      continue;
+    }
+    // Visit the nearer child first
+    const a = left[node];
+    const b = a + 1;
+    if (boxD2(a) <= boxD2(b)) stack.push(b, a);
+    else stack.push(a, b);
+  }
+  if (bestFace < 0) return Infinity;
+
+  // Pseudo-normal of the closest feature
+  let n: ArrayLike<number>;
+  const [from, to] = [best[3], best[4]];
+  if (from < 0) {
+    n = normals.face.subarray(bestFace * 3, bestFace * 3 + 3);
+  } else if (from === to) {
+    const v = ix[bestFace * 3 + from];
+    n = normals.vertex.subarray(v * 3, v * 3 + 3);
+  } else {
+    const a = ix[bestFace * 3 + from];
+    const b = ix[bestFace * 3 + to];
+    n = normals.edge.get(Math.min(a, b) * (p.length / 3) + Math.max(a, b))!;
+  }
+  const side = (px - best[0]) * n[0] + (py - best[1]) * n[1] + (pz - best[2]) * n[2];
+  return side < 0 ? -Math.sqrt(bestD2) : Math.sqrt(bestD2);
+}
+
+export interface DeviationStats {
+  /** Most negative signed distance (furthest inside the source) */
+  min: number;
+  /** Most positive signed distance (furthest outside the source) */
+  max: number;
+  meanAbs: number;
+  rms: number;
+  /**
+   * Symmetric Hausdorff distance, sampled at the vertices of both meshes:
+   * the larger of result → source and source → result.
+   */
+  hausdorff: number;
+}
+
+export interface MeshDeviation extends DeviationStats {
+  /** Signed distance to the source per STL corner (3 per face, in face order) */
+  distances: Float32Array;
+}
+
+/**
+ * How far `mesh` (e.g. a simplified or smoothed result) moved from `source`:
+ * the signed distance from each of its vertices to the nearest point on the
+ * source surface, positive where it lies on the source's outer side. The
+ * sign uses angle-weighted pseudo-normals, so it holds at the source's
+ * edges and corners too.
+ */
+export function meshDeviation(mesh: IndexedMesh, source: IndexedMesh): MeshDeviation {
+  if (source.indices.length === 0) throw new Error("The source mesh has no faces");
+  const sourceBvh = buildTriangleBvh(source);
+  const p = mesh.positions;
+  const vertexCount = p.length / 3;
+
+  const signed = new Float64Array(vertexCount);
+  let min = Infinity;
+  let max = -Infinity;
+  let sumAbs = 0;
+  let sumSq = 0;
+  for (let v = 0; v < vertexCount; v++) {
+    const d = signedDistance(sourceBvh, p[v * 3], p[v * 3 + 1], p[v * 3 + 2]);
+    signed[v] = d;
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+    sumAbs += Math.abs(d);
+    sumSq += d * d;
+  }
+
+  // The other way round, so parts of the source the result lost still count
+  let back = 0;
+  if (mesh.indices.length > 0) {
+    const meshBvh = buildTriangleBvh(mesh);
+    const s = source.positions;
+    for (let v = 0; v < s.length / 3; v++) {
+      back = Math.max(back, Math.abs(signedDistance(meshBvh, s[v * 3], s[v * 3 + 1], s[v * 3 + 2])));
+    }
+  }
+
+  const distances = new Float32Array(mesh.indices.length);
+  for (let i = 0; i < distances.length; i++) distances[i] = signed[mesh.indices[i]];
+  return {
+    distances,
+    min: vertexCount > 0 ? min : 0,
+    max: vertexCount > 0 ? max : 0,
+    meanAbs: vertexCount > 0 ? sumAbs / vertexCount : 0,
+    rms: vertexCount > 0 ? Math.sqrt(sumSq / vertexCount) : 0,
+    hausdorff: Math.max(vertexCount > 0 ? Math.max(-min, max) : 0, back),
+  };
+}
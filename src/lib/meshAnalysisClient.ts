@@ -0,0 +1,343 @@
+/**
+ * Promise-based client that wraps the mesh analysis Web Worker.
+ *
+ * The checks here are plain TypeScript over the indexed mesh (see
+ * meshAnalysis.ts) rather than WASM, but run off the main thread through the
+ * same RPC layer as the MeshLib clients.
+ */
+
+import {
+  DeviationStats,
+  EdgeAnalysis,
+  EdgeThresholds,
+  HoleFillMethod,
+  HoleLoop,
+  MeshComponent,
+  MeshDeviation,
+  MeshStatistics,
+  SurfacePath,
+  SurfacePoint,
+  OrientationShell,
+  OverlapPair,
+  PlaneSection,
+  SectionPlane,
+} from "./meshAnalysis";
+import {
+  PoolJobOptions,
+  RpcTransport,
+  TransportOptions,
+  createTransport,
+} from "./rpc/transport";
+
+export interface AnalysisOptions extends PoolJobOptions {
+  /** Abort after this many ms. 0 = no timeout. */
+  timeoutMs?: number;
+  /** Called with human-readable status updates from the worker. */
+  onStatus?: (stage: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+export interface HolesResult {
+  /** One entry per boundary loop */
+  holes: HoleLoop[];
+}
+
+export interface FillSelectedHolesResult {
+  output: ArrayBuffer;
+  filledHoles: number;
+  addedFaces: number;
+}
+
+export interface ComponentsResult {
+  /** Shells sorted by area, largest first */
+  components: MeshComponent[];
+  /** Component index of every STL face, in file order */
+  faceComponent: Uint32Array;
+}
+
+export interface RemoveComponentsResult {
+  /** Cleaned binary STL */
+  output: ArrayBuffer;
+  removedComponents: number;
+  removedFaces: number;
+}
+
+export interface OrientationResult {
+  /** One entry per edge-connected, consistently orientable shell */
+  shells: OrientationShell[];
+  invertedFaces: number;
+  /** 1 for every inverted STL face, in file order */
+  faceInverted: Uint8Array;
+}
+
+export interface ReorientResult {
+  /** Consistently, outward-oriented binary STL */
+  output: ArrayBuffer;
+  flippedFaces: number;
+}
+
+/** Bad edges per category, as line segments (6 floats per edge) */
+export type EdgesResult = EdgeAnalysis;
+
+export interface OverlapsResult {
+  /** Largest overlaps first, at most MAX_REPORTED_OVERLAPS */
+  pairs: OverlapPair[];
+  /** All overlapping pairs, including those not listed */
+  pairCount: number;
+  duplicateCount: number;
+  /** Per STL face: 0 = clean, 1 = overlaps another face, 2 = duplicate */
+  faceOverlap: Uint8Array;
+}
+
+export interface RemoveDuplicatesResult {
+  output: ArrayBuffer;
+  removedFaces: number;
+}
+
+/** A PlaneSection whose points are a slice of a shared buffer, counted in points */
+type PackedSection = Omit<PlaneSection, "points"> & { pointOffset: number; pointCount: number };
+
+/** Methods served by meshAnalysis.worker.ts */
+export type MeshAnalysisApi = {
+  holes: {
+    params: { input: ArrayBuffer };
+    result: HolesResult;
+  };
+  fillHoles: {
+    /** `holes` are HoleLoop indices from `holes` on the same input */
+    params: { input: ArrayBuffer; holes: number[]; method: HoleFillMethod };
+    result: FillSelectedHolesResult;
+  };
+  components: {
+    params: { input: ArrayBuffer };
+    /** `faceComponent` holds a Uint32Array */
+    result: { components: MeshComponent[]; faceComponent: ArrayBuffer };
+  };
+  removeComponents: {
+    /** Shells below this fraction of the largest shell's area are removed */
+    params: { input: ArrayBuffer; minAreaRatio: number };
+    result: RemoveComponentsResult;
+  };
+  orientation: {
+    params: { input: ArrayBuffer };
+    /** `faceInverted` holds a Uint8Array */
+    result: { shells: OrientationShell[]; invertedFaces: number; faceInverted: ArrayBuffer };
+  };
+  reorient: {
+    params: { input: ArrayBuffer };
+    result: ReorientResult;
+  };
+  edges: {
+    params: { input: ArrayBuffer; thresholds: EdgeThresholds };
+    /** Each holds a Float32Array of segments */
+    result: Record<keyof EdgeAnalysis, ArrayBuffer>;
+  };
+  overlaps: {
+    params: { input: ArrayBuffer };
+    /** `faceOverlap` holds a Uint8Array */
+    result: { pairs: OverlapPair[]; pairCount: number; duplicateCount: number; faceOverlap: ArrayBuffer };
+  };
+  removeDuplicates: {
+    params: { input: ArrayBuffer };
+    result: RemoveDuplicatesResult;
+  };
+  statistics: {
+    params: { input: ArrayBuffer };
+    result: MeshStatistics;
+  };
+  surfacePath: {
+    params: { input: ArrayBuffer; stops: SurfacePoint[] };
+    /** `points` holds a Float32Array */
+    result: { length: number; points: ArrayBuffer };
+  };
+  sections: {
+    params: { input: ArrayBuffer; planes: SectionPlane[] };
+    /** `points` holds one Float32Array shared by all sections */
+    result: { sections: PackedSection[]; points: ArrayBuffer };
+  };
+  deviation: {
+    /** `input` is measured against `source` */
+    params: { input: ArrayBuffer; source: ArrayBuffer };
+    /** `distances` holds a Float32Array */
+    result: DeviationStats & { distances: ArrayBuffer };
+  };
+};
+
+export class MeshAnalysisClient {
+  private rpc: RpcTransport<MeshAnalysisApi>;
+
+  /** Pass `{ pool: true }` to run calls in parallel on a WorkerPool */
+  constructor(transport: TransportOptions = {}) {
+    this.rpc = createTransport<MeshAnalysisApi>(
+      {
+        name: "MeshAnalysis",
+        createWorker: () =>
+          new Worker(new URL("../workers/meshAnalysis.worker.ts", import.meta.url), {
+            type: "module",
+          }),
+        defaultTimeoutMs: 120_000,
+      },
+      transport,
+    );
+  }
+
+  /* ---- lifecycle ---- */
+
+  /** Verify the worker is alive. */
+  ping(): Promise<void> {
+    return this.rpc.ping();
+  }
+
+  /** Kill the worker and create a fresh one on next call. */
+  resetWorker(): void {
+    this.rpc.restart();
+  }
+
+  dispose(): void {
+    this.rpc.dispose();
+  }
+
+  /* ---- holes ---- */
+
+  /** List the mesh's boundary loops. */
+  async holes(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<HolesResult> {
+    const copy = input.slice(0);
+    return this.rpc.call("holes", { input: copy }, { ...opts, transfer: [copy] });
+  }
+
+  /** Fill only the listed holes (indices into `holes()` of the same input). */
+  async fillHoles(
+    input: ArrayBuffer,
+    holes: number[],
+    method: HoleFillMethod,
+    opts: AnalysisOptions = {},
+  ): Promise<FillSelectedHolesResult> {
+    const copy = input.slice(0);
+    return this.rpc.call("fillHoles", { input: copy, holes, method }, { ...opts, transfer: [copy] });
+  }
+
+  /* ---- noise shells ---- */
+
+  /** List the mesh's edge-connected shells. */
+  async components(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<ComponentsResult> {
+    // Transfer a copy so the caller's in-memory mesh stays usable
+    const copy = input.slice(0);
+    const r = await this.rpc.call("components", { input: copy }, { ...opts, transfer: [copy] });
+    return { components: r.components, faceComponent: new Uint32Array(r.faceComponent) };
+  }
+
+  /** Remove shells smaller than `minAreaRatio` × the largest shell's area. */
+  async removeComponents(
+    input: ArrayBuffer,
+    minAreaRatio: number,
+    opts: AnalysisOptions = {},
+  ): Promise<RemoveComponentsResult> {
+    const copy = input.slice(0);
+    return this.rpc.call(
+      "removeComponents",
+      { input: copy, minAreaRatio },
+      { ...opts, transfer: [copy] },
+    );
+  }
+
+  /* ---- inverted normals ---- */
+
+  /** Find faces whose winding points inwards. */
+  async orientation(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<OrientationResult> {
+    const copy = input.slice(0);
+    const r = await this.rpc.call("orientation", { input: copy }, { ...opts, transfer: [copy] });
+    return { ...r, faceInverted: new Uint8Array(r.faceInverted) };
+  }
+
+  /** Flip every inverted face so each shell is consistently oriented outwards. */
+  async reorient(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<ReorientResult> {
+    const copy = input.slice(0);
+    return this.rpc.call("reorient", { input: copy }, { ...opts, transfer: [copy] });
+  }
+
+  /* ---- bad edges ---- */
+
+  /** Collect boundary, non-manifold, short and sharp edges. */
+  async edges(
+    input: ArrayBuffer,
+    thresholds: EdgeThresholds,
+    opts: AnalysisOptions = {},
+  ): Promise<EdgesResult> {
+    const copy = input.slice(0);
+    const r = await this.rpc.call("edges", { input: copy, thresholds }, { ...opts, transfer: [copy] });
+    return {
+      boundary: new Float32Array(r.boundary),
+      nonManifold: new Float32Array(r.nonManifold),
+      short: new Float32Array(r.short),
+      sharp: new Float32Array(r.sharp),
+    };
+  }
+
+  /* ---- overlapping triangles ---- */
+
+  /** Find coplanar faces with overlapping area, including exact duplicates. */
+  async overlaps(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<OverlapsResult> {
+    const copy = input.slice(0);
+    const r = await this.rpc.call("overlaps", { input: copy }, { ...opts, transfer: [copy] });
+    return { ...r, faceOverlap: new Uint8Array(r.faceOverlap) };
+  }
+
+  /** Delete duplicate faces, keeping one copy of each. */
+  async removeDuplicates(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<RemoveDuplicatesResult> {
+    const copy = input.slice(0);
+    return this.rpc.call("removeDuplicates", { input: copy }, { ...opts, transfer: [copy] });
+  }
+
+  /* ---- statistics ---- */
+
+  /** Area, volume, bounds, topology and edge/face histograms. */
+  async statistics(input: ArrayBuffer, opts: AnalysisOptions = {}): Promise<MeshStatistics> {
+    const copy = input.slice(0);
+    return this.rpc.call("statistics", { input: copy }, { ...opts, transfer: [copy] });
+  }
+
+  /* ---- measuring ---- */
+
+  /** Shortest path over the surface through `stops`, in order. */
+  async surfacePath(
+    input: ArrayBuffer,
+    stops: SurfacePoint[],
+    opts: AnalysisOptions = {},
+  ): Promise<SurfacePath> {
+    const copy = input.slice(0);
+    const r = await this.rpc.call("surfacePath", { input: copy, stops }, { ...opts, transfer: [copy] });
+    return { length: r.length, points: new Float32Array(r.points) };
+  }
+
+  /* ---- sections ---- */
+
+  /** One planar section per plane, in the same order. */
+  async sections(
+    input: ArrayBuffer,
+    planes: SectionPlane[],
+    opts: AnalysisOptions = {},
+  ): Promise<PlaneSection[]> {
+    const copy = input.slice(0);
+    const r = await this.rpc.call("sections", { input: copy, planes }, { ...opts, transfer: [copy] });
+    const points = new Float32Array(r.points);
+    return r.sections.map(({ pointOffset, pointCount, ...s }) => ({
+      ...s,
+      points: points.subarray(pointOffset * 3, (pointOffset + pointCount) * 3),
+    }));
+  }
+
+  /* ---- deviation ---- */
+
+  /** Signed distance from each corner of `input` to the surface of `source`. */
+  async deviation(input: ArrayBuffer, source: ArrayBuffer, opts: AnalysisOptions = {}): Promise<MeshDeviation> {
+    const copy = input.slice(0);
+    const sourceCopy = source.slice(0);
+    const r = await this.rpc.call(
+      "deviation",
+      { input: copy, source: sourceCopy },
+      { ...opts, transfer: [copy, sourceCopy] },
+    );
+    return { ...r, distances: new Float32Array(r.distances) };
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { CheckProfile, DEFAULT_CHECK_PROFILE, evaluateCheck } from "./meshChecks";
+
+describe("overlaps check", () => {
+  const profile: CheckProfile = {
+    ...DEFAULT_CHECK_PROFILE,
+    overlaps: { enabled: true, maxPairs: 2, maxDuplicates: 0 },
+  };
+  const grade = (pairs: number, duplicates: number) => evaluateCheck("overlaps", { pairs, duplicates }, profile, 0);
+
+  it("reports partial overlaps apart from duplicates", () => {
+    const r = grade(3, 1);
+    expect(r.status).toBe("fail");
+    expect(r.summary).toBe("1 duplicate(s)");
+    expect(r.value).toBe(2);
+  });
+
+  it("fails partial overlaps only past their own limit", () => {
+    expect(grade(2, 0)).toMatchObject({ status: "pass", summary: "Within limits (2 partial overlap(s))" });
+    expect(grade(3, 0)).toMatchObject({ status: "fail", summary: "3 partial overlap(s)", value: 3 });
+  });
+
+  it("passes a mesh without overlaps", () => {
+    expect(grade(0, 0)).toMatchObject({ status: "pass", summary: "No overlapping triangles", value: 0 });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Mesh check profiles: which checks run, their thresholds and the pass/fail
+ * rules applied to what they measure.
+ *
+ * Checks report raw measurements; `evaluateCheck` turns a measurement into
+ * a CheckResult under a profile, so editing a rule re-grades the last run
+ * without measuring again. Only edge thresholds change what is measured.
+ */
+
+import {
+  DEFAULT_EDGE_RULES,
+  DEFAULT_EDGE_THRESHOLDS,
+  EDGE_CATEGORIES,
+  EdgeCategory,
+  EdgeRules,
+  EdgeThresholds,
+  MeshComponent,
+} from "./meshAnalysis";
+
+// ---------------------------------------------------------------------------
+// Checks and results
+// ---------------------------------------------------------------------------
+
+export type CheckId = "holes" | "intersections" | "shells" | "normals" | "edges" | "overlaps";
+
+/** Every check, in display order. */
+export const CHECKS: { id: CheckId; label: string }[] = [
+  { id: "holes", label: "Holes" },
+  { id: "intersections", label: "Self-Intersections" },
+  { id: "shells", label: "Noise Shells" },
+  { id: "normals", label: "Inverted Normals" },
+  { id: "edges", label: "Bad Edges" },
+  { id: "overlaps", label: "Overlapping Triangles" },
+];
+
+export type CheckStatus = "idle" | "running" | "pass" | "fail" | "error";
+
+export interface CheckResult {
+  status: CheckStatus;
+  summary: string;
+  detail?: string;
+  /** The number the rule was applied to, e.g. the hole count */
+  value?: number;
+  /** The rule applied, e.g. "≤ 2 hole(s), each ≤ 5 perimeter" */
+  threshold?: string;
+  elapsedMs?: number;
+}
+
+export const INITIAL_CHECK: CheckResult = { status: "idle", summary: "—" };
+
+/** What each check measures, before any rule is applied. */
+export interface CheckMeasurements {
+  holes: { perimeters: number[] };
+  intersections: { pairs: number };
+  shells: { components: MeshComponent[] };
+  normals: { invertedFaces: number; affectedShells: number; closedShells: number; openShells: number };
+  /** `thresholds` are the ones the edges were classified with */
+  edges: { counts: Record<EdgeCategory, number>; thresholds: EdgeThresholds };
+  overlaps: { pairs: number; duplicates: number };
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+export interface CheckProfile {
+  name: string;
+  holes: {
+    enabled: boolean;
+    /** Holes allowed before the check fails */
+    maxHoles: number;
+    /** Fail on any hole with a longer boundary (mesh units); null = no limit */
+    maxPerimeter: number | null;
+  };
+  intersections: { enabled: boolean; maxPairs: number };
+  shells: {
+    enabled: boolean;
+    /** Shells below this fraction of the largest shell's area are noise */
+    minAreaRatio: number;
+    maxNoiseShells: number;
+  };
+  normals: { enabled: boolean; maxInvertedFaces: number };
+  edges: { enabled: boolean; thresholds: EdgeThresholds; rules: EdgeRules };
+  overlaps: { enabled: boolean; maxPairs: number; maxDuplicates: number };
+}
+
+/** Any defect fails; the behaviour before profiles existed. */
+export const DEFAULT_CHECK_PROFILE: CheckProfile = {
+  name: "Strict",
+  holes: { enabled: true, maxHoles: 0, maxPerimeter: null },
+  intersections: { enabled: true, maxPairs: 0 },
+  shells: { enabled: true, minAreaRatio: 0.01, maxNoiseShells: 0 },
+  normals: { enabled: true, maxInvertedFaces: 0 },
+  edges: { enabled: true, thresholds: DEFAULT_EDGE_THRESHOLDS, rules: DEFAULT_EDGE_RULES },
+  overlaps: { enabled: true, maxPairs: 0, maxDuplicates: 0 },
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+type Verdict = Omit<CheckResult, "elapsedMs">;
+
+const EVALUATORS: { [K in CheckId]: (m: CheckMeasurements[K], p: CheckProfile) => Verdict } = {
+  holes({ perimeters }, { holes: rule }) {
+    const count = perimeters.length;
+    const oversized = rule.maxPerimeter === null
+      ? 0
+      : perimeters.filter((len) => len > rule.maxPerimeter!).length;
+    const fails = count > rule.maxHoles || oversized > 0;
+    const longest = count > 0 ? Math.max(...perimeters) : 0;
+    return {
+      status: fails ? "fail" : "pass",
+      summary: count === 0
+        ? "Watertight — no holes"
+        : `${count} hole(s)${oversized > 0 ? `, ${oversized} over the perimeter limit` : ""}`,
+      detail: count === 0
+        ? "No boundary loops"
+        : `${count} boundary loop(s), longest perimeter ${longest.toPrecision(4)}`,
+      value: count,
+      threshold: `≤ ${rule.maxHoles} hole(s)${rule.maxPerimeter === null ? "" : `, each ≤ ${rule.maxPerimeter} perimeter`}`,
+    };
+  },
+
+  intersections({ pairs }, { intersections: rule }) {
+    return {
+      status: pairs > rule.maxPairs ? "fail" : "pass",
+      summary: pairs === 0 ? "No self-intersections" : `${pairs} intersection(s)`,
+      detail: `MeshLib detected ${pairs} self-intersecting face pair(s)`,
+      value: pairs,
+      threshold: `≤ ${rule.maxPairs} pair(s)`,
+    };
+  },
+
+  shells({ components }, { shells: rule }) {
+    const noise = components.filter((c) => c.index > 0 && c.areaRatio < rule.minAreaRatio).length;
+    const count = components.length;
+    const percent = +(rule.minAreaRatio * 100).toPrecision(3);
+    return {
+      status: noise > rule.maxNoiseShells ? "fail" : "pass",
+      summary: noise > 0 ? `${noise} noise shell(s)` : count === 1 ? "Single shell" : `${count} shells`,
+      detail: `${count} connected shell(s), ${noise} below ${percent}% of the largest shell's area`,
+      value: noise,
+      threshold: `≤ ${rule.maxNoiseShells} shell(s) under ${percent}% of the largest`,
+    };
+  },
+
+  normals(m, { normals: rule }) {
+    const method = `${m.closedShells} closed shell(s) by signed volume, ${m.openShells} open by normal voting`;
+    return {
+      status: m.invertedFaces > rule.maxInvertedFaces ? "fail" : "pass",
+      summary: m.invertedFaces === 0 ? "Consistently oriented" : `${m.invertedFaces} inverted face(s)`,
+      detail: m.invertedFaces === 0 ? method : `In ${m.affectedShells} shell(s); ${method}`,
+      value: m.invertedFaces,
+      threshold: `≤ ${rule.maxInvertedFaces} face(s)`,
+    };
+  },
+
+  edges({ counts, thresholds }, { edges: rule }) {
+    const rows = EDGE_CATEGORIES.map(({ category, label }) => ({
+      label,
+      count: counts[category],
+      limit: rule.rules[category],
+    }));
+    const failing = rows.filter((r) => r.limit !== null && r.count > r.limit);
+    const graded = rows.filter((r) => r.limit !== null);
+    const stale =
+      thresholds.minEdgeLength !== rule.thresholds.minEdgeLength ||
+      thresholds.maxDihedralDeg !== rule.thresholds.maxDihedralDeg;
+    return {
+      status: failing.length > 0 ? "fail" : "pass",
+      summary: failing.length === 0
+        ? "Within limits"
+        : failing.map((r) => `${r.count} ${r.label.replace(/ edges$/, "").toLowerCase()}`).join(", "),
+      detail:
+        rows.map((r) => `${r.label}: ${r.count}`).join(", ") +
+        (stale ? " — thresholds changed since this run, re-run to update" : ""),
+      value: graded.reduce((sum, r) => sum + r.count, 0),
+      threshold: graded.length === 0
+        ? "report only"
+        : graded.map((r) => `${r.label.replace(/ edges$/, "").toLowerCase()} ≤ ${r.limit}`).join(", "),
+    };
+  },
+
+  overlaps({ pairs, duplicates }, { overlaps: rule }) {
+    // Each kind is graded against its own limit; `pairs` counts both
+    const partial = pairs - duplicates;
+    const rows = [
+      { label: "partial overlap(s)", count: partial, limit: rule.maxPairs },
+      { label: "duplicate(s)", count: duplicates, limit: rule.maxDuplicates },
+    ];
+    const failing = rows.filter((r) => r.count > r.limit);
+    return {
+      status: failing.length > 0 ? "fail" : "pass",
+      summary: pairs === 0
+        ? "No overlapping triangles"
+        : failing.length > 0
+          ? failing.map((r) => `${r.count} ${r.label}`).join(", ")
+          : `Within limits (${rows.filter((r) => r.count > 0).map((r) => `${r.count} ${r.label}`).join(", ")})`,
+      detail: pairs === 0
+        ? "No coplanar faces share area"
+        : `${partial} partial overlap(s), ${duplicates} exact duplicate(s)`,
+      value: partial,
+      threshold: `≤ ${rule.maxPairs} partial overlap(s), ≤ ${rule.maxDuplicates} duplicate(s)`,
+    };
+  },
+};
+
+/** Grade one check's measurement under a profile. */
+export function evaluateCheck<K extends CheckId>(
+  id: K,
+  measurement: CheckMeasurements[K],
+  profile: CheckProfile,
+  elapsedMs: number,
+): CheckResult {
+  const verdict = EVALUATORS[id](measurement, profile);
+  return { ...verdict, detail: `${verdict.detail} (${elapsedMs.toFixed(0)} ms)`, elapsedMs };
+}
+
+// ---------------------------------------------------------------------------
+// JSON (de)serialization
+// ---------------------------------------------------------------------------
+
+const PROFILE_FORMAT_VERSION = 1;
+
+export interface CheckProfilesDocument {
+  version: number;
+  profiles: CheckProfile[];
+}
+
+export function serializeCheckProfiles(profiles: CheckProfile[]): string {
+  const doc: CheckProfilesDocument = { version: PROFILE_FORMAT_VERSION, profiles };
+  return JSON.stringify(doc, null, 2);
+}
+
+function num(v: unknown, fallback: number, min: number, max: number): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) return fallback;
+  return Math.min(max, Math.max(min, v));
+}
+
+function count(v: unknown, fallback: number): number {
+  return Math.round(num(v, fallback, 0, Number.MAX_SAFE_INTEGER));
+}
+
+function optional(v: unknown, fallback: number | null, max: number): number | null {
+  return v === null ? null : v === undefined ? fallback : num(v, fallback ?? 0, 0, max);
+}
+
+function enabled(v: any, fallback: boolean): boolean {
+  return typeof v?.enabled === "boolean" ? v.enabled : fallback;
+}
+
+/**
+ * Fill in and clamp a profile read from storage or a file. Missing or
+ * out-of-range values fall back to the defaults.
+ */
+export function normalizeCheckProfile(raw: any, fallbackName = "Imported"): CheckProfile {
+  const d = DEFAULT_CHECK_PROFILE;
+  const r = raw && typeof raw === "object" ? raw : {};
+  const rules = r.edges?.rules ?? {};
+  return {
+    name: typeof r.name === "string" && r.name.trim() ? r.name.trim() : fallbackName,
+    holes: {
+      enabled: enabled(r.holes, d.holes.enabled),
+      maxHoles: count(r.holes?.maxHoles, d.holes.maxHoles),
+      maxPerimeter: optional(r.holes?.maxPerimeter, d.holes.maxPerimeter, Number.MAX_VALUE),
+    },
+    intersections: {
+      enabled: enabled(r.intersections, d.intersections.enabled),
+      maxPairs: count(r.intersections?.maxPairs, d.intersections.maxPairs),
+    },
+    shells: {
+      enabled: enabled(r.shells, d.shells.enabled),
+      minAreaRatio: num(r.shells?.minAreaRatio, d.shells.minAreaRatio, 0, 1),
+      maxNoiseShells: count(r.shells?.maxNoiseShells, d.shells.maxNoiseShells),
+    },
+    normals: {
+      enabled: enabled(r.normals, d.normals.enabled),
+      maxInvertedFaces: count(r.normals?.maxInvertedFaces, d.normals.maxInvertedFaces),
+    },
+    edges: {
+      enabled: enabled(r.edges, d.edges.enabled),
+      thresholds: {
+        minEdgeLength: num(r.edges?.thresholds?.minEdgeLength, d.edges.thresholds.minEdgeLength, 0, Number.MAX_VALUE),
+        maxDihedralDeg: num(r.edges?.thresholds?.maxDihedralDeg, d.edges.thresholds.maxDihedralDeg, 0, 180),
+      },
+      rules: Object.fromEntries(
+        EDGE_CATEGORIES.map(({ category }) => {
+          const limit = optional(rules[category], d.edges.rules[category], Number.MAX_SAFE_INTEGER);
+          return [category, limit === null ? null : Math.round(limit)];
+        }),
+      ) as EdgeRules,
+    },
+    overlaps: {
+      enabled: enabled(r.overlaps, d.overlaps.enabled),
+      maxPairs: count(r.overlaps?.maxPairs, d.overlaps.maxPairs),
+      maxDuplicates: count(r.overlaps?.maxDuplicates, d.overlaps.maxDuplicates),
+    },
+  };
+}
+
+/** Parse an exported profiles file, or a single profile object. */
+export function parseCheckProfiles(json: string): CheckProfile[] {
+  let doc: any;
+  try {
+    doc = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Profile file is not valid JSON: ${e?.message || e}`);
+  }
+  if (typeof doc?.version === "number" && doc.version > PROFILE_FORMAT_VERSION) {
+    throw new Error(`Unsupported profile version ${doc.version}`);
+  }
+  const list = Array.isArray(doc?.profiles) ? doc.profiles : doc && typeof doc === "object" ? [doc] : null;
+  if (!list || list.length === 0) {
+    throw new Error("Profile file must contain a profile or a \"profiles\" array");
+  }
+  return list.map((raw: any, i: number) => normalizeCheckProfile(raw, `Imported ${i + 1}`));
+}
@@ -0,0 +1,282 @@
+/**
+ * Mesh export: write a processed mesh to binary STL, ASCII STL, OBJ or PLY.
+ *
+ * Sources are either the binary STL ArrayBuffers the workers return or a
+ * THREE.BufferGeometry. Both are first converted to an indexed mesh with
+ * coincident vertices welded, so OBJ and PLY files share vertices between
+ * faces instead of repeating them three times per triangle.
+ */
+
+import * as THREE from "three";
+import { downloadBlob } from "./download";
+
+export type MeshExportFormat = "stl-binary" | "stl-ascii" | "obj" | "ply";
+
+export interface MeshExportFormatInfo {
+  format: MeshExportFormat;
+  label: string;
+  extension: string;
+}
+
+export const MESH_EXPORT_FORMATS: MeshExportFormatInfo[] = [
+  { format: "stl-binary", label: "STL (binary)", extension: "stl" },
+  { format: "stl-ascii", label: "STL (ASCII)", extension: "stl" },
+  { format: "obj", label: "OBJ", extension: "obj" },
+  { format: "ply", label: "PLY", extension: "ply" },
+];
+
+export interface IndexedMesh {
+  /** xyz per vertex */
+  positions: Float32Array;
+  /** Three vertex indices per triangle */
+  indices: Uint32Array;
+}
+
+// ---------------------------------------------------------------------------
+// Indexing
+// ---------------------------------------------------------------------------
+
+/**
+ * Weld a triangle soup (9 floats per triangle) into an indexed mesh.
+ * Vertices are merged only when their coordinates are bit-identical, which
+ * is what STL writers produce for shared corners; no tolerance is applied
+ * so the geometry is never altered.
+ */
+function weldTriangleSoup(soup: Float32Array): IndexedMesh {
+  const vertexCount = soup.length / 3;
+  const bits = new Uint32Array(soup.buffer, soup.byteOffset, soup.length);
+  const lookup = new Map<string, number>();
+  const positions: number[] = [];
+  const indices = new Uint32Array(vertexCount);
+
+  for (let v = 0; v < vertexCount; v++) {
+    const o = v * 3;
+    const key = `${bits[o]},${bits[o + 1]},${bits[o + 2]}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      lookup.set(key, index);
+      positions.push(soup[o], soup[o + 1], soup[o + 2]);
+    }
+    indices[v] = index;
+  }
+
+  return { positions: new Float32Array(positions), indices };
+}
+
+/** Build an indexed mesh from binary STL bytes. */
+export function indexedMeshFromStl(stl: ArrayBuffer): IndexedMesh {
+  if (stl.byteLength < 84) throw new Error("STL buffer is too short");
+  const view = new DataView(stl);
+  const triCount = view.getUint32(80, true);
+  if (84 + triCount * 50 > stl.byteLength) {
+    throw new Error(
+      `STL header declares ${triCount} triangles but the buffer only holds ${Math.floor((stl.byteLength - 84) / 50)}`,
+    );
+  }
+
+  const soup = new Float32Array(triCount * 9);
+  for (let t = 0; t < triCount; t++) {
+    // Skip the 12-byte facet normal; it is recomputed on export
+    const base = 84 + t * 50 + 12;
+    for (let k = 0; k < 9; k++) {
+      soup[t * 9 + k] = view.getFloat32(base + k * 4, true);
+    }
+  }
+  return weldTriangleSoup(soup);
+}
+
+/** Build an indexed mesh from a geometry, welding it if it is non-indexed. */
+export function indexedMeshFromGeometry(geometry: THREE.BufferGeometry): IndexedMesh {
+  const pos = geometry.getAttribute("position");
+  if (!pos) throw new Error("Geometry has no position attribute");
+
+  const index = geometry.getIndex();
+  if (index) {
+    const positions = new Float32Array(pos.count * 3);
+    for (let i = 0; i < pos.count; i++) {
+      positions[i * 3] = pos.getX(i);
+      positions[i * 3 + 1] = pos.getY(i);
+      positions[i * 3 + 2] = pos.getZ(i);
+    }
+    return { positions, indices: Uint32Array.from(index.array as ArrayLike<number>) };
+  }
+
+  const soup = new Float32Array(pos.count * 3);
+  for (let i = 0; i < pos.count; i++) {
+    soup[i * 3] = pos.getX(i);
+    soup[i * 3 + 1] = pos.getY(i);
+    soup[i * 3 + 2] = pos.getZ(i);
+  }
+  return weldTriangleSoup(soup);
+}
+
+export function toIndexedMesh(source: ArrayBuffer | THREE.BufferGeometry): IndexedMesh {
+  return source instanceof ArrayBuffer
+    ? indexedMeshFromStl(source)
+    : indexedMeshFromGeometry(source);
+}
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+
+function faceNormal(mesh: IndexedMesh, f: number, out: THREE.Vector3): THREE.Vector3 {
+  const { positions: p, indices: ix } = mesh;
+  const a = ix[f * 3] * 3;
+  const b = ix[f * 3 + 1] * 3;
+  const c = ix[f * 3 + 2] * 3;
+  const e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+  const e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+  out.set(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x);
+  const len = out.length();
+  return len > 0 ? out.divideScalar(len) : out.set(0, 0, 0);
+}
+
+export function writeBinaryStl(mesh: IndexedMesh): ArrayBuffer {
+  const faceCount = mesh.indices.length / 3;
+  const buf = new ArrayBuffer(84 + faceCount * 50);
+  const view = new DataView(buf);
+  const header = "Exported by meshlib-react-fe";
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i));
+  view.setUint32(80, faceCount, true);
+
+  const n = new THREE.Vector3();
+  for (let f = 0; f < faceCount; f++) {
+    let o = 84 + f * 50;
+    faceNormal(mesh, f, n);
+    view.setFloat32(o, n.x, true);
+    view.setFloat32(o + 4, n.y, true);
+    view.setFloat32(o + 8, n.z, true);
+    o += 12;
+    for (let k = 0; k < 3; k++) {
+      const v = mesh.indices[f * 3 + k] * 3;
+      view.setFloat32(o, mesh.positions[v], true);
+      view.setFloat32(o + 4, mesh.positions[v + 1], true);
+      view.setFloat32(o + 8, mesh.positions[v + 2], true);
+      o += 12;
+    }
+    // attribute byte count stays 0
+  }
+  return buf;
+}
+
+/** Shortest round-tripping representation of a float32 value. */
+function fmt(v: number): string {
+  return String(Math.fround(v));
+}
+
+export function writeAsciiStl(mesh: IndexedMesh, name = "mesh"): string {
+  const solid = name.replace(/\s+/g, "_") || "mesh";
+  const lines: string[] = [`solid ${solid}`];
+  const n = new THREE.Vector3();
+  const faceCount = mesh.indices.length / 3;
+  for (let f = 0; f < faceCount; f++) {
+    faceNormal(mesh, f, n);
+    lines.push(`  facet normal ${fmt(n.x)} ${fmt(n.y)} ${fmt(n.z)}`, "    outer loop");
+    for (let k = 0; k < 3; k++) {
+      const v = mesh.indices[f * 3 + k] * 3;
+      lines.push(
+        `      vertex ${fmt(mesh.positions[v])} ${fmt(mesh.positions[v + 1])} ${fmt(mesh.positions[v + 2])}`,
+      );
+    }
+    lines.push("    endloop", "  endfacet");
+  }
+  lines.push(`endsolid ${solid}`, "");
+  return lines.join("\n");
+}
+
+export function writeObj(mesh: IndexedMesh, name = "mesh"): string {
+  const vertexCount = mesh.positions.length / 3;
+  const faceCount = mesh.indices.length / 3;
+  const lines: string[] = [
+    `# ${vertexCount} vertices, ${faceCount} faces`,
+    `o ${name.replace(/\s+/g, "_") || "mesh"}`,
+  ];
+  for (let v = 0; v < vertexCount; v++) {
+    const o = v * 3;
+    lines.push(`v ${fmt(mesh.positions[o])} ${fmt(mesh.positions[o + 1])} ${fmt(mesh.positions[o + 2])}`);
+  }
+  // OBJ indices are 1-based
+  for (let f = 0; f < faceCount; f++) {
+    const o = f * 3;
+    lines.push(`f ${mesh.indices[o] + 1} ${mesh.indices[o + 1] + 1} ${mesh.indices[o + 2] + 1}`);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/** Binary little-endian PLY with float vertices and uchar/uint face lists. */
+export function writePly(mesh: IndexedMesh): ArrayBuffer {
+  const vertexCount = mesh.positions.length / 3;
+  const faceCount = mesh.indices.length / 3;
+  const header = new TextEncoder().encode(
+    [
+      "ply",
+      "format binary_little_endian 1.0",
+      "comment Exported by meshlib-react-fe",
+      `element vertex ${vertexCount}`,
+      "property float x",
+      "property float y",
+      "property float z",
+      `element face ${faceCount}`,
+      "property list uchar uint vertex_indices",
+      "end_header",
+      "",
+    ].join("\n"),
+  );
+
+  const buf = new ArrayBuffer(header.length + vertexCount * 12 + faceCount * 13);
+  new Uint8Array(buf).set(header, 0);
+  const view = new DataView(buf);
+  let o = header.length;
+  for (let i = 0; i < mesh.positions.length; i++, o += 4) {
+    view.setFloat32(o, mesh.positions[i], true);
+  }
+  for (let f = 0; f < faceCount; f++) {
+    view.setUint8(o, 3);
+    view.setUint32(o + 1, mesh.indices[f * 3], true);
+    view.setUint32(o + 5, mesh.indices[f * 3 + 1], true);
+    view.setUint32(o + 9, mesh.indices[f * 3 + 2], true);
+    o += 13;
+  }
+  return buf;
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+/** Encode a mesh in the requested format. */
+export function exportMesh(
+  source: ArrayBuffer | THREE.BufferGeometry,
+  format: MeshExportFormat,
+  name = "mesh",
+): Blob {
+  // Binary STL bytes can be passed straight through
+  if (format === "stl-binary" && source instanceof ArrayBuffer) {
+    return new Blob([source], { type: "model/stl" });
+  }
+
+  const mesh = toIndexedMesh(source);
+  switch (format) {
+    case "stl-binary":
+      return new Blob([writeBinaryStl(mesh)], { type: "model/stl" });
+    case "stl-ascii":
+      return new Blob([writeAsciiStl(mesh, name)], { type: "model/stl" });
+    case "obj":
+      return new Blob([writeObj(mesh, name)], { type: "model/obj" });
+    case "ply":
+      return new Blob([writePly(mesh)], { type: "application/octet-stream" });
+  }
+}
+
+/** Encode a mesh and hand it to the browser as a download named `<name>.<ext>`. */
+export function downloadMesh(
+  source: ArrayBuffer | THREE.BufferGeometry,
+  format: MeshExportFormat,
+  name: string,
+): void {
+  const info = MESH_EXPORT_FORMATS.find((f) => f.format === format)!;
+  downloadBlob(exportMesh(source, format, name), `${name}.${info.extension}`);
+}
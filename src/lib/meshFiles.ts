@@ -0,0 +1,70 @@
+/**
+ * Helpers for getting mesh bytes into memory, either from the built-in
+ * `/stl/` folder served by Vite or from files the user picked / dropped.
+ *
+ * Everything downstream (clients, viewers) works on the in-memory
+ * ArrayBuffer, so a file is only ever fetched or read once.
+ */
+
+export type MeshFileSource = "builtin" | "local";
+
+export interface MeshFileEntry {
+  /** Unique key used by selectors, e.g. "builtin:complex/Duck_mesh.stl". */
+  key: string;
+  /** Display name (file name or path below /stl/). */
+  name: string;
+  source: MeshFileSource;
+}
+
+/** Extensions accepted by the file picker and drop zone. */
+export const MESH_FILE_ACCEPT = ".stl,.obj,.ply,.3mf";
+
+export function builtinEntry(name: string): MeshFileEntry {
+  return { key: `builtin:${name}`, name, source: "builtin" };
+}
+
+/**
+ * Entry for a file from disk. Size and modification time go into the key so
+ * same-named files from different folders stay apart, while re-adding the
+ * same file keeps its key (and its saved measurements).
+ */
+export function localEntry(file: Pick<File, "name" | "size" | "lastModified">): MeshFileEntry {
+  return { key: `local:${file.name}:${file.size}:${file.lastModified}`, name: file.name, source: "local" };
+}
+
+/** Fetch one of the STL files bundled under /public/stl. */
+export async function fetchBuiltinMesh(name: string): Promise<ArrayBuffer> {
+  const url = `/stl/${name}`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch STL (${res.status}): ${url}`);
+  return res.arrayBuffer();
+}
+
+/**
+ * Read a user-supplied File (picker or drag-and-drop) into memory.
+ * The bytes are raw file content; see MeshImportClient for normalization.
+ */
+export async function readLocalMesh(file: File): Promise<ArrayBuffer> {
+  try {
+    return await file.arrayBuffer();
+  } catch (e: any) {
+    throw new Error(`Failed to read ${file.name}: ${e?.message || e}`);
+  }
+}
+
+/** Keep only files whose extension is listed in MESH_FILE_ACCEPT. */
+export function filterMeshFiles(files: Iterable<File>): File[] {
+  const exts = MESH_FILE_ACCEPT.split(",").map((s) => s.trim().toLowerCase());
+  return Array.from(files).filter((f) =>
+    exts.some((ext) => f.name.toLowerCase().endsWith(ext)),
+  );
+}
+
+/**
+ * Binary STL triangle count (uint32LE at offset 80), or null if too short.
+ * Only meaningful for binary STL; other formats are converted on import.
+ */
+export function triangleCountFromStl(buf: ArrayBuffer): number | null {
+  if (buf.byteLength < 84) return null;
+  return new DataView(buf).getUint32(80, true);
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { MeshImportError, detectMeshFormat, importMesh, parse3mf, parseAsciiStl, parseObj, parsePly } from "./meshImport";
+import { indexedMeshFromStl, writeAsciiStl, writeBinaryStl, writeObj, writePly } from "./meshExport";
+import { writeZip } from "./zip";
+import { cube } from "../test/meshes";
+
+const bytes = (s: string) => new TextEncoder().encode(s).buffer as ArrayBuffer;
+
+/** A unit cube as binary STL whose header starts with "solid", with `padding` zero bytes appended. */
+function solidHeaderStl(padding: number): ArrayBuffer {
+  const stl = new Uint8Array(writeBinaryStl(cube()));
+  const out = new Uint8Array(stl.length + padding);
+  out.set(stl);
+  out.set(new TextEncoder().encode("solid exported part"), 0);
+  return out.buffer;
+}
+
+async function threeMf(model: string): Promise<ArrayBuffer> {
+  const rels =
+    '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Target="/3D/part.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>' +
+    "</Relationships>";
+  const zip = await writeZip([
+    { name: "_rels/.rels", data: new TextEncoder().encode(rels) },
+    { name: "3D/part.model", data: new TextEncoder().encode(model) },
+  ]);
+  return zip.arrayBuffer();
+}
+
+const TETRA_MODEL = (unit: string, transform = "") =>
+  `<?xml version="1.0"?><model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources><object id="1" type="model"><mesh>
+    <vertices><vertex x="0" y="0" z="0"/><vertex x="1" y="0" z="0"/><vertex x="0" y="1" z="0"/><vertex x="0" y="0" z="1"/></vertices>
+    <triangles><triangle v1="0" v2="2" v3="1"/><triangle v1="0" v2="1" v3="3"/><triangle v1="0" v2="3" v3="2"/><triangle v1="1" v2="2" v3="3"/></triangles>
+  </mesh></object></resources>
+  <build><item objectid="1"${transform ? ` transform="${transform}"` : ""}/></build>
+</model>`;
+
+describe("detectMeshFormat", () => {
+  it("detects each format from its content", async () => {
+    const mesh = cube();
+    expect(detectMeshFormat(writeBinaryStl(mesh))).toBe("stl-binary");
+    expect(detectMeshFormat(bytes(writeAsciiStl(mesh)))).toBe("stl-ascii");
+    expect(detectMeshFormat(bytes(writeObj(mesh)))).toBe("obj");
+    expect(detectMeshFormat(writePly(mesh))).toBe("ply");
+    expect(detectMeshFormat(await threeMf(TETRA_MODEL("millimeter")))).toBe("3mf");
+  });
+
+  it("reads binary STLs whose header starts with \"solid\"", () => {
+    expect(detectMeshFormat(solidHeaderStl(0), "part.stl")).toBe("stl-binary");
+    expect(detectMeshFormat(solidHeaderStl(3), "part.stl")).toBe("stl-binary");
+  });
+
+  it("falls back to the extension, then gives up", () => {
+    expect(detectMeshFormat(new ArrayBuffer(10), "part.3MF")).toBe("3mf");
+    expect(detectMeshFormat(new ArrayBuffer(10), "notes.txt")).toBeNull();
+  });
+});
+
+describe("parsers", () => {
+  it("reads ASCII STL as one vertex per corner", () => {
+    const mesh = parseAsciiStl(writeAsciiStl(cube(2)));
+    expect(mesh.indices.length).toBe(36);
+    expect(Math.max(...mesh.positions)).toBe(2);
+    expect(() => parseAsciiStl("solid x\nvertex 0 0 nope\n")).toThrow(MeshImportError);
+  });
+
+  it("fan-triangulates OBJ polygons and resolves negative indices", () => {
+    const mesh = parseObj("v 0 0 0\nv 1 0 0\nv 1 1 0\nv 0 1 0\nf 1/1/1 2/2/2 3/3/3 4/4/4\nf -4 -2 -1\n");
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3, 0, 2, 3]);
+    expect(() => parseObj("v 0 0 0\nf 1 2 3\n")).toThrow(/out of range/);
+  });
+
+  it("reads binary and ASCII PLY", () => {
+    const mesh = cube();
+    const binary = parsePly(writePly(mesh));
+    expect(binary.positions).toEqual(mesh.positions);
+    expect(binary.indices).toEqual(mesh.indices);
+
+    const ascii = parsePly(
+      bytes(
+        "ply\nformat ascii 1.0\nelement vertex 4\nproperty float x\nproperty float y\nproperty float z\n" +
+          "element face 1\nproperty list uchar int vertex_indices\nend_header\n" +
+          "0 0 0\n1 0 0\n1 1 0\n0 1 0\n4 0 1 2 3\n",
+      ),
+    );
+    expect(Array.from(ascii.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+  });
+
+  it("reads 3MF models in millimetres, applying build transforms", async () => {
+    const mesh = await parse3mf(await threeMf(TETRA_MODEL("centimeter", "1 0 0 0 1 0 0 0 1 5 0 0")));
+    expect(mesh.indices.length).toBe(12);
+    // (1, 0, 0) cm moved 5 cm along x
+    expect(Array.from(mesh.positions.subarray(3, 6))).toEqual([60, 0, 0]);
+  });
+
+  it("rejects 3MF packages without a model", async () => {
+    const zip = await (await writeZip([{ name: "readme.txt", data: new Uint8Array(1) }])).arrayBuffer();
+    await expect(parse3mf(zip)).rejects.toThrow(/no 3D model part/);
+  });
+});
+
+describe("importMesh", () => {
+  it("trims padding from binary STL", async () => {
+    const r = await importMesh(solidHeaderStl(16), "part.stl");
+    expect(r).toMatchObject({ format: "stl-binary", faces: 12 });
+    expect(r.stl.byteLength).toBe(84 + 12 * 50);
+  });
+
+  it("converts other formats to binary STL", async () => {
+    const r = await importMesh(bytes(writeObj(cube(3))), "part.obj");
+    expect(r).toMatchObject({ format: "obj", faces: 12 });
+    expect(indexedMeshFromStl(r.stl).positions.length).toBe(24);
+  });
+
+  it("rejects unknown and empty files", async () => {
+    await expect(importMesh(new ArrayBuffer(10), "notes.txt")).rejects.toThrow(/Unsupported file "notes.txt"/);
+    await expect(importMesh(bytes("v 0 0 0\n"), "empty.obj")).rejects.toThrow(/contains no triangles/);
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Mesh import: detect the format of an uploaded file and normalize it to the
+ * binary STL bytes every WASM module expects.
+ *
+ * Supported inputs: binary STL, ASCII STL, OBJ, PLY (ASCII and binary) and
+ * 3MF. Parsing runs inside meshImport.worker.ts; this module only holds the
+ * pure parsers so they stay independent of the worker plumbing.
+ */
+
+import * as THREE from "three";
+import { IndexedMesh, writeBinaryStl } from "./meshExport";
+import { listZipEntries, readZipEntry } from "./zip";
+
+export type MeshFormat = "stl-binary" | "stl-ascii" | "obj" | "ply" | "3mf";
+
+export const MESH_FORMAT_LABELS: Record<MeshFormat, string> = {
+  "stl-binary": "binary STL",
+  "stl-ascii": "ASCII STL",
+  obj: "OBJ",
+  ply: "PLY",
+  "3mf": "3MF",
+};
+
+/** Thrown for unsupported or malformed input; the message is user-facing. */
+export class MeshImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MeshImportError";
+  }
+}
+
+export interface ImportedMesh {
+  /** Binary STL bytes */
+  stl: ArrayBuffer;
+  /** Format the input was detected as */
+  format: MeshFormat;
+  faces: number;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+function isBinaryStlSize(buf: ArrayBuffer): boolean {
+  if (buf.byteLength < 84) return false;
+  const triCount = new DataView(buf).getUint32(80, true);
+  return buf.byteLength === 84 + triCount * 50;
+}
+
+/** The declared triangles fit in the file, allowing trailing padding some exporters add. */
+function fitsBinaryStl(buf: ArrayBuffer): boolean {
+  if (buf.byteLength < 84) return false;
+  const triCount = new DataView(buf).getUint32(80, true);
+  return triCount > 0 && 84 + triCount * 50 <= buf.byteLength;
+}
+
+/**
+ * Guess the format from the file's leading bytes, falling back to the file
+ * extension. Returns null when nothing matches.
+ */
+export function detectMeshFormat(buf: ArrayBuffer, name = ""): MeshFormat | null {
+  const bytes = new Uint8Array(buf, 0, Math.min(buf.byteLength, 512));
+  // "PK\x03\x04": a ZIP container, which is what 3MF is
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return "3mf";
+  }
+
+  const head = new TextDecoder("latin1").decode(bytes);
+  if (/^ply\r?\n/.test(head)) return "ply";
+  // Checked before "solid": many binary exporters start the header with it
+  if (isBinaryStlSize(buf)) return "stl-binary";
+  if (/^\s*solid\b/.test(head)) {
+    // A padded binary STL can still start with "solid"; trust the content over the name
+    if (/\b(facet|endsolid)\b/.test(head)) return "stl-ascii";
+    return fitsBinaryStl(buf) ? "stl-binary" : "stl-ascii";
+  }
+  if (/^\s*(#.*|v|vn|vt|f|o|g|s|mtllib|usemtl)(\s|$)/m.test(head)) return "obj";
+
+  switch (extensionOf(name)) {
+    case "stl":
+      return "stl-binary";
+    case "obj":
+      return "obj";
+    case "ply":
+      return "ply";
+    case "3mf":
+      return "3mf";
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// STL
+// ---------------------------------------------------------------------------
+
+function validateBinaryStl(buf: ArrayBuffer): number {
+  if (buf.byteLength < 84) {
+    throw new MeshImportError(`File is too short to be a binary STL (${buf.byteLength} bytes)`);
+  }
+  const triCount = new DataView(buf).getUint32(80, true);
+  const expected = 84 + triCount * 50;
+  if (buf.byteLength < expected) {
+    throw new MeshImportError(
+      `Binary STL is truncated: header declares ${triCount} triangles (${expected} bytes) but the file has ${buf.byteLength} bytes`,
+    );
+  }
+  return triCount;
+}
+
+export function parseAsciiStl(text: string): IndexedMesh {
+  const coords: number[] = [];
+  const re = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    for (let k = 1; k <= 3; k++) {
+      const v = Number(m[k]);
+      if (!Number.isFinite(v)) {
+        throw new MeshImportError(
+          `ASCII STL: invalid coordinate "${m[k]}" in vertex ${coords.length / 3 + 1}`,
+        );
+      }
+      coords.push(v);
+    }
+  }
+  if (coords.length % 9 !== 0) {
+    throw new MeshImportError(
+      `ASCII STL: ${coords.length / 3} vertices found, which is not a whole number of triangles`,
+    );
+  }
+  const positions = new Float32Array(coords);
+  const indices = new Uint32Array(positions.length / 3);
+  for (let i = 0; i < indices.length; i++) indices[i] = i;
+  return { positions, indices };
+}
+
+// ---------------------------------------------------------------------------
+// OBJ
+// ---------------------------------------------------------------------------
+
+export function parseObj(text: string): IndexedMesh {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let ln = 0; ln < lines.length; ln++) {
+    const line = lines[ln].trim();
+    if (line.startsWith("v ") || line.startsWith("v\t")) {
+      const parts = line.split(/\s+/);
+      const x = Number(parts[1]), y = Number(parts[2]), z = Number(parts[3]);
+      if (![x, y, z].every(Number.isFinite)) {
+        throw new MeshImportError(`OBJ line ${ln + 1}: invalid vertex "${line}"`);
+      }
+      positions.push(x, y, z);
+    } else if (line.startsWith("f ") || line.startsWith("f\t")) {
+      const vertexCount = positions.length / 3;
+      const face = line.split(/\s+/).slice(1).map((token) => {
+        // v, v/vt, v//vn or v/vt/vn; negative indices count from the end
+        const raw = parseInt(token.split("/")[0], 10);
+        const index = raw < 0 ? vertexCount + raw : raw - 1;
+        if (!Number.isInteger(raw) || raw === 0 || index < 0 || index >= vertexCount) {
+          throw new MeshImportError(`OBJ line ${ln + 1}: vertex index "${token}" is out of range`);
+        }
+        return index;
+      });
+      if (face.length < 3) {
+        throw new MeshImportError(`OBJ line ${ln + 1}: face has fewer than 3 vertices`);
+      }
+      // Fan-triangulate polygons
+      for (let k = 1; k + 1 < face.length; k++) {
+        indices.push(face[0], face[k], face[k + 1]);
+      }
+    }
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+// ---------------------------------------------------------------------------
+// PLY
+// ---------------------------------------------------------------------------
+
+type PlyScalarType = "int8" | "uint8" | "int16" | "uint16" | "int32" | "uint32" | "float32" | "float64";
+
+interface PlyProperty {
+  name: string;
+  type: PlyScalarType;
+  /** Set for list properties: the type of the leading count */
+  countType?: PlyScalarType;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+const PLY_TYPES: Record<string, PlyScalarType> = {
+  char: "int8", int8: "int8",
+  uchar: "uint8", uint8: "uint8",
+  short: "int16", int16: "int16",
+  ushort: "uint16", uint16: "uint16",
+  int: "int32", int32: "int32",
+  uint: "uint32", uint32: "uint32",
+  float: "float32", float32: "float32",
+  double: "float64", float64: "float64",
+};
+
+const PLY_SIZES: Record<PlyScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+function plyType(name: string): PlyScalarType {
+  const t = PLY_TYPES[name];
+  if (!t) throw new MeshImportError(`PLY: unknown property type "${name}"`);
+  return t;
+}
+
+export function parsePly(buf: ArrayBuffer): IndexedMesh {
+  // The header is ASCII and ends with "end_header" + newline
+  const headText = new TextDecoder("latin1").decode(
+    new Uint8Array(buf, 0, Math.min(buf.byteLength, 64 * 1024)),
+  );
+  const endMatch = /end_header\r?\n/.exec(headText);
+  if (!endMatch) throw new MeshImportError("PLY: missing end_header");
+  const bodyOffset = endMatch.index + endMatch[0].length;
+
+  let format = "";
+  const elements: PlyElement[] = [];
+  for (const rawLine of headText.slice(0, endMatch.index).split(/\r?\n/)) {
+    const parts = rawLine.trim().split(/\s+/);
+    switch (parts[0]) {
+      case "format":
+        format = parts[1];
+        break;
+      case "element":
+        elements.push({ name: parts[1], count: parseInt(parts[2], 10), properties: [] });
+        break;
+      case "property": {
+        const el = elements[elements.length - 1];
+        if (!el) throw new MeshImportError("PLY: property declared before any element");
+        if (parts[1] === "list") {
+          el.properties.push({ name: parts[4], countType: plyType(parts[2]), type: plyType(parts[3]) });
+        } else {
+          el.properties.push({ name: parts[2], type: plyType(parts[1]) });
+        }
+        break;
+      }
+    }
+  }
+  if (format !== "ascii" && format !== "binary_little_endian" && format !== "binary_big_endian") {
+    throw new MeshImportError(`PLY: unsupported format "${format}"`);
+  }
+
+  const vertexEl = elements.find((e) => e.name === "vertex");
+  const faceEl = elements.find((e) => e.name === "face");
+  if (!vertexEl) throw new MeshImportError("PLY: no vertex element");
+  const xyz = ["x", "y", "z"].map((n) => vertexEl.properties.findIndex((p) => p.name === n));
+  if (xyz.some((i) => i < 0)) throw new MeshImportError("PLY: vertex element lacks x/y/z");
+  let faceListIndex = -1;
+  if (faceEl) {
+    const named = faceEl.properties.findIndex(
+      (p) => p.countType && (p.name === "vertex_indices" || p.name === "vertex_index"),
+    );
+    faceListIndex = named >= 0 ? named : faceEl.properties.findIndex((p) => p.countType);
+  }
+  if (faceEl && faceListIndex < 0) throw new MeshImportError("PLY: face element has no index list");
+
+  // Uniform reader over ASCII tokens or binary values
+  let readScalar: (type: PlyScalarType) => number;
+  if (format === "ascii") {
+    const tokens = new TextDecoder("utf-8").decode(new Uint8Array(buf, bodyOffset)).trim().split(/\s+/);
+    let t = 0;
+    readScalar = () => {
+      if (t >= tokens.length) throw new MeshImportError("PLY: unexpected end of data");
+      return Number(tokens[t++]);
+    };
+  } else {
+    const view = new DataView(buf);
+    const le = format === "binary_little_endian";
+    let o = bodyOffset;
+    readScalar = (type) => {
+      if (o + PLY_SIZES[type] > buf.byteLength) throw new MeshImportError("PLY: unexpected end of data");
+      let v: number;
+      switch (type) {
+        case "int8": v = view.getInt8(o); break;
+        case "uint8": v = view.getUint8(o); break;
+        case "int16": v = view.getInt16(o, le); break;
+        case "uint16": v = view.getUint16(o, le); break;
+        case "int32": v = view.getInt32(o, le); break;
+        case "uint32": v = view.getUint32(o, le); break;
+        case "float32": v = view.getFloat32(o, le); break;
+        case "float64": v = view.getFloat64(o, le); break;
+      }
+      o += PLY_SIZES[type];
+      return v;
+    };
+  }
+
+  const positions = new Float32Array(vertexEl.count * 3);
+  const indices: number[] = [];
+  const row: number[][] = [];
+
+  // Elements must be read in header order, even the ones we discard
+  for (const el of elements) {
+    for (let r = 0; r < el.count; r++) {
+      row.length = 0;
+      for (const p of el.properties) {
+        if (p.countType) {
+          const n = readScalar(p.countType);
+          const list: number[] = [];
+          for (let k = 0; k < n; k++) list.push(readScalar(p.type));
+          row.push(list);
+        } else {
+          row.push([readScalar(p.type)]);
+        }
+      }
+
+      if (el === vertexEl) {
+        for (let k = 0; k < 3; k++) positions[r * 3 + k] = row[xyz[k]][0];
+      } else if (el === faceEl) {
+        const face = row[faceListIndex];
+        if (face.length < 3) throw new MeshImportError(`PLY: face ${r} has fewer than 3 vertices`);
+        for (const v of face) {
+          if (!(v >= 0 && v < vertexEl.count)) {
+            throw new MeshImportError(`PLY: face ${r} references missing vertex ${v}`);
+          }
+        }
+        for (let k = 1; k + 1 < face.length; k++) indices.push(face[0], face[k], face[k + 1]);
+      }
+    }
+  }
+
+  return { positions, indices: new Uint32Array(indices) };
+}
+
+// ---------------------------------------------------------------------------
+// 3MF
+// ---------------------------------------------------------------------------
+
+/** Millimetres per 3MF model unit; meshes are normalized to millimetres. */
+const THREE_MF_UNITS: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+interface ThreeMfObject {
+  positions: number[];
+  indices: number[];
+  components: { objectId: string; transform: THREE.Matrix4 }[];
+}
+
+function parseAttributes(src: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src))) {
+    // Drop namespace prefixes: "p:path" → "path"
+    attrs[m[1].replace(/^.*:/, "")] = m[2] ?? m[3];
+  }
+  return attrs;
+}
+
+/** 3MF transforms are 12 numbers, row-vector convention (last row = translation). */
+function parse3mfTransform(value: string | undefined): THREE.Matrix4 {
+  const m = new THREE.Matrix4();
+  if (!value) return m;
+  const n = value.trim().split(/\s+/).map(Number);
+  if (n.length !== 12 || !n.every(Number.isFinite)) {
+    throw new MeshImportError(`3MF: invalid transform "${value}"`);
+  }
+  return m.set(
+    n[0], n[3], n[6], n[9],
+    n[1], n[4], n[7], n[10],
+    n[2], n[5], n[8], n[11],
+    0, 0, 0, 1,
+  );
+}
+
+/** Parse a 3D model part. A small tag scanner is used since workers have no DOMParser. */
+function parse3mfModel(xml: string): IndexedMesh {
+  const unitMatch = /<(?:[\w-]+:)?model\b[^>]*\bunit\s*=\s*["'](\w+)["']/.exec(xml);
+  const unitScale = unitMatch ? THREE_MF_UNITS[unitMatch[1]] : 1;
+  if (unitScale === undefined) throw new MeshImportError(`3MF: unknown unit "${unitMatch![1]}"`);
+
+  const objects = new Map<string, ThreeMfObject>();
+  const buildItems: { objectId: string; transform: THREE.Matrix4 }[] = [];
+  let current: ThreeMfObject | null = null;
+
+  const tagRe = /<(\/?)(?:[\w-]+:)?(object|vertex|triangle|component|item)\b([^>]*)>/g;
+  let m: RegExpExecArray | null;
+  while ((m = tagRe.exec(xml))) {
+    const [, closing, tag, rest] = m;
+    if (tag === "object") {
+      if (closing) {
+        current = null;
+      } else {
+        const { id } = parseAttributes(rest);
+        current = { positions: [], indices: [], components: [] };
+        objects.set(id, current);
+        if (rest.trimEnd().endsWith("/")) current = null;
+      }
+      continue;
+    }
+    if (closing) continue;
+
+    const a = parseAttributes(rest);
+    if (tag === "item") {
+      buildItems.push({ objectId: a.objectid, transform: parse3mfTransform(a.transform) });
+    } else if (!current) {
+      continue;
+    } else if (tag === "vertex") {
+      const x = Number(a.x), y = Number(a.y), z = Number(a.z);
+      if (![x, y, z].every(Number.isFinite)) {
+        throw new MeshImportError(`3MF: invalid vertex ${current.positions.length / 3}`);
+      }
+      current.positions.push(x, y, z);
+    } else if (tag === "triangle") {
+      current.indices.push(Number(a.v1), Number(a.v2), Number(a.v3));
+    } else if (tag === "component") {
+      if (a.path) throw new MeshImportError("3MF: components in external model parts are not supported");
+      current.components.push({ objectId: a.objectid, transform: parse3mfTransform(a.transform) });
+    }
+  }
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const p = new THREE.Vector3();
+
+  function emit(objectId: string, transform: THREE.Matrix4, depth: number) {
+    const obj = objects.get(objectId);
+    if (!obj) throw new MeshImportError(`3MF: reference to missing object ${objectId}`);
+    if (depth > 32) throw new MeshImportError("3MF: component nesting is too deep (cycle?)");
+
+    const base = positions.length / 3;
+    const vertexCount = obj.positions.length / 3;
+    for (let v = 0; v < vertexCount; v++) {
+      p.fromArray(obj.positions, v * 3).applyMatrix4(transform).multiplyScalar(unitScale);
+      positions.push(p.x, p.y, p.z);
+    }
+    for (const i of obj.indices) {
+      if (!(Number.isInteger(i) && i >= 0 && i < vertexCount)) {
+        throw new MeshImportError(`3MF: object ${objectId} has a triangle referencing missing vertex ${i}`);
+      }
+      indices.push(base + i);
+    }
+    for (const c of obj.components) {
+      emit(c.objectId, transform.clone().multiply(c.transform), depth + 1);
+    }
+  }
+
+  if (buildItems.length > 0) {
+    for (const item of buildItems) emit(item.objectId, item.transform, 0);
+  } else {
+    for (const id of objects.keys()) emit(id, new THREE.Matrix4(), 0);
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+export async function parse3mf(buf: ArrayBuffer): Promise<IndexedMesh> {
+  let entries;
+  try {
+    entries = listZipEntries(buf);
+  } catch (e: any) {
+    throw new MeshImportError(`3MF: ${e?.message || e}`);
+  }
+
+  // The root relationship names the model part; fall back to any *.model
+  let modelPath: string | undefined;
+  const rels = entries.find((e) => e.name === "_rels/.rels");
+  if (rels) {
+    const xml = new TextDecoder("utf-8").decode(await readZipEntry(buf, rels));
+    const target = /<Relationship\b[^>]*Type\s*=\s*"[^"]*\/3dmodel"[^>]*>/.exec(xml);
+    if (target) modelPath = parseAttributes(target[0]).Target?.replace(/^\//, "");
+  }
+  const modelEntry =
+    entries.find((e) => e.name === modelPath) ??
+    entries.find((e) => e.name.toLowerCase().endsWith(".model"));
+  if (!modelEntry) throw new MeshImportError("3MF: package contains no 3D model part");
+
+  const xml = new TextDecoder("utf-8").decode(await readZipEntry(buf, modelEntry));
+  return parse3mfModel(xml);
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Detect, parse and convert a mesh file to binary STL.
+ * Binary STL input is validated and returned as-is.
+ */
+export async function importMesh(buf: ArrayBuffer, name = ""): Promise<ImportedMesh> {
+  const format = detectMeshFormat(buf, name);
+  if (!format) {
+    throw new MeshImportError(
+      `Unsupported file ${name ? `"${name}" ` : ""}— expected STL, OBJ, PLY or 3MF`,
+    );
+  }
+
+  if (format === "stl-binary") {
+    const faces = validateBinaryStl(buf);
+    // Drop trailing padding so every consumer sees exactly 84 + 50·n bytes
+    const size = 84 + faces * 50;
+    return { stl: buf.byteLength > size ? buf.slice(0, size) : buf, format, faces };
+  }
+
+  let mesh: IndexedMesh;
+  switch (format) {
+    case "stl-ascii":
+      mesh = parseAsciiStl(new TextDecoder("utf-8").decode(buf));
+      break;
+    case "obj":
+      mesh = parseObj(new TextDecoder("utf-8").decode(buf));
+      break;
+    case "ply":
+      mesh = parsePly(buf);
+      break;
+    case "3mf":
+      mesh = await parse3mf(buf);
+      break;
+  }
+
+  const faces = mesh.indices.length / 3;
+  if (faces === 0) {
+    throw new MeshImportError(`${MESH_FORMAT_LABELS[format]} file contains no triangles`);
+  }
+  return { stl: writeBinaryStl(mesh), format, faces };
+}
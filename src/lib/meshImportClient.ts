@@ -0,0 +1,80 @@
+/**
+ * Promise-based client that wraps the mesh import Web Worker.
+ *
+ * Follows the same pattern as SimplificationClient. Binary STL input is
+ * recognised on the main thread and returned without a worker round trip.
+ */
+
+import { detectMeshFormat, MeshFormat } from "./meshImport";
+import { RpcClient } from "./rpc/rpcClient";
+
+export interface ImportOptions {
+  /** Abort after this many ms. 0 = no timeout. */
+  timeoutMs?: number;
+  /** Called with human-readable status updates from the worker. */
+  onStatus?: (stage: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+export interface ImportResult {
+  /** Binary STL bytes */
+  output: ArrayBuffer;
+  /** Format the input was detected as */
+  format: MeshFormat;
+  faces: number;
+}
+
+/** Methods served by meshImport.worker.ts */
+export type MeshImportApi = {
+  importMesh: {
+    /** `name` is the original file name, used when the content is ambiguous */
+    params: { input: ArrayBuffer; name: string };
+    result: ImportResult;
+  };
+};
+
+export class MeshImportClient {
+  private rpc = new RpcClient<MeshImportApi>({
+    name: "Import",
+    createWorker: () =>
+      new Worker(new URL("../workers/meshImport.worker.ts", import.meta.url), {
+        type: "module",
+      }),
+  });
+
+  /* ---- lifecycle ---- */
+
+  /** Kill the worker and create a fresh one on next call. */
+  resetWorker(): void {
+    this.rpc.restart();
+  }
+
+  dispose(): void {
+    this.rpc.dispose();
+  }
+
+  /* ---- main entry point ---- */
+
+  /**
+   * Normalize any supported mesh file to binary STL.
+   * @param name  original file name, used when the content is ambiguous
+   */
+  async importMesh(
+    input: ArrayBuffer,
+    name: string,
+    opts: ImportOptions = {},
+  ): Promise<ImportResult> {
+    // Fast path: well-formed binary STL needs no conversion
+    if (detectMeshFormat(input, name) === "stl-binary" && input.byteLength >= 84) {
+      const faces = new DataView(input).getUint32(80, true);
+      if (input.byteLength >= 84 + faces * 50) {
+        return { output: input, format: "stl-binary", faces };
+      }
+    }
+
+    // Transfer a copy so the caller's buffer stays usable
+    const copy = input.slice(0);
+    return this.rpc.call("importMesh", { input: copy, name }, { ...opts, transfer: [copy] });
+  }
+}
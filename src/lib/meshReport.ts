@@ -0,0 +1,211 @@
+/**
+ * Mesh check reports: a snapshot of one run of the Mesh Checks page for
+ * quality records, exported as JSON or as a standalone HTML page that
+ * prints cleanly to PDF.
+ *
+ * The report holds everything needed to read it without the app: the
+ * file's identity (name, size, SHA-256, triangle count), the profile the
+ * checks were graded under, every check result with its timing, and a
+ * viewer screenshot for each failing check.
+ */
+
+import { CHECKS, CheckId, CheckProfile, CheckResult, CheckStatus } from "./meshChecks";
+import { triangleCountFromStl } from "./meshFiles";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const REPORT_FORMAT_VERSION = 1;
+
+export interface ReportFile {
+  name: string;
+  sizeBytes: number;
+  /** Hex SHA-256 of the checked binary STL */
+  sha256: string;
+  triangles: number | null;
+}
+
+export interface ReportCheck extends CheckResult {
+  id: CheckId;
+  label: string;
+  /** PNG data URL of the viewer showing the problem; failing checks only */
+  screenshot?: string;
+}
+
+export interface MeshCheckReport {
+  version: number;
+  generatedAt: string;
+  file: ReportFile;
+  /** The profile the results were graded under */
+  profile: CheckProfile;
+  verdict: CheckStatus;
+  /** Wall time of the whole run; checks run in parallel, so less than the sum */
+  totalMs: number | null;
+  /** Enabled checks only, in display order */
+  checks: ReportCheck[];
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+/** Hex SHA-256 of a buffer. */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export interface BuildReportParams {
+  fileName: string;
+  /** The binary STL the checks ran on */
+  data: ArrayBuffer;
+  profile: CheckProfile;
+  verdict: CheckStatus;
+  totalMs: number | null;
+  results: Record<CheckId, CheckResult>;
+  /** Screenshots keyed by check, usually one per failing check */
+  screenshots?: Partial<Record<CheckId, string>>;
+}
+
+export async function buildMeshCheckReport(params: BuildReportParams): Promise<MeshCheckReport> {
+  const { profile, results, screenshots = {} } = params;
+  return {
+    version: REPORT_FORMAT_VERSION,
+    generatedAt: new Date().toISOString(),
+    file: {
+      name: params.fileName,
+      sizeBytes: params.data.byteLength,
+      sha256: await sha256Hex(params.data),
+      triangles: triangleCountFromStl(params.data),
+    },
+    profile,
+    verdict: params.verdict,
+    totalMs: params.totalMs === null ? null : Math.round(params.totalMs),
+    checks: CHECKS.filter(({ id }) => profile[id].enabled).map(({ id, label }) => {
+      const { elapsedMs, ...result } = results[id];
+      return {
+        id,
+        label,
+        ...result,
+        ...(elapsedMs === undefined ? {} : { elapsedMs: Math.round(elapsedMs) }),
+        ...(screenshots[id] ? { screenshot: screenshots[id] } : {}),
+      };
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function meshCheckReportJson(report: MeshCheckReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  idle: "Not run",
+  running: "Running",
+  pass: "Pass",
+  fail: "Fail",
+  error: "Error",
+};
+
+const STATUS_COLORS: Record<CheckStatus, string> = {
+  idle: "#64748b",
+  running: "#ca8a04",
+  pass: "#16a34a",
+  fail: "#dc2626",
+  error: "#dc2626",
+};
+
+const REPORT_CSS = `
+  body { font: 13px/1.45 system-ui, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { color: #475569; font-weight: 600; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 0; }
+  dt { color: #475569; }
+  dd { margin: 0; }
+  .mono { font-family: ui-monospace, monospace; word-break: break-all; }
+  .status { font-weight: 700; }
+  .verdict { display: inline-block; padding: 4px 12px; border-radius: 6px; color: #fff; font-weight: 700; }
+  .muted { color: #64748b; }
+  figure { margin: 0 0 16px; break-inside: avoid; }
+  figure img { max-width: 100%; border: 1px solid #cbd5e1; }
+  figcaption { color: #475569; margin-top: 4px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+/** Standalone printable page: inline styles, screenshots embedded, no scripts. */
+export function meshCheckReportHtml(report: MeshCheckReport): string {
+  const { file } = report;
+  const rows = report.checks
+    .map((c) => {
+      const detail = [c.detail, c.threshold ? `Rule: ${c.threshold}` : undefined]
+        .filter((d): d is string => !!d)
+        .map((d) => `<div class="muted">${escapeHtml(d)}</div>`)
+        .join("");
+      return `<tr>
+  <td>${escapeHtml(c.label)}</td>
+  <td class="status" style="color:${STATUS_COLORS[c.status]}">${STATUS_LABELS[c.status]}</td>
+  <td>${escapeHtml(c.summary)}${detail}</td>
+  <td>${c.value === undefined ? "" : c.value.toLocaleString()}</td>
+  <td>${c.elapsedMs === undefined ? "" : `${c.elapsedMs} ms`}</td>
+</tr>`;
+    })
+    .join("\n");
+  const figures = report.checks
+    .filter((c) => c.screenshot)
+    .map(
+      (c) => `<figure>
+  <img src="${c.screenshot}" alt="${escapeHtml(c.label)}">
+  <figcaption>${escapeHtml(c.label)}: ${escapeHtml(c.summary)}</figcaption>
+</figure>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Mesh check report — ${escapeHtml(file.name)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>Mesh check report</h1>
+<div class="muted">Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</div>
+<p><span class="verdict" style="background:${STATUS_COLORS[report.verdict]}">${STATUS_LABELS[report.verdict].toUpperCase()}</span></p>
+
+<h2>File</h2>
+<dl>
+  <dt>Name</dt><dd>${escapeHtml(file.name)}</dd>
+  <dt>Size</dt><dd>${file.sizeBytes.toLocaleString()} bytes</dd>
+  <dt>Triangles</dt><dd>${file.triangles === null ? "unknown" : file.triangles.toLocaleString()}</dd>
+  <dt>SHA-256</dt><dd class="mono">${file.sha256}</dd>
+  <dt>Profile</dt><dd>${escapeHtml(report.profile.name)}</dd>
+  <dt>Total time</dt><dd>${report.totalMs === null ? "unknown" : `${report.totalMs} ms`}</dd>
+</dl>
+
+<h2>Checks</h2>
+<table>
+<thead><tr><th>Check</th><th>Result</th><th>Details</th><th>Measured</th><th>Time</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${figures ? `\n<h2>Failing checks</h2>\n${figures}\n` : ""}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { PipelineClients, PipelineStepError, createStep, parsePipeline, runPipeline, serializePipeline } from "./pipeline";
+import { RpcAbortError } from "./rpc/protocol";
+import { indexedMeshFromStl, writeBinaryStl } from "./meshExport";
+import { cube, withoutFaces } from "../test/meshes";
+
+/** Drops the last face of the input, like a very gentle simplifier. */
+function dropLastFace(input: ArrayBuffer): ArrayBuffer {
+  const mesh = indexedMeshFromStl(input);
+  return writeBinaryStl(withoutFaces(mesh, [mesh.indices.length / 3 - 1]));
+}
+
+function fakeClients(overrides: Partial<Record<keyof PipelineClients, object>> = {}): PipelineClients {
+  return {
+    fillHoles: { fillHoles: async (input: ArrayBuffer) => input },
+    selfIntersections: { repair: async (input: ArrayBuffer) => ({ output: dropLastFace(input), removedFaces: 1 }) },
+    simplification: { simplify: async (input: ArrayBuffer) => ({ output: dropLastFace(input) }) },
+    smoothing: { smooth: async (input: ArrayBuffer) => ({ output: input }) },
+    ...overrides,
+  } as unknown as PipelineClients;
+}
+
+describe("serializePipeline and parsePipeline", () => {
+  it("round-trips steps without their ids", () => {
+    const smooth = createStep("smooth");
+    if (smooth.kind === "smooth") smooth.params.iterations = 7;
+    const steps = [createStep("fillHoles"), createStep("simplify"), smooth];
+    const json = serializePipeline("Clean-up", steps);
+    expect(json).not.toMatch(/"id"/);
+
+    const parsed = parsePipeline(json);
+    expect(parsed.name).toBe("Clean-up");
+    expect(parsed.steps.map(({ id: _id, ...rest }) => rest)).toEqual(steps.map(({ id: _id, ...rest }) => rest));
+    expect(new Set(parsed.steps.map((s) => s.id)).size).toBe(3);
+  });
+
+  it("clamps parameters and falls back to defaults", () => {
+    const { steps } = parsePipeline(
+      JSON.stringify({
+        steps: [
+          { kind: "simplify", params: { targetRatio: 5 } },
+          { kind: "smooth", params: { method: "bogus", iterations: 1000, lambda: -1 } },
+        ],
+      }),
+    );
+    expect(steps[0]).toMatchObject({ params: { targetRatio: 1, preserveBorders: false } });
+    expect(steps[1]).toMatchObject({ params: { method: "taubin", iterations: 100, lambda: 0 } });
+  });
+
+  it("rejects malformed documents", () => {
+    expect(() => parsePipeline("{")).toThrow(/not valid JSON/);
+    expect(() => parsePipeline("{}")).toThrow(/"steps" array/);
+    expect(() => parsePipeline('{"version": 99, "steps": []}')).toThrow(/Unsupported pipeline version 99/);
+    expect(() => parsePipeline('{"steps": [{"kind": "explode"}]}')).toThrow(/Step 1: unknown kind "explode"/);
+    expect(() => parsePipeline('{"steps": [{"kind": "toString"}]}')).toThrow(/unknown kind "toString"/);
+  });
+});
+
+describe("runPipeline", () => {
+  const input = writeBinaryStl(cube());
+
+  it("feeds each output into the next step and counts faces", async () => {
+    const steps = [createStep("repairIntersections"), createStep("simplify")];
+    const onStepDone = vi.fn();
+    const results = await runPipeline(input, steps, fakeClients(), { onStepDone });
+
+    expect(results.map((r) => [r.stepId, r.inputFaces, r.outputFaces])).toEqual([
+      [steps[0].id, 12, 11],
+      [steps[1].id, 11, 10],
+    ]);
+    expect(results[0]).toMatchObject({ note: "removed 1 face(s)", removedFaces: 1 });
+    expect(onStepDone).toHaveBeenCalledTimes(2);
+  });
+
+  it("wraps a failing step with its index", async () => {
+    const steps = [createStep("fillHoles"), createStep("smooth")];
+    const clients = fakeClients({ smoothing: { smooth: async () => Promise.reject(new Error("out of memory")) } });
+    const onStepDone = vi.fn();
+    const run = runPipeline(input, steps, clients, { onStepDone });
+
+    await expect(run).rejects.toBeInstanceOf(PipelineStepError);
+    await expect(run).rejects.toMatchObject({ stepIndex: 1, step: steps[1], message: "Step 2 (Smooth) failed: out of memory" });
+    expect(onStepDone).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes a cancel through unwrapped", async () => {
+    const clients = fakeClients({ fillHoles: { fillHoles: async () => Promise.reject(new RpcAbortError("Cancelled")) } });
+    await expect(runPipeline(input, [createStep("fillHoles")], clients)).rejects.toBeInstanceOf(RpcAbortError);
+  });
+});
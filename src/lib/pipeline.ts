@@ -0,0 +1,327 @@
+/**
+ * Chained mesh-processing pipeline: an ordered list of steps, each backed by
+ * one of the existing WASM clients, run in sequence with the output of one
+ * step feeding the next.
+ *
+ * Pipelines serialize to a small versioned JSON document so they can be
+ * saved and loaded from disk. The chained runner itself (runStepChain) is
+ * shared with other step lists, e.g. Fix all on the Mesh Checks page.
+ */
+
+import type { FillHolesClient } from "./fillHolesClient";
+import type { SelfIntersectionsClient } from "./selfIntersectionsClient";
+import type { SimplificationClient } from "./simplificationClient";
+import type { SmoothingClient, SmoothingMethod } from "./smoothingClient";
+import { triangleCountFromStl } from "./meshFiles";
+import { isAbortError } from "./rpc/protocol";
+
+// ---------------------------------------------------------------------------
+// Step definitions
+// ---------------------------------------------------------------------------
+
+export interface SimplifyStepParams {
+  targetRatio: number;
+  preserveBorders: boolean;
+}
+
+export interface SmoothStepParams {
+  method: SmoothingMethod;
+  iterations: number;
+  lambda: number;
+  mu: number;
+  alpha: number;
+  beta: number;
+}
+
+export type PipelineStep =
+  | { id: number; kind: "fillHoles" }
+  | { id: number; kind: "repairIntersections" }
+  | { id: number; kind: "simplify"; params: SimplifyStepParams }
+  | { id: number; kind: "smooth"; params: SmoothStepParams };
+
+export type PipelineStepKind = PipelineStep["kind"];
+
+export const STEP_LABELS: Record<PipelineStepKind, string> = {
+  fillHoles: "Fill holes",
+  repairIntersections: "Repair self-intersections",
+  simplify: "Simplify",
+  smooth: "Smooth",
+};
+
+export const DEFAULT_SIMPLIFY_PARAMS: SimplifyStepParams = {
+  targetRatio: 0.5,
+  preserveBorders: false,
+};
+
+export const DEFAULT_SMOOTH_PARAMS: SmoothStepParams = {
+  method: "taubin",
+  iterations: 5,
+  lambda: 0.5,
+  mu: 0.53,
+  alpha: 0.0,
+  beta: 0.5,
+};
+
+let nextStepId = 1;
+
+/** Create a step of the given kind with default parameters. */
+export function createStep(kind: PipelineStepKind): PipelineStep {
+  const id = nextStepId++;
+  switch (kind) {
+    case "fillHoles":
+      return { id, kind };
+    case "repairIntersections":
+      return { id, kind };
+    case "simplify":
+      return { id, kind, params: { ...DEFAULT_SIMPLIFY_PARAMS } };
+    case "smooth":
+      return { id, kind, params: { ...DEFAULT_SMOOTH_PARAMS } };
+  }
+}
+
+/** Short parameter summary for lists and tables. */
+export function describeStep(step: PipelineStep): string {
+  switch (step.kind) {
+    case "fillHoles":
+    case "repairIntersections":
+      return "";
+    case "simplify":
+      return `${Math.round(step.params.targetRatio * 100)}%${step.params.preserveBorders ? ", keep borders" : ""}`;
+    case "smooth":
+      return `${step.params.method}, ${step.params.iterations} iter`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+export interface PipelineClients {
+  fillHoles: FillHolesClient;
+  selfIntersections: SelfIntersectionsClient;
+  simplification: SimplificationClient;
+  smoothing: SmoothingClient;
+}
+
+/** Options of a call inside a chained step. */
+export interface StepCallOptions {
+  onStatus?: (stage: string) => void;
+  signal?: AbortSignal;
+}
+
+/** A step's own output plus what the chained runner measured around it. */
+export type ChainedStepResult<R> = R & {
+  inputFaces: number | null;
+  outputFaces: number | null;
+  elapsedMs: number;
+};
+
+export interface RunStepChainOptions<S, R> extends StepCallOptions {
+  /** Called before each step starts. */
+  onStepStart?: (index: number, step: S) => void;
+  /** Called after each step completes successfully. */
+  onStepDone?: (index: number, result: ChainedStepResult<R>) => void;
+}
+
+export interface PipelineStepOutput {
+  stepId: number;
+  /** Binary STL produced by the step */
+  output: ArrayBuffer;
+  /** Extra information reported by the step, e.g. removed face count */
+  note?: string;
+  /** Faces removed by a repairIntersections step */
+  removedFaces?: number;
+}
+
+export type StepResult = ChainedStepResult<PipelineStepOutput>;
+
+export type RunPipelineOptions = RunStepChainOptions<PipelineStep, PipelineStepOutput>;
+
+/** One step of a chain failed; carries the step so callers can mark it. */
+export class PipelineStepError<S = PipelineStep> extends Error {
+  constructor(
+    readonly stepIndex: number,
+    readonly step: S,
+    label: string,
+    cause: unknown,
+  ) {
+    super(`Step ${stepIndex + 1} (${label}) failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "PipelineStepError";
+  }
+}
+
+/**
+ * Run `steps` in order, feeding each output into the next. Rejects with a
+ * PipelineStepError on the first failing step, or with an AbortError if
+ * `signal` fires; results of the steps that already finished have been
+ * reported via onStepDone.
+ */
+export async function runStepChain<S, R extends { output: ArrayBuffer }>(
+  input: ArrayBuffer,
+  steps: S[],
+  run: (step: S, input: ArrayBuffer, call: StepCallOptions) => Promise<R>,
+  label: (step: S) => string,
+  opts: RunStepChainOptions<S, R> = {},
+): Promise<ChainedStepResult<R>[]> {
+  const results: ChainedStepResult<R>[] = [];
+  let current = input;
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    opts.onStepStart?.(i, step);
+    const startMs = performance.now();
+    let out: R;
+    try {
+      out = await run(step, current, { onStatus: opts.onStatus, signal: opts.signal });
+    } catch (e) {
+      // A cancel is not a step failure; let callers recognise it as such
+      if (isAbortError(e)) throw e;
+      throw new PipelineStepError(i, step, label(step), e);
+    }
+    const result: ChainedStepResult<R> = {
+      ...out,
+      inputFaces: triangleCountFromStl(current),
+      outputFaces: triangleCountFromStl(out.output),
+      elapsedMs: performance.now() - startMs,
+    };
+    results.push(result);
+    opts.onStepDone?.(i, result);
+    current = out.output;
+  }
+
+  return results;
+}
+
+async function runStep(
+  step: PipelineStep,
+  input: ArrayBuffer,
+  clients: PipelineClients,
+  call: StepCallOptions,
+): Promise<{ output: ArrayBuffer; note?: string; removedFaces?: number }> {
+  switch (step.kind) {
+    case "fillHoles":
+      return { output: await clients.fillHoles.fillHoles(input, call) };
+    case "repairIntersections": {
+      const r = await clients.selfIntersections.repair(input, call);
+      return {
+        output: r.output,
+        note: `removed ${r.removedFaces} face(s)`,
+        removedFaces: r.removedFaces,
+      };
+    }
+    case "simplify": {
+      const r = await clients.simplification.simplify(input, {
+        ...step.params,
+        ...call,
+      });
+      return { output: r.output };
+    }
+    case "smooth": {
+      const r = await clients.smoothing.smooth(input, {
+        ...step.params,
+        ...call,
+      });
+      return { output: r.output };
+    }
+  }
+}
+
+/**
+ * Run every pipeline step in order, feeding each output into the next step
+ * (see runStepChain for how failures and cancels surface).
+ */
+export function runPipeline(
+  input: ArrayBuffer,
+  steps: PipelineStep[],
+  clients: PipelineClients,
+  opts: RunPipelineOptions = {},
+): Promise<StepResult[]> {
+  return runStepChain(
+    input,
+    steps,
+    async (step, current, call) => ({ stepId: step.id, ...(await runStep(step, current, clients, call)) }),
+    (step) => STEP_LABELS[step.kind],
+    opts,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// JSON (de)serialization
+// ---------------------------------------------------------------------------
+
+const PIPELINE_FORMAT_VERSION = 1;
+
+export interface PipelineDocument {
+  version: number;
+  name: string;
+  steps: ({ kind: PipelineStepKind } & Record<string, unknown>)[];
+}
+
+export function serializePipeline(name: string, steps: PipelineStep[]): string {
+  const doc: PipelineDocument = {
+    version: PIPELINE_FORMAT_VERSION,
+    name,
+    steps: steps.map(({ id: _id, ...rest }) => rest),
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+function num(v: unknown, fallback: number, min: number, max: number): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) return fallback;
+  return Math.min(max, Math.max(min, v));
+}
+
+const SMOOTHING_METHODS: SmoothingMethod[] = [
+  "laplacian",
+  "taubin",
+  "laplacianHC",
+  "tangentialRelaxation",
+];
+
+/**
+ * Parse a saved pipeline. Unknown step kinds are rejected; missing or
+ * out-of-range parameters fall back to the defaults.
+ */
+export function parsePipeline(json: string): { name: string; steps: PipelineStep[] } {
+  let doc: any;
+  try {
+    doc = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Pipeline file is not valid JSON: ${e?.message || e}`);
+  }
+  if (!doc || typeof doc !== "object" || !Array.isArray(doc.steps)) {
+    throw new Error("Pipeline file must contain a \"steps\" array");
+  }
+  if (typeof doc.version === "number" && doc.version > PIPELINE_FORMAT_VERSION) {
+    throw new Error(`Unsupported pipeline version ${doc.version}`);
+  }
+
+  const steps = doc.steps.map((raw: any, i: number): PipelineStep => {
+    const kind = raw?.kind;
+    // Own keys only: `in` would also accept inherited names like "toString"
+    if (typeof kind !== "string" || !Object.prototype.hasOwnProperty.call(STEP_LABELS, kind)) {
+      throw new Error(`Step ${i + 1}: unknown kind "${String(kind)}"`);
+    }
+    const step = createStep(kind as PipelineStepKind);
+    const p = raw.params ?? {};
+    if (step.kind === "simplify") {
+      step.params = {
+        targetRatio: num(p.targetRatio, DEFAULT_SIMPLIFY_PARAMS.targetRatio, 0.01, 1),
+        preserveBorders: Boolean(p.preserveBorders),
+      };
+    } else if (step.kind === "smooth") {
+      const d = DEFAULT_SMOOTH_PARAMS;
+      step.params = {
+        method: SMOOTHING_METHODS.includes(p.method) ? p.method : d.method,
+        iterations: Math.round(num(p.iterations, d.iterations, 1, 100)),
+        lambda: num(p.lambda, d.lambda, 0, 1),
+        mu: num(p.mu, d.mu, 0, 1),
+        alpha: num(p.alpha, d.alpha, 0, 1),
+        beta: num(p.beta, d.beta, 0, 1),
+      };
+    }
+    return step;
+  });
+
+  return { name: typeof doc.name === "string" ? doc.name : "", steps };
+}
@@ -0,0 +1,219 @@
+/**
+ * Promise-based client that wraps the MeshRepair Web Worker.
+ *
+ * Runs the stages of MeshLib's `MeshRepair_C::RepairMesh()` pipeline (see
+ * meshlib-gap-analysis.md) as one STL-in/STL-out call: isolated vertices,
+ * small components, self-intersections, holes, short edges and degenerate
+ * faces, each stage toggled and tuned through RepairConfig. The worker
+ * builds it from the bundled self-intersection and fill-holes modules and
+ * the TypeScript passes in meshAnalysis.ts.
+ */
+
+import {
+  PoolJobOptions,
+  RpcTransport,
+  TransportOptions,
+  createTransport,
+} from "./rpc/transport";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Repair stages, in the order each pass runs them. */
+export type RepairStage =
+  | "isolatedVertices"
+  | "smallComponents"
+  | "selfIntersections"
+  | "holes"
+  | "shortEdges"
+  | "degenerateFaces";
+
+export const REPAIR_STAGES: { stage: RepairStage; label: string }[] = [
+  { stage: "isolatedVertices", label: "Isolated vertices" },
+  { stage: "smallComponents", label: "Small components" },
+  { stage: "selfIntersections", label: "Self-intersections" },
+  { stage: "holes", label: "Holes" },
+  { stage: "shortEdges", label: "Short edges" },
+  { stage: "degenerateFaces", label: "Degenerate faces" },
+];
+
+/** Mirrors RepairConfig_C. */
+export interface RepairConfig {
+  /** Passes over the enabled stages, stopping early once one changes nothing; GetDefaultRepairConfig() uses 5. */
+  iterations: number;
+  isolatedVertices: { enabled: boolean };
+  smallComponents: {
+    enabled: boolean;
+    /** Remove shells whose area is below this fraction of the largest shell */
+    minAreaRatio: number;
+  };
+  selfIntersections: { enabled: boolean };
+  holes: {
+    enabled: boolean;
+    /**
+     * Only fill holes with a perimeter up to this length (mesh units). 0 =
+     * all, through MeshLib's fill; otherwise the chosen holes get a smooth
+     * fill (see fillHoleLoops).
+     */
+    maxPerimeter: number;
+  };
+  shortEdges: {
+    enabled: boolean;
+    /** Collapse edges shorter than this (mesh units) onto their midpoint */
+    minEdgeLength: number;
+  };
+  degenerateFaces: {
+    enabled: boolean;
+    /**
+     * Faces whose longest edge is more than this many times the height onto
+     * it count as degenerate; their shortest edge is collapsed
+     */
+    criticalAspectRatio: number;
+  };
+}
+
+/** Same stages as GetDefaultRepairConfig(): everything enabled, 5 passes. */
+export const DEFAULT_REPAIR_CONFIG: RepairConfig = {
+  iterations: 5,
+  isolatedVertices: { enabled: true },
+  smallComponents: { enabled: true, minAreaRatio: 0.01 },
+  selfIntersections: { enabled: true },
+  holes: { enabled: true, maxPerimeter: 0 },
+  shortEdges: { enabled: true, minEdgeLength: 1e-4 },
+  degenerateFaces: { enabled: true, criticalAspectRatio: 1e4 },
+};
+
+// ---------------------------------------------------------------------------
+// Result
+// ---------------------------------------------------------------------------
+
+/** What one stage changed, summed over all passes. */
+export interface RepairStageReport {
+  stage: RepairStage;
+  label: string;
+  enabled: boolean;
+  /** Elements the stage removed, filled or collapsed; see `unit` */
+  changed: number;
+  /** "vertices", "components", "faces", "holes" or "edges" */
+  unit: string;
+  elapsedMs: number | null;
+}
+
+export interface RepairResult {
+  /** Repaired binary STL */
+  output: ArrayBuffer;
+  inputFaces: number;
+  outputFaces: number;
+  stages: RepairStageReport[];
+}
+
+export interface RepairOptions extends PoolJobOptions {
+  /** Abort after this many ms. 0 = no timeout. */
+  timeoutMs?: number;
+  /** Called with human-readable status updates from the worker. */
+  onStatus?: (stage: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/** What the worker measured for one stage, summed over all passes. */
+export interface RepairStageTotals {
+  stage: RepairStage;
+  changed: number;
+  elapsedMs: number;
+}
+
+/** Methods served by repair.worker.ts */
+export type RepairApi = {
+  repair: {
+    params: { input: ArrayBuffer; config: RepairConfig };
+    /** Totals for the enabled stages only */
+    result: { output: ArrayBuffer; inputFaces: number; outputFaces: number; stages: RepairStageTotals[] };
+  };
+};
+
+const STAGE_UNITS: Record<RepairStage, string> = {
+  isolatedVertices: "vertices",
+  smallComponents: "components",
+  selfIntersections: "faces",
+  holes: "holes",
+  shortEdges: "edges",
+  degenerateFaces: "faces",
+};
+
+/** One entry per stage, in pipeline order; disabled stages count as unchanged. */
+export function repairStageReports(totals: RepairStageTotals[], config: RepairConfig): RepairStageReport[] {
+  return REPAIR_STAGES.map(({ stage, label }) => {
+    const t = totals.find((x) => x.stage === stage);
+    return {
+      stage,
+      label,
+      enabled: config[stage].enabled,
+      changed: t?.changed ?? 0,
+      unit: STAGE_UNITS[stage],
+      elapsedMs: t?.elapsedMs ?? null,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export class RepairClient {
+  private rpc: RpcTransport<RepairApi>;
+
+  /** Pass `{ pool: true }` to run calls in parallel on a WorkerPool */
+  constructor(transport: TransportOptions = {}) {
+    this.rpc = createTransport<RepairApi>(
+      {
+        name: "MeshRepair",
+        createWorker: () =>
+          new Worker(new URL("../workers/repair.worker.ts", import.meta.url), {
+            type: "module",
+          }),
+        defaultTimeoutMs: 300_000,
+      },
+      transport,
+    );
+  }
+
+  /* ---- lifecycle ---- */
+
+  /** Verify the worker is alive. */
+  ping(): Promise<void> {
+    return this.rpc.ping();
+  }
+
+  /** Kill the worker and create a fresh one on next call. */
+  resetWorker(): void {
+    this.rpc.restart();
+  }
+
+  dispose(): void {
+    this.rpc.dispose();
+  }
+
+  /* ---- main entry point ---- */
+
+  async repair(
+    input: ArrayBuffer,
+    config: RepairConfig = DEFAULT_REPAIR_CONFIG,
+    opts: RepairOptions = {},
+  ): Promise<RepairResult> {
+    // Transfer a copy so the caller's in-memory mesh stays usable
+    const copy = input.slice(0);
+    const r = await this.rpc.call(
+      "repair",
+      { input: copy, config },
+      { ...opts, transfer: [copy] },
+    );
+    return {
+      output: r.output,
+      inputFaces: r.inputFaces,
+      outputFaces: r.outputFaces,
+      stages: repairStageReports(r.stages, config),
+    };
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Message protocol shared by RpcClient (main thread) and serveRpc (worker).
+ *
+ * A worker's API is described once as a map of method name → params/result
+ * types; both sides are typed against that map, so a client and its worker
+ * cannot drift apart silently.
+ *
+ *   main → worker   { type: "request", id, method, params }
+ *   worker → main   { type: "ready" }              (once, on startup)
+ *                   { type: "status",   id, stage }
+ *                   { type: "progress", id, done, total }
+ *                   { type: "result",   id, result }
+ *                   { type: "error",    id, error }
+ */
+
+/** Describes one worker's methods, e.g. `{ fillHoles: { params: …; result: … } }`. */
+export type RpcApi = Record<string, { params: unknown; result: unknown }>;
+
+export type RpcMethod<Api extends RpcApi> = keyof Api & string;
+export type RpcParams<Api extends RpcApi, M extends RpcMethod<Api>> = Api[M]["params"];
+export type RpcResult<Api extends RpcApi, M extends RpcMethod<Api>> = Api[M]["result"];
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+export type RpcRequestMessage = {
+  type: "request";
+  id: number;
+  method: string;
+  params: unknown;
+};
+
+export type RpcReadyMessage = { type: "ready" };
+
+export type RpcStatusMessage = { type: "status"; id: number; stage: string };
+
+export type RpcProgressMessage = {
+  type: "progress";
+  id: number;
+  done: number;
+  total: number;
+};
+
+export type RpcResultMessage = { type: "result"; id: number; result: unknown };
+
+export interface RpcErrorPayload {
+  message: string;
+  /** Native return code, when the failure came from a WASM call */
+  code?: number;
+  /**
+   * The worker is in an unusable state (e.g. the WASM runtime aborted) and
+   * must be restarted before the next call.
+   */
+  fatal?: boolean;
+}
+
+export type RpcErrorMessage = { type: "error"; id: number; error: RpcErrorPayload };
+
+export type RpcToWorker = RpcRequestMessage;
+
+export type RpcFromWorker =
+  | RpcReadyMessage
+  | RpcStatusMessage
+  | RpcProgressMessage
+  | RpcResultMessage
+  | RpcErrorMessage;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** The worker ran the method and reported a failure. */
+export class RpcRemoteError extends Error {
+  constructor(
+    message: string,
+    readonly code?: number,
+  ) {
+    super(message);
+    this.name = "RpcRemoteError";
+  }
+}
+
+/** A call did not finish within its timeout; the worker was restarted. */
+export class RpcTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RpcTimeoutError";
+  }
+}
+
+/**
+ * The caller aborted the call through its AbortSignal; the worker was
+ * restarted. `name` is "AbortError" so it reads like a cancelled fetch().
+ */
+export class RpcAbortError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/** True for RpcAbortError and any other AbortError (e.g. a DOMException). */
+export function isAbortError(e: unknown): boolean {
+  return e instanceof Error
+    ? e.name === "AbortError"
+    : (e as { name?: unknown } | null)?.name === "AbortError";
+}
+
+/**
+ * The worker crashed, failed to start, or was restarted/disposed while the
+ * call was in flight.
+ */
+export class RpcWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RpcWorkerError";
+  }
+}
+
+/**
+ * ArrayBuffers (and typed-array buffers) found at the top level of a message
+ * payload. Results are transferred rather than copied.
+ */
+export function collectTransferables(value: unknown): Transferable[] {
+  if (!value || typeof value !== "object") return [];
+  const found = new Set<ArrayBuffer>();
+  const visit = (v: unknown) => {
+    if (v instanceof ArrayBuffer) found.add(v);
+    else if (ArrayBuffer.isView(v) && v.buffer instanceof ArrayBuffer) found.add(v.buffer);
+  };
+  visit(value);
+  if (!(value instanceof ArrayBuffer) && !ArrayBuffer.isView(value)) {
+    Object.values(value as Record<string, unknown>).forEach(visit);
+  }
+  return [...found];
+}
@@ -0,0 +1,267 @@
+/**
+ * RpcClient – main-thread side of the worker RPC protocol.
+ *
+ * Owns one Worker and gives every client the same semantics:
+ *   • startup: the worker announces "ready"; a worker that errors or stays
+ *     silent for `readyTimeoutMs` fails every queued call
+ *   • timeout: a call that exceeds its timeout is rejected with
+ *     RpcTimeoutError and the worker is restarted (a stuck WASM call
+ *     cannot be interrupted any other way)
+ *   • abort: a call whose AbortSignal fires is rejected with RpcAbortError
+ *     and the worker is restarted, for the same reason; other calls still
+ *     in flight on this client fail with RpcWorkerError
+ *   • crash: an uncaught worker error, an undeserializable message or a
+ *     fatal error reported by the worker rejects all in-flight calls with
+ *     RpcWorkerError and the worker is restarted
+ *   • restart()/dispose(): rejects all in-flight calls; a restarted client
+ *     spawns a fresh worker on the next call
+ */
+
+import {
+  RpcAbortError,
+  RpcApi,
+  RpcFromWorker,
+  RpcMethod,
+  RpcParams,
+  RpcRemoteError,
+  RpcRequestMessage,
+  RpcResult,
+  RpcTimeoutError,
+  RpcWorkerError,
+} from "./protocol";
+
+export interface RpcClientOptions {
+  /** Human-readable name used in error messages, e.g. "FillHoles" */
+  name: string;
+  /** Must call `new Worker(new URL(…, import.meta.url))` so Vite bundles it */
+  createWorker: () => Worker;
+  /** Timeout applied to calls that don't pass one. 0 = no timeout. */
+  defaultTimeoutMs?: number;
+  /** How long a fresh worker may take to announce itself. Default 15 s. */
+  readyTimeoutMs?: number;
+}
+
+export interface RpcCallOptions {
+  /** Abort after this many ms. 0 = no timeout. */
+  timeoutMs?: number;
+  /** Called with human-readable status updates from the worker. */
+  onStatus?: (stage: string) => void;
+  /** Called with numeric progress updates from the worker. */
+  onProgress?: (done: number, total: number) => void;
+  /** Buffers in `params` to transfer instead of copy. */
+  transfer?: Transferable[];
+  /** Cancels the call: rejects with RpcAbortError and restarts the worker. */
+  signal?: AbortSignal;
+}
+
+interface PendingCall {
+  method: string;
+  resolve: (v: any) => void;
+  reject: (e: Error) => void;
+  onStatus?: (stage: string) => void;
+  onProgress?: (done: number, total: number) => void;
+  /** Clears the timeout and detaches the abort listener */
+  settle: () => void;
+}
+
+export class RpcClient<Api extends RpcApi> {
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingCall>();
+  private disposed = false;
+
+  constructor(private readonly opts: RpcClientOptions) {}
+
+  /* ---- lifecycle ---- */
+
+  private ensureWorker(): Promise<void> {
+    if (this.disposed) {
+      return Promise.reject(new RpcWorkerError(`${this.opts.name} client was disposed`));
+    }
+    if (this.worker && this.ready) return this.ready;
+
+    const w = this.opts.createWorker();
+    this.worker = w;
+    w.addEventListener("message", this.handleMessage);
+    w.addEventListener("error", this.handleError);
+    w.addEventListener("messageerror", this.handleMessageError);
+
+    const readyTimeoutMs = this.opts.readyTimeoutMs ?? 15_000;
+    this.ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new RpcWorkerError(`${this.opts.name} worker did not become ready (timeout)`));
+        if (this.worker === w) this.restart(`${this.opts.name} worker did not become ready`);
+      }, readyTimeoutMs);
+      const onMessage = (e: MessageEvent<RpcFromWorker>) => {
+        if (e.data?.type !== "ready") return;
+        cleanup();
+        resolve();
+      };
+      const onError = (e: ErrorEvent) => {
+        cleanup();
+        reject(
+          new RpcWorkerError(
+            `${this.opts.name} worker failed to start: ${e.message || "unknown error"}`,
+          ),
+        );
+      };
+      const cleanup = () => {
+        clearTimeout(timer);
+        w.removeEventListener("message", onMessage);
+        w.removeEventListener("error", onError);
+      };
+      w.addEventListener("message", onMessage);
+      w.addEventListener("error", onError);
+    });
+    // Avoid unhandled-rejection noise when nobody is waiting yet
+    this.ready.catch(() => {});
+    return this.ready;
+  }
+
+  /** Verify the worker is alive (spawning it if needed). */
+  async ping(): Promise<void> {
+    await this.ensureWorker();
+  }
+
+  /** Kill the worker, reject in-flight calls, and respawn on the next call. */
+  restart(reason = `${this.opts.name} worker was restarted`): void {
+    const w = this.worker;
+    this.worker = null;
+    this.ready = null;
+    if (w) {
+      w.removeEventListener("message", this.handleMessage);
+      w.removeEventListener("error", this.handleError);
+      w.removeEventListener("messageerror", this.handleMessageError);
+      w.terminate();
+    }
+    this.rejectAll(new RpcWorkerError(reason));
+  }
+
+  dispose(): void {
+    this.restart(`${this.opts.name} client was disposed`);
+    this.disposed = true;
+  }
+
+  private rejectAll(error: Error) {
+    const calls = [...this.pending.values()];
+    this.pending.clear();
+    for (const p of calls) {
+      p.settle();
+      p.reject(error);
+    }
+  }
+
+  /* ---- calls ---- */
+
+  async call<M extends RpcMethod<Api>>(
+    method: M,
+    params: RpcParams<Api, M>,
+    opts: RpcCallOptions = {},
+  ): Promise<RpcResult<Api, M>> {
+    const { signal } = opts;
+    const aborted = () => new RpcAbortError(`${this.opts.name} ${method} was cancelled`);
+    if (signal?.aborted) throw aborted();
+
+    opts.onStatus?.("Waiting for worker…");
+    await this.waitReady(signal, aborted);
+    const w = this.worker;
+    if (!w) throw new RpcWorkerError(`${this.opts.name} worker was restarted`);
+    const id = this.nextId++;
+
+    return new Promise<RpcResult<Api, M>>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => {
+        this.pending.delete(id);
+        pending.settle();
+        reject(aborted());
+        this.restart(`${this.opts.name} worker was restarted after a cancel`);
+      };
+      const pending: PendingCall = {
+        method,
+        resolve,
+        reject,
+        onStatus: opts.onStatus,
+        onProgress: opts.onProgress,
+        settle: () => {
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      };
+
+      const timeoutMs = opts.timeoutMs ?? this.opts.defaultTimeoutMs ?? 0;
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          this.pending.delete(id);
+          pending.settle();
+          reject(new RpcTimeoutError(`${this.opts.name} ${method} timed out after ${timeoutMs}ms`));
+          this.restart(`${this.opts.name} worker was restarted after a timeout`);
+        }, timeoutMs);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, pending);
+      const msg: RpcRequestMessage = { type: "request", id, method, params };
+      w.postMessage(msg, opts.transfer ?? []);
+    });
+  }
+
+  /** ensureWorker(), but give up early (without a restart) if `signal` fires. */
+  private waitReady(signal: AbortSignal | undefined, aborted: () => Error): Promise<void> {
+    const ready = this.ensureWorker();
+    if (!signal) return ready;
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(aborted());
+      signal.addEventListener("abort", onAbort, { once: true });
+      ready.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /* ---- worker events ---- */
+
+  private handleMessage = (e: MessageEvent<RpcFromWorker>) => {
+    const d = e.data;
+    if (!d || typeof d !== "object" || d.type === "ready") return;
+
+    const p = this.pending.get(d.id);
+    if (!p) return;
+
+    switch (d.type) {
+      case "status":
+        p.onStatus?.(d.stage);
+        return;
+      case "progress":
+        p.onProgress?.(d.done, d.total);
+        return;
+      case "result":
+        this.pending.delete(d.id);
+        p.settle();
+        p.resolve(d.result);
+        return;
+      case "error": {
+        this.pending.delete(d.id);
+        p.settle();
+        const rc = d.error.code !== undefined ? ` (rc=${d.error.code})` : "";
+        p.reject(
+          new RpcRemoteError(
+            `${this.opts.name} ${p.method} failed${rc}: ${d.error.message}`,
+            d.error.code,
+          ),
+        );
+        if (d.error.fatal) {
+          this.restart(`${this.opts.name} worker was restarted after a fatal error`);
+        }
+        return;
+      }
+    }
+  };
+
+  private handleError = (e: ErrorEvent) => {
+    this.restart(`${this.opts.name} worker crashed: ${e.message || "unknown error"}`);
+  };
+
+  private handleMessageError = () => {
+    this.restart(`${this.opts.name} worker sent a message that could not be deserialized`);
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Worker side of the RPC protocol. A worker calls serveRpc once at module
+ * level with one handler per API method:
+ *
+ *   serveRpc<FillHolesApi>({
+ *     async fillHoles({ input }, ctx) {
+ *       ctx.status("Loading WASM module…");
+ *       …
+ *       return { output };
+ *     },
+ *   });
+ *
+ * Handlers report failures by throwing. ArrayBuffers at the top level of a
+ * result are transferred to the main thread.
+ */
+
+import {
+  RpcApi,
+  RpcErrorPayload,
+  RpcFromWorker,
+  RpcToWorker,
+  collectTransferables,
+} from "./protocol";
+
+export interface RpcContext {
+  /** Request id, for logging */
+  id: number;
+  /** Send a human-readable status update to the caller. */
+  status(stage: string): void;
+  /** Send numeric progress to the caller. */
+  progress(done: number, total: number): void;
+}
+
+export type RpcHandlers<Api extends RpcApi> = {
+  [M in keyof Api]: (
+    params: Api[M]["params"],
+    ctx: RpcContext,
+  ) => Api[M]["result"] | Promise<Api[M]["result"]>;
+};
+
+function toErrorPayload(err: any): RpcErrorPayload {
+  return {
+    message: String(err?.message || err),
+    code: typeof err?.rc === "number" ? err.rc : undefined,
+    // An aborted WASM runtime cannot be reused; the client must restart us
+    fatal: err?.fatal === true || err instanceof WebAssembly.RuntimeError,
+  };
+}
+
+export function serveRpc<Api extends RpcApi>(handlers: RpcHandlers<Api>): void {
+  const scope = self as unknown as DedicatedWorkerGlobalScope;
+  const post = (msg: RpcFromWorker, transfer: Transferable[] = []) =>
+    scope.postMessage(msg, transfer);
+
+  // Registered synchronously so no request can arrive before the handler
+  scope.addEventListener("message", async (e: MessageEvent<RpcToWorker>) => {
+    const msg = e.data;
+    if (msg?.type !== "request") return;
+
+    const { id, method, params } = msg;
+    const ctx: RpcContext = {
+      id,
+      status: (stage) => post({ type: "status", id, stage }),
+      progress: (done, total) => post({ type: "progress", id, done, total }),
+    };
+
+    try {
+      const handler = handlers[method as keyof Api];
+      if (!handler) throw new Error(`Unknown method "${method}"`);
+      const result = await handler(params as any, ctx);
+      post({ type: "result", id, result }, collectTransferables(result));
+    } catch (err: any) {
+      console.error(`[worker] ${method} failed:`, err);
+      post({ type: "error", id, error: toErrorPayload(err) });
+    }
+  });
+
+  post({ type: "ready" });
+}
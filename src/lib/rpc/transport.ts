@@ -0,0 +1,45 @@
+/**
+ * What the typed worker clients (FillHolesClient, …) talk to: either a
+ * single RpcClient or a WorkerPool spreading calls over several workers.
+ */
+
+import { RpcApi, RpcMethod, RpcParams, RpcResult } from "./protocol";
+import { RpcCallOptions, RpcClient, RpcClientOptions } from "./rpcClient";
+import { WorkerPool, defaultPoolSize } from "./workerPool";
+
+export type PoolJobState = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface TransportCallOptions extends RpcCallOptions {
+  /** Pool only: called as the job moves through the queue */
+  onJobState?: (state: PoolJobState) => void;
+}
+
+/** The pool-only call options, for client option types to extend */
+export type PoolJobOptions = Pick<TransportCallOptions, "onJobState">;
+
+export interface RpcTransport<Api extends RpcApi> {
+  call<M extends RpcMethod<Api>>(
+    method: M,
+    params: RpcParams<Api, M>,
+    opts?: TransportCallOptions,
+  ): Promise<RpcResult<Api, M>>;
+  ping(): Promise<void>;
+  restart(reason?: string): void;
+  dispose(): void;
+}
+
+export interface TransportOptions {
+  /**
+   * Run calls on a WorkerPool instead of one worker: `true` sizes it from
+   * navigator.hardwareConcurrency, a number fixes the worker count.
+   */
+  pool?: boolean | number;
+}
+
+export function createTransport<Api extends RpcApi>(
+  opts: RpcClientOptions,
+  { pool }: TransportOptions = {},
+): RpcTransport<Api> {
+  if (!pool) return new RpcClient<Api>(opts);
+  return new WorkerPool<Api>({ ...opts, size: pool === true ? defaultPoolSize() : pool });
+}
@@ -0,0 +1,158 @@
+/**
+ * WorkerPool – several RpcClients for the same worker script behind one
+ * job queue.
+ *
+ *   • each worker runs one job at a time; queued jobs go to the next idle
+ *     worker in submission order
+ *   • workers are spawned lazily, on the first job that needs them
+ *   • timeout / abort / crash keep RpcClient semantics, but only restart the
+ *     worker that ran the job – the rest of the pool keeps going
+ *   • a queued job whose AbortSignal fires leaves the queue without ever
+ *     touching a worker
+ *   • onJobState tells the caller when its job leaves the queue
+ */
+
+import {
+  RpcAbortError,
+  RpcApi,
+  RpcMethod,
+  RpcParams,
+  RpcResult,
+  RpcWorkerError,
+  isAbortError,
+} from "./protocol";
+import { RpcClient, RpcClientOptions } from "./rpcClient";
+import type { PoolJobState, TransportCallOptions } from "./transport";
+
+export interface WorkerPoolOptions extends RpcClientOptions {
+  /** Number of workers. Default: defaultPoolSize() */
+  size?: number;
+}
+
+interface QueuedJob {
+  run: (client: RpcClient<any>) => Promise<unknown>;
+  resolve: (v: any) => void;
+  reject: (e: Error) => void;
+  opts: TransportCallOptions;
+  detach: () => void;
+}
+
+/**
+ * Leave one core for the UI thread, and cap the pool: every worker holds its
+ * own WASM heap and a copy of the mesh.
+ */
+export function defaultPoolSize(max = 4): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(max, cores - 1));
+}
+
+export class WorkerPool<Api extends RpcApi> {
+  readonly size: number;
+  private slots: { client: RpcClient<Api>; job: QueuedJob | null }[];
+  private queue: QueuedJob[] = [];
+  private disposed = false;
+
+  constructor(private readonly opts: WorkerPoolOptions) {
+    this.size = Math.max(1, Math.floor(opts.size ?? defaultPoolSize()));
+    this.slots = Array.from({ length: this.size }, (_, i) => ({
+      client: new RpcClient<Api>({ ...opts, name: `${opts.name}#${i + 1}` }),
+      job: null,
+    }));
+  }
+
+  /* ---- lifecycle ---- */
+
+  /** Verify every worker is alive (spawning them if needed). */
+  async ping(): Promise<void> {
+    await Promise.all(this.slots.map((s) => s.client.ping()));
+  }
+
+  /** Kill every worker and reject running jobs; queued jobs stay queued. */
+  restart(reason = `${this.opts.name} pool was restarted`): void {
+    for (const s of this.slots) s.client.restart(reason);
+  }
+
+  /** Reject queued and running jobs and terminate every worker. */
+  dispose(): void {
+    this.disposed = true;
+    const queued = this.queue;
+    this.queue = [];
+    for (const job of queued) {
+      this.finish(job, "cancelled");
+      job.reject(new RpcWorkerError(`${this.opts.name} pool was disposed`));
+    }
+    for (const s of this.slots) s.client.dispose();
+  }
+
+  /* ---- jobs ---- */
+
+  call<M extends RpcMethod<Api>>(
+    method: M,
+    params: RpcParams<Api, M>,
+    opts: TransportCallOptions = {},
+  ): Promise<RpcResult<Api, M>> {
+    if (this.disposed) {
+      return Promise.reject(new RpcWorkerError(`${this.opts.name} pool was disposed`));
+    }
+    const { signal } = opts;
+    if (signal?.aborted) {
+      return Promise.reject(new RpcAbortError(`${this.opts.name} ${method} was cancelled`));
+    }
+
+    return new Promise<RpcResult<Api, M>>((resolve, reject) => {
+      const job: QueuedJob = {
+        run: (client) => client.call(method, params, opts),
+        resolve,
+        reject,
+        opts,
+        detach: () => signal?.removeEventListener("abort", onAbort),
+      };
+
+      // Only handles jobs still waiting; a running job is aborted by its RpcClient
+      const onAbort = () => {
+        const i = this.queue.indexOf(job);
+        if (i < 0) return;
+        this.queue.splice(i, 1);
+        this.finish(job, "cancelled");
+        reject(new RpcAbortError(`${this.opts.name} ${method} was cancelled`));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.queue.push(job);
+      opts.onJobState?.("queued");
+      opts.onStatus?.(`Queued for ${this.opts.name} worker…`);
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    for (let i = 0; i < this.slots.length && this.queue.length > 0; i++) {
+      const slot = this.slots[i];
+      if (slot.job) continue;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      job.opts.onJobState?.("running");
+
+      job.run(slot.client).then(
+        (result) => {
+          slot.job = null;
+          this.finish(job, "done");
+          job.resolve(result);
+          this.dispatch();
+        },
+        (err: Error) => {
+          slot.job = null;
+          this.finish(job, isAbortError(err) ? "cancelled" : "failed");
+          job.reject(err);
+          this.dispatch();
+        },
+      );
+    }
+  }
+
+  private finish(job: QueuedJob, state: PoolJobState) {
+    job.detach();
+    job.opts.onJobState?.(state);
+  }
+}
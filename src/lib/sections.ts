@@ -0,0 +1,193 @@
+/**
+ * Clipping planes for slicing through a mesh in the viewer, and export of
+ * the planar sections they cut (see planeSection in meshAnalysis.ts) as SVG
+ * or DXF drawings.
+ *
+ * Planes are set in the STL's own coordinates: an axis or a free direction
+ * plus an offset along it. Exports flatten each section onto the plane's
+ * (u, v) axes and keep STL units, which the rest of the app reads as
+ * millimetres.
+ */
+
+import { PlaneSection, SectionPlane, Vec3 } from "./meshAnalysis";
+
+// ---------------------------------------------------------------------------
+// Clipping planes
+// ---------------------------------------------------------------------------
+
+export type ClipAxis = "x" | "y" | "z" | "custom";
+
+export const CLIP_AXES: { axis: ClipAxis; label: string }[] = [
+  { axis: "x", label: "X" },
+  { axis: "y", label: "Y" },
+  { axis: "z", label: "Z" },
+  { axis: "custom", label: "Custom" },
+];
+
+export const MAX_CLIP_PLANES = 3;
+
+export interface ClipPlane {
+  /** Unique within a list */
+  id: number;
+  axis: ClipAxis;
+  /** Direction for a custom plane, any length; ignored for the axes */
+  direction: Vec3;
+  /** Where the plane sits along its direction, in STL units */
+  offset: number;
+  /** Cut away the part behind the plane instead of the part in front */
+  flipped: boolean;
+  enabled: boolean;
+}
+
+/** Unit direction the plane's offset is measured along, before any flip. */
+export function clipDirection(c: ClipPlane): Vec3 {
+  if (c.axis === "x") return [1, 0, 0];
+  if (c.axis === "y") return [0, 1, 0];
+  if (c.axis === "z") return [0, 0, 1];
+  const len = Math.hypot(...c.direction);
+  return len > 0 ? [c.direction[0] / len, c.direction[1] / len, c.direction[2] / len] : [0, 0, 1];
+}
+
+/** The plane as the section code wants it, normal pointing at the cut-away side. */
+export function sectionPlane(c: ClipPlane): SectionPlane {
+  const d = clipDirection(c);
+  const sign = c.flipped ? -1 : 1;
+  return { normal: [d[0] * sign, d[1] * sign, d[2] * sign], offset: c.offset * sign };
+}
+
+/** Smallest and largest offset along `direction` that still cut the box. */
+export function offsetRange(min: Vec3, max: Vec3, direction: Vec3): [number, number] {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let corner = 0; corner < 8; corner++) {
+    let d = 0;
+    for (let k = 0; k < 3; k++) d += (corner & (1 << k) ? max[k] : min[k]) * direction[k];
+    lo = Math.min(lo, d);
+    hi = Math.max(hi, d);
+  }
+  return [lo, hi];
+}
+
+/** The section's loops as line segments, flat [sx,sy,sz, ex,ey,ez, …], for drawing. */
+export function sectionSegments(section: PlaneSection): Float32Array {
+  const out: number[] = [];
+  const p = section.points;
+  for (const loop of section.loops) {
+    const last = loop.closed ? loop.count : loop.count - 1;
+    for (let i = 0; i < last; i++) {
+      const a = (loop.start + i) * 3;
+      const b = (loop.start + ((i + 1) % loop.count)) * 3;
+      out.push(p[a], p[a + 1], p[a + 2], p[b], p[b + 1], p[b + 2]);
+    }
+  }
+  return new Float32Array(out);
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Each loop flattened onto the plane's (u, v) axes. */
+function flatten(section: PlaneSection): { points: [number, number][]; closed: boolean }[] {
+  const { u, v } = section;
+  return section.loops.map((loop) => {
+    const points: [number, number][] = [];
+    for (let i = loop.start; i < loop.start + loop.count; i++) {
+      const [x, y, z] = [section.points[i * 3], section.points[i * 3 + 1], section.points[i * 3 + 2]];
+      points.push([x * u[0] + y * u[1] + z * u[2], x * v[0] + y * v[1] + z * v[2]]);
+    }
+    return { points, closed: loop.closed };
+  });
+}
+
+const num = (x: number) => Number(x.toFixed(4)).toString();
+
+/**
+ * The section as an SVG drawing at 1 STL unit = 1 mm. Closed loops are
+ * filled even-odd so holes show; open chains are drawn as plain lines.
+ */
+export function sectionSvg(section: PlaneSection, title = "Section"): string {
+  const loops = flatten(section);
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const { points } of loops) {
+    for (const [x, y] of points) {
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (!isFinite(minX)) [minX, minY, maxX, maxY] = [0, 0, 0, 0];
+  const margin = Math.max(maxX - minX, maxY - minY, 1) * 0.05;
+  const width = maxX - minX + margin * 2;
+  const height = maxY - minY + margin * 2;
+
+  // SVG's y axis points down; flip so the drawing reads as seen from the normal side
+  const path = (points: [number, number][], closed: boolean) =>
+    points.map(([x, y], i) => `${i === 0 ? "M" : "L"}${num(x)} ${num(-y)}`).join(" ") + (closed ? " Z" : "");
+  const closedPath = loops
+    .filter((l) => l.closed)
+    .map((l) => path(l.points, true))
+    .join(" ");
+  const openPaths = loops.filter((l) => !l.closed).map((l) => path(l.points, false));
+
+  const escape = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}mm" height="${num(height)}mm" viewBox="${num(minX - margin)} ${num(-maxY - margin)} ${num(width)} ${num(height)}">`,
+    `  <title>${escape(title)}</title>`,
+    `  <desc>Perimeter ${num(section.perimeter)}, area ${num(section.area)}</desc>`,
+  ];
+  if (closedPath) {
+    lines.push(
+      `  <path d="${closedPath}" fill="#94a3b8" fill-opacity="0.35" fill-rule="evenodd" stroke="#000000" stroke-width="1" vector-effect="non-scaling-stroke"/>`,
+    );
+  }
+  for (const d of openPaths) {
+    lines.push(`  <path d="${d}" fill="none" stroke="#000000" stroke-width="1" vector-effect="non-scaling-stroke"/>`);
+  }
+  lines.push(`</svg>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * The section as an AutoCAD R12 DXF: one 2D polyline per loop on a
+ * "SECTION" layer, in millimetres.
+ */
+export function sectionDxf(section: PlaneSection): string {
+  const out: (string | number)[] = [];
+  const group = (code: number, value: string | number) => out.push(code, value);
+
+  group(0, "SECTION");
+  group(2, "HEADER");
+  group(9, "$ACADVER");
+  group(1, "AC1009");
+  group(9, "$INSUNITS");
+  group(70, 4);
+  group(0, "ENDSEC");
+
+  group(0, "SECTION");
+  group(2, "ENTITIES");
+  for (const { points, closed } of flatten(section)) {
+    group(0, "POLYLINE");
+    group(8, "SECTION");
+    group(66, 1);
+    group(70, closed ? 1 : 0);
+    group(10, 0);
+    group(20, 0);
+    group(30, 0);
+    for (const [x, y] of points) {
+      group(0, "VERTEX");
+      group(8, "SECTION");
+      group(10, num(x));
+      group(20, num(y));
+      group(30, 0);
+    }
+    group(0, "SEQEND");
+    group(8, "SECTION");
+  }
+  group(0, "ENDSEC");
+  group(0, "EOF");
+  return out.join("\r\n") + "\r\n";
+}
+
@@ -3,54 +3,49 @@
 // Mirrors FillHolesClient but supports two actions: detect and repair.
 // ---------------------------------------------------------------------------
 
-type DetectRequest = { id: number; action: "detect"; input: ArrayBuffer };
-type RepairRequest = { id: number; action: "repair"; input: ArrayBuffer };
-
-type DetectResponseOk = {
-  id: number;
-  action: "detect";
-  ok: true;
-  count: number;
-  segments: ArrayBuffer;
-};
-type DetectResponseErr = {
-  id: number;
-  action: "detect";
-  ok: false;
-  rc: number;
-  error: string;
-};
-type RepairResponseOk = {
-  id: number;
-  action: "repair";
-  ok: true;
-  output: ArrayBuffer;
-  removedFaces: number;
+import { IntersectionCluster } from "./meshAnalysis";
+import {
+  PoolJobOptions,
+  RpcTransport,
+  TransportOptions,
+  createTransport,
+} from "./rpc/transport";
+
+/** Methods served by selfIntersections.worker.ts */
+export type SelfIntersectionsApi = {
+  detect: {
+    params: { input: ArrayBuffer };
+    /** `faces` holds a Uint32Array, `faceCluster` an Int32Array */
+    result: {
+      count: number;
+      segments: ArrayBuffer;
+      faces: ArrayBuffer;
+      faceCluster: ArrayBuffer;
+      clusters: IntersectionCluster[];
+    };
+  };
+  repair: {
+    params: { input: ArrayBuffer };
+    result: { output: ArrayBuffer; removedFaces: number };
+  };
+  repairCluster: {
+    /** `cluster` indexes `clusters` from detect on the same input */
+    params: { input: ArrayBuffer; cluster: number };
+    result: RepairClusterResult;
+  };
 };
-type RepairResponseErr = {
-  id: number;
-  action: "repair";
-  ok: false;
-  rc: number;
-  error: string;
-};
-
-type WorkerStatus = { id: number; kind: "status"; stage: string };
-type WorkerReady = { kind: "ready" };
-
-type WorkerMessage =
-  | DetectResponseOk
-  | DetectResponseErr
-  | RepairResponseOk
-  | RepairResponseErr
-  | WorkerStatus
-  | WorkerReady;
 
 export interface DetectResult {
   /** Number of self-intersection pairs detected. */
   count: number;
   /** Flat Float32Array of intersection line segments: [sx,sy,sz,ex,ey,ez, ...]. */
   segments: Float32Array;
+  /** STL face indices crossed by an intersection line, ascending. */
+  faces: Uint32Array;
+  /** Cut faces grouped into regions, largest first. */
+  clusters: IntersectionCluster[];
+  /** Cluster index per STL face, -1 for faces not cut. */
+  faceCluster: Int32Array;
 }
 
 export interface RepairResult {
@@ -60,240 +55,87 @@ export interface RepairResult {
   removedFaces: number;
 }
 
-export class SelfIntersectionsClient {
-  private worker: Worker;
-  private nextId = 1;
-  private readyPromise: Promise<void>;
+export interface RepairClusterResult {
+  /** The binary STL with only the chosen cluster repaired. */
+  output: ArrayBuffer;
+  /** Cut faces removed from the cluster. */
+  removedFaces: number;
+  /** Faces added to close the holes left behind. */
+  addedFaces: number;
+}
 
-  constructor() {
-    this.worker = this.createWorker();
-    this.readyPromise = this.waitForReady(this.worker);
-  }
+type CallOptions = PoolJobOptions & {
+  timeoutMs?: number;
+  onStatus?: (stage: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+};
 
-  private createWorker() {
-    return new Worker(
-      new URL("../workers/selfIntersections.worker.ts", import.meta.url),
-      { type: "module" },
+export class SelfIntersectionsClient {
+  private rpc: RpcTransport<SelfIntersectionsApi>;
+
+  /** Pass `{ pool: true }` to run calls in parallel on a WorkerPool */
+  constructor(transport: TransportOptions = {}) {
+    this.rpc = createTransport<SelfIntersectionsApi>(
+      {
+        name: "SelfIntersections",
+        createWorker: () =>
+          new Worker(
+            new URL("../workers/selfIntersections.worker.ts", import.meta.url),
+            { type: "module" },
+          ),
+        defaultTimeoutMs: 120_000,
+      },
+      transport,
     );
   }
 
-  private resetWorker() {
-    try {
-      this.worker.terminate();
-    } finally {
-      this.worker = this.createWorker();
-      this.readyPromise = this.waitForReady(this.worker);
-    }
+  /** Verify the worker is alive. */
+  ping(): Promise<void> {
+    return this.rpc.ping();
   }
 
-  private waitForReady(worker: Worker) {
-    return new Promise<void>((resolve, reject) => {
-      const onMessage = (e: MessageEvent<WorkerMessage>) => {
-        const kind = (e.data as any)?.kind;
-        if (
-          kind === "ready" ||
-          kind === "status" ||
-          typeof (e.data as any)?.id === "number"
-        ) {
-          cleanup();
-          resolve();
-        }
-      };
-      const onError = (e: ErrorEvent) => {
-        cleanup();
-        reject(
-          new Error(
-            `SelfIntersections worker failed to start: ${e.message || "unknown error"}`,
-          ),
-        );
-      };
-      const cleanup = () => {
-        worker.removeEventListener("message", onMessage);
-        worker.removeEventListener("error", onError);
-        if (t) clearTimeout(t);
-      };
-
-      worker.addEventListener("message", onMessage);
-      worker.addEventListener("error", onError);
-      worker.postMessage({ kind: "ping" });
-
-      const t = setTimeout(() => {
-        cleanup();
-        reject(
-          new Error("SelfIntersections worker did not become ready (timeout)"),
-        );
-      }, 15_000);
-    });
+  /** Kill the worker and create a fresh one on next call. */
+  resetWorker(): void {
+    this.rpc.restart();
   }
 
   dispose() {
-    this.worker.terminate();
+    this.rpc.dispose();
   }
 
-  // -----------------------------------------------------------------------
-  // Detect
-  // -----------------------------------------------------------------------
-
-  async detect(
-    input: ArrayBuffer,
-    opts?: { timeoutMs?: number; onStatus?: (stage: string) => void },
-  ): Promise<DetectResult> {
-    opts?.onStatus?.("Waiting for worker…");
-    await this.readyPromise;
-
-    const id = this.nextId++;
-    const timeoutMs = opts?.timeoutMs ?? 120_000;
-
-    return new Promise((resolve, reject) => {
-      let settled = false;
-      const cleanup = () => {
-        this.worker.removeEventListener("message", onMessage);
-        this.worker.removeEventListener("error", onError);
-        this.worker.removeEventListener("messageerror", onMessageError);
-        if (timeoutHandle) clearTimeout(timeoutHandle);
-      };
-
-      const onMessage = (e: MessageEvent<WorkerMessage>) => {
-        if ((e.data as any)?.kind === "ready") return;
-        if ((e.data as any)?.id !== id) return;
-        if ((e.data as any).kind === "status") {
-          opts?.onStatus?.((e.data as WorkerStatus).stage);
-          return;
-        }
-
-        settled = true;
-        cleanup();
-
-        const resp = e.data as DetectResponseOk | DetectResponseErr;
-        if (!resp.ok) {
-          this.resetWorker();
-          reject(new Error(`Detect failed (rc=${resp.rc}): ${resp.error}`));
-          return;
-        }
-        resolve({
-          count: resp.count,
-          segments: new Float32Array(resp.segments),
-        });
-      };
-
-      const onError = (e: ErrorEvent) => {
-        if (settled) return;
-        settled = true;
-        cleanup();
-        this.resetWorker();
-        reject(
-          new Error(
-            `SelfIntersections worker error: ${e.message || "unknown error"}`,
-          ),
-        );
-      };
-      const onMessageError = () => {
-        if (settled) return;
-        settled = true;
-        cleanup();
-        this.resetWorker();
-        reject(new Error("SelfIntersections worker messageerror"));
-      };
-
-      const timeoutHandle = timeoutMs
-        ? setTimeout(() => {
-            if (settled) return;
-            settled = true;
-            cleanup();
-            this.resetWorker();
-            reject(new Error(`Detect timed out after ${timeoutMs}ms`));
-          }, timeoutMs)
-        : undefined;
-
-      this.worker.addEventListener("message", onMessage);
-      this.worker.addEventListener("error", onError);
-      this.worker.addEventListener("messageerror", onMessageError);
-
-      // Need to copy the buffer since we transfer it
-      const copy = input.slice(0);
-      const msg: DetectRequest = { id, action: "detect", input: copy };
-      this.worker.postMessage(msg, [copy]);
-    });
+  async detect(input: ArrayBuffer, opts?: CallOptions): Promise<DetectResult> {
+    // Need to copy the buffer since we transfer it
+    const copy = input.slice(0);
+    const r = await this.rpc.call(
+      "detect",
+      { input: copy },
+      { ...opts, transfer: [copy] },
+    );
+    return {
+      count: r.count,
+      segments: new Float32Array(r.segments),
+      faces: new Uint32Array(r.faces),
+      clusters: r.clusters,
+      faceCluster: new Int32Array(r.faceCluster),
+    };
   }
 
-  // -----------------------------------------------------------------------
-  // Repair
-  // -----------------------------------------------------------------------
+  async repair(input: ArrayBuffer, opts?: CallOptions): Promise<RepairResult> {
+    const copy = input.slice(0);
+    return this.rpc.call("repair", { input: copy }, { ...opts, transfer: [copy] });
+  }
 
-  async repair(
+  /**
+   * Repair one intersection cluster only: its cut faces are removed and the
+   * holes that leaves are filled, the rest of the mesh is left as it is.
+   */
+  async repairCluster(
     input: ArrayBuffer,
-    opts?: { timeoutMs?: number; onStatus?: (stage: string) => void },
-  ): Promise<RepairResult> {
-    opts?.onStatus?.("Waiting for worker…");
-    await this.readyPromise;
-
-    const id = this.nextId++;
-    const timeoutMs = opts?.timeoutMs ?? 120_000;
-
-    return new Promise((resolve, reject) => {
-      let settled = false;
-      const cleanup = () => {
-        this.worker.removeEventListener("message", onMessage);
-        this.worker.removeEventListener("error", onError);
-        this.worker.removeEventListener("messageerror", onMessageError);
-        if (timeoutHandle) clearTimeout(timeoutHandle);
-      };
-
-      const onMessage = (e: MessageEvent<WorkerMessage>) => {
-        if ((e.data as any)?.kind === "ready") return;
-        if ((e.data as any)?.id !== id) return;
-        if ((e.data as any).kind === "status") {
-          opts?.onStatus?.((e.data as WorkerStatus).stage);
-          return;
-        }
-
-        settled = true;
-        cleanup();
-
-        const resp = e.data as RepairResponseOk | RepairResponseErr;
-        if (!resp.ok) {
-          this.resetWorker();
-          reject(new Error(`Repair failed (rc=${resp.rc}): ${resp.error}`));
-          return;
-        }
-        resolve({ output: resp.output, removedFaces: resp.removedFaces });
-      };
-
-      const onError = (e: ErrorEvent) => {
-        if (settled) return;
-        settled = true;
-        cleanup();
-        this.resetWorker();
-        reject(
-          new Error(
-            `SelfIntersections worker error: ${e.message || "unknown error"}`,
-          ),
-        );
-      };
-      const onMessageError = () => {
-        if (settled) return;
-        settled = true;
-        cleanup();
-        this.resetWorker();
-        reject(new Error("SelfIntersections worker messageerror"));
-      };
-
-      const timeoutHandle = timeoutMs
-        ? setTimeout(() => {
-            if (settled) return;
-            settled = true;
-            cleanup();
-            this.resetWorker();
-            reject(new Error(`Repair timed out after ${timeoutMs}ms`));
-          }, timeoutMs)
-        : undefined;
-
-      this.worker.addEventListener("message", onMessage);
-      this.worker.addEventListener("error", onError);
-      this.worker.addEventListener("messageerror", onMessageError);
-
-      const msg: RepairRequest = { id, action: "repair", input };
-      this.worker.postMessage(msg, [input]);
-    });
+    cluster: number,
+    opts?: CallOptions,
+  ): Promise<RepairClusterResult> {
+    const copy = input.slice(0);
+    return this.rpc.call("repairCluster", { input: copy, cluster }, { ...opts, transfer: [copy] });
   }
 }
@@ -4,6 +4,13 @@
  * Follows the same pattern as FillHolesClient / SimplificationClient.
  */
 
+import {
+  PoolJobOptions,
+  RpcTransport,
+  TransportOptions,
+  createTransport,
+} from "./rpc/transport";
+
 export type SmoothingMethod =
   | "laplacian"
   | "taubin"
@@ -18,7 +25,24 @@ const METHOD_INDEX: Record<SmoothingMethod, number> = {
   tangentialRelaxation: 3,
 };
 
-export interface SmoothOptions {
+/** Methods served by smoothing.worker.ts */
+export type SmoothingApi = {
+  smooth: {
+    params: {
+      input: ArrayBuffer;
+      /** Index into METHOD_INDEX */
+      method: number;
+      iterations: number;
+      lambda: number;
+      mu: number;
+      alpha: number;
+      beta: number;
+    };
+    result: SmoothResult;
+  };
+};
+
+export interface SmoothOptions extends PoolJobOptions {
   /** Which smoothing algorithm to use. */
   method: SmoothingMethod;
   /** Number of smoothing iterations (≥ 1). */
@@ -35,6 +59,8 @@ export interface SmoothOptions {
   timeoutMs?: number;
   /** Called with human-readable status updates from the worker. */
   onStatus?: (stage: string) => void;
+  /** Cancels the call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
 export interface SmoothResult {
@@ -47,138 +73,56 @@ export interface SmoothResult {
 }
 
 export class SmoothingClient {
-  private worker: Worker | null = null;
-  private nextId = 1;
-  private pending = new Map<
-    number,
-    {
-      resolve: (v: SmoothResult) => void;
-      reject: (e: Error) => void;
-      onStatus?: (s: string) => void;
-      timer?: ReturnType<typeof setTimeout>;
-    }
-  >();
-
-  /* ---- lifecycle ---- */
-
-  private createWorker(): Worker {
-    const w = new Worker(
-      new URL("../workers/smoothing.worker.ts", import.meta.url),
-      { type: "module" },
+  private rpc: RpcTransport<SmoothingApi>;
+
+  /** Pass `{ pool: true }` to run calls in parallel on a WorkerPool */
+  constructor(transport: TransportOptions = {}) {
+    this.rpc = createTransport<SmoothingApi>(
+      {
+        name: "Smoothing",
+        createWorker: () =>
+          new Worker(new URL("../workers/smoothing.worker.ts", import.meta.url), {
+            type: "module",
+          }),
+      },
+      transport,
     );
-    w.addEventListener("message", this.handleMessage);
-    return w;
   }
 
-  private ensureWorker(): Worker {
-    if (!this.worker) this.worker = this.createWorker();
-    return this.worker;
-  }
+  /* ---- lifecycle ---- */
 
-  /** Verify the worker is alive. Rejects after 5 s. */
-  async ping(): Promise<void> {
-    const w = this.ensureWorker();
-    return new Promise<void>((resolve, reject) => {
-      const timer = setTimeout(
-        () => reject(new Error("Worker ping timeout")),
-        5_000,
-      );
-      const handler = (e: MessageEvent) => {
-        if (e.data?.kind === "ready") {
-          clearTimeout(timer);
-          w.removeEventListener("message", handler);
-          resolve();
-        }
-      };
-      w.addEventListener("message", handler);
-      w.postMessage({ kind: "ping" });
-    });
+  /** Verify the worker is alive. */
+  ping(): Promise<void> {
+    return this.rpc.ping();
   }
 
   /** Kill the worker and create a fresh one on next call. */
   resetWorker(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
-    }
-    for (const [, p] of this.pending) {
-      if (p.timer) clearTimeout(p.timer);
-      p.reject(new Error("Worker was reset"));
-    }
-    this.pending.clear();
+    this.rpc.restart();
   }
 
   dispose(): void {
-    this.resetWorker();
+    this.rpc.dispose();
   }
 
   /* ---- main entry point ---- */
 
   async smooth(input: ArrayBuffer, opts: SmoothOptions): Promise<SmoothResult> {
-    const w = this.ensureWorker();
-    const id = this.nextId++;
-
-    return new Promise<SmoothResult>((resolve, reject) => {
-      let timer: ReturnType<typeof setTimeout> | undefined;
-      const timeoutMs = opts.timeoutMs ?? 0;
-      if (timeoutMs > 0) {
-        timer = setTimeout(() => {
-          this.pending.delete(id);
-          reject(new Error(`Smoothing timed out after ${timeoutMs}ms`));
-        }, timeoutMs);
-      }
-
-      this.pending.set(id, {
-        resolve,
-        reject,
-        onStatus: opts.onStatus,
-        timer,
-      });
-
-      w.postMessage(
-        {
-          id,
-          input,
-          method: METHOD_INDEX[opts.method],
-          iterations: opts.iterations,
-          lambda: opts.lambda ?? 0.5,
-          mu: opts.mu ?? 0.53,
-          alpha: opts.alpha ?? 0.0,
-          beta: opts.beta ?? 0.5,
-        },
-        [input],
-      );
-    });
+    // Transfer a copy so the caller's in-memory mesh stays usable
+    const { method, iterations, lambda, mu, alpha, beta, ...call } = opts;
+    const copy = input.slice(0);
+    return this.rpc.call(
+      "smooth",
+      {
+        input: copy,
+        method: METHOD_INDEX[method],
+        iterations,
+        lambda: lambda ?? 0.5,
+        mu: mu ?? 0.53,
+        alpha: alpha ?? 0.0,
+        beta: beta ?? 0.5,
+      },
+      { ...call, transfer: [copy] },
+    );
   }
-
-  /* ---- internal message handler ---- */
-
-  private handleMessage = (e: MessageEvent) => {
-    const d = e.data;
-    if (!d || typeof d !== "object") return;
-
-    // status updates
-    if (d.kind === "status") {
-      const p = this.pending.get(d.id);
-      if (p?.onStatus) p.onStatus(d.stage);
-      return;
-    }
-
-    // final result
-    const id: number = d.id;
-    const p = this.pending.get(id);
-    if (!p) return;
-    this.pending.delete(id);
-    if (p.timer) clearTimeout(p.timer);
-
-    if (d.ok) {
-      p.resolve({
-        output: d.output as ArrayBuffer,
-        faces: d.faces as number,
-        vertices: d.vertices as number,
-      });
-    } else {
-      p.reject(new Error(`Smoothing failed (rc=${d.rc}): ${d.error}`));
-    }
-  };
 }
@@ -0,0 +1,32 @@
+/**
+ * Length units for true-scale viewing. Mesh coordinates are millimetres
+ * (STL's de-facto unit; 3MF imports are converted on load), so a unit is
+ * only a choice of how lengths are labelled.
+ */
+
+export type LengthUnit = "mm" | "cm" | "in";
+
+export const LENGTH_UNITS: { unit: LengthUnit; label: string; mm: number }[] = [
+  { unit: "mm", label: "Millimetres", mm: 1 },
+  { unit: "cm", label: "Centimetres", mm: 10 },
+  { unit: "in", label: "Inches", mm: 25.4 },
+];
+
+export function millimetresPerUnit(unit: LengthUnit): number {
+  return LENGTH_UNITS.find((u) => u.unit === unit)?.mm ?? 1;
+}
+
+/** `mm` expressed in `unit`, e.g. "12.7 in"; `digits` significant figures. */
+export function formatLength(mm: number, unit: LengthUnit, digits = 4): string {
+  const value = mm / millimetresPerUnit(unit);
+  return `${Number(value.toPrecision(digits))} ${unit}`;
+}
+
+/** The 1, 2 or 5 × 10ⁿ step closest above `rough`. */
+export function niceStep(rough: number): number {
+  if (!(rough > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const fraction = rough / magnitude;
+  const step = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+  return step * magnitude;
+}
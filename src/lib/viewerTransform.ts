@@ -0,0 +1,93 @@
+import * as THREE from "three";
+
+/**
+ * The "center, scale to 50, sit on Z=0" transform that the viewers apply to
+ * a mesh, expressed as plain numbers so pages can map points between
+ * original STL coordinates and viewer coordinates.
+ *
+ *   viewer = (stl - center) * scale + (0, 0, zShift)
+ *
+ * The mesh session computes it once per mesh; viewers, overlays and pages
+ * all map through the helpers below so nothing drifts out of alignment.
+ */
+export interface ViewerTransform {
+  /** Bounding-box centre of the mesh in STL coordinates. */
+  center: THREE.Vector3;
+  /** Uniform scale so the largest dimension becomes 50 units. */
+  scale: number;
+  /** Z offset applied after centring + scaling so the mesh rests on Z=0. */
+  zShift: number;
+}
+
+/** Largest dimension (in viewer units) a mesh is scaled to. */
+export const VIEWER_TARGET_SIZE = 50;
+
+export function computeViewerTransform(
+  geometry: THREE.BufferGeometry,
+): ViewerTransform {
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const bbox = geometry.boundingBox!;
+
+  const center = new THREE.Vector3();
+  bbox.getCenter(center);
+  const size = new THREE.Vector3();
+  bbox.getSize(size);
+  const maxDim = Math.max(size.x, size.y, size.z);
+  const scale = maxDim > 0 ? VIEWER_TARGET_SIZE / maxDim : 1;
+  const zShift = -(bbox.min.z - center.z) * scale;
+
+  return { center, scale, zShift };
+}
+
+/** Map an STL-space point into viewer space. */
+export function toViewer(
+  t: ViewerTransform,
+  x: number,
+  y: number,
+  z: number,
+  target = new THREE.Vector3(),
+): THREE.Vector3 {
+  return target.set(
+    (x - t.center.x) * t.scale,
+    (y - t.center.y) * t.scale,
+    (z - t.center.z) * t.scale + t.zShift,
+  );
+}
+
+/** Map a viewer-space point back into STL space. */
+export function toStl(
+  t: ViewerTransform,
+  p: THREE.Vector3,
+  target = new THREE.Vector3(),
+): THREE.Vector3 {
+  return target.set(
+    p.x / t.scale + t.center.x,
+    p.y / t.scale + t.center.y,
+    (p.z - t.zShift) / t.scale + t.center.z,
+  );
+}
+
+/** Map a flat [x,y,z, x,y,z, …] array of STL-space points into viewer space. */
+export function toViewerPositions(t: ViewerTransform, points: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(points.length);
+  for (let i = 0; i < points.length; i += 3) {
+    out[i] = (points[i] - t.center.x) * t.scale;
+    out[i + 1] = (points[i + 1] - t.center.y) * t.scale;
+    out[i + 2] = (points[i + 2] - t.center.z) * t.scale + t.zShift;
+  }
+  return out;
+}
+
+/** A copy of `geometry` moved into viewer space, with fresh normals. */
+export function toViewerGeometry(
+  t: ViewerTransform,
+  geometry: THREE.BufferGeometry,
+): THREE.BufferGeometry {
+  const geo = geometry.clone();
+  geo.translate(-t.center.x, -t.center.y, -t.center.z);
+  geo.scale(t.scale, t.scale, t.scale);
+  geo.translate(0, 0, t.zShift);
+  geo.computeVertexNormals();
+  geo.computeBoundingBox();
+  return geo;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { listZipEntries, readZipEntry, writeZip } from "./zip";
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe("writeZip and readZipEntry", () => {
+  it("round-trips stored and deflated entries", async () => {
+    const repetitive = text("facet normal 0 0 1\n".repeat(200));
+    const tiny = new Uint8Array([7]);
+    const zip = await (
+      await writeZip([
+        { name: "out/part.stl", data: repetitive },
+        { name: "ünïcode.txt", data: tiny },
+        { name: "empty", data: new Uint8Array(0) },
+      ])
+    ).arrayBuffer();
+
+    const entries = listZipEntries(zip);
+    expect(entries.map((e) => e.name)).toEqual(["out/part.stl", "ünïcode.txt", "empty"]);
+    // Compressible data is deflated; data that would not shrink is stored
+    expect(entries[0]).toMatchObject({ method: 8, uncompressedSize: repetitive.length });
+    expect(entries[0].compressedSize).toBeLessThan(repetitive.length);
+    expect(entries[1]).toMatchObject({ method: 0, compressedSize: 1 });
+
+    expect(await readZipEntry(zip, entries[0])).toEqual(repetitive);
+    expect(await readZipEntry(zip, entries[1])).toEqual(tiny);
+    expect(await readZipEntry(zip, entries[2])).toEqual(new Uint8Array(0));
+  });
+});
+
+describe("listZipEntries", () => {
+  it("rejects data that is not a ZIP archive", () => {
+    expect(() => listZipEntries(new ArrayBuffer(64))).toThrow(/Not a ZIP archive/);
+  });
+
+  it("rejects a truncated entry", async () => {
+    const zip = await (await writeZip([{ name: "a", data: text("x".repeat(100)) }])).arrayBuffer();
+    const [entry] = listZipEntries(zip);
+    await expect(readZipEntry(zip, { ...entry, compressedSize: zip.byteLength })).rejects.toThrow(/truncated/);
+  });
+});
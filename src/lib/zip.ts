@@ -0,0 +1,222 @@
+/**
+ * Minimal ZIP reader and writer: enough to pull entries out of 3MF packages
+ * and to bundle batch outputs for download.
+ *
+ * Supports "stored" and "deflate" entries (via the platform's
+ * DecompressionStream / CompressionStream). ZIP64, encryption and
+ * multi-disk archives are rejected with a descriptive error.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, e.g. "3D/3dmodel.model" */
+  name: string;
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** Byte offset of the entry's local file header */
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** List the entries of a ZIP archive by reading its central directory. */
+export function listZipEntries(zip: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(zip);
+
+  // The end-of-central-directory record is at least 22 bytes and may be
+  // followed by a comment of up to 65535 bytes.
+  let eocd = -1;
+  const stop = Math.max(0, zip.byteLength - 22 - 0xffff);
+  for (let i = zip.byteLength - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a ZIP archive (no end of central directory)");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  const dirOffset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || dirOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const decoder = new TextDecoder("utf-8");
+  const entries: ZipEntry[] = [];
+  let p = dirOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (p + 46 > zip.byteLength || view.getUint32(p, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const flags = view.getUint16(p + 8, true);
+    if (flags & 0x1) throw new Error("Encrypted ZIP entries are not supported");
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(zip, p + 46, nameLen)),
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      uncompressedSize: view.getUint32(p + 24, true),
+      localHeaderOffset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+/** Decompress one entry returned by listZipEntries. */
+export async function readZipEntry(
+  zip: ArrayBuffer,
+  entry: ZipEntry,
+): Promise<Uint8Array> {
+  const view = new DataView(zip);
+  const h = entry.localHeaderOffset;
+  if (h + 30 > zip.byteLength || view.getUint32(h, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`Corrupt ZIP local header for ${entry.name}`);
+  }
+  // Sizes are taken from the central directory: the local header may
+  // leave them zero when a data descriptor is used.
+  const start = h + 30 + view.getUint16(h + 26, true) + view.getUint16(h + 28, true);
+  if (start + entry.compressedSize > zip.byteLength) {
+    throw new Error(`ZIP entry ${entry.name} is truncated`);
+  }
+  const raw = new Uint8Array(zip, start, entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return raw.slice();
+    case 8: {
+      const stream = new Blob([raw])
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(
+        `ZIP entry ${entry.name} uses unsupported compression method ${entry.method}`,
+      );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+export interface ZipInput {
+  /** Path inside the archive; "/" separates folders */
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** MS-DOS time and date fields for `d` (2-second resolution, local time). */
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((Math.max(1980, d.getFullYear()) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive. Each entry is deflated unless that would not make
+ * it smaller, in which case it is stored.
+ */
+export async function writeZip(files: ZipInput[]): Promise<Blob> {
+  if (files.length >= 0xffff) throw new Error("Too many ZIP entries (ZIP64 is not supported)");
+
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    let method = 8;
+    let body = await deflateRaw(file.data);
+    if (body.byteLength >= file.data.byteLength) {
+      method = 0;
+      body = file.data;
+    }
+    if (offset + 30 + name.byteLength + body.byteLength > 0xffffffff) {
+      throw new Error("ZIP archive would exceed 4 GB (ZIP64 is not supported)");
+    }
+
+    // Bit 11: file names are UTF-8
+    const local = new Uint8Array(30 + name.byteLength);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_SIGNATURE, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, body.byteLength, true);
+    lv.setUint32(22, file.data.byteLength, true);
+    lv.setUint16(26, name.byteLength, true);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.byteLength);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, CENTRAL_SIGNATURE, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, body.byteLength, true);
+    cv.setUint32(24, file.data.byteLength, true);
+    cv.setUint16(28, name.byteLength, true);
+    cv.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(local, body);
+    central.push(entry);
+    offset += local.byteLength + body.byteLength;
+  }
+
+  const dirSize = central.reduce((n, e) => n + e.byteLength, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, EOCD_SIGNATURE, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, dirSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, eocd] as Uint8Array<ArrayBuffer>[], {
+    type: "application/zip",
+  });
+}
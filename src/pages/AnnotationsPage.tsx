@@ -1,14 +1,23 @@
 import { Canvas } from '@react-three/fiber'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import * as THREE from 'three'
-import { STLLoader } from 'three/addons/loaders/STLLoader.js'
 import Navbar from '../components/Navbar'
 import HelloButton from '../components/HelloButton'
 import Scene from '../components/Scene'
 import STLInteractiveViewer, { FaceClickInfo, ContourData } from '../components/STLInteractiveViewer'
 import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import WasmSpinner from '../components/WasmSpinner'
 import { CanvasContainer } from '../styles/CanvasContainer'
 import { AnnotationsClient } from '../lib/annotationsClient'
+import { isAbortError } from '../lib/rpc/protocol'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { toStl, toViewerPositions } from '../lib/viewerTransform'
 
 const COMPLEX_STL_FILES = [
     'complex/bony_penvis_mri.stl',
@@ -20,7 +29,10 @@ const COMPLEX_STL_FILES = [
 type AnnotationMode = 'patch' | 'landmark'
 
 function AnnotationsPage() {
-    const [selectedFile, setSelectedFile] = useState<string>(COMPLEX_STL_FILES[0] ?? '')
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
     const [mode, setMode] = useState<AnnotationMode>('patch')
 
     // Patch controls
@@ -44,10 +56,9 @@ function AnnotationsPage() {
 
     // Cached raw STL buffer (original coordinates)
     const stlBufferRef = useRef<ArrayBuffer | null>(null)
-    // Transform info so we can map between viewer coords ↔ STL coords
-    const transformRef = useRef<{ scale: number; centerOffset: THREE.Vector3; zShift: number } | null>(null)
 
     const clientRef = useRef<AnnotationsClient | null>(null)
+    const cancellable = useCancellable()
 
     // Lifecycle
     useEffect(() => {
@@ -59,7 +70,7 @@ function AnnotationsPage() {
         }
     }, [])
 
-    // Fetch raw STL when file changes & compute transform params
+    // Cache raw STL when the mesh changes
     useEffect(() => {
         setHighlightedFaces(new Set())
         setLandmarks([])
@@ -68,82 +79,31 @@ function AnnotationsPage() {
         setContours([])
         setStatus('')
         setError('')
-        stlBufferRef.current = null
-        transformRef.current = null
-
-        if (!selectedFile) return
-
-        let cancelled = false
-        fetch(`/stl/${selectedFile}`)
-            .then((res) => {
-                if (!res.ok) throw new Error(`fetch ${res.status}`)
-                return res.arrayBuffer()
-            })
-            .then((buf) => {
-                if (cancelled) return
-                stlBufferRef.current = buf
-
-                // Compute the same transform that STLInteractiveViewer applies
-                const loader = new STLLoader()
-
-                // Get the raw centroid (before any transform)
-                const rawGeo = loader.parse(buf.slice(0))
-                rawGeo.computeBoundingBox()
-                const centroid = new THREE.Vector3()
-                rawGeo.boundingBox!.getCenter(centroid)
-
-                // Center + scale (mirrors STLInteractiveViewer)
-                const geo = loader.parse(buf.slice(0))
-                geo.center()
-                geo.computeBoundingBox()
-                const size = new THREE.Vector3()
-                geo.boundingBox!.getSize(size)
-                const maxDim = Math.max(size.x, size.y, size.z)
-                const scale = maxDim > 0 ? 50 / maxDim : 1
-                geo.scale(scale, scale, scale)
-                geo.computeBoundingBox()
-                const zShift = -geo.boundingBox!.min.z
-
-                transformRef.current = { scale, centerOffset: centroid, zShift }
+        stlBufferRef.current = meshData
+    }, [meshData])
+
+    /** Patch boundary contours from the worker, mapped into viewer space */
+    const contoursToViewer = useCallback((contourPoints: Float32Array, contourSizes: ArrayLike<number>): ContourData[] => {
+        const list: ContourData[] = []
+        if (!meshTransform) return list
+        let offset = 0
+        for (let ci = 0; ci < contourSizes.length; ci++) {
+            const count = contourSizes[ci]
+            list.push({
+                points: toViewerPositions(meshTransform, contourPoints.subarray(offset * 3, (offset + count) * 3)),
+                closed: true,
             })
-            .catch(() => { /* non-critical */ })
-
-        return () => { cancelled = true }
-    }, [selectedFile])
-
-    /**
-     * Convert a point from VIEWER space (centered, scaled, z-shifted)
-     * back to original STL coordinate space.
-     */
-    const viewerToStl = useCallback((pt: THREE.Vector3): THREE.Vector3 => {
-        const t = transformRef.current
-        if (!t) return pt.clone()
-        return new THREE.Vector3(
-            pt.x / t.scale + t.centerOffset.x,
-            pt.y / t.scale + t.centerOffset.y,
-            (pt.z - t.zShift) / t.scale + t.centerOffset.z,
-        )
-    }, [])
-
-    /**
-     * Convert a point from STL coordinate space to VIEWER space.
-     */
-    const stlToViewer = useCallback((x: number, y: number, z: number): THREE.Vector3 => {
-        const t = transformRef.current
-        if (!t) return new THREE.Vector3(x, y, z)
-        return new THREE.Vector3(
-            (x - t.centerOffset.x) * t.scale,
-            (y - t.centerOffset.y) * t.scale,
-            (z - t.centerOffset.z) * t.scale + t.zShift,
-        )
-    }, [])
+            offset += count
+        }
+        return list
+    }, [meshTransform])
 
     // ---- Face click handler ------------------------------------------------
     const handleFaceClick = useCallback(
         async (info: FaceClickInfo) => {
             const client = clientRef.current
             const stlBuf = stlBufferRef.current
-            if (!client || !stlBuf || isProcessing) return
+            if (!client || !stlBuf || !meshTransform || isProcessing) return
 
             if (mode === 'patch') {
                 setIsProcessing(true)
@@ -152,16 +112,17 @@ function AnnotationsPage() {
 
                 try {
                     // Convert click point to original STL coords
-                    const stlPt = viewerToStl(info.point)
+                    const stlPt = toStl(meshTransform, info.point)
 
                     const result = await client.selectPatch(stlBuf, {
                         seedFaceIndex: info.faceIndex,
                         centerX: stlPt.x,
                         centerY: stlPt.y,
                         centerZ: stlPt.z,
-                        radius: radius / (transformRef.current?.scale ?? 1),
+                        radius: radius / meshTransform.scale,
                         maxNormalAngleDeg: useAngleLimit ? maxAngle : -1,
                         onStatus: setStatus,
+                        signal: cancellable.begin(),
                     })
 
                     // Update highlights
@@ -171,30 +132,16 @@ function AnnotationsPage() {
                     }
                     setHighlightedFaces(faces)
 
-                    // Convert contour points from STL coords → viewer coords
-                    const contourList: ContourData[] = []
-                    let offset = 0
-                    for (let ci = 0; ci < result.numContours; ci++) {
-                        const count = result.contourSizes[ci]
-                        const pts = new Float32Array(count * 3)
-                        for (let pi = 0; pi < count; pi++) {
-                            const sx = result.contourPoints[(offset + pi) * 3]
-                            const sy = result.contourPoints[(offset + pi) * 3 + 1]
-                            const sz = result.contourPoints[(offset + pi) * 3 + 2]
-                            const vp = stlToViewer(sx, sy, sz)
-                            pts[pi * 3] = vp.x
-                            pts[pi * 3 + 1] = vp.y
-                            pts[pi * 3 + 2] = vp.z
-                        }
-                        contourList.push({ points: pts, closed: true })
-                        offset += count
-                    }
-                    setContours(contourList)
+                    setContours(contoursToViewer(result.contourPoints, result.contourSizes))
 
                     setStatus(
                         `Patch: ${result.numFaces} faces, ${result.numContours} contour${result.numContours !== 1 ? 's' : ''}`,
                     )
                 } catch (e: any) {
+                    if (isAbortError(e)) {
+                        setStatus('Patch selection cancelled')
+                        return
+                    }
                     console.error('[Annotations] patch failed:', e)
                     setError(String(e?.message || e))
                     setStatus('')
@@ -205,13 +152,13 @@ function AnnotationsPage() {
                 // Add landmark at click position (viewer coords — already transformed)
                 setLandmarks((prev) => [...prev, info.point.clone()])
                 // Store face index + STL-space position for later WASM call
-                const stlPt = viewerToStl(info.point)
+                const stlPt = toStl(meshTransform, info.point)
                 setLandmarkFaceIndices((prev) => [...prev, info.faceIndex])
                 setLandmarkStlPositions((prev) => [...prev, stlPt.x, stlPt.y, stlPt.z])
                 setStatus(`${landmarks.length + 1} landmark${landmarks.length > 0 ? 's' : ''} placed`)
             }
         },
-        [mode, radius, maxAngle, useAngleLimit, isProcessing, viewerToStl, stlToViewer, landmarks.length],
+        [mode, radius, maxAngle, useAngleLimit, isProcessing, meshTransform, contoursToViewer, landmarks.length, cancellable],
     )
 
     // ---- Live contour preview (connects landmarks in order) ----------------
@@ -252,6 +199,7 @@ function AnnotationsPage() {
                 faceIndices: landmarkFaceIndices,
                 positions: landmarkStlPositions,
                 onStatus: setStatus,
+                signal: cancellable.begin(),
             })
 
             // Highlight patch faces
@@ -261,37 +209,23 @@ function AnnotationsPage() {
             }
             setHighlightedFaces(faces)
 
-            // Convert boundary contour points from STL → viewer coords
-            const contourList: ContourData[] = []
-            let offset = 0
-            for (let ci = 0; ci < result.numContours; ci++) {
-                const count = result.contourSizes[ci]
-                const pts = new Float32Array(count * 3)
-                for (let pi = 0; pi < count; pi++) {
-                    const sx = result.contourPoints[(offset + pi) * 3]
-                    const sy = result.contourPoints[(offset + pi) * 3 + 1]
-                    const sz = result.contourPoints[(offset + pi) * 3 + 2]
-                    const vp = stlToViewer(sx, sy, sz)
-                    pts[pi * 3] = vp.x
-                    pts[pi * 3 + 1] = vp.y
-                    pts[pi * 3 + 2] = vp.z
-                }
-                contourList.push({ points: pts, closed: true })
-                offset += count
-            }
-            setContours(contourList)
+            setContours(contoursToViewer(result.contourPoints, result.contourSizes))
 
             setStatus(
                 `Patch: ${result.numFaces} faces, ${result.numContours} contour${result.numContours !== 1 ? 's' : ''}`,
             )
         } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Patch creation cancelled')
+                return
+            }
             console.error('[Annotations] patch_from_landmarks failed:', e)
             setError(String(e?.message || e))
             setStatus('')
         } finally {
             setIsProcessing(false)
         }
-    }, [isProcessing, landmarks.length, landmarkFaceIndices, landmarkStlPositions, stlToViewer])
+    }, [isProcessing, landmarks.length, landmarkFaceIndices, landmarkStlPositions, contoursToViewer, cancellable])
 
     // ---- Undo last landmark ------------------------------------------------
     function undoLastLandmark() {
@@ -317,10 +251,17 @@ function AnnotationsPage() {
         <>
             <Navbar pageTitle="Annotations" showBack />
             <FileSelector
-                files={COMPLEX_STL_FILES}
-                selectedFile={selectedFile}
-                onFileSelect={setSelectedFile}
-            />
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
 
             {/* Info + Status panel */}
             <div className="ui-panel" style={{ top: '180px', maxWidth: 440 }}>
@@ -347,39 +288,41 @@ function AnnotationsPage() {
 
             {/* Processing overlay */}
             {isProcessing && (
-                <div className="wasm-spinner-overlay">
-                    <div className="wasm-spinner-ring" />
-                    <div className="wasm-spinner-label">{status || 'Processing…'}</div>
-                </div>
+                <WasmSpinner label={status || 'Processing…'} onCancel={cancellable.cancel} />
             )}
 
             <CanvasContainer>
-                <Canvas
-                    camera={{
-                        position: [120, -320, 100],
-                        fov: 24,
-                        near: 0.1,
-                        far: 200000,
-                    }}
-                    shadows
-                    gl={{ antialias: true, alpha: false }}
-                    style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
-                >
-                    <Scene />
-
-                    {selectedFile && (
-                        <group position={[0, 0, 0]}>
-                            <STLInteractiveViewer
-                                filename={selectedFile}
-                                highlightedFaces={highlightedFaces}
-                                highlightColor="#ef4444"
-                                landmarks={landmarks}
-                                contours={allContours}
-                                onFaceClick={handleFaceClick}
-                            />
-                        </group>
-                    )}
-                </Canvas>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+
+                            {meshGeometry && meshTransform && (
+                                <group position={[0, 0, 0]}>
+                                    <STLInteractiveViewer
+                                        geometry={meshGeometry}
+                                        transform={meshTransform}
+                                        highlightedFaces={highlightedFaces}
+                                        highlightColor="#ef4444"
+                                        landmarks={landmarks}
+                                        contours={allContours}
+                                        onFaceClick={handleFaceClick}
+                                    />
+                                </group>
+                            )}
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
             </CanvasContainer>
 
             {/* ---- Controls (bottom-right) ---- */}
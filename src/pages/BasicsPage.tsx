@@ -1,16 +1,32 @@
 import { Canvas } from '@react-three/fiber'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Billboard, Text } from '@react-three/drei'
 import Navbar from '../components/Navbar'
 import HelloButton from '../components/HelloButton'
 import Scene from '../components/Scene'
 import STLViewer from '../components/STLViewer'
 import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
 import STLBufferViewer from '../components/STLBufferViewer'
 import IntersectionLines from '../components/IntersectionLines'
+import STLInteractiveViewer, { FaceClickInfo } from '../components/STLInteractiveViewer'
+import IntersectionClusterPanel, { CLUSTER_COLORS } from '../components/IntersectionClusterPanel'
+import ResultCard from '../components/ResultCard'
+import MeshDownloadButton from '../components/MeshDownloadButton'
 import { FillHolesClient } from '../lib/fillHolesClient'
-import { SelfIntersectionsClient } from '../lib/selfIntersectionsClient'
+import { DetectResult, SelfIntersectionsClient } from '../lib/selfIntersectionsClient'
+import { DEFAULT_REPAIR_CONFIG, RepairClient, RepairStageReport } from '../lib/repairClient'
+import { isAbortError } from '../lib/rpc/protocol'
 import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { baseName } from '../lib/download'
+import { triangleCountFromStl } from '../lib/meshFiles'
 
 const STL_FILES = [
     'baseplate_shoulder_holes.stl',
@@ -21,9 +37,16 @@ const STL_FILES = [
 ]
 
 function BasicsPage() {
-    const [selectedFile, setSelectedFile] = useState<string>(STL_FILES[0] ?? '')
+    const meshFile = useMeshFile(STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
+    const { commit } = useMeshSession()
     const [isFilling, setIsFilling] = useState(false)
     const [repairedStl, setRepairedStl] = useState<ArrayBuffer | null>(null)
+    /** Which operation produced repairedStl — used as the session history label */
+    const [repairedLabel, setRepairedLabel] = useState('')
     const [status, setStatus] = useState<string>('')
     const [error, setError] = useState<string>('')
 
@@ -31,52 +54,70 @@ function BasicsPage() {
     const [isRepairing, setIsRepairing] = useState(false)
     const [intersectionCount, setIntersectionCount] = useState<number | null>(null)
     const [intersectionSegments, setIntersectionSegments] = useState<Float32Array | null>(null)
+    /** Faces cut by the intersection lines and their clusters */
+    const [intersectionFaces, setIntersectionFaces] = useState<Pick<DetectResult, 'faces' | 'clusters' | 'faceCluster'> | null>(null)
+    const [selectedCluster, setSelectedCluster] = useState<number | null>(null)
+    const [isRepairingCluster, setIsRepairingCluster] = useState(false)
+
+    const [isFullRepairing, setIsFullRepairing] = useState(false)
+    const [repairReport, setRepairReport] = useState<RepairStageReport[] | null>(null)
 
     const fillHolesClientRef = useRef<FillHolesClient | null>(null)
     const selfIntersectionsClientRef = useRef<SelfIntersectionsClient | null>(null)
+    const repairClientRef = useRef<RepairClient | null>(null)
+    const cancellable = useCancellable()
 
     useEffect(() => {
         const client = new FillHolesClient()
         fillHolesClientRef.current = client
         const siClient = new SelfIntersectionsClient()
         selfIntersectionsClientRef.current = siClient
+        const repairClient = new RepairClient()
+        repairClientRef.current = repairClient
         return () => {
             fillHolesClientRef.current = null
             client.dispose()
             selfIntersectionsClientRef.current = null
             siClient.dispose()
+            repairClientRef.current = null
+            repairClient.dispose()
         }
     }, [])
 
     useEffect(() => {
         setRepairedStl(null)
+        setRepairReport(null)
         setStatus('')
         setError('')
         setIntersectionCount(null)
         setIntersectionSegments(null)
-    }, [selectedFile])
+        setIntersectionFaces(null)
+        setSelectedCluster(null)
+    }, [meshData])
 
     async function onFillHoles() {
         const fillHolesClient = fillHolesClientRef.current
-        if (!selectedFile || isFilling || !fillHolesClient) return
+        if (!meshData || isFilling || !fillHolesClient) return
 
         setIsFilling(true)
         setError('')
-        setStatus('Loading STL…')
         try {
-            const stlUrl = `/stl/${selectedFile}`
-            const res = await fetch(stlUrl)
-            if (!res.ok) throw new Error(`Failed to fetch STL (${res.status}): ${stlUrl}`)
-            const input = await res.arrayBuffer()
             setStatus('Running FillHoles (WASM in worker)…')
             const startMs = performance.now()
-            const output = await fillHolesClient.fillHoles(input, {
+            const output = await fillHolesClient.fillHoles(meshData, {
                 onStatus: (stage) => setStatus(stage),
+                signal: cancellable.begin(),
             })
             const elapsedMs = performance.now() - startMs
             setRepairedStl(output)
+            setRepairedLabel('Filled holes')
+            setRepairReport(null)
             setStatus(`Done in ${elapsedMs.toFixed(0)} ms`)
         } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Fill holes cancelled')
+                return
+            }
             console.error('[FillHoles] failed:', e)
             setError(String(e?.message || e))
             setStatus('')
@@ -85,38 +126,37 @@ function BasicsPage() {
         }
     }
 
-    async function fetchStlBuffer(): Promise<ArrayBuffer> {
-        const stlUrl = `/stl/${selectedFile}`
-        const res = await fetch(stlUrl)
-        if (!res.ok) throw new Error(`Failed to fetch STL (${res.status}): ${stlUrl}`)
-        return res.arrayBuffer()
-    }
-
     async function onDetectIntersections() {
         const client = selfIntersectionsClientRef.current
-        if (!selectedFile || isDetecting || !client) return
+        if (!meshData || isDetecting || !client) return
 
         setIsDetecting(true)
         setError('')
-        setStatus('Loading STL…')
         setIntersectionCount(null)
         setIntersectionSegments(null)
+        setIntersectionFaces(null)
+        setSelectedCluster(null)
         try {
-            const input = await fetchStlBuffer()
             setStatus('Detecting self-intersections (WASM)…')
             const startMs = performance.now()
-            const result = await client.detect(input, {
+            const result = await client.detect(meshData, {
                 onStatus: (stage) => setStatus(stage),
+                signal: cancellable.begin(),
             })
             const elapsedMs = performance.now() - startMs
             setIntersectionCount(result.count)
             setIntersectionSegments(result.segments)
+            setIntersectionFaces(result.faces.length > 0 ? result : null)
             setStatus(
                 result.count === 0
                     ? `No intersections found (${elapsedMs.toFixed(0)} ms)`
-                    : `Found ${result.count} intersection(s) in ${elapsedMs.toFixed(0)} ms`,
+                    : `Found ${result.count} intersection(s) on ${result.faces.length} face(s) in ${result.clusters.length} cluster(s), ${elapsedMs.toFixed(0)} ms`,
             )
         } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Detection cancelled')
+                return
+            }
             console.error('[DetectIntersections] failed:', e)
             setError(String(e?.message || e))
             setStatus('')
@@ -127,24 +167,29 @@ function BasicsPage() {
 
     async function onRepairIntersections() {
         const client = selfIntersectionsClientRef.current
-        if (!selectedFile || isRepairing || !client) return
+        if (!meshData || isRepairing || !client) return
 
         setIsRepairing(true)
         setError('')
-        setStatus('Loading STL…')
         try {
-            const input = await fetchStlBuffer()
             setStatus('Repairing self-intersections (WASM)…')
             const startMs = performance.now()
-            const result = await client.repair(input, {
+            const result = await client.repair(meshData, {
                 onStatus: (stage) => setStatus(stage),
+                signal: cancellable.begin(),
             })
             const elapsedMs = performance.now() - startMs
             setRepairedStl(result.output)
+            setRepairedLabel('Repaired intersections')
+            setRepairReport(null)
             setStatus(
                 `Repair done in ${elapsedMs.toFixed(0)} ms — removed ${result.removedFaces} face(s)`,
             )
         } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Repair cancelled')
+                return
+            }
             console.error('[RepairIntersections] failed:', e)
             setError(String(e?.message || e))
             setStatus('')
@@ -153,7 +198,88 @@ function BasicsPage() {
         }
     }
 
-    const isBusy = isFilling || isDetecting || isRepairing
+    async function onRepairCluster() {
+        const client = selfIntersectionsClientRef.current
+        if (!meshData || isRepairingCluster || !client || selectedCluster === null) return
+
+        setIsRepairingCluster(true)
+        setError('')
+        try {
+            setStatus(`Repairing intersection cluster #${selectedCluster + 1}…`)
+            const startMs = performance.now()
+            const result = await client.repairCluster(meshData, selectedCluster, {
+                onStatus: (stage) => setStatus(stage),
+                signal: cancellable.begin(),
+            })
+            const elapsedMs = performance.now() - startMs
+            setRepairedStl(result.output)
+            setRepairedLabel(`Repaired intersection cluster #${selectedCluster + 1}`)
+            setRepairReport(null)
+            setStatus(
+                `Cluster repair done in ${elapsedMs.toFixed(0)} ms — removed ${result.removedFaces} face(s), added ${result.addedFaces}`,
+            )
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Cluster repair cancelled')
+                return
+            }
+            console.error('[RepairCluster] failed:', e)
+            setError(String(e?.message || e))
+            setStatus('')
+        } finally {
+            setIsRepairingCluster(false)
+        }
+    }
+
+    function onIntersectionFaceClick({ faceIndex }: FaceClickInfo) {
+        const cluster = intersectionFaces?.faceCluster[faceIndex] ?? -1
+        setSelectedCluster(cluster >= 0 ? cluster : null)
+    }
+
+    // Every cut face, or only the selected cluster's
+    const highlightedFaces = useMemo(() => {
+        if (!intersectionFaces) return undefined
+        const faces = new Set<number>()
+        for (const f of intersectionFaces.faces) {
+            if (selectedCluster === null || intersectionFaces.faceCluster[f] === selectedCluster) faces.add(f)
+        }
+        return faces
+    }, [intersectionFaces, selectedCluster])
+
+    async function onFullRepair() {
+        const client = repairClientRef.current
+        if (!meshData || isFullRepairing || !client) return
+
+        setIsFullRepairing(true)
+        setError('')
+        try {
+            setStatus('Running MeshRepair…')
+            const startMs = performance.now()
+            const result = await client.repair(meshData, DEFAULT_REPAIR_CONFIG, {
+                onStatus: (stage) => setStatus(stage),
+                signal: cancellable.begin(),
+            })
+            const elapsedMs = performance.now() - startMs
+            setRepairedStl(result.output)
+            setRepairedLabel('Full repair')
+            setRepairReport(result.stages)
+            setStatus(
+                `Full repair done in ${elapsedMs.toFixed(0)} ms — ${result.inputFaces} → ${result.outputFaces} faces`,
+            )
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Full repair cancelled')
+                return
+            }
+            console.error('[FullRepair] failed:', e)
+            setError(String(e?.message || e))
+            setStatus('')
+        } finally {
+            setIsFullRepairing(false)
+        }
+    }
+
+    const isBusy = isFilling || isDetecting || isRepairing || isRepairingCluster || isFullRepairing
     const showSideBySide = Boolean(repairedStl)
     const offsetX = 40
 
@@ -161,10 +287,17 @@ function BasicsPage() {
         <>
             <Navbar pageTitle="Basics" showBack />
             <FileSelector
-                files={STL_FILES}
-                selectedFile={selectedFile}
-                onFileSelect={setSelectedFile}
-            />
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
             {(status || error) && (
                 <div className="ui-panel" style={{ top: '180px' }}>
                     {status && <div><strong>Status:</strong> {status}</div>}
@@ -172,61 +305,75 @@ function BasicsPage() {
                 </div>
             )}
             <CanvasContainer>
-                <Canvas
-                    camera={{
-                        position: [120, -320, 100],
-                        fov: 24,
-                        near: 0.1,
-                        far: 200000,
-                    }}
-                    shadows
-                    gl={{ antialias: true, alpha: false }}
-                    style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
-                >
-                    <Scene />
-                    {selectedFile && (
-                        <group position={[showSideBySide ? -offsetX : 0, 0, 0]}>
-                            {showSideBySide && (
-                                <Billboard position={[0, -30, 10]}>
-                                    <Text
-                                        fontSize={5}
-                                        color="#ffffff"
-                                        anchorX="center"
-                                        anchorY="bottom"
-                                        outlineWidth={0.3}
-                                        outlineColor="#000000"
-                                    >
-                                        Original
-                                    </Text>
-                                </Billboard>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+                            {meshGeometry && meshTransform && (
+                                <group position={[showSideBySide ? -offsetX : 0, 0, 0]}>
+                                    {showSideBySide && (
+                                        <Billboard position={[0, -30, 10]}>
+                                            <Text
+                                                fontSize={5}
+                                                color="#ffffff"
+                                                anchorX="center"
+                                                anchorY="bottom"
+                                                outlineWidth={0.3}
+                                                outlineColor="#000000"
+                                            >
+                                                Original
+                                            </Text>
+                                        </Billboard>
+                                    )}
+                                    {intersectionFaces ? (
+                                        <STLInteractiveViewer
+                                            geometry={meshGeometry}
+                                            transform={meshTransform}
+                                            highlightedFaces={highlightedFaces}
+                                            highlightColor={selectedCluster === null ? CLUSTER_COLORS.all : CLUSTER_COLORS.selected}
+                                            onFaceClick={onIntersectionFaceClick}
+                                        />
+                                    ) : (
+                                        <STLViewer geometry={meshGeometry} transform={meshTransform} />
+                                    )}
+                                    {intersectionSegments && intersectionSegments.length > 0 && (
+                                        <IntersectionLines
+                                            segments={intersectionSegments}
+                                            transform={meshTransform}
+                                        />
+                                    )}
+                                </group>
                             )}
-                            <STLViewer filename={selectedFile} />
-                            {intersectionSegments && intersectionSegments.length > 0 && (
-                                <IntersectionLines
-                                    segments={intersectionSegments}
-                                    filename={selectedFile}
-                                />
+                            {repairedStl && meshTransform && (
+                                <group position={[offsetX, 0, 0]}>
+                                    <Billboard position={[0, -30, 10]}>
+                                        <Text
+                                            fontSize={5}
+                                            color="#4ade80"
+                                            anchorX="center"
+                                            anchorY="bottom"
+                                            outlineWidth={0.3}
+                                            outlineColor="#000000"
+                                        >
+                                            Repaired
+                                        </Text>
+                                    </Billboard>
+                                    <STLBufferViewer data={repairedStl} transform={meshTransform} />
+                                </group>
                             )}
-                        </group>
-                    )}
-                    {repairedStl && (
-                        <group position={[offsetX, 0, 0]}>
-                            <Billboard position={[0, -30, 10]}>
-                                <Text
-                                    fontSize={5}
-                                    color="#4ade80"
-                                    anchorX="center"
-                                    anchorY="bottom"
-                                    outlineWidth={0.3}
-                                    outlineColor="#000000"
-                                >
-                                    Repaired
-                                </Text>
-                            </Billboard>
-                            <STLBufferViewer data={repairedStl} />
-                        </group>
-                    )}
-                </Canvas>
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
             </CanvasContainer>
 
             {/* ---- Action buttons ---- */}
@@ -254,19 +401,61 @@ function BasicsPage() {
                             : `⚠ ${intersectionCount} intersection(s)`}
                     </span>
                 )}
+                {intersectionFaces && (
+                    <IntersectionClusterPanel
+                        clusters={intersectionFaces.clusters}
+                        selected={selectedCluster}
+                        onSelect={setSelectedCluster}
+                        onRepair={onRepairCluster}
+                        disabled={!meshData || isBusy}
+                    />
+                )}
+                {repairedStl && (
+                    <ResultCard
+                        title={repairedLabel || 'Repaired'}
+                        color="#4ade80"
+                        details={[
+                            `${triangleCountFromStl(repairedStl)?.toLocaleString() ?? '?'} faces`,
+                            ...(repairReport ?? []).map((r) =>
+                                `${r.label}: ${r.enabled ? `${r.changed.toLocaleString()} ${r.unit}` : 'off'}`,
+                            ),
+                        ]}
+                    >
+                        <MeshDownloadButton
+                            data={repairedStl}
+                            name={`${exportName}_repaired`}
+                            disabled={isBusy}
+                        />
+                    </ResultCard>
+                )}
+                {repairedStl && (
+                    <HelloButton
+                        onClick={() => commit(repairedStl, repairedLabel)}
+                        disabled={isBusy}
+                        text="Use Repaired Mesh"
+                    />
+                )}
+                {isBusy && (
+                    <HelloButton onClick={cancellable.cancel} text="Cancel" />
+                )}
                 <HelloButton
                     onClick={onDetectIntersections}
-                    disabled={!selectedFile || isBusy}
+                    disabled={!meshData || isBusy}
                     text={isDetecting ? 'Detecting…' : 'Detect Intersections'}
                 />
                 <HelloButton
                     onClick={onRepairIntersections}
-                    disabled={!selectedFile || isBusy}
+                    disabled={!meshData || isBusy}
                     text={isRepairing ? 'Repairing…' : 'Repair Intersections'}
                 />
+                <HelloButton
+                    onClick={onFullRepair}
+                    disabled={!meshData || isBusy}
+                    text={isFullRepairing ? 'Repairing…' : 'Full Repair'}
+                />
                 <HelloButton
                     onClick={onFillHoles}
-                    disabled={!selectedFile || isBusy}
+                    disabled={!meshData || isBusy}
                     text={isFilling ? 'Filling…' : 'Fill Holes'}
                 />
             </div>
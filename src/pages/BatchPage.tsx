@@ -0,0 +1,564 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Navbar from '../components/Navbar'
+import HelloButton from '../components/HelloButton'
+import FileDropZone from '../components/FileDropZone'
+import { FillHolesClient } from '../lib/fillHolesClient'
+import { SelfIntersectionsClient } from '../lib/selfIntersectionsClient'
+import { SimplificationClient } from '../lib/simplificationClient'
+import { SmoothingClient } from '../lib/smoothingClient'
+import type { SmoothingMethod } from '../lib/smoothingClient'
+import { MeshImportClient } from '../lib/meshImportClient'
+import { MeshAnalysisClient } from '../lib/meshAnalysisClient'
+import { defaultPoolSize } from '../lib/rpc/workerPool'
+import {
+    PipelineStep,
+    STEP_LABELS,
+    createStep,
+    describeStep,
+    parsePipeline,
+} from '../lib/pipeline'
+import {
+    BATCH_COLUMNS,
+    BatchClients,
+    BatchColumnKey,
+    BatchConfig,
+    BatchFileResult,
+    batchCellValue,
+    batchOutputsZip,
+    batchReportCsv,
+    batchReportJson,
+    filePath,
+    initialBatchRows,
+    runBatch,
+    sortBatchRows,
+} from '../lib/batch'
+import { MESH_EXPORT_FORMATS, MeshExportFormat } from '../lib/meshExport'
+import { MESH_FILE_ACCEPT, filterMeshFiles } from '../lib/meshFiles'
+import { downloadBlob, downloadText } from '../lib/download'
+import { useCancellable } from '../hooks/useCancellable'
+
+const SMOOTHING_METHODS: { value: SmoothingMethod; label: string }[] = [
+    { value: 'laplacian', label: 'Laplacian' },
+    { value: 'taubin', label: 'Taubin' },
+    { value: 'laplacianHC', label: 'Laplacian HC' },
+    { value: 'tangentialRelaxation', label: 'Tangential Relaxation' },
+]
+
+const STATUS_COLORS: Record<BatchFileResult['status'], string> = {
+    queued: '#94a3b8',
+    running: '#facc15',
+    done: '#22c55e',
+    failed: '#ef4444',
+    cancelled: '#f59e0b',
+}
+
+/* ---- Shared inline styles ---- */
+const panelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 10,
+    background: 'rgba(15,23,42,0.85)',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 10,
+    padding: 12,
+    color: '#cbd5e1',
+    fontSize: 13,
+}
+
+const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    flexWrap: 'wrap',
+}
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '3px 10px',
+    borderRadius: 6,
+    border: '1px solid rgba(148,163,184,0.25)',
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e2e8f0',
+    fontSize: 12,
+    cursor: 'pointer',
+}
+
+const inputStyle: React.CSSProperties = {
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e5e7eb',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 6,
+    padding: '3px 6px',
+    fontSize: 12,
+}
+
+const cellStyle: React.CSSProperties = {
+    padding: '5px 8px',
+    borderBottom: '1px solid rgba(148,163,184,0.15)',
+    whiteSpace: 'nowrap',
+}
+
+function formatCell(row: BatchFileResult, key: BatchColumnKey): string {
+    const v = batchCellValue(row, key)
+    if (v === null) return key === 'status' ? '' : '—'
+    if (key === 'status' && row.status === 'running' && row.stage) return row.stage
+    return typeof v === 'number' ? v.toLocaleString() : v
+}
+
+function BatchPage() {
+    const [files, setFiles] = useState<File[]>([])
+    const [rows, setRows] = useState<BatchFileResult[]>([])
+
+    // Operations
+    const [detect, setDetect] = useState(true)
+    const [repair, setRepair] = useState(false)
+    const [fill, setFill] = useState(true)
+    const [simplify, setSimplify] = useState(false)
+    const [targetRatio, setTargetRatio] = useState(0.5)
+    const [smooth, setSmooth] = useState(false)
+    const [smoothMethod, setSmoothMethod] = useState<SmoothingMethod>('taubin')
+    const [smoothIterations, setSmoothIterations] = useState(5)
+    /** A saved pipeline replaces the step toggles while loaded */
+    const [loadedPipeline, setLoadedPipeline] = useState<{ name: string; steps: PipelineStep[] } | null>(null)
+
+    const [isRunning, setIsRunning] = useState(false)
+    const [isZipping, setIsZipping] = useState(false)
+    const [status, setStatus] = useState('')
+    const [error, setError] = useState('')
+    const [sortKey, setSortKey] = useState<BatchColumnKey>('path')
+    const [sortDesc, setSortDesc] = useState(false)
+    const [zipFormat, setZipFormat] = useState<MeshExportFormat>('stl-binary')
+    /** Configuration of the last run, recorded in the JSON report */
+    const [lastConfig, setLastConfig] = useState<BatchConfig | null>(null)
+
+    const clientsRef = useRef<BatchClients | null>(null)
+    const cancellable = useCancellable()
+    const filesInputRef = useRef<HTMLInputElement>(null)
+    const folderInputRef = useRef<HTMLInputElement>(null)
+    const pipelineInputRef = useRef<HTMLInputElement>(null)
+
+    // Pooled clients: several files are processed side by side
+    useEffect(() => {
+        const clients: BatchClients = {
+            import: new MeshImportClient(),
+            fillHoles: new FillHolesClient({ pool: true }),
+            selfIntersections: new SelfIntersectionsClient({ pool: true }),
+            simplification: new SimplificationClient({ pool: true }),
+            smoothing: new SmoothingClient({ pool: true }),
+            analysis: new MeshAnalysisClient({ pool: true }),
+        }
+        clientsRef.current = clients
+        return () => {
+            clientsRef.current = null
+            clients.import.dispose()
+            clients.fillHoles.dispose()
+            clients.selfIntersections.dispose()
+            clients.simplification.dispose()
+            clients.smoothing.dispose()
+            clients.analysis.dispose()
+        }
+    }, [])
+
+    // React has no prop for directory picking
+    useEffect(() => {
+        folderInputRef.current?.setAttribute('webkitdirectory', '')
+    }, [])
+
+    const steps = useMemo<PipelineStep[]>(() => {
+        if (loadedPipeline) return loadedPipeline.steps
+        const list: PipelineStep[] = []
+        if (repair) list.push(createStep('repairIntersections'))
+        if (fill) list.push(createStep('fillHoles'))
+        if (simplify) {
+            const s = createStep('simplify')
+            if (s.kind === 'simplify') s.params.targetRatio = targetRatio
+            list.push(s)
+        }
+        if (smooth) {
+            const s = createStep('smooth')
+            if (s.kind === 'smooth') {
+                s.params.method = smoothMethod
+                s.params.iterations = smoothIterations
+            }
+            list.push(s)
+        }
+        return list
+    }, [loadedPipeline, repair, fill, simplify, targetRatio, smooth, smoothMethod, smoothIterations])
+
+    const sortedRows = useMemo(() => sortBatchRows(rows, sortKey, sortDesc), [rows, sortKey, sortDesc])
+    const hasOutputs = rows.some((r) => r.output)
+    const counts = useMemo(() => {
+        const c = { done: 0, failed: 0 }
+        for (const r of rows) if (r.status in c) c[r.status as keyof typeof c]++
+        return c
+    }, [rows])
+
+    // ── Files ───────────────────────────────────────────────────────────
+
+    function addFiles(picked: Iterable<File>) {
+        const meshes = filterMeshFiles(picked)
+        if (meshes.length === 0) {
+            setError(`No mesh files found (accepted: ${MESH_FILE_ACCEPT})`)
+            return
+        }
+        setError('')
+        setStatus('')
+        // Skip files already in the list
+        const seen = new Set(files.map((f) => `${filePath(f)}:${f.size}`))
+        const next = [...files, ...meshes.filter((f) => !seen.has(`${filePath(f)}:${f.size}`))]
+        setFiles(next)
+        setRows(initialBatchRows(next))
+    }
+
+    function onClearFiles() {
+        setFiles([])
+        setRows([])
+        setStatus('')
+        setError('')
+    }
+
+    async function onLoadPipeline(file: File) {
+        try {
+            const parsed = parsePipeline(await file.text())
+            setLoadedPipeline({ name: parsed.name || file.name, steps: parsed.steps })
+            setError('')
+        } catch (e: any) {
+            setError(String(e?.message || e))
+        }
+    }
+
+    // ── Run ─────────────────────────────────────────────────────────────
+
+    async function onRun() {
+        const clients = clientsRef.current
+        if (!clients || isRunning || files.length === 0) return
+
+        const config: BatchConfig = { detectIntersections: detect, steps }
+        setIsRunning(true)
+        setError('')
+        setLastConfig(config)
+        setRows(initialBatchRows(files))
+        setStatus(`Processing ${files.length} file(s)…`)
+
+        const startMs = performance.now()
+        const result = await runBatch(files, config, clients, {
+            concurrency: defaultPoolSize(),
+            signal: cancellable.begin(),
+            onUpdate: (row) =>
+                setRows((prev) => {
+                    const next = [...prev]
+                    next[row.index] = row
+                    return next
+                }),
+        })
+        const failed = result.filter((r) => r.status === 'failed').length
+        const cancelled = result.filter((r) => r.status === 'cancelled').length
+        setStatus(
+            `Finished in ${((performance.now() - startMs) / 1000).toFixed(1)} s — ` +
+                `${result.length - failed - cancelled} done, ${failed} failed` +
+                (cancelled ? `, ${cancelled} cancelled` : ''),
+        )
+        setIsRunning(false)
+    }
+
+    // ── Export ──────────────────────────────────────────────────────────
+
+    function onSort(key: BatchColumnKey) {
+        if (key === sortKey) setSortDesc((d) => !d)
+        else {
+            setSortKey(key)
+            setSortDesc(false)
+        }
+    }
+
+    function onExportCsv() {
+        downloadText(batchReportCsv(sortedRows), 'batch-report.csv', 'text/csv')
+    }
+
+    function onExportJson() {
+        const config = lastConfig ?? { detectIntersections: detect, steps }
+        downloadText(batchReportJson(sortedRows, config), 'batch-report.json', 'application/json')
+    }
+
+    async function onDownloadZip() {
+        setIsZipping(true)
+        setError('')
+        try {
+            downloadBlob(await batchOutputsZip(sortedRows, zipFormat), 'batch-outputs.zip')
+        } catch (e: any) {
+            console.error('[Batch] zip failed:', e)
+            setError(String(e?.message || e))
+        } finally {
+            setIsZipping(false)
+        }
+    }
+
+    // ── Render ──────────────────────────────────────────────────────────
+
+    const canEdit = !isRunning
+
+    return (
+        <>
+            <Navbar pageTitle="Batch" showBack />
+            <FileDropZone onFilesDropped={addFiles} label="Drop mesh files to add them to the batch">
+                <div
+                    style={{
+                        display: 'flex',
+                        gap: 16,
+                        padding: '100px 16px 16px',
+                        boxSizing: 'border-box',
+                        minHeight: '100vh',
+                        alignItems: 'flex-start',
+                    }}
+                >
+                    {/* ---- Configuration (left) ---- */}
+                    <div style={{ ...panelStyle, width: 320, flexShrink: 0 }}>
+                        <strong style={{ color: '#e2e8f0' }}>Files</strong>
+                        <div style={rowStyle}>
+                            <button type="button" style={smallButtonStyle} disabled={!canEdit} onClick={() => filesInputRef.current?.click()}>
+                                Add files…
+                            </button>
+                            <button type="button" style={smallButtonStyle} disabled={!canEdit} onClick={() => folderInputRef.current?.click()}>
+                                Add folder…
+                            </button>
+                            {files.length > 0 && (
+                                <button type="button" style={smallButtonStyle} disabled={!canEdit} onClick={onClearFiles}>
+                                    Clear
+                                </button>
+                            )}
+                            <input
+                                ref={filesInputRef}
+                                type="file"
+                                multiple
+                                accept={MESH_FILE_ACCEPT}
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    const picked = Array.from(e.target.files ?? [])
+                                    e.target.value = ''
+                                    if (picked.length > 0) addFiles(picked)
+                                }}
+                            />
+                            <input
+                                ref={folderInputRef}
+                                type="file"
+                                multiple
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    const picked = Array.from(e.target.files ?? [])
+                                    e.target.value = ''
+                                    if (picked.length > 0) addFiles(picked)
+                                }}
+                            />
+                        </div>
+                        <span style={{ color: '#64748b', fontSize: 12 }}>
+                            {files.length === 0
+                                ? 'Pick files or a folder, or drop files here.'
+                                : `${files.length} file(s), ${(files.reduce((n, f) => n + f.size, 0) / 1e6).toFixed(1)} MB`}
+                        </span>
+
+                        <strong style={{ color: '#e2e8f0' }}>Checks</strong>
+                        <label style={rowStyle}>
+                            <input type="checkbox" checked={detect} disabled={!canEdit} onChange={(e) => setDetect(e.target.checked)} style={{ accentColor: '#FFB500' }} />
+                            Detect self-intersections
+                        </label>
+
+                        <div style={{ ...rowStyle, justifyContent: 'space-between' }}>
+                            <strong style={{ color: '#e2e8f0' }}>Processing</strong>
+                            <span style={{ display: 'flex', gap: 4 }}>
+                                <button type="button" style={smallButtonStyle} disabled={!canEdit} onClick={() => pipelineInputRef.current?.click()}>
+                                    Load pipeline…
+                                </button>
+                                {loadedPipeline && (
+                                    <button type="button" style={smallButtonStyle} disabled={!canEdit} onClick={() => setLoadedPipeline(null)}>
+                                        Unload
+                                    </button>
+                                )}
+                            </span>
+                            <input
+                                ref={pipelineInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0]
+                                    e.target.value = ''
+                                    if (file) void onLoadPipeline(file)
+                                }}
+                            />
+                        </div>
+
+                        {loadedPipeline ? (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                                <span style={{ color: '#FFB500' }}>Pipeline “{loadedPipeline.name}”</span>
+                                {loadedPipeline.steps.length === 0 && (
+                                    <span style={{ color: '#64748b', fontSize: 12 }}>No steps — checks only.</span>
+                                )}
+                                {loadedPipeline.steps.map((s, i) => (
+                                    <span key={s.id} style={{ fontSize: 12 }}>
+                                        {i + 1}. {STEP_LABELS[s.kind]}{' '}
+                                        <span style={{ color: '#64748b' }}>{describeStep(s)}</span>
+                                    </span>
+                                ))}
+                            </div>
+                        ) : (
+                            <>
+                                <label style={rowStyle}>
+                                    <input type="checkbox" checked={repair} disabled={!canEdit} onChange={(e) => setRepair(e.target.checked)} style={{ accentColor: '#FFB500' }} />
+                                    {STEP_LABELS.repairIntersections}
+                                </label>
+                                <label style={rowStyle}>
+                                    <input type="checkbox" checked={fill} disabled={!canEdit} onChange={(e) => setFill(e.target.checked)} style={{ accentColor: '#FFB500' }} />
+                                    {STEP_LABELS.fillHoles}
+                                </label>
+                                <label style={rowStyle}>
+                                    <input type="checkbox" checked={simplify} disabled={!canEdit} onChange={(e) => setSimplify(e.target.checked)} style={{ accentColor: '#FFB500' }} />
+                                    {STEP_LABELS.simplify}
+                                    <input
+                                        type="range"
+                                        min={0.01}
+                                        max={1}
+                                        step={0.01}
+                                        value={targetRatio}
+                                        disabled={!canEdit || !simplify}
+                                        onChange={(e) => setTargetRatio(Number(e.target.value))}
+                                        style={{ flex: 1, accentColor: '#FFB500' }}
+                                    />
+                                    <span style={{ color: '#FFB500', minWidth: 36, textAlign: 'right' }}>
+                                        {Math.round(targetRatio * 100)}%
+                                    </span>
+                                </label>
+                                <label style={rowStyle}>
+                                    <input type="checkbox" checked={smooth} disabled={!canEdit} onChange={(e) => setSmooth(e.target.checked)} style={{ accentColor: '#FFB500' }} />
+                                    {STEP_LABELS.smooth}
+                                    <select
+                                        value={smoothMethod}
+                                        disabled={!canEdit || !smooth}
+                                        onChange={(e) => setSmoothMethod(e.target.value as SmoothingMethod)}
+                                        style={inputStyle}
+                                    >
+                                        {SMOOTHING_METHODS.map((m) => (
+                                            <option key={m.value} value={m.value}>{m.label}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={100}
+                                        value={smoothIterations}
+                                        disabled={!canEdit || !smooth}
+                                        onChange={(e) => setSmoothIterations(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+                                        style={{ ...inputStyle, width: 52 }}
+                                    />
+                                    iter
+                                </label>
+                                <span style={{ color: '#64748b', fontSize: 11 }}>
+                                    Steps run in the order listed. Load a pipeline saved on the Pipeline page for other orders or parameters.
+                                </span>
+                            </>
+                        )}
+
+                        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+                            {isRunning && <HelloButton onClick={cancellable.cancel} text="Cancel" />}
+                            <HelloButton
+                                onClick={onRun}
+                                disabled={files.length === 0 || isRunning || (!detect && steps.length === 0)}
+                                text={isRunning ? 'Running…' : 'Run Batch'}
+                            />
+                        </div>
+                    </div>
+
+                    {/* ---- Results (right) ---- */}
+                    <div style={{ ...panelStyle, flex: 1, minWidth: 0 }}>
+                        <div style={{ ...rowStyle, justifyContent: 'space-between' }}>
+                            <span>
+                                {status && <span>{status}</span>}
+                                {!status && rows.length > 0 && (
+                                    <span style={{ color: '#64748b' }}>
+                                        {counts.done} done · {counts.failed} failed · {rows.length} total
+                                    </span>
+                                )}
+                            </span>
+                            <span style={rowStyle}>
+                                <button type="button" style={smallButtonStyle} disabled={rows.length === 0 || isRunning} onClick={onExportCsv}>
+                                    Export CSV
+                                </button>
+                                <button type="button" style={smallButtonStyle} disabled={rows.length === 0 || isRunning} onClick={onExportJson}>
+                                    Export JSON
+                                </button>
+                                <select
+                                    value={zipFormat}
+                                    onChange={(e) => setZipFormat(e.target.value as MeshExportFormat)}
+                                    disabled={!hasOutputs || isRunning || isZipping}
+                                    style={inputStyle}
+                                >
+                                    {MESH_EXPORT_FORMATS.map((f) => (
+                                        <option key={f.format} value={f.format}>{f.label}</option>
+                                    ))}
+                                </select>
+                                <button type="button" style={smallButtonStyle} disabled={!hasOutputs || isRunning || isZipping} onClick={onDownloadZip}>
+                                    {isZipping ? 'Zipping…' : 'Download outputs (.zip)'}
+                                </button>
+                            </span>
+                        </div>
+                        {error && <div style={{ color: '#fca5a5' }}><strong>Error:</strong> {error}</div>}
+
+                        {rows.length === 0 ? (
+                            <span style={{ color: '#64748b' }}>No files yet.</span>
+                        ) : (
+                            <div style={{ overflowX: 'auto' }}>
+                                <table style={{ borderCollapse: 'collapse', width: '100%', fontSize: 12 }}>
+                                    <thead>
+                                        <tr>
+                                            {BATCH_COLUMNS.map((c) => (
+                                                <th
+                                                    key={c.key}
+                                                    onClick={() => onSort(c.key)}
+                                                    style={{
+                                                        ...cellStyle,
+                                                        textAlign: c.numeric ? 'right' : 'left',
+                                                        color: sortKey === c.key ? '#FFB500' : '#e2e8f0',
+                                                        cursor: 'pointer',
+                                                        userSelect: 'none',
+                                                    }}
+                                                >
+                                                    {c.label}
+                                                    {sortKey === c.key ? (sortDesc ? ' ▼' : ' ▲') : ''}
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {sortedRows.map((row) => (
+                                            <tr key={row.index}>
+                                                {BATCH_COLUMNS.map((c) => (
+                                                    <td
+                                                        key={c.key}
+                                                        title={c.key === 'error' ? row.error : undefined}
+                                                        style={{
+                                                            ...cellStyle,
+                                                            textAlign: c.numeric ? 'right' : 'left',
+                                                            color:
+                                                                c.key === 'status' ? STATUS_COLORS[row.status]
+                                                                    : c.key === 'error' ? '#fca5a5'
+                                                                        : '#cbd5e1',
+                                                            maxWidth: c.key === 'error' || c.key === 'path' ? 320 : undefined,
+                                                            overflow: 'hidden',
+                                                            textOverflow: 'ellipsis',
+                                                        }}
+                                                    >
+                                                        {formatCell(row, c.key)}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </FileDropZone>
+        </>
+    )
+}
+
+export default BatchPage
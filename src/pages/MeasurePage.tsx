@@ -0,0 +1,309 @@
+import { Canvas } from '@react-three/fiber'
+import { useEffect, useRef, useState } from 'react'
+import Navbar from '../components/Navbar'
+import HelloButton from '../components/HelloButton'
+import Scene from '../components/Scene'
+import STLInteractiveViewer, { FaceClickInfo } from '../components/STLInteractiveViewer'
+import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import MeasurementOverlay from '../components/MeasurementOverlay'
+import MeasurementListPanel from '../components/MeasurementListPanel'
+import WasmSpinner from '../components/WasmSpinner'
+import { MeshAnalysisClient } from '../lib/meshAnalysisClient'
+import { SurfacePoint, Vec3 } from '../lib/meshAnalysis'
+import {
+    MEASUREMENT_TOOLS,
+    MeasurementKind,
+    angleDegrees,
+    distance,
+    fitCircle,
+    measurementsCsv,
+} from '../lib/measurements'
+import { isAbortError } from '../lib/rpc/protocol'
+import { toStl } from '../lib/viewerTransform'
+import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { useMeasurements } from '../hooks/useMeasurements'
+import { baseName, downloadText } from '../lib/download'
+
+const COMPLEX_STL_FILES = [
+    'complex/bony_penvis_mri.stl',
+    'complex/Duck_mesh.stl',
+    'complex/UNICORN_mesh_NoTexture.stl',
+    'complex/Warrior with Hammer pose 2_28mm_supported.stl',
+]
+
+function MeasurePage() {
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
+    const { measurements, add, rename, remove, clear } = useMeasurements(meshFile.selectedKey)
+    const [kind, setKind] = useState<MeasurementKind>('distance')
+    const [picks, setPicks] = useState<SurfacePoint[]>([])
+    const [selectedId, setSelectedId] = useState<number | null>(null)
+    const [isTracing, setIsTracing] = useState(false)
+    const [status, setStatus] = useState('')
+    const [error, setError] = useState('')
+
+    const clientRef = useRef<MeshAnalysisClient | null>(null)
+    const cancellable = useCancellable()
+    const tool = MEASUREMENT_TOOLS.find((t) => t.kind === kind)!
+
+    // Lifecycle
+    useEffect(() => {
+        const c = new MeshAnalysisClient()
+        clientRef.current = c
+        return () => {
+            clientRef.current = null
+            c.dispose()
+        }
+    }, [])
+
+    // Picks belong to the mesh they were made on
+    useEffect(() => {
+        setPicks([])
+        setSelectedId(null)
+        setStatus('')
+        setError('')
+    }, [meshData])
+
+    async function measure(points: SurfacePoint[]) {
+        const p = points.map((s) => s.point)
+        setError('')
+        try {
+            switch (kind) {
+                case 'distance':
+                    add({ kind, picks: points, value: distance(p[0], p[1]) })
+                    break
+                case 'angle':
+                    add({ kind, picks: points, value: angleDegrees(p[0], p[1], p[2]) })
+                    break
+                case 'circle': {
+                    const circle = fitCircle(p)
+                    add({ kind, picks: points, value: circle.radius, circle })
+                    break
+                }
+                case 'path': {
+                    const client = clientRef.current
+                    if (!meshData || !client) return
+                    setIsTracing(true)
+                    setStatus('Tracing path over the surface…')
+                    const path = await client.surfacePath(meshData, points, {
+                        onStatus: (s) => setStatus(s),
+                        signal: cancellable.begin(),
+                    })
+                    add({ kind, picks: points, value: path.length, path: Array.from(path.points) })
+                    break
+                }
+            }
+            setPicks([])
+            setStatus('')
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Path tracing cancelled')
+                return
+            }
+            console.error('[Measure] failed:', e)
+            setError(String(e?.message || e))
+            setStatus('')
+        } finally {
+            setIsTracing(false)
+        }
+    }
+
+    function onFaceClick(info: FaceClickInfo) {
+        if (!meshTransform || isTracing) return
+        const p = toStl(meshTransform, info.point)
+        const next = [...picks, { face: info.faceIndex, point: [p.x, p.y, p.z] as Vec3 }]
+        if (tool.maxPoints !== null && next.length >= tool.maxPoints) void measure(next)
+        else setPicks(next)
+    }
+
+    function onSelectTool(next: MeasurementKind) {
+        setKind(next)
+        setPicks([])
+        setError('')
+    }
+
+    function onExportCsv() {
+        downloadText(measurementsCsv(measurements), `${exportName}_measurements.csv`, 'text/csv')
+    }
+
+    const pendingPoints = picks.map((s) => s.point)
+
+    return (
+        <>
+            <Navbar pageTitle="Measure" showBack />
+            <FileSelector
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
+
+            {/* Status / Error panel */}
+            {(status || error) && (
+                <div className="ui-panel" style={{ top: '180px' }}>
+                    {status && (
+                        <div>
+                            <strong>Status:</strong> {status}
+                        </div>
+                    )}
+                    {error && (
+                        <div style={{ color: '#fca5a5' }}>
+                            <strong>Error:</strong> {error}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Processing overlay */}
+            {isTracing && (
+                <WasmSpinner label={status || 'Processing…'} onCancel={cancellable.cancel} />
+            )}
+
+            <CanvasContainer>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+                            {meshGeometry && meshTransform && (
+                                <>
+                                    <STLInteractiveViewer
+                                        geometry={meshGeometry}
+                                        transform={meshTransform}
+                                        onFaceClick={onFaceClick}
+                                    />
+                                    <MeasurementOverlay
+                                        measurements={measurements}
+                                        pending={pendingPoints}
+                                        selectedId={selectedId}
+                                        transform={meshTransform}
+                                    />
+                                </>
+                            )}
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
+            </CanvasContainer>
+
+            {/* ---- Controls (bottom‑right) ---- */}
+            <div
+                style={{
+                    position: 'fixed',
+                    right: 16,
+                    bottom: 16,
+                    zIndex: 2000,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 8,
+                    alignItems: 'flex-end',
+                }}
+            >
+                {measurements.length > 0 && (
+                    <MeasurementListPanel
+                        measurements={measurements}
+                        selectedId={selectedId}
+                        onSelect={setSelectedId}
+                        onRename={rename}
+                        onRemove={(id) => {
+                            remove(id)
+                            if (selectedId === id) setSelectedId(null)
+                        }}
+                        onClear={() => {
+                            clear()
+                            setSelectedId(null)
+                        }}
+                        onExportCsv={onExportCsv}
+                    />
+                )}
+
+                {/* Tool selector */}
+                <div
+                    style={{
+                        display: 'flex',
+                        gap: 6,
+                        background: 'rgba(15,23,42,0.85)',
+                        padding: '6px 10px',
+                        borderRadius: 10,
+                    }}
+                >
+                    {MEASUREMENT_TOOLS.map((t) => (
+                        <button
+                            key={t.kind}
+                            onClick={() => onSelectTool(t.kind)}
+                            disabled={isTracing}
+                            style={{
+                                padding: '4px 12px',
+                                borderRadius: 6,
+                                border: 'none',
+                                cursor: 'pointer',
+                                fontWeight: 600,
+                                fontSize: 12,
+                                background: kind === t.kind ? '#FFB500' : '#334155',
+                                color: kind === t.kind ? '#0f172a' : '#fff',
+                            }}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Hint + pick count */}
+                <span
+                    style={{
+                        color: '#94a3b8',
+                        fontSize: 12,
+                        background: 'rgba(15,23,42,0.85)',
+                        padding: '3px 10px',
+                        borderRadius: 8,
+                    }}
+                >
+                    {tool.hint}
+                    {picks.length > 0 && ` — ${picks.length} picked`}
+                </span>
+
+                {/* Buttons */}
+                {tool.maxPoints === null && picks.length >= tool.minPoints && (
+                    <HelloButton
+                        onClick={() => void measure(picks)}
+                        disabled={isTracing}
+                        text={`Finish ${tool.label} (${picks.length} pts)`}
+                    />
+                )}
+                {picks.length > 0 && (
+                    <HelloButton
+                        onClick={() => setPicks((prev) => prev.slice(0, -1))}
+                        disabled={isTracing}
+                        text="Undo Last"
+                    />
+                )}
+            </div>
+        </>
+    )
+}
+
+export default MeasurePage
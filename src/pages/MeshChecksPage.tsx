@@ -1,13 +1,60 @@
+import { Billboard, Text } from '@react-three/drei'
 import { Canvas } from '@react-three/fiber'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import * as THREE from 'three'
 import Navbar from '../components/Navbar'
 import HelloButton from '../components/HelloButton'
 import Scene from '../components/Scene'
 import STLViewer from '../components/STLViewer'
 import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import WasmSpinner from '../components/WasmSpinner'
+import ResultCard, { ResultCardButton } from '../components/ResultCard'
+import MeshDownloadButton from '../components/MeshDownloadButton'
+import IntersectionLines from '../components/IntersectionLines'
+import EdgeCheckPanel, { EDGE_COLORS } from '../components/EdgeCheckPanel'
+import CheckProfileEditor from '../components/CheckProfileEditor'
+import ViewerCapture, { CaptureViewer } from '../components/ViewerCapture'
+import CheckComparison from '../components/CheckComparison'
+import HoleListPanel, { HOLE_COLORS } from '../components/HoleListPanel'
+import CameraFocus, { CameraFocusTarget } from '../components/CameraFocus'
+import STLBufferViewer from '../components/STLBufferViewer'
 import { FillHolesClient } from '../lib/fillHolesClient'
-import { SelfIntersectionsClient } from '../lib/selfIntersectionsClient'
+import { DetectResult, SelfIntersectionsClient } from '../lib/selfIntersectionsClient'
+import {
+    AnalysisOptions,
+    ComponentsResult,
+    EdgesResult,
+    MeshAnalysisClient,
+    OrientationResult,
+    OverlapsResult,
+} from '../lib/meshAnalysisClient'
+import { EDGE_CATEGORIES, EdgeCategory, HoleFillMethod, HoleLoop } from '../lib/meshAnalysis'
+import {
+    CHECKS,
+    CheckId,
+    CheckMeasurements,
+    CheckProfile,
+    CheckResult,
+    CheckStatus,
+    INITIAL_CHECK,
+    evaluateCheck,
+} from '../lib/meshChecks'
+import { planFixes, runFixAll } from '../lib/fixAll'
+import { isAbortError } from '../lib/rpc/protocol'
 import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { useCheckProfiles } from '../hooks/useCheckProfiles'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { triangleCountFromStl } from '../lib/meshFiles'
+import { buildMeshCheckReport, meshCheckReportHtml, meshCheckReportJson } from '../lib/meshReport'
+import { baseName, downloadText, printHtml } from '../lib/download'
+import { toViewer } from '../lib/viewerTransform'
 
 const COMPLEX_STL_FILES = [
     'complex/bony_penvis_mri.stl',
@@ -16,26 +63,96 @@ const COMPLEX_STL_FILES = [
     'complex/Warrior with Hammer pose 2_28mm_supported.stl',
 ]
 
-// ── Check‑result types ──────────────────────────────────────────────────
+// ── Repair results ──────────────────────────────────────────────────────
 
-type CheckStatus = 'idle' | 'running' | 'pass' | 'fail' | 'error'
+/** Output of one of the page's repair actions, waiting to be downloaded or used */
+interface FixResult {
+    title: string
+    details: string[]
+    output: ArrayBuffer
+    /** Label for the session history */
+    historyLabel: string
+    /** Appended to the export file name */
+    fileSuffix: string
+}
+
+/** What the viewer colours faces by */
+type Highlight = 'none' | 'shells' | 'inverted' | 'overlaps'
+
+const INVERTED_COLOR = new THREE.Color('#ef4444')
+const OVERLAP_COLOR = new THREE.Color('#f59e0b')
+const DUPLICATE_COLOR = new THREE.Color('#d946ef')
+
+/** X offset of the original and repaired meshes when shown side by side */
+const SIDE_BY_SIDE_OFFSET = 40
+
+/** A check's last measurement, graded against the active profile on render */
+type Measured = { [K in CheckId]?: { value: CheckMeasurements[K]; elapsedMs: number } }
+
+/** How each check measures a mesh, keyed so every id returns its own measurement */
+type CheckMeasurers = {
+    [K in CheckId]: (input: ArrayBuffer, opts: AnalysisOptions) => Promise<CheckMeasurements[K]>
+}
 
-interface CheckResult {
-    status: CheckStatus
-    summary: string
-    detail?: string
+/** Grade a check's stored measurement, if it has one */
+function gradeMeasured<K extends CheckId>(id: K, measured: Measured, profile: CheckProfile): CheckResult | null {
+    const m = measured[id]
+    return m ? evaluateCheck(id, m.value, profile, m.elapsedMs) : null
 }
 
-const INITIAL_CHECK: CheckResult = { status: 'idle', summary: '—' }
+/** Measure one check and grade the result straight away */
+async function measureAndGrade<K extends CheckId>(
+    id: K,
+    measure: CheckMeasurers,
+    input: ArrayBuffer,
+    opts: AnalysisOptions,
+    profile: CheckProfile,
+): Promise<CheckResult> {
+    const startMs = performance.now()
+    const value = await measure[id](input, opts)
+    return evaluateCheck(id, value, profile, performance.now() - startMs)
+}
+
+const IDLE_RUNS = Object.fromEntries(CHECKS.map(({ id }) => [id, INITIAL_CHECK])) as Record<CheckId, CheckResult>
+
+/** Check results around a Fix all run */
+interface FixComparison {
+    before: Record<CheckId, CheckResult>
+    after: Record<CheckId, CheckResult>
+}
+
+// ── Report screenshots ──────────────────────────────────────────────────
+
+/** What the viewer shows; screenshots override the user's choice */
+interface ViewerView {
+    highlight: Highlight
+    edges: Record<EdgeCategory, boolean>
+    intersections: boolean
+    /** Draw every hole's boundary, not just the selected ones */
+    allHoles: boolean
+}
 
-// ── Helpers ─────────────────────────────────────────────────────────────
+const NO_EDGES: Record<EdgeCategory, boolean> = { boundary: false, nonManifold: false, short: false, sharp: false }
 
-/** Read triangle count from binary STL header (uint32LE at offset 80). */
-function triangleCountFromStl(buf: ArrayBuffer): number | null {
-    if (buf.byteLength < 84) return null
-    return new DataView(buf).getUint32(80, true)
+/** The view that best shows each check's problem in a report screenshot */
+const REPORT_VIEWS: Record<CheckId, ViewerView> = {
+    holes: { highlight: 'none', edges: NO_EDGES, intersections: false, allHoles: true },
+    intersections: { highlight: 'none', edges: NO_EDGES, intersections: true, allHoles: false },
+    shells: { highlight: 'shells', edges: NO_EDGES, intersections: false, allHoles: false },
+    normals: { highlight: 'inverted', edges: NO_EDGES, intersections: false, allHoles: false },
+    edges: {
+        highlight: 'none',
+        edges: { boundary: true, nonManifold: true, short: true, sharp: true },
+        intersections: false,
+        allHoles: false,
+    },
+    overlaps: { highlight: 'overlaps', edges: NO_EDGES, intersections: false, allHoles: false },
 }
 
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()))
+
+type ReportFormat = 'json' | 'html' | 'print'
+
 // ── Status‑badge colours ────────────────────────────────────────────────
 
 function badgeColors(status: CheckStatus) {
@@ -68,167 +185,447 @@ function statusIcon(status: CheckStatus) {
     }
 }
 
+// ── Shell colours ───────────────────────────────────────────────────────
+
+/** Largest shell keeps the usual mesh blue; the rest step round the hue wheel. */
+function shellColor(index: number): THREE.Color {
+    if (index === 0) return new THREE.Color('#3b82f6')
+    return new THREE.Color().setHSL((0.08 + index * 0.618034) % 1, 0.75, 0.55)
+}
+
+function formatSize(min: number[], max: number[]): string {
+    return max.map((v, d) => (v - min[d]).toPrecision(3)).join(' × ')
+}
+
 // ── Component ───────────────────────────────────────────────────────────
 
 function MeshChecksPage() {
-    const [selectedFile, setSelectedFile] = useState<string>(COMPLEX_STL_FILES[0] ?? '')
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
     const [isRunning, setIsRunning] = useState(false)
 
-    const [holesCheck, setHolesCheck] = useState<CheckResult>(INITIAL_CHECK)
-    const [intersectionsCheck, setIntersectionsCheck] = useState<CheckResult>(INITIAL_CHECK)
+    // Check profile: which checks run and how their measurements are graded
+    const profiles = useCheckProfiles()
+    const profile = profiles.active
+    const [showProfile, setShowProfile] = useState(false)
+    const [panelError, setPanelError] = useState('')
+
+    // Progress, errors and cancellation per check, until a measurement arrives
+    const [runs, setRuns] = useState<Record<CheckId, CheckResult>>(IDLE_RUNS)
+    const [measured, setMeasured] = useState<Measured>({})
+
+    // Per-face check data, shown in the viewer
+    const [shells, setShells] = useState<ComponentsResult | null>(null)
+    const [orientation, setOrientation] = useState<OrientationResult | null>(null)
+    const [overlaps, setOverlaps] = useState<OverlapsResult | null>(null)
+    const [edges, setEdges] = useState<EdgesResult | null>(null)
+    const [intersections, setIntersections] = useState<DetectResult | null>(null)
+    const [holes, setHoles] = useState<HoleLoop[] | null>(null)
+    const [selectedHoles, setSelectedHoles] = useState<Set<number>>(new Set())
+    const [focusedHole, setFocusedHole] = useState<number | null>(null)
+    const [holeFillMethod, setHoleFillMethod] = useState<HoleFillMethod>('planar')
+    const [highlight, setHighlight] = useState<Highlight>('shells')
+    const [visibleEdges, setVisibleEdges] = useState<Record<EdgeCategory, boolean>>({
+        boundary: true,
+        nonManifold: true,
+        short: true,
+        sharp: false,
+    })
+
+    // Repair actions: spinner label while one runs, then its output
+    const [fixing, setFixing] = useState<string | null>(null)
+    const [fix, setFix] = useState<FixResult | null>(null)
+    const [comparison, setComparison] = useState<FixComparison | null>(null)
+
+    // Report export: wall time of the last run, and the view forced while capturing
+    const [runMs, setRunMs] = useState<number | null>(null)
+    const [reportView, setReportView] = useState<ViewerView | null>(null)
+    const [isReporting, setIsReporting] = useState(false)
+    const captureRef = useRef<CaptureViewer | null>(null)
+    const { commit } = useMeshSession()
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
 
-    const fillHolesRef = useRef<FillHolesClient | null>(null)
     const selfIntRef = useRef<SelfIntersectionsClient | null>(null)
+    const analysisRef = useRef<MeshAnalysisClient | null>(null)
+    const fillHolesRef = useRef<FillHolesClient | null>(null)
+    const cancellable = useCancellable()
 
-    // Boot WASM clients once
+    // Boot WASM clients once; pooled so checks never queue behind each other
     useEffect(() => {
-        const fh = new FillHolesClient()
-        fillHolesRef.current = fh
-        const si = new SelfIntersectionsClient()
+        const si = new SelfIntersectionsClient({ pool: true })
         selfIntRef.current = si
+        const an = new MeshAnalysisClient({ pool: true })
+        analysisRef.current = an
+        const fh = new FillHolesClient({ pool: true })
+        fillHolesRef.current = fh
         return () => {
-            fillHolesRef.current = null
-            fh.dispose()
             selfIntRef.current = null
             si.dispose()
+            analysisRef.current = null
+            an.dispose()
+            fillHolesRef.current = null
+            fh.dispose()
         }
     }, [])
 
     // Reset results when file changes
     useEffect(() => {
-        setHolesCheck(INITIAL_CHECK)
-        setIntersectionsCheck(INITIAL_CHECK)
-    }, [selectedFile])
+        setRuns(IDLE_RUNS)
+        setMeasured({})
+        setShells(null)
+        setOrientation(null)
+        setOverlaps(null)
+        setEdges(null)
+        setIntersections(null)
+        setHoles(null)
+        setSelectedHoles(new Set())
+        setFocusedHole(null)
+        setRunMs(null)
+        setFix(null)
+        setComparison(null)
+    }, [meshData])
 
-    // ── Run all checks ──────────────────────────────────────────────────
+    // Measured checks are graded live, so rule edits apply without re-running
+    const results = Object.fromEntries(
+        CHECKS.map(({ id }) => [id, gradeMeasured(id, measured, profile) ?? runs[id]]),
+    ) as Record<CheckId, CheckResult>
+    const enabledChecks = CHECKS.filter(({ id }) => profile[id].enabled)
 
-    async function onRunChecks() {
-        if (!selectedFile || isRunning) return
-        setIsRunning(true)
-        setHolesCheck({ status: 'running', summary: 'Checking…' })
-        setIntersectionsCheck({ status: 'running', summary: 'Checking…' })
+    const view: ViewerView = reportView ?? { highlight, edges: visibleEdges, intersections: true, allHoles: false }
 
-        // Fetch the STL once — both checks share it
-        let inputBuf: ArrayBuffer
-        try {
-            const res = await fetch(`/stl/${selectedFile}`)
-            if (!res.ok) throw new Error(`Fetch failed (${res.status})`)
-            inputBuf = await res.arrayBuffer()
-        } catch (e: any) {
-            const msg = String(e?.message || e)
-            setHolesCheck({ status: 'error', summary: 'Fetch error', detail: msg })
-            setIntersectionsCheck({ status: 'error', summary: 'Fetch error', detail: msg })
-            setIsRunning(false)
-            return
+    // Hole boundaries as line segments: the selected (or, for reports, all) and the focused one
+    const holeLines = useMemo(() => {
+        if (!holes) return null
+        const loops = (keep: (h: HoleLoop) => boolean) => {
+            const segs: number[] = []
+            for (const h of holes) {
+                if (!keep(h)) continue
+                const n = h.points.length / 3
+                for (let i = 0; i < n; i++) {
+                    const j = ((i + 1) % n) * 3
+                    segs.push(h.points[i * 3], h.points[i * 3 + 1], h.points[i * 3 + 2])
+                    segs.push(h.points[j], h.points[j + 1], h.points[j + 2])
+                }
+            }
+            return new Float32Array(segs)
         }
+        return {
+            selected: loops((h) => view.allHoles || selectedHoles.has(h.index)),
+            focused: loops((h) => h.index === focusedHole),
+        }
+    }, [holes, selectedHoles, focusedHole, view.allHoles])
 
-        const inputTris = triangleCountFromStl(inputBuf)
-
-        // Run both checks in parallel
-        const holesPromise = runHolesCheck(inputBuf, inputTris)
-        const intPromise = runIntersectionsCheck(inputBuf)
-        await Promise.allSettled([holesPromise, intPromise])
+    const faceColors = useMemo(() => {
+        const { highlight } = view
+        if (highlight === 'shells' && shells && shells.components.length > 1) {
+            const palette = shells.components.map((c) => shellColor(c.index))
+            const colors = new Float32Array(shells.faceComponent.length * 3)
+            shells.faceComponent.forEach((ci, f) => palette[ci].toArray(colors, f * 3))
+            return colors
+        }
+        if (highlight === 'inverted' && orientation && orientation.invertedFaces > 0) {
+            const base = shellColor(0)
+            const colors = new Float32Array(orientation.faceInverted.length * 3)
+            orientation.faceInverted.forEach((inv, f) => (inv ? INVERTED_COLOR : base).toArray(colors, f * 3))
+            return colors
+        }
+        if (highlight === 'overlaps' && overlaps && overlaps.pairCount > 0) {
+            const palette = [shellColor(0), OVERLAP_COLOR, DUPLICATE_COLOR]
+            const colors = new Float32Array(overlaps.faceOverlap.length * 3)
+            overlaps.faceOverlap.forEach((flag, f) => palette[flag].toArray(colors, f * 3))
+            return colors
+        }
+        return null
+    }, [view.highlight, shells, orientation, overlaps])
 
-        setIsRunning(false)
-    }
+    // ── Run all checks ──────────────────────────────────────────────────
 
-    async function runHolesCheck(inputBuf: ArrayBuffer, inputTris: number | null) {
-        const client = fillHolesRef.current
-        if (!client) {
-            setHolesCheck({ status: 'error', summary: 'Client not ready' })
-            return
-        }
+    /**
+     * Run one check: tracks its progress and errors in `runs` and stores
+     * the measurement it returns in `measured`. Checks can outnumber a
+     * pool's workers; a queued check's time counts from when a worker
+     * picks it up, not from when it was queued.
+     */
+    async function runCheck<K extends CheckId>(
+        id: K,
+        measure: (opts: AnalysisOptions) => Promise<CheckMeasurements[K]>,
+    ) {
+        const setRun = (update: (prev: CheckResult) => CheckResult) =>
+            setRuns((prev) => ({ ...prev, [id]: update(prev[id]) }))
+        setMeasured((prev) => ({ ...prev, [id]: undefined }))
+        setRun(() => ({ status: 'running', summary: 'Checking…' }))
         try {
-            // fillHoles internally calls MeshLib C++ FindHoles() then fills.
-            // By comparing triangle counts we know if holes were found.
-            const startMs = performance.now()
-            const output = await client.fillHoles(inputBuf.slice(0), {
-                onStatus: (s) =>
-                    setHolesCheck((prev) => ({ ...prev, summary: s })),
+            let startMs = performance.now()
+            const value = await measure({
+                onStatus: (s) => setRun((prev) => ({ ...prev, summary: s })),
+                onJobState: (state) => {
+                    if (state !== 'running') return
+                    startMs = performance.now()
+                    setRun((prev) => ({ ...prev, summary: 'Checking…' }))
+                },
             })
             const elapsedMs = performance.now() - startMs
-            const outputTris = triangleCountFromStl(output)
-
-            if (inputTris !== null && outputTris !== null) {
-                const addedTris = outputTris - inputTris
-                if (addedTris > 0) {
-                    setHolesCheck({
-                        status: 'fail',
-                        summary: `Holes detected`,
-                        detail: `MeshLib FindHoles found boundaries — ${addedTris} triangle(s) added to fill (${elapsedMs.toFixed(0)} ms)`,
-                    })
-                } else {
-                    setHolesCheck({
-                        status: 'pass',
-                        summary: 'Watertight — no holes',
-                        detail: `MeshLib FindHoles returned 0 boundaries (${elapsedMs.toFixed(0)} ms)`,
-                    })
-                }
-            } else {
-                // Couldn't read triangle counts — fall back to byte‑size comparison
-                if (output.byteLength !== inputBuf.byteLength) {
-                    setHolesCheck({
-                        status: 'fail',
-                        summary: 'Holes detected',
-                        detail: `Output size differs from input (${elapsedMs.toFixed(0)} ms)`,
-                    })
-                } else {
-                    setHolesCheck({
-                        status: 'pass',
-                        summary: 'Watertight — no holes',
-                        detail: `No change after fill pass (${elapsedMs.toFixed(0)} ms)`,
-                    })
-                }
-            }
+            setMeasured((prev) => ({ ...prev, [id]: { value, elapsedMs } }))
         } catch (e: any) {
-            setHolesCheck({
+            if (isAbortError(e)) {
+                setRun(() => ({ status: 'idle', summary: 'Cancelled' }))
+                return
+            }
+            setRun(() => ({
                 status: 'error',
                 summary: 'Check failed',
                 detail: String(e?.message || e),
-            })
+            }))
         }
     }
 
-    async function runIntersectionsCheck(inputBuf: ArrayBuffer) {
-        const client = selfIntRef.current
-        if (!client) {
-            setIntersectionsCheck({ status: 'error', summary: 'Client not ready' })
-            return
+    /**
+     * How each check measures a mesh. With `show`, the raw results also feed
+     * the viewer and the panels; re-checking a repaired mesh leaves them be.
+     */
+    function checkMeasurers(
+        analysis: MeshAnalysisClient,
+        selfInt: SelfIntersectionsClient,
+        show: boolean,
+    ): CheckMeasurers {
+        return {
+            holes: async (input, opts) => {
+                const r = await analysis.holes(input, opts)
+                if (show) setHoles(r.holes)
+                return { perimeters: r.holes.map((h) => h.perimeter) }
+            },
+            intersections: async (input, opts) => {
+                const r = await selfInt.detect(input, opts)
+                if (show) setIntersections(r)
+                return { pairs: r.count }
+            },
+            shells: async (input, opts) => {
+                const r = await analysis.components(input, opts)
+                if (show) setShells(r)
+                return { components: r.components }
+            },
+            normals: async (input, opts) => {
+                const r = await analysis.orientation(input, opts)
+                if (show) {
+                    setOrientation(r)
+                    if (r.invertedFaces > 0) setHighlight('inverted')
+                }
+                const closedShells = r.shells.filter((sh) => sh.closed).length
+                return {
+                    invertedFaces: r.invertedFaces,
+                    affectedShells: r.shells.filter((sh) => sh.invertedFaces > 0).length,
+                    closedShells,
+                    openShells: r.shells.length - closedShells,
+                }
+            },
+            edges: async (input, opts) => {
+                const thresholds = profile.edges.thresholds
+                const r = await analysis.edges(input, thresholds, opts)
+                if (show) setEdges(r)
+                const counts = Object.fromEntries(
+                    EDGE_CATEGORIES.map(({ category }) => [category, r[category].length / 6]),
+                ) as Record<EdgeCategory, number>
+                return { counts, thresholds }
+            },
+            overlaps: async (input, opts) => {
+                const r = await analysis.overlaps(input, opts)
+                if (show) {
+                    setOverlaps(r)
+                    // Inverted faces, if any, keep the viewer
+                    if (r.pairCount > 0) setHighlight((h) => (h === 'inverted' ? h : 'overlaps'))
+                }
+                return { pairs: r.pairCount, duplicates: r.duplicateCount }
+            },
         }
+    }
+
+    async function onRunChecks() {
+        const analysis = analysisRef.current
+        const selfInt = selfIntRef.current
+        if (!meshData || isRunning || !analysis || !selfInt) return
+        setIsRunning(true)
+        setRuns(IDLE_RUNS)
+        setMeasured({})
+        setShells(null)
+        setOrientation(null)
+        setOverlaps(null)
+        setEdges(null)
+        setIntersections(null)
+        setHoles(null)
+        setSelectedHoles(new Set())
+        setFocusedHole(null)
+        setRunMs(null)
+        setFix(null)
+        setComparison(null)
+
+        // All checks share the in-memory STL; the clients copy it before transfer
+        const input = meshData
+
+        // Run the profile's checks in parallel; Cancel aborts them all
+        const signal = cancellable.begin()
+        const measure = checkMeasurers(analysis, selfInt, true)
+        const startMs = performance.now()
+        await Promise.allSettled(
+            enabledChecks.map(({ id }) => runCheck(id, (opts) => measure[id](input, { ...opts, signal }))),
+        )
+        setRunMs(performance.now() - startMs)
+
+        setIsRunning(false)
+    }
+
+    // ── Fix all ─────────────────────────────────────────────────────────
+
+    const failingChecks = new Set(enabledChecks.filter(({ id }) => results[id].status === 'fail').map(({ id }) => id))
+    const fixPlan = planFixes(failingChecks)
+
+    /**
+     * Repair every failing check in one go, then re-run the profile's checks
+     * on the output for the before/after comparison.
+     */
+    async function onFixAll() {
+        const analysis = analysisRef.current
+        const selfInt = selfIntRef.current
+        const fillHoles = fillHolesRef.current
+        if (!meshData || fixing || !analysis || !selfInt || !fillHoles || fixPlan.length === 0) return
+        const before = results
+        setFixing('Fixing all failing checks…')
+        setFix(null)
+        setComparison(null)
+        setPanelError('')
+        const signal = cancellable.begin()
         try {
-            const startMs = performance.now()
-            const result = await client.detect(inputBuf.slice(0), {
-                onStatus: (s) =>
-                    setIntersectionsCheck((prev) => ({ ...prev, summary: s })),
-            })
-            const elapsedMs = performance.now() - startMs
+            const steps = await runFixAll(
+                meshData,
+                fixPlan,
+                { analysis, fillHoles, selfIntersections: selfInt },
+                {
+                    minAreaRatio: profile.shells.minAreaRatio,
+                    onStepStart: (i, step) => setFixing(`Fix all ${i + 1}/${fixPlan.length}: ${step.label}…`),
+                    signal,
+                },
+            )
+            const output = steps[steps.length - 1].output
 
-            if (result.count === 0) {
-                setIntersectionsCheck({
-                    status: 'pass',
-                    summary: 'No self-intersections',
-                    detail: `MeshLib detect returned 0 pairs (${elapsedMs.toFixed(0)} ms)`,
-                })
-            } else {
-                setIntersectionsCheck({
-                    status: 'fail',
-                    summary: `${result.count} intersection(s)`,
-                    detail: `MeshLib detected ${result.count} self-intersecting face pair(s) (${elapsedMs.toFixed(0)} ms)`,
-                })
+            setFixing('Re-checking repaired mesh…')
+            const measure = checkMeasurers(analysis, selfInt, false)
+            const after = { ...IDLE_RUNS }
+            await Promise.all(
+                enabledChecks.map(async ({ id }) => {
+                    try {
+                        after[id] = await measureAndGrade(id, measure, output, { signal }, profile)
+                    } catch (e: any) {
+                        if (isAbortError(e)) throw e
+                        after[id] = { status: 'error', summary: 'Check failed', detail: String(e?.message || e) }
+                    }
+                }),
+            )
+
+            setComparison({ before, after })
+            setFix({
+                title: 'All fixes applied',
+                details: steps.map(
+                    (r) => `${r.step.label}: ${r.note ?? `${r.inputFaces ?? '?'} → ${r.outputFaces ?? '?'} faces`}`,
+                ),
+                output,
+                historyLabel: `Fixed all: ${steps.map((r) => r.step.label.toLowerCase()).join(', ')}`,
+                fileSuffix: 'fixed',
+            })
+        } catch (e: any) {
+            if (!isAbortError(e)) {
+                console.error('[MeshChecks] fix all failed:', e)
+                setPanelError(`Fix all: ${e?.message || e}`)
             }
+        } finally {
+            setFixing(null)
+        }
+    }
+
+    // ── Repairs ─────────────────────────────────────────────────────────
+
+    /** Run one repair action; failures are reported on the check they fix. */
+    async function runFix(
+        label: string,
+        check: CheckId,
+        run: (client: MeshAnalysisClient, input: ArrayBuffer, signal: AbortSignal) => Promise<FixResult>,
+    ) {
+        const client = analysisRef.current
+        if (!meshData || !client || fixing) return
+        setFixing(label)
+        setComparison(null)
+        setPanelError('')
+        try {
+            setFix(await run(client, meshData, cancellable.begin()))
         } catch (e: any) {
-            setIntersectionsCheck({
-                status: 'error',
-                summary: 'Check failed',
-                detail: String(e?.message || e),
-            })
+            if (!isAbortError(e)) {
+                console.error(`[MeshChecks] ${label} failed:`, e)
+                const name = CHECKS.find((c) => c.id === check)?.label ?? check
+                setPanelError(`${name} repair failed: ${e?.message || e}`)
+            }
+        } finally {
+            setFixing(null)
         }
     }
 
+    function onRemoveNoiseShells() {
+        void runFix('Removing noise shells…', 'shells', async (client, input, signal) => {
+            const r = await client.removeComponents(input, profile.shells.minAreaRatio, { signal })
+            return {
+                title: 'Noise shells removed',
+                details: [`${r.removedComponents} shell(s), ${r.removedFaces.toLocaleString()} face(s) removed`],
+                output: r.output,
+                historyLabel: `Removed ${r.removedComponents} noise shell(s)`,
+                fileSuffix: 'cleaned',
+            }
+        })
+    }
+
+    function onReorient() {
+        void runFix('Reorienting faces…', 'normals', async (client, input, signal) => {
+            const r = await client.reorient(input, { signal })
+            return {
+                title: 'Normals reoriented',
+                details: [`${r.flippedFaces.toLocaleString()} face(s) flipped`],
+                output: r.output,
+                historyLabel: `Reoriented ${r.flippedFaces} face(s)`,
+                fileSuffix: 'reoriented',
+            }
+        })
+    }
+
+    function onFillSelectedHoles() {
+        const selected = [...selectedHoles]
+        void runFix('Filling holes…', 'holes', async (client, input, signal) => {
+            const r = await client.fillHoles(input, selected, holeFillMethod, { signal })
+            return {
+                title: 'Holes filled',
+                details: [`${r.filledHoles} hole(s) filled (${holeFillMethod}), ${r.addedFaces.toLocaleString()} face(s) added`],
+                output: r.output,
+                historyLabel: `Filled ${r.filledHoles} hole(s)`,
+                fileSuffix: 'filled',
+            }
+        })
+    }
+
+    function onRemoveDuplicates() {
+        void runFix('Deleting duplicate faces…', 'overlaps', async (client, input, signal) => {
+            const r = await client.removeDuplicates(input, { signal })
+            return {
+                title: 'Duplicates deleted',
+                details: [`${r.removedFaces.toLocaleString()} duplicate face(s) removed`],
+                output: r.output,
+                historyLabel: `Deleted ${r.removedFaces} duplicate face(s)`,
+                fileSuffix: 'deduplicated',
+            }
+        })
+    }
+
     // ── Overall verdict ─────────────────────────────────────────────────
 
     function overallStatus(): CheckStatus {
-        const checks = [holesCheck, intersectionsCheck]
+        const checks = enabledChecks.map(({ id }) => results[id])
+        if (checks.length === 0) return 'idle'
         if (checks.some((c) => c.status === 'running')) return 'running'
         if (checks.some((c) => c.status === 'error')) return 'error'
         if (checks.every((c) => c.status === 'idle')) return 'idle'
@@ -254,33 +651,166 @@ function MeshChecksPage() {
 
     const verdict = overallStatus()
 
+    // ── Report ──────────────────────────────────────────────────────────
+
+    /** Screenshot each failing check in the view that shows its problem. */
+    async function captureFailures(): Promise<Partial<Record<CheckId, string>>> {
+        const shots: Partial<Record<CheckId, string>> = {}
+        try {
+            for (const { id } of enabledChecks) {
+                if (results[id].status !== 'fail') continue
+                setReportView(REPORT_VIEWS[id])
+                // One frame for React to commit the view, one for the Canvas to draw it
+                await nextFrame()
+                await nextFrame()
+                const capture = captureRef.current
+                if (capture) shots[id] = capture()
+            }
+        } finally {
+            setReportView(null)
+        }
+        return shots
+    }
+
+    async function onExportReport(format: ReportFormat) {
+        if (!meshData || isReporting) return
+        setIsReporting(true)
+        setPanelError('')
+        try {
+            const report = await buildMeshCheckReport({
+                fileName: meshFile.selectedEntry?.name ?? 'mesh.stl',
+                data: meshData,
+                profile,
+                verdict,
+                totalMs: runMs,
+                results,
+                screenshots: await captureFailures(),
+            })
+            if (format === 'json') {
+                downloadText(meshCheckReportJson(report), `${exportName}_report.json`, 'application/json')
+            } else if (format === 'html') {
+                downloadText(meshCheckReportHtml(report), `${exportName}_report.html`, 'text/html')
+            } else {
+                printHtml(meshCheckReportHtml(report))
+            }
+        } catch (e: any) {
+            console.error('[MeshChecks] report export failed:', e)
+            setPanelError(`Report export failed: ${e?.message || e}`)
+        } finally {
+            setIsReporting(false)
+        }
+    }
+
+    // Fix all shows the repaired mesh next to the original
+    const showSideBySide = Boolean(comparison && fix)
+
+    // Frame the focused hole, looking at it from outside the surface
+    const holeFocus = useMemo<CameraFocusTarget | null>(() => {
+        const t = meshTransform
+        const hole = holes?.find((h) => h.index === focusedHole)
+        if (!t || !hole) return null
+        const [cx, cy, cz] = hole.centroid
+        let radius = 0
+        for (let i = 0; i < hole.points.length; i += 3) {
+            radius = Math.max(radius, Math.hypot(hole.points[i] - cx, hole.points[i + 1] - cy, hole.points[i + 2] - cz))
+        }
+        const center = toViewer(t, cx, cy, cz)
+        if (showSideBySide) center.x -= SIDE_BY_SIDE_OFFSET
+        return {
+            center,
+            direction: new THREE.Vector3(...hole.normal),
+            radius: radius * t.scale,
+        }
+    }, [holes, focusedHole, meshTransform, showSideBySide])
+
+    const canReport = !isRunning && (verdict === 'pass' || verdict === 'fail' || verdict === 'error')
+
     // ── Render ──────────────────────────────────────────────────────────
 
     return (
         <>
             <Navbar pageTitle="Mesh Checks" showBack />
             <FileSelector
-                files={COMPLEX_STL_FILES}
-                selectedFile={selectedFile}
-                onFileSelect={setSelectedFile}
-            />
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
 
-            {/* ── Results panel (top‑left) ── */}
-            {verdict !== 'idle' && (
+            {/* ── Profile + results panel (top‑left) ── */}
+            <div
+                style={{
+                    position: 'fixed',
+                    left: 16,
+                    top: 180,
+                    zIndex: 2000,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 6,
+                    minWidth: 320,
+                    maxWidth: 420,
+                    maxHeight: 'calc(100vh - 200px)',
+                    overflowY: 'auto',
+                }}
+            >
+                {/* Active profile */}
                 <div
                     style={{
-                        position: 'fixed',
-                        left: 16,
-                        top: 180,
-                        zIndex: 2000,
                         display: 'flex',
-                        flexDirection: 'column',
-                        gap: 6,
-                        minWidth: 320,
-                        maxWidth: 420,
+                        alignItems: 'center',
+                        gap: 8,
+                        background: 'rgba(15,23,42,0.85)',
+                        border: '1px solid rgba(148,163,184,0.25)',
+                        borderRadius: 10,
+                        padding: '8px 12px',
+                        color: '#94a3b8',
+                        fontSize: 12,
                     }}
                 >
-                    {/* Overall banner */}
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                        Profile
+                        <select
+                            value={profile.name}
+                            onChange={(e) => profiles.select(e.target.value)}
+                            disabled={isRunning}
+                            style={{
+                                background: 'rgba(2,6,23,0.6)',
+                                color: '#e5e7eb',
+                                border: '1px solid rgba(148,163,184,0.25)',
+                                borderRadius: 6,
+                                padding: '2px 4px',
+                                fontSize: 12,
+                            }}
+                        >
+                            {profiles.profiles.map((p) => (
+                                <option key={p.name} value={p.name}>
+                                    {p.name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <span>
+                        {enabledChecks.length} of {CHECKS.length} checks
+                    </span>
+                    <ResultCardButton onClick={() => setShowProfile((v) => !v)}>
+                        {showProfile ? 'Done' : 'Edit'}
+                    </ResultCardButton>
+                </div>
+                {panelError && (
+                    <div style={{ color: '#fca5a5', fontSize: 12, padding: '0 4px' }}>{panelError}</div>
+                )}
+                {showProfile && (
+                    <CheckProfileEditor profiles={profiles} disabled={isRunning} onError={setPanelError} />
+                )}
+
+                {/* Overall banner */}
+                {verdict !== 'idle' && (
                     <div
                         style={{
                             display: 'flex',
@@ -306,109 +836,380 @@ function MeshChecksPage() {
                             {overallLabel()}
                         </span>
                     </div>
+                )}
 
-                    {/* Individual check rows */}
-                    {[
-                        { label: 'Holes', check: holesCheck },
-                        { label: 'Self-Intersections', check: intersectionsCheck },
-                    ].map(({ label, check }) => {
-                        const c = badgeColors(check.status)
-                        return (
+                {/* Individual check rows */}
+                {verdict !== 'idle' && enabledChecks.map(({ id, label }) => {
+                    const check = results[id]
+                    const c = badgeColors(check.status)
+                    return (
+                        <div
+                            key={id}
+                            style={{
+                                display: 'flex',
+                                flexDirection: 'column',
+                                gap: 2,
+                                background: c.bg,
+                                border: `1px solid ${c.border}`,
+                                borderRadius: 10,
+                                padding: '8px 14px',
+                            }}
+                        >
                             <div
-                                key={label}
                                 style={{
                                     display: 'flex',
-                                    flexDirection: 'column',
-                                    gap: 2,
-                                    background: c.bg,
-                                    border: `1px solid ${c.border}`,
-                                    borderRadius: 10,
-                                    padding: '8px 14px',
+                                    alignItems: 'center',
+                                    gap: 8,
                                 }}
                             >
-                                <div
+                                <span
                                     style={{
-                                        display: 'flex',
-                                        alignItems: 'center',
-                                        gap: 8,
+                                        fontSize: 15,
+                                        fontWeight: 700,
+                                        color: c.text,
+                                        minWidth: 18,
+                                        textAlign: 'center',
                                     }}
                                 >
-                                    <span
-                                        style={{
-                                            fontSize: 15,
-                                            fontWeight: 700,
-                                            color: c.text,
-                                            minWidth: 18,
-                                            textAlign: 'center',
-                                        }}
-                                    >
-                                        {statusIcon(check.status)}
-                                    </span>
-                                    <span
-                                        style={{
-                                            color: '#e2e8f0',
-                                            fontWeight: 600,
-                                            fontSize: 13,
-                                        }}
-                                    >
-                                        {label}
-                                    </span>
-                                    <span
-                                        style={{
-                                            marginLeft: 'auto',
-                                            color: c.text,
-                                            fontSize: 13,
-                                            fontWeight: 600,
-                                        }}
-                                    >
-                                        {check.summary}
-                                    </span>
+                                    {statusIcon(check.status)}
+                                </span>
+                                <span
+                                    style={{
+                                        color: '#e2e8f0',
+                                        fontWeight: 600,
+                                        fontSize: 13,
+                                    }}
+                                >
+                                    {label}
+                                </span>
+                                <span
+                                    style={{
+                                        marginLeft: 'auto',
+                                        color: c.text,
+                                        fontSize: 13,
+                                        fontWeight: 600,
+                                    }}
+                                >
+                                    {check.summary}
+                                </span>
+                            </div>
+                            {check.threshold && (
+                                <span
+                                    style={{
+                                        color: '#94a3b8',
+                                        fontSize: 11,
+                                        paddingLeft: 26,
+                                    }}
+                                >
+                                    measured {check.value?.toLocaleString()} · rule {check.threshold}
+                                </span>
+                            )}
+                            {check.detail && (
+                                <span
+                                    style={{
+                                        color: '#94a3b8',
+                                        fontSize: 11,
+                                        paddingLeft: 26,
+                                    }}
+                                >
+                                    {check.detail}
+                                </span>
+                            )}
+                        </div>
+                    )
+                })}
+
+                {/* Fix all: before/after */}
+                {comparison && (
+                    <div
+                        style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: 6,
+                            background: 'rgba(15,23,42,0.85)',
+                            border: '1px solid rgba(148,163,184,0.25)',
+                            borderRadius: 10,
+                            padding: '8px 12px',
+                            color: '#e2e8f0',
+                            fontSize: 12,
+                        }}
+                    >
+                        <span style={{ fontWeight: 700 }}>Fix all: before / after</span>
+                        <CheckComparison checks={enabledChecks} before={comparison.before} after={comparison.after} />
+                    </div>
+                )}
+
+                {/* Viewer highlight + orientation repair */}
+                {(shells || orientation || overlaps) && (
+                    <div
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 8,
+                            flexWrap: 'wrap',
+                            background: 'rgba(15,23,42,0.85)',
+                            border: '1px solid rgba(148,163,184,0.25)',
+                            borderRadius: 10,
+                            padding: '8px 12px',
+                            color: '#94a3b8',
+                            fontSize: 12,
+                        }}
+                    >
+                        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                            Highlight
+                            <select
+                                value={highlight}
+                                onChange={(e) => setHighlight(e.target.value as Highlight)}
+                                style={{
+                                    background: 'rgba(2,6,23,0.6)',
+                                    color: '#e5e7eb',
+                                    border: '1px solid rgba(148,163,184,0.25)',
+                                    borderRadius: 6,
+                                    padding: '2px 4px',
+                                    fontSize: 12,
+                                }}
+                            >
+                                <option value="none">Nothing</option>
+                                <option value="shells">Shells</option>
+                                <option value="inverted">Inverted faces</option>
+                                <option value="overlaps">Overlapping faces</option>
+                            </select>
+                        </label>
+                        {orientation && orientation.invertedFaces > 0 && (
+                            <ResultCardButton onClick={onReorient} disabled={isRunning || !!fixing}>
+                                Flip / Reorient
+                            </ResultCardButton>
+                        )}
+                    </div>
+                )}
+
+                {holes && holes.length > 0 && (
+                    <HoleListPanel
+                        holes={holes}
+                        selected={selectedHoles}
+                        onSelectedChange={setSelectedHoles}
+                        focused={focusedHole}
+                        onFocus={setFocusedHole}
+                        method={holeFillMethod}
+                        onMethodChange={setHoleFillMethod}
+                        onFill={onFillSelectedHoles}
+                        disabled={!meshData || isRunning || !!fixing}
+                    />
+                )}
+
+                {edges && (
+                    <EdgeCheckPanel
+                        edges={edges}
+                        rules={profile.edges.rules}
+                        visible={visibleEdges}
+                        onVisibleChange={setVisibleEdges}
+                    />
+                )}
+
+                {/* Overlapping pairs + duplicate removal */}
+                {overlaps && overlaps.pairCount > 0 && (
+                    <div
+                        style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: 6,
+                            background: 'rgba(15,23,42,0.85)',
+                            border: '1px solid rgba(148,163,184,0.25)',
+                            borderRadius: 10,
+                            padding: '8px 12px',
+                            color: '#e2e8f0',
+                            fontSize: 12,
+                        }}
+                    >
+                        <span style={{ fontWeight: 700 }}>
+                            Overlapping pairs
+                            {overlaps.pairCount > overlaps.pairs.length && (
+                                <span style={{ color: '#94a3b8', fontWeight: 400 }}>
+                                    {' '}(largest {overlaps.pairs.length} of {overlaps.pairCount.toLocaleString()})
+                                </span>
+                            )}
+                        </span>
+                        <div style={{ maxHeight: 140, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+                            {overlaps.pairs.map((pair) => (
+                                <div
+                                    key={`${pair.a}-${pair.b}`}
+                                    style={{ display: 'flex', gap: 6, color: pair.duplicate ? '#f0abfc' : '#fcd34d' }}
+                                >
+                                    <span style={{ minWidth: 120 }}>faces {pair.a} / {pair.b}</span>
+                                    <span style={{ minWidth: 90 }}>area {pair.area.toPrecision(4)}</span>
+                                    {pair.duplicate && <span>duplicate</span>}
                                 </div>
-                                {check.detail && (
-                                    <span
+                            ))}
+                        </div>
+                        {overlaps.duplicateCount > 0 && (
+                            <div>
+                                <ResultCardButton
+                                    onClick={onRemoveDuplicates}
+                                    disabled={!meshData || isRunning || !!fixing}
+                                >
+                                    Delete Duplicates
+                                </ResultCardButton>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Shell list + noise removal */}
+                {shells && (
+                    <div
+                        style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: 6,
+                            background: 'rgba(15,23,42,0.85)',
+                            border: '1px solid rgba(148,163,184,0.25)',
+                            borderRadius: 10,
+                            padding: '8px 12px',
+                            color: '#e2e8f0',
+                            fontSize: 12,
+                        }}
+                    >
+                        <span style={{ fontWeight: 700 }}>Shells</span>
+                        <div style={{ maxHeight: 180, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+                            {shells.components.map((c) => {
+                                const isNoise = c.index > 0 && c.areaRatio < profile.shells.minAreaRatio
+                                return (
+                                    <div
+                                        key={c.index}
                                         style={{
-                                            color: '#94a3b8',
-                                            fontSize: 11,
-                                            paddingLeft: 26,
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            gap: 6,
+                                            color: isNoise ? '#fca5a5' : '#cbd5e1',
                                         }}
+                                        title={`Size ${formatSize(c.bboxMin, c.bboxMax)}`}
                                     >
-                                        {check.detail}
-                                    </span>
-                                )}
-                            </div>
-                        )
-                    })}
-                </div>
-            )}
+                                        <span
+                                            style={{
+                                                width: 10,
+                                                height: 10,
+                                                borderRadius: 2,
+                                                background: `#${shellColor(c.index).getHexString()}`,
+                                                flexShrink: 0,
+                                            }}
+                                        />
+                                        <span style={{ minWidth: 28 }}>#{c.index + 1}</span>
+                                        <span style={{ minWidth: 80 }}>{c.faceCount.toLocaleString()} faces</span>
+                                        <span style={{ minWidth: 90 }}>area {c.area.toPrecision(4)}</span>
+                                        <span style={{ minWidth: 50 }}>{(c.areaRatio * 100).toPrecision(3)}%</span>
+                                        <span style={{ color: '#94a3b8' }}>{formatSize(c.bboxMin, c.bboxMax)}</span>
+                                    </div>
+                                )
+                            })}
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+                            <span style={{ color: '#94a3b8' }}>
+                                Noise: under {+(profile.shells.minAreaRatio * 100).toPrecision(6)}% of the largest area
+                            </span>
+                            <ResultCardButton
+                                onClick={onRemoveNoiseShells}
+                                disabled={!meshData || isRunning || !!fixing || shells.components.length < 2}
+                            >
+                                Remove Noise Shells
+                            </ResultCardButton>
+                        </div>
+                    </div>
+                )}
+            </div>
 
             {/* ── Spinner overlay while running ── */}
             {isRunning && (
-                <div className="wasm-spinner-overlay">
-                    <div className="wasm-spinner-ring" />
-                    <div className="wasm-spinner-label">Running mesh checks…</div>
-                </div>
+                <WasmSpinner label="Running mesh checks…" onCancel={cancellable.cancel} />
+            )}
+            {fixing && (
+                <WasmSpinner label={fixing} onCancel={cancellable.cancel} />
             )}
+            {isReporting && <WasmSpinner label="Preparing report…" />}
 
             <CanvasContainer>
-                <Canvas
-                    camera={{
-                        position: [120, -320, 100],
-                        fov: 24,
-                        near: 0.1,
-                        far: 200000,
-                    }}
-                    shadows
-                    gl={{ antialias: true, alpha: false }}
-                    style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
-                >
-                    <Scene />
-
-                    {selectedFile && (
-                        <group position={[0, 0, 0]}>
-                            <STLViewer filename={selectedFile} />
-                        </group>
-                    )}
-                </Canvas>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+
+                            {meshGeometry && meshTransform && (
+                                <group position={[showSideBySide ? -SIDE_BY_SIDE_OFFSET : 0, 0, 0]}>
+                                    {showSideBySide && (
+                                        <Billboard position={[0, -30, 10]}>
+                                            <Text
+                                                fontSize={5}
+                                                color="#ffffff"
+                                                anchorX="center"
+                                                anchorY="bottom"
+                                                outlineWidth={0.3}
+                                                outlineColor="#000000"
+                                            >
+                                                Original
+                                            </Text>
+                                        </Billboard>
+                                    )}
+                                    <STLViewer geometry={meshGeometry} transform={meshTransform} faceColors={faceColors} />
+                                    {edges && EDGE_CATEGORIES.map(({ category }) =>
+                                        view.edges[category] && edges[category].length > 0 && (
+                                            <IntersectionLines
+                                                key={category}
+                                                segments={edges[category]}
+                                                transform={meshTransform}
+                                                color={EDGE_COLORS[category]}
+                                            />
+                                        ),
+                                    )}
+                                    {view.intersections && intersections && intersections.segments.length > 0 && (
+                                        <IntersectionLines segments={intersections.segments} transform={meshTransform} />
+                                    )}
+                                    {holeLines && holeLines.selected.length > 0 && (
+                                        <IntersectionLines
+                                            segments={holeLines.selected}
+                                            transform={meshTransform}
+                                            color={HOLE_COLORS.selected}
+                                        />
+                                    )}
+                                    {holeLines && holeLines.focused.length > 0 && (
+                                        <IntersectionLines
+                                            segments={holeLines.focused}
+                                            transform={meshTransform}
+                                            color={HOLE_COLORS.focused}
+                                        />
+                                    )}
+                                </group>
+                            )}
+                            {showSideBySide && fix && meshTransform && (
+                                <group position={[SIDE_BY_SIDE_OFFSET, 0, 0]}>
+                                    <Billboard position={[0, -30, 10]}>
+                                        <Text
+                                            fontSize={5}
+                                            color="#4ade80"
+                                            anchorX="center"
+                                            anchorY="bottom"
+                                            outlineWidth={0.3}
+                                            outlineColor="#000000"
+                                        >
+                                            Repaired
+                                        </Text>
+                                    </Billboard>
+                                    <STLBufferViewer data={fix.output} transform={meshTransform} />
+                                </group>
+                            )}
+                            <CameraFocus focus={holeFocus} />
+                        </TrueScaleGroup>
+                        <ViewerCapture captureRef={captureRef} />
+                    </Canvas>
+                </FileDropZone>
             </CanvasContainer>
 
             {/* ── Run button (bottom‑right) ── */}
@@ -424,9 +1225,55 @@ function MeshChecksPage() {
                     alignItems: 'flex-end',
                 }}
             >
+                {canReport && (
+                    <ResultCard
+                        title="Check Report"
+                        color="#94a3b8"
+                        details={[
+                            `${profile.name} profile · ${overallLabel().toLowerCase()}`,
+                            ...(runMs === null ? [] : [`Ran in ${runMs.toFixed(0)} ms`]),
+                        ]}
+                    >
+                        <ResultCardButton onClick={() => void onExportReport('json')} disabled={isReporting || !!fixing}>
+                            JSON
+                        </ResultCardButton>
+                        <ResultCardButton onClick={() => void onExportReport('html')} disabled={isReporting || !!fixing}>
+                            HTML
+                        </ResultCardButton>
+                        <ResultCardButton onClick={() => void onExportReport('print')} disabled={isReporting || !!fixing}>
+                            Print / PDF
+                        </ResultCardButton>
+                    </ResultCard>
+                )}
+                {fix && (
+                    <ResultCard
+                        title={fix.title}
+                        color="#4ade80"
+                        details={[
+                            ...fix.details,
+                            `${triangleCountFromStl(fix.output)?.toLocaleString() ?? '?'} faces`,
+                        ]}
+                    >
+                        <MeshDownloadButton data={fix.output} name={`${exportName}_${fix.fileSuffix}`} />
+                    </ResultCard>
+                )}
+                {fix && (
+                    <HelloButton
+                        onClick={() => commit(fix.output, fix.historyLabel)}
+                        disabled={isRunning || !!fixing}
+                        text="Use Repaired Mesh"
+                    />
+                )}
+                {verdict === 'fail' && fixPlan.length > 0 && !comparison && (
+                    <HelloButton
+                        onClick={onFixAll}
+                        disabled={!meshData || isRunning || !!fixing}
+                        text="Fix All Failing"
+                    />
+                )}
                 <HelloButton
                     onClick={onRunChecks}
-                    disabled={!selectedFile || isRunning}
+                    disabled={!meshData || isRunning || !!fixing}
                     text={isRunning ? 'Running…' : 'Run Checks'}
                 />
             </div>
@@ -0,0 +1,624 @@
+import { Canvas } from '@react-three/fiber'
+import { useEffect, useRef, useState } from 'react'
+import { Billboard, Text } from '@react-three/drei'
+import Navbar from '../components/Navbar'
+import HelloButton from '../components/HelloButton'
+import Scene from '../components/Scene'
+import STLViewer from '../components/STLViewer'
+import STLBufferViewer from '../components/STLBufferViewer'
+import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import MeshDownloadButton from '../components/MeshDownloadButton'
+import WasmSpinner from '../components/WasmSpinner'
+import { FillHolesClient } from '../lib/fillHolesClient'
+import { SelfIntersectionsClient } from '../lib/selfIntersectionsClient'
+import { SimplificationClient } from '../lib/simplificationClient'
+import { SmoothingClient } from '../lib/smoothingClient'
+import type { SmoothingMethod } from '../lib/smoothingClient'
+import {
+    PipelineClients,
+    PipelineStep,
+    PipelineStepKind,
+    STEP_LABELS,
+    StepResult,
+    createStep,
+    describeStep,
+    parsePipeline,
+    runPipeline,
+    serializePipeline,
+} from '../lib/pipeline'
+import { baseName, downloadText } from '../lib/download'
+import { isAbortError } from '../lib/rpc/protocol'
+import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { useMeshSession } from '../context/MeshSessionContext'
+
+const COMPLEX_STL_FILES = [
+    'complex/bony_penvis_mri.stl',
+    'complex/Duck_mesh.stl',
+    'complex/UNICORN_mesh_NoTexture.stl',
+    'complex/Warrior with Hammer pose 2_28mm_supported.stl',
+]
+
+const STEP_KINDS: PipelineStepKind[] = ['fillHoles', 'repairIntersections', 'simplify', 'smooth']
+
+const SMOOTHING_METHODS: { value: SmoothingMethod; label: string }[] = [
+    { value: 'laplacian', label: 'Laplacian' },
+    { value: 'taubin', label: 'Taubin' },
+    { value: 'laplacianHC', label: 'Laplacian HC' },
+    { value: 'tangentialRelaxation', label: 'Tangential Relaxation' },
+]
+
+/* ---- Shared inline styles ---- */
+const panelStyle: React.CSSProperties = {
+    position: 'fixed',
+    left: 16,
+    top: 100,
+    maxHeight: 'calc(100vh - 116px)',
+    zIndex: 2000,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+    width: 360,
+    overflowY: 'auto',
+    background: 'rgba(15,23,42,0.85)',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 10,
+    padding: 12,
+}
+
+const stepStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 8,
+    padding: '8px 10px',
+}
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '2px 8px',
+    borderRadius: 6,
+    border: '1px solid rgba(148,163,184,0.25)',
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e2e8f0',
+    fontSize: 12,
+    cursor: 'pointer',
+}
+
+const inputStyle: React.CSSProperties = {
+    background: 'rgba(2,6,23,0.6)',
+    color: '#e5e7eb',
+    border: '1px solid rgba(148,163,184,0.25)',
+    borderRadius: 6,
+    padding: '3px 6px',
+    fontSize: 12,
+}
+
+const paramRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    color: '#cbd5e1',
+    fontSize: 12,
+}
+
+type StepRunState = 'pending' | 'running' | 'done' | 'failed'
+
+/** Which mesh the right-hand preview shows: -1 = none, otherwise a step index */
+type PreviewIndex = number
+
+function PipelinePage() {
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
+    const { commit } = useMeshSession()
+
+    const [pipelineName, setPipelineName] = useState('My pipeline')
+    const [steps, setSteps] = useState<PipelineStep[]>(() => [
+        createStep('fillHoles'),
+        createStep('repairIntersections'),
+        createStep('simplify'),
+        createStep('smooth'),
+    ])
+    const [newStepKind, setNewStepKind] = useState<PipelineStepKind>('simplify')
+
+    const [isRunning, setIsRunning] = useState(false)
+    const [status, setStatus] = useState('')
+    const [error, setError] = useState('')
+    const [results, setResults] = useState<Record<number, StepResult>>({})
+    const [runStates, setRunStates] = useState<Record<number, StepRunState>>({})
+    const [preview, setPreview] = useState<PreviewIndex>(-1)
+
+    const clientsRef = useRef<PipelineClients | null>(null)
+    const cancellable = useCancellable()
+    const loadInputRef = useRef<HTMLInputElement>(null)
+
+    // Lifecycle
+    useEffect(() => {
+        const clients: PipelineClients = {
+            fillHoles: new FillHolesClient(),
+            selfIntersections: new SelfIntersectionsClient(),
+            simplification: new SimplificationClient(),
+            smoothing: new SmoothingClient(),
+        }
+        clientsRef.current = clients
+        return () => {
+            clientsRef.current = null
+            clients.fillHoles.dispose()
+            clients.selfIntersections.dispose()
+            clients.simplification.dispose()
+            clients.smoothing.dispose()
+        }
+    }, [])
+
+    // Results belong to one mesh + one step list; drop them when either changes
+    useEffect(() => {
+        setResults({})
+        setRunStates({})
+        setPreview(-1)
+        setStatus('')
+        setError('')
+    }, [meshData, steps])
+
+    // ── Step editing ────────────────────────────────────────────────────
+
+    function updateStep(id: number, update: (s: PipelineStep) => PipelineStep) {
+        setSteps((prev) => prev.map((s) => (s.id === id ? update(s) : s)))
+    }
+
+    function moveStep(index: number, delta: number) {
+        setSteps((prev) => {
+            const target = index + delta
+            if (target < 0 || target >= prev.length) return prev
+            const next = [...prev]
+            const [moved] = next.splice(index, 1)
+            next.splice(target, 0, moved)
+            return next
+        })
+    }
+
+    function removeStep(id: number) {
+        setSteps((prev) => prev.filter((s) => s.id !== id))
+    }
+
+    function onSavePipeline() {
+        const fileName = `${pipelineName.trim() || 'pipeline'}.json`
+        downloadText(serializePipeline(pipelineName, steps), fileName, 'application/json')
+    }
+
+    async function onLoadPipeline(file: File) {
+        try {
+            const parsed = parsePipeline(await file.text())
+            setSteps(parsed.steps)
+            if (parsed.name) setPipelineName(parsed.name)
+        } catch (e: any) {
+            setError(String(e?.message || e))
+        }
+    }
+
+    // ── Run ─────────────────────────────────────────────────────────────
+
+    async function onRun() {
+        const clients = clientsRef.current
+        if (!meshData || !clients || isRunning || steps.length === 0) return
+
+        setIsRunning(true)
+        setError('')
+        setResults({})
+        setPreview(-1)
+        setRunStates(Object.fromEntries(steps.map((s) => [s.id, 'pending' as StepRunState])))
+
+        const startMs = performance.now()
+        try {
+            await runPipeline(meshData, steps, clients, {
+                onStepStart: (i, step) => {
+                    setStatus(`Step ${i + 1}/${steps.length}: ${STEP_LABELS[step.kind]}…`)
+                    setRunStates((prev) => ({ ...prev, [step.id]: 'running' }))
+                },
+                onStepDone: (i, result) => {
+                    setResults((prev) => ({ ...prev, [result.stepId]: result }))
+                    setRunStates((prev) => ({ ...prev, [result.stepId]: 'done' }))
+                    setPreview(i)
+                },
+                onStatus: (s) => setStatus(s),
+                signal: cancellable.begin(),
+            })
+            setStatus(`Pipeline finished in ${(performance.now() - startMs).toFixed(0)} ms`)
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                // Finished steps keep their results; the interrupted one goes back to pending
+                setRunStates((prev) =>
+                    Object.fromEntries(
+                        Object.entries(prev).map(([id, st]) => [id, st === 'running' ? 'pending' : st]),
+                    ),
+                )
+                setStatus('Pipeline cancelled')
+                return
+            }
+            console.error('[Pipeline] failed:', e)
+            const failedId = e?.step?.id
+            if (typeof failedId === 'number') {
+                setRunStates((prev) => ({ ...prev, [failedId]: 'failed' }))
+            }
+            setError(String(e?.message || e))
+            setStatus('')
+        } finally {
+            setIsRunning(false)
+        }
+    }
+
+    const previewStep = preview >= 0 ? steps[preview] : undefined
+    const previewResult = previewStep ? results[previewStep.id] : undefined
+    const finalStep = steps[steps.length - 1]
+    const finalResult = finalStep ? results[finalStep.id] : undefined
+    const offsetX = 40
+
+    // ── Render ──────────────────────────────────────────────────────────
+
+    return (
+        <>
+            <Navbar pageTitle="Pipeline" showBack />
+            <FileSelector
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
+
+            {/* Status / Error panel */}
+            {(status || error) && (
+                <div className="ui-panel" style={{ top: '180px' }}>
+                    {status && (
+                        <div>
+                            <strong>Status:</strong> {status}
+                        </div>
+                    )}
+                    {error && (
+                        <div style={{ color: '#fca5a5' }}>
+                            <strong>Error:</strong> {error}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* ---- Pipeline editor (left) ---- */}
+            <div style={panelStyle}>
+                <div style={paramRowStyle}>
+                    <input
+                        value={pipelineName}
+                        onChange={(e) => setPipelineName(e.target.value)}
+                        disabled={isRunning}
+                        style={{ ...inputStyle, flex: 1, fontSize: 13, fontWeight: 600 }}
+                    />
+                    <button type="button" style={smallButtonStyle} onClick={onSavePipeline}>
+                        Save
+                    </button>
+                    <button
+                        type="button"
+                        style={smallButtonStyle}
+                        disabled={isRunning}
+                        onClick={() => loadInputRef.current?.click()}
+                    >
+                        Load
+                    </button>
+                    <input
+                        ref={loadInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            e.target.value = ''
+                            if (file) void onLoadPipeline(file)
+                        }}
+                    />
+                </div>
+
+                {steps.length === 0 && (
+                    <span style={{ color: '#64748b', fontSize: 12 }}>No steps — add one below.</span>
+                )}
+
+                {steps.map((step, i) => {
+                    const result = results[step.id]
+                    const runState = runStates[step.id]
+                    return (
+                        <div
+                            key={step.id}
+                            style={{
+                                ...stepStyle,
+                                borderColor:
+                                    runState === 'running' ? '#facc15'
+                                        : runState === 'failed' ? '#ef4444'
+                                            : preview === i ? '#FFB500'
+                                                : 'rgba(148,163,184,0.25)',
+                            }}
+                        >
+                            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                                <span style={{ color: '#e2e8f0', fontWeight: 600, fontSize: 13 }}>
+                                    {i + 1}. {STEP_LABELS[step.kind]}
+                                </span>
+                                <span style={{ color: '#64748b', fontSize: 11 }}>{describeStep(step)}</span>
+                                <span style={{ marginLeft: 'auto', display: 'flex', gap: 4 }}>
+                                    <button type="button" style={smallButtonStyle} disabled={isRunning || i === 0} onClick={() => moveStep(i, -1)}>↑</button>
+                                    <button type="button" style={smallButtonStyle} disabled={isRunning || i === steps.length - 1} onClick={() => moveStep(i, 1)}>↓</button>
+                                    <button type="button" style={smallButtonStyle} disabled={isRunning} onClick={() => removeStep(step.id)}>✕</button>
+                                </span>
+                            </div>
+
+                            {step.kind === 'simplify' && (
+                                <>
+                                    <label style={paramRowStyle}>
+                                        Target ratio
+                                        <input
+                                            type="range"
+                                            min={0.01}
+                                            max={1}
+                                            step={0.01}
+                                            value={step.params.targetRatio}
+                                            disabled={isRunning}
+                                            onChange={(e) => updateStep(step.id, (s) => s.kind === 'simplify'
+                                                ? { ...s, params: { ...s.params, targetRatio: Number(e.target.value) } }
+                                                : s)}
+                                            style={{ flex: 1, accentColor: '#FFB500' }}
+                                        />
+                                        <span style={{ color: '#FFB500', minWidth: 36, textAlign: 'right' }}>
+                                            {Math.round(step.params.targetRatio * 100)}%
+                                        </span>
+                                    </label>
+                                    <label style={paramRowStyle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={step.params.preserveBorders}
+                                            disabled={isRunning}
+                                            onChange={(e) => updateStep(step.id, (s) => s.kind === 'simplify'
+                                                ? { ...s, params: { ...s.params, preserveBorders: e.target.checked } }
+                                                : s)}
+                                            style={{ accentColor: '#FFB500' }}
+                                        />
+                                        Preserve borders
+                                    </label>
+                                </>
+                            )}
+
+                            {step.kind === 'smooth' && (
+                                <>
+                                    <label style={paramRowStyle}>
+                                        Method
+                                        <select
+                                            value={step.params.method}
+                                            disabled={isRunning}
+                                            onChange={(e) => updateStep(step.id, (s) => s.kind === 'smooth'
+                                                ? { ...s, params: { ...s.params, method: e.target.value as SmoothingMethod } }
+                                                : s)}
+                                            style={inputStyle}
+                                        >
+                                            {SMOOTHING_METHODS.map((m) => (
+                                                <option key={m.value} value={m.value}>{m.label}</option>
+                                            ))}
+                                        </select>
+                                        Iterations
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={100}
+                                            value={step.params.iterations}
+                                            disabled={isRunning}
+                                            onChange={(e) => updateStep(step.id, (s) => s.kind === 'smooth'
+                                                ? { ...s, params: { ...s.params, iterations: Math.max(1, Math.min(100, Number(e.target.value) || 1)) } }
+                                                : s)}
+                                            style={{ ...inputStyle, width: 56 }}
+                                        />
+                                    </label>
+                                    {step.params.method === 'taubin' && (
+                                        <label style={paramRowStyle}>
+                                            λ
+                                            <input
+                                                type="number" min={0.01} max={0.99} step={0.01}
+                                                value={step.params.lambda}
+                                                disabled={isRunning}
+                                                onChange={(e) => updateStep(step.id, (s) => s.kind === 'smooth'
+                                                    ? { ...s, params: { ...s.params, lambda: Number(e.target.value) } }
+                                                    : s)}
+                                                style={{ ...inputStyle, width: 64 }}
+                                            />
+                                            μ
+                                            <input
+                                                type="number" min={0.01} max={0.99} step={0.01}
+                                                value={step.params.mu}
+                                                disabled={isRunning}
+                                                onChange={(e) => updateStep(step.id, (s) => s.kind === 'smooth'
+                                                    ? { ...s, params: { ...s.params, mu: Number(e.target.value) } }
+                                                    : s)}
+                                                style={{ ...inputStyle, width: 64 }}
+                                            />
+                                            {step.params.mu <= step.params.lambda && (
+                                                <span style={{ color: '#fca5a5' }}>μ must be &gt; λ</span>
+                                            )}
+                                        </label>
+                                    )}
+                                    {step.params.method === 'laplacianHC' && (
+                                        <label style={paramRowStyle}>
+                                            α
+                                            <input
+                                                type="number" min={0} max={1} step={0.01}
+                                                value={step.params.alpha}
+                                                disabled={isRunning}
+                                                onChange={(e) => updateStep(step.id, (s) => s.kind === 'smooth'
+                                                    ? { ...s, params: { ...s.params, alpha: Number(e.target.value) } }
+                                                    : s)}
+                                                style={{ ...inputStyle, width: 64 }}
+                                            />
+                                            β
+                                            <input
+                                                type="number" min={0} max={1} step={0.01}
+                                                value={step.params.beta}
+                                                disabled={isRunning}
+                                                onChange={(e) => updateStep(step.id, (s) => s.kind === 'smooth'
+                                                    ? { ...s, params: { ...s.params, beta: Number(e.target.value) } }
+                                                    : s)}
+                                                style={{ ...inputStyle, width: 64 }}
+                                            />
+                                        </label>
+                                    )}
+                                </>
+                            )}
+
+                            {result && (
+                                <div style={{ ...paramRowStyle, color: '#94a3b8', fontSize: 11 }}>
+                                    <span>
+                                        {result.inputFaces?.toLocaleString() ?? '?'} → {result.outputFaces?.toLocaleString() ?? '?'} faces
+                                        · {result.elapsedMs.toFixed(0)} ms
+                                        {result.note ? ` · ${result.note}` : ''}
+                                    </span>
+                                    <button
+                                        type="button"
+                                        style={{ ...smallButtonStyle, marginLeft: 'auto', color: preview === i ? '#FFB500' : '#e2e8f0' }}
+                                        onClick={() => setPreview(preview === i ? -1 : i)}
+                                    >
+                                        {preview === i ? 'Hide' : 'Preview'}
+                                    </button>
+                                </div>
+                            )}
+                            {result && (
+                                <MeshDownloadButton
+                                    data={result.output}
+                                    name={`${exportName}_step${i + 1}_${step.kind}`}
+                                    disabled={isRunning}
+                                />
+                            )}
+                            {runState === 'running' && (
+                                <span style={{ color: '#fde68a', fontSize: 11 }}>Running…</span>
+                            )}
+                        </div>
+                    )
+                })}
+
+                <div style={paramRowStyle}>
+                    <select
+                        value={newStepKind}
+                        onChange={(e) => setNewStepKind(e.target.value as PipelineStepKind)}
+                        disabled={isRunning}
+                        style={{ ...inputStyle, flex: 1 }}
+                    >
+                        {STEP_KINDS.map((k) => (
+                            <option key={k} value={k}>{STEP_LABELS[k]}</option>
+                        ))}
+                    </select>
+                    <button
+                        type="button"
+                        style={smallButtonStyle}
+                        disabled={isRunning}
+                        onClick={() => setSteps((prev) => [...prev, createStep(newStepKind)])}
+                    >
+                        + Add step
+                    </button>
+                </div>
+            </div>
+
+            {/* Processing overlay */}
+            {isRunning && (
+                <WasmSpinner label={status || 'Processing…'} onCancel={cancellable.cancel} />
+            )}
+
+            <CanvasContainer>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+
+                            {meshGeometry && meshTransform && (
+                                <group position={[previewResult ? -offsetX : 0, 0, 0]}>
+                                    {previewResult && (
+                                        <Billboard position={[0, -30, 10]}>
+                                            <Text
+                                                fontSize={5}
+                                                color="#ffffff"
+                                                anchorX="center"
+                                                anchorY="bottom"
+                                                outlineWidth={0.3}
+                                                outlineColor="#000000"
+                                            >
+                                                Original
+                                            </Text>
+                                        </Billboard>
+                                    )}
+                                    <STLViewer geometry={meshGeometry} transform={meshTransform} />
+                                </group>
+                            )}
+                            {previewStep && previewResult && meshTransform && (
+                                <group position={[offsetX, 0, 0]}>
+                                    <Billboard position={[0, -30, 10]}>
+                                        <Text
+                                            fontSize={4}
+                                            color="#4ade80"
+                                            anchorX="center"
+                                            anchorY="bottom"
+                                            outlineWidth={0.3}
+                                            outlineColor="#000000"
+                                        >
+                                            {`After step ${preview + 1}: ${STEP_LABELS[previewStep.kind]}`}
+                                        </Text>
+                                    </Billboard>
+                                    <STLBufferViewer data={previewResult.output} transform={meshTransform} />
+                                </group>
+                            )}
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
+            </CanvasContainer>
+
+            {/* ---- Actions (bottom‑right) ---- */}
+            <div
+                style={{
+                    position: 'fixed',
+                    right: 16,
+                    bottom: 16,
+                    zIndex: 2000,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 8,
+                    alignItems: 'flex-end',
+                }}
+            >
+                {finalResult && (
+                    <HelloButton
+                        onClick={() => commit(finalResult.output, `Pipeline: ${pipelineName}`)}
+                        disabled={isRunning}
+                        text="Use Final Result"
+                    />
+                )}
+                <HelloButton
+                    onClick={onRun}
+                    disabled={!meshData || isRunning || steps.length === 0}
+                    text={isRunning ? 'Running…' : 'Run Pipeline'}
+                />
+            </div>
+        </>
+    )
+}
+
+export default PipelinePage
@@ -0,0 +1,264 @@
+import { Canvas } from '@react-three/fiber'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Navbar from '../components/Navbar'
+import HelloButton from '../components/HelloButton'
+import Scene from '../components/Scene'
+import SectionView from '../components/SectionView'
+import IntersectionLines from '../components/IntersectionLines'
+import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import ClipPlanePanel, { CLIP_PLANE_COLORS, SectionFormat } from '../components/ClipPlanePanel'
+import WasmSpinner from '../components/WasmSpinner'
+import { MeshAnalysisClient } from '../lib/meshAnalysisClient'
+import { PlaneSection, Vec3 } from '../lib/meshAnalysis'
+import { ClipPlane, sectionDxf, sectionPlane, sectionSegments, sectionSvg } from '../lib/sections'
+import { isAbortError } from '../lib/rpc/protocol'
+import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { baseName, downloadText } from '../lib/download'
+
+const COMPLEX_STL_FILES = [
+    'complex/bony_penvis_mri.stl',
+    'complex/Duck_mesh.stl',
+    'complex/UNICORN_mesh_NoTexture.stl',
+    'complex/Warrior with Hammer pose 2_28mm_supported.stl',
+]
+
+/** Colour of the computed section polylines */
+const SECTION_LINE_COLOR = '#fde047'
+
+/** A new plane through the middle of the mesh, across the next free axis */
+function newPlane(id: number, bounds: { min: Vec3; max: Vec3 }, taken: ClipPlane[]): ClipPlane {
+    const axis = (['z', 'x', 'y'] as const).find((a) => !taken.some((c) => c.axis === a)) ?? 'z'
+    const k = { x: 0, y: 1, z: 2 }[axis]
+    return {
+        id,
+        axis,
+        direction: [0, 0, 1],
+        offset: (bounds.min[k] + bounds.max[k]) / 2,
+        flipped: false,
+        enabled: true,
+    }
+}
+
+function SectionsPage() {
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
+    const [planes, setPlanes] = useState<ClipPlane[]>([])
+    const [sections, setSections] = useState<Map<number, PlaneSection> | null>(null)
+    const [isCutting, setIsCutting] = useState(false)
+    const [status, setStatus] = useState('')
+    const [error, setError] = useState('')
+
+    const clientRef = useRef<MeshAnalysisClient | null>(null)
+    const cancellable = useCancellable()
+
+    // Lifecycle
+    useEffect(() => {
+        const c = new MeshAnalysisClient()
+        clientRef.current = c
+        return () => {
+            clientRef.current = null
+            c.dispose()
+        }
+    }, [])
+
+    const bounds = useMemo(() => {
+        if (!meshGeometry) return null
+        if (!meshGeometry.boundingBox) meshGeometry.computeBoundingBox()
+        const { min, max } = meshGeometry.boundingBox!
+        return { min: min.toArray() as Vec3, max: max.toArray() as Vec3 }
+    }, [meshGeometry])
+
+    // Start every mesh with one horizontal cut through its middle
+    useEffect(() => {
+        setPlanes(bounds ? [newPlane(1, bounds, [])] : [])
+        setSections(null)
+        setStatus('')
+        setError('')
+    }, [bounds])
+
+    const enabledPlanes = useMemo(() => planes.filter((c) => c.enabled), [planes])
+    const cuttingPlanes = useMemo(() => enabledPlanes.map(sectionPlane), [enabledPlanes])
+    const planeColors = useMemo(
+        () => enabledPlanes.map((c) => CLIP_PLANE_COLORS[planes.indexOf(c) % CLIP_PLANE_COLORS.length]),
+        [planes, enabledPlanes],
+    )
+    const sectionLines = useMemo(() => {
+        if (!sections) return []
+        return enabledPlanes.flatMap((c) => {
+            const section = sections.get(c.id)
+            return section ? [sectionSegments(section)] : []
+        })
+    }, [sections, enabledPlanes])
+
+    // Sections describe the planes they were cut with; any edit makes them stale
+    function updatePlanes(update: (prev: ClipPlane[]) => ClipPlane[]) {
+        setPlanes(update)
+        setSections(null)
+    }
+
+    async function onComputeSections() {
+        const client = clientRef.current
+        if (!meshData || isCutting || !client || enabledPlanes.length === 0) return
+
+        setIsCutting(true)
+        setError('')
+        try {
+            setStatus('Cutting sections…')
+            const startMs = performance.now()
+            const result = await client.sections(meshData, cuttingPlanes, {
+                onStatus: (s) => setStatus(s),
+                signal: cancellable.begin(),
+            })
+            const elapsedMs = performance.now() - startMs
+            setSections(new Map(enabledPlanes.map((c, i) => [c.id, result[i]])))
+            const loops = result.reduce((n, s) => n + s.loops.length, 0)
+            setStatus(`Done in ${elapsedMs.toFixed(0)} ms — ${loops} section loop${loops === 1 ? '' : 's'}`)
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Section cut cancelled')
+                return
+            }
+            console.error('[Sections] failed:', e)
+            setError(String(e?.message || e))
+            setStatus('')
+        } finally {
+            setIsCutting(false)
+        }
+    }
+
+    function onExport(id: number, format: SectionFormat) {
+        const section = sections?.get(id)
+        if (!section) return
+        const name = `${exportName}_section_${planes.findIndex((c) => c.id === id) + 1}`
+        if (format === 'svg') downloadText(sectionSvg(section, name), `${name}.svg`, 'image/svg+xml')
+        else downloadText(sectionDxf(section), `${name}.dxf`, 'application/dxf')
+    }
+
+    return (
+        <>
+            <Navbar pageTitle="Sections" showBack />
+            <FileSelector
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
+
+            {/* Status / Error panel */}
+            {(status || error) && (
+                <div className="ui-panel" style={{ top: '180px' }}>
+                    {status && (
+                        <div>
+                            <strong>Status:</strong> {status}
+                        </div>
+                    )}
+                    {error && (
+                        <div style={{ color: '#fca5a5' }}>
+                            <strong>Error:</strong> {error}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Processing overlay */}
+            {isCutting && (
+                <WasmSpinner label={status || 'Processing…'} onCancel={cancellable.cancel} />
+            )}
+
+            <CanvasContainer>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false, stencil: true }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+                            {meshGeometry && meshTransform && (
+                                <>
+                                    <SectionView
+                                        geometry={meshGeometry}
+                                        transform={meshTransform}
+                                        planes={cuttingPlanes}
+                                        colors={planeColors}
+                                    />
+                                    {sectionLines.map((segments, i) => (
+                                        <IntersectionLines
+                                            key={i}
+                                            segments={segments}
+                                            transform={meshTransform}
+                                            color={SECTION_LINE_COLOR}
+                                        />
+                                    ))}
+                                </>
+                            )}
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
+            </CanvasContainer>
+
+            {/* ---- Controls (bottom‑right) ---- */}
+            <div
+                style={{
+                    position: 'fixed',
+                    right: 16,
+                    bottom: 16,
+                    zIndex: 2000,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 8,
+                    alignItems: 'flex-end',
+                }}
+            >
+                {bounds && (
+                    <ClipPlanePanel
+                        planes={planes}
+                        bounds={bounds}
+                        sections={sections}
+                        onChange={(id, patch) =>
+                            updatePlanes((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)))
+                        }
+                        onAdd={() =>
+                            updatePlanes((prev) => [
+                                ...prev,
+                                newPlane(prev.reduce((max, c) => Math.max(max, c.id), 0) + 1, bounds, prev),
+                            ])
+                        }
+                        onRemove={(id) => updatePlanes((prev) => prev.filter((c) => c.id !== id))}
+                        onExport={onExport}
+                        disabled={isCutting}
+                    />
+                )}
+                <HelloButton
+                    onClick={onComputeSections}
+                    disabled={!meshData || isCutting || enabledPlanes.length === 0}
+                    text={isCutting ? 'Cutting…' : 'Compute Sections'}
+                />
+            </div>
+        </>
+    )
+}
+
+export default SectionsPage
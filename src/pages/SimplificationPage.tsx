@@ -1,5 +1,5 @@
 import { Canvas } from '@react-three/fiber'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Billboard, Text } from '@react-three/drei'
 import Navbar from '../components/Navbar'
 import HelloButton from '../components/HelloButton'
@@ -7,8 +7,26 @@ import Scene from '../components/Scene'
 import STLViewer from '../components/STLViewer'
 import STLBufferViewer from '../components/STLBufferViewer'
 import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import ResultCard, { ResultCardButton } from '../components/ResultCard'
+import MeshDownloadButton from '../components/MeshDownloadButton'
+import WasmSpinner from '../components/WasmSpinner'
+import DeviationLegend from '../components/DeviationLegend'
 import { SimplificationClient } from '../lib/simplificationClient'
+import { MeshAnalysisClient } from '../lib/meshAnalysisClient'
+import type { MeshDeviation } from '../lib/meshAnalysis'
+import { describeDeviation, deviationColors } from '../lib/deviation'
+import { isAbortError } from '../lib/rpc/protocol'
 import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { triangleCountFromStl } from '../lib/meshFiles'
+import { baseName } from '../lib/download'
 
 const COMPLEX_STL_FILES = [
     'complex/bony_penvis_mri.stl',
@@ -40,6 +58,8 @@ interface SimplifiedResult {
     outputFaces: number
     /** Wall‑clock time (ms) */
     elapsedMs: number
+    /** Distance from the source mesh, when it could be measured */
+    deviation?: MeshDeviation
 }
 
 /**
@@ -75,8 +95,27 @@ function formatCount(n: number): string {
     return String(n)
 }
 
+/** Scrollable column of result cards along the left edge */
+const resultListStyle: React.CSSProperties = {
+    position: 'fixed',
+    left: 16,
+    top: 100,
+    maxHeight: 'calc(100vh - 116px)',
+    zIndex: 2000,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+    width: 260,
+    overflowY: 'auto',
+}
+
 function SimplificationPage() {
-    const [selectedFile, setSelectedFile] = useState<string>(COMPLEX_STL_FILES[0] ?? '')
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
+    const { commit } = useMeshSession()
     const [targetRatio, setTargetRatio] = useState<number>(0.5)
     const [preserveBorders, setPreserveBorders] = useState(false)
     const [isSimplifying, setIsSimplifying] = useState(false)
@@ -84,16 +123,24 @@ function SimplificationPage() {
     const [error, setError] = useState('')
     const [results, setResults] = useState<SimplifiedResult[]>([])
     const [sourceFaceCount, setSourceFaceCount] = useState<number | null>(null)
+    const [showDeviation, setShowDeviation] = useState(false)
+    const [deviationRange, setDeviationRange] = useState<number | null>(null)
 
     const clientRef = useRef<SimplificationClient | null>(null)
+    const analysisRef = useRef<MeshAnalysisClient | null>(null)
+    const cancellable = useCancellable()
 
     // Lifecycle
     useEffect(() => {
         const c = new SimplificationClient()
+        const a = new MeshAnalysisClient()
         clientRef.current = c
+        analysisRef.current = a
         return () => {
             clientRef.current = null
+            analysisRef.current = null
             c.dispose()
+            a.dispose()
         }
     }, [])
 
@@ -102,50 +149,53 @@ function SimplificationPage() {
         setResults([])
         setStatus('')
         setError('')
-        setSourceFaceCount(null)
+        setDeviationRange(null)
+        setSourceFaceCount(meshData ? triangleCountFromStl(meshData) : null)
+    }, [meshData])
 
-        if (!selectedFile) return
-
-        // Binary STL: 80-byte header + uint32LE triangle count at offset 80
-        let cancelled = false
-        fetch(`/stl/${selectedFile}`)
-            .then((res) => {
-                if (!res.ok) throw new Error(`fetch ${res.status}`)
-                return res.arrayBuffer()
-            })
-            .then((buf) => {
-                if (cancelled) return
-                if (buf.byteLength >= 84) {
-                    const view = new DataView(buf)
-                    const triangles = view.getUint32(80, true) // little-endian
-                    setSourceFaceCount(triangles)
-                }
-            })
-            .catch(() => { /* non-critical – leave count as null */ })
+    // Heatmap range defaults to the largest deviation of any result
+    const autoDeviationRange = useMemo(
+        () => results.reduce((m, r) => (r.deviation ? Math.max(m, -r.deviation.min, r.deviation.max) : m), 0) || 1e-3,
+        [results],
+    )
+    const heatmapRange = deviationRange ?? autoDeviationRange
+    const heatmaps = useMemo(
+        () => results.map((r) => (showDeviation && r.deviation ? deviationColors(r.deviation.distances, heatmapRange) : null)),
+        [results, showDeviation, heatmapRange],
+    )
 
-        return () => { cancelled = true }
-    }, [selectedFile])
+    /** How far a result moved from the source; undefined when it cannot be measured */
+    async function measureDeviation(output: ArrayBuffer, signal: AbortSignal): Promise<MeshDeviation | undefined> {
+        const analysis = analysisRef.current
+        if (!meshData || !analysis) return undefined
+        try {
+            return await analysis.deviation(output, meshData, { onStatus: (s) => setStatus(s), signal })
+        } catch (e) {
+            if (isAbortError(e)) throw e
+            console.warn('[Simplification] deviation failed:', e)
+            return undefined
+        }
+    }
 
     async function onSimplify() {
         const client = clientRef.current
-        if (!selectedFile || isSimplifying || !client) return
+        if (!meshData || isSimplifying || !client) return
 
         setIsSimplifying(true)
         setError('')
-        setStatus('Fetching STL…')
         try {
-            const res = await fetch(`/stl/${selectedFile}`)
-            if (!res.ok) throw new Error(`Failed to fetch STL (${res.status})`)
-            const input = await res.arrayBuffer()
-
             setStatus('Running simplification (WASM)…')
+            const signal = cancellable.begin()
             const startMs = performance.now()
-            const result = await client.simplify(input, {
+            const result = await client.simplify(meshData, {
                 targetRatio,
                 preserveBorders,
                 onStatus: (s) => setStatus(s),
+                signal,
             })
             const elapsedMs = performance.now() - startMs
+            setStatus('Measuring deviation from the source…')
+            const deviation = await measureDeviation(result.output, signal)
 
             const entry: SimplifiedResult = {
                 data: result.output,
@@ -153,12 +203,17 @@ function SimplificationPage() {
                 inputFaces: result.inputFaces,
                 outputFaces: result.outputFaces,
                 elapsedMs,
+                deviation,
             }
             setResults((prev) => [...prev, entry])
             setStatus(
                 `Done in ${elapsedMs.toFixed(0)} ms — ${result.inputFaces} → ${result.outputFaces} faces`,
             )
         } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Simplification cancelled')
+                return
+            }
             console.error('[Simplification] failed:', e)
             setError(String(e?.message || e))
             setStatus('')
@@ -179,10 +234,17 @@ function SimplificationPage() {
         <>
             <Navbar pageTitle="Simplification" showBack />
             <FileSelector
-                files={COMPLEX_STL_FILES}
-                selectedFile={selectedFile}
-                onFileSelect={setSelectedFile}
-            />
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
 
             {/* Status / Error panel */}
             {(status || error) && (
@@ -202,72 +264,113 @@ function SimplificationPage() {
 
             {/* Processing overlay */}
             {isSimplifying && (
-                <div className="wasm-spinner-overlay">
-                    <div className="wasm-spinner-ring" />
-                    <div className="wasm-spinner-label">{status || 'Processing…'}</div>
-                </div>
+                <WasmSpinner label={status || 'Processing…'} onCancel={cancellable.cancel} />
             )}
 
             <CanvasContainer>
-                <Canvas
-                    camera={{
-                        position: [120, -320, 100],
-                        fov: 24,
-                        near: 0.1,
-                        far: 200000,
-                    }}
-                    shadows
-                    gl={{ antialias: true, alpha: false }}
-                    style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
-                >
-                    <Scene />
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
 
-                    {/* ---- Original model ---- */}
-                    {selectedFile && (
-                        <group position={[0, 0, 0]}>
-                            {hasResults && (
-                                <Billboard position={[0, -30, 10]}>
-                                    <Text
-                                        fontSize={5}
-                                        color="#ffffff"
-                                        anchorX="center"
-                                        anchorY="bottom"
-                                        outlineWidth={0.3}
-                                        outlineColor="#000000"
-                                    >
-                                        Original
-                                    </Text>
-                                </Billboard>
+                            {/* ---- Original model ---- */}
+                            {meshGeometry && meshTransform && (
+                                <group position={[0, 0, 0]}>
+                                    {hasResults && (
+                                        <Billboard position={[0, -30, 10]}>
+                                            <Text
+                                                fontSize={5}
+                                                color="#ffffff"
+                                                anchorX="center"
+                                                anchorY="bottom"
+                                                outlineWidth={0.3}
+                                                outlineColor="#000000"
+                                            >
+                                                Original
+                                            </Text>
+                                        </Billboard>
+                                    )}
+                                    <STLViewer geometry={meshGeometry} transform={meshTransform} />
+                                </group>
                             )}
-                            <STLViewer filename={selectedFile} />
-                        </group>
-                    )}
 
-                    {/* ---- Simplified results ---- */}
+                            {/* ---- Simplified results ---- */}
+                            {meshTransform &&
+                                results.map((r, i) => {
+                                    const pos = positionForResult(i)
+                                    const color = RESULT_COLORS[i % RESULT_COLORS.length]
+                                    const pct = Math.round(r.ratio * 100)
+                                    return (
+                                        <group key={i} position={pos}>
+                                            <Billboard position={[0, -30, 10]}>
+                                                <Text
+                                                    fontSize={4}
+                                                    color={color}
+                                                    anchorX="center"
+                                                    anchorY="bottom"
+                                                    outlineWidth={0.3}
+                                                    outlineColor="#000000"
+                                                >
+                                                    {`${pct}%  (${r.outputFaces.toLocaleString()} faces)`}
+                                                </Text>
+                                            </Billboard>
+                                            <STLBufferViewer
+                                                data={r.data}
+                                                transform={meshTransform}
+                                                color={color}
+                                                vertexColors={heatmaps[i]}
+                                            />
+                                        </group>
+                                    )
+                                })}
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
+            </CanvasContainer>
+
+            {/* ---- Result cards (left) ---- */}
+            {hasResults && (
+                <div style={resultListStyle}>
                     {results.map((r, i) => {
-                        const pos = positionForResult(i)
                         const color = RESULT_COLORS[i % RESULT_COLORS.length]
                         const pct = Math.round(r.ratio * 100)
                         return (
-                            <group key={i} position={pos}>
-                                <Billboard position={[0, -30, 10]}>
-                                    <Text
-                                        fontSize={4}
-                                        color={color}
-                                        anchorX="center"
-                                        anchorY="bottom"
-                                        outlineWidth={0.3}
-                                        outlineColor="#000000"
-                                    >
-                                        {`${pct}%  (${r.outputFaces.toLocaleString()} faces)`}
-                                    </Text>
-                                </Billboard>
-                                <STLBufferViewer data={r.data} color={color} />
-                            </group>
+                            <ResultCard
+                                key={i}
+                                title={`${pct}%  (${r.outputFaces.toLocaleString()} faces)`}
+                                color={color}
+                                details={[
+                                    `${r.inputFaces.toLocaleString()} → ${r.outputFaces.toLocaleString()} faces`,
+                                    `${r.elapsedMs.toFixed(0)} ms`,
+                                    ...(r.deviation ? describeDeviation(r.deviation) : []),
+                                ]}
+                            >
+                                <ResultCardButton
+                                    onClick={() => commit(r.data, `Simplified ${pct}%`)}
+                                    disabled={isSimplifying}
+                                >
+                                    Use as mesh
+                                </ResultCardButton>
+                                <MeshDownloadButton
+                                    data={r.data}
+                                    name={`${exportName}_simplified_${pct}`}
+                                    disabled={isSimplifying}
+                                />
+                            </ResultCard>
                         )
                     })}
-                </Canvas>
-            </CanvasContainer>
+                </div>
+            )}
 
             {/* ---- Controls (bottom‑right) ---- */}
             <div
@@ -376,6 +479,17 @@ function SimplificationPage() {
                     </label>
                 </div>
 
+                {/* Deviation heatmap */}
+                {results.some((r) => r.deviation) && (
+                    <DeviationLegend
+                        show={showDeviation}
+                        onShowChange={setShowDeviation}
+                        range={heatmapRange}
+                        autoRange={autoDeviationRange}
+                        onRangeChange={setDeviationRange}
+                    />
+                )}
+
                 {/* Results summary */}
                 {hasResults && (
                     <span
@@ -401,7 +515,7 @@ function SimplificationPage() {
                 )}
                 <HelloButton
                     onClick={onSimplify}
-                    disabled={!selectedFile || isSimplifying}
+                    disabled={!meshData || isSimplifying}
                     text={isSimplifying ? 'Simplifying…' : 'Simplify'}
                 />
             </div>
@@ -1,5 +1,5 @@
 import { Canvas } from '@react-three/fiber'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Billboard, Text } from '@react-three/drei'
 import Navbar from '../components/Navbar'
 import HelloButton from '../components/HelloButton'
@@ -7,9 +7,27 @@ import Scene from '../components/Scene'
 import STLViewer from '../components/STLViewer'
 import STLBufferViewer from '../components/STLBufferViewer'
 import FileSelector from '../components/FileSelector'
+import FileDropZone from '../components/FileDropZone'
+import MeshHistory from '../components/MeshHistory'
+import MeshStatsPanel from '../components/MeshStatsPanel'
+import TrueScaleGroup from '../components/TrueScaleGroup'
+import ViewScaleControls from '../components/ViewScaleControls'
+import ResultCard, { ResultCardButton } from '../components/ResultCard'
+import MeshDownloadButton from '../components/MeshDownloadButton'
+import WasmSpinner from '../components/WasmSpinner'
+import DeviationLegend from '../components/DeviationLegend'
 import { SmoothingClient } from '../lib/smoothingClient'
 import type { SmoothingMethod } from '../lib/smoothingClient'
+import { MeshAnalysisClient } from '../lib/meshAnalysisClient'
+import type { MeshDeviation } from '../lib/meshAnalysis'
+import { describeDeviation, deviationColors } from '../lib/deviation'
+import { isAbortError } from '../lib/rpc/protocol'
 import { CanvasContainer } from '../styles/CanvasContainer'
+import { useMeshFile } from '../hooks/useMeshFile'
+import { useCancellable } from '../hooks/useCancellable'
+import { useMeshSession } from '../context/MeshSessionContext'
+import { triangleCountFromStl } from '../lib/meshFiles'
+import { baseName } from '../lib/download'
 
 const COMPLEX_STL_FILES = [
     'complex/bony_penvis_mri.stl',
@@ -62,6 +80,8 @@ interface SmoothedResult {
     elapsedMs: number
     /** Method-specific params for the billboard */
     params: string
+    /** Distance from the source mesh, when it could be measured */
+    deviation?: MeshDeviation
 }
 
 function positionForResult(index: number): [number, number, number] {
@@ -125,8 +145,27 @@ const valueStyle: React.CSSProperties = {
     textAlign: 'right' as const,
 }
 
+/** Scrollable column of result cards along the left edge */
+const resultListStyle: React.CSSProperties = {
+    position: 'fixed',
+    left: 16,
+    top: 100,
+    maxHeight: 'calc(100vh - 116px)',
+    zIndex: 2000,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+    width: 260,
+    overflowY: 'auto',
+}
+
 function SmoothingPage() {
-    const [selectedFile, setSelectedFile] = useState<string>(COMPLEX_STL_FILES[0] ?? '')
+    const meshFile = useMeshFile(COMPLEX_STL_FILES)
+    const meshData = meshFile.data
+    const meshGeometry = meshFile.geometry
+    const meshTransform = meshFile.transform
+    const exportName = baseName(meshFile.selectedEntry?.name ?? 'mesh')
+    const { commit } = useMeshSession()
     const [method, setMethod] = useState<SmoothingMethod>('laplacian')
     const [iterations, setIterations] = useState(5)
     const [lambda, setLambda] = useState(0.5)
@@ -139,16 +178,24 @@ function SmoothingPage() {
     const [error, setError] = useState('')
     const [results, setResults] = useState<SmoothedResult[]>([])
     const [sourceFaceCount, setSourceFaceCount] = useState<number | null>(null)
+    const [showDeviation, setShowDeviation] = useState(false)
+    const [deviationRange, setDeviationRange] = useState<number | null>(null)
 
     const clientRef = useRef<SmoothingClient | null>(null)
+    const analysisRef = useRef<MeshAnalysisClient | null>(null)
+    const cancellable = useCancellable()
 
     // Lifecycle
     useEffect(() => {
         const c = new SmoothingClient()
+        const a = new MeshAnalysisClient()
         clientRef.current = c
+        analysisRef.current = a
         return () => {
             clientRef.current = null
+            analysisRef.current = null
             c.dispose()
+            a.dispose()
         }
     }, [])
 
@@ -157,45 +204,47 @@ function SmoothingPage() {
         setResults([])
         setStatus('')
         setError('')
-        setSourceFaceCount(null)
-
-        if (!selectedFile) return
-
-        let cancelled = false
-        fetch(`/stl/${selectedFile}`)
-            .then((res) => {
-                if (!res.ok) throw new Error(`fetch ${res.status}`)
-                return res.arrayBuffer()
-            })
-            .then((buf) => {
-                if (cancelled) return
-                if (buf.byteLength >= 84) {
-                    const view = new DataView(buf)
-                    setSourceFaceCount(view.getUint32(80, true))
-                }
-            })
-            .catch(() => { /* non-critical */ })
+        setDeviationRange(null)
+        setSourceFaceCount(meshData ? triangleCountFromStl(meshData) : null)
+    }, [meshData])
+
+    // Heatmap range defaults to the largest deviation of any result
+    const autoDeviationRange = useMemo(
+        () => results.reduce((m, r) => (r.deviation ? Math.max(m, -r.deviation.min, r.deviation.max) : m), 0) || 1e-3,
+        [results],
+    )
+    const heatmapRange = deviationRange ?? autoDeviationRange
+    const heatmaps = useMemo(
+        () => results.map((r) => (showDeviation && r.deviation ? deviationColors(r.deviation.distances, heatmapRange) : null)),
+        [results, showDeviation, heatmapRange],
+    )
 
-        return () => { cancelled = true }
-    }, [selectedFile])
+    /** How far a result moved from the source; undefined when it cannot be measured */
+    async function measureDeviation(output: ArrayBuffer, signal: AbortSignal): Promise<MeshDeviation | undefined> {
+        const analysis = analysisRef.current
+        if (!meshData || !analysis) return undefined
+        try {
+            return await analysis.deviation(output, meshData, { onStatus: (s) => setStatus(s), signal })
+        } catch (e) {
+            if (isAbortError(e)) throw e
+            console.warn('[Smoothing] deviation failed:', e)
+            return undefined
+        }
+    }
 
     async function onSmooth() {
         const client = clientRef.current
-        if (!selectedFile || isSmoothing || !client) return
+        if (!meshData || isSmoothing || !client) return
 
         setIsSmoothing(true)
         setError('')
-        setStatus('Fetching STL…')
         try {
-            const res = await fetch(`/stl/${selectedFile}`)
-            if (!res.ok) throw new Error(`Failed to fetch STL (${res.status})`)
-            const input = await res.arrayBuffer()
-
             const methodLabel = METHODS.find((m) => m.value === method)?.label ?? method
 
             setStatus(`Running ${methodLabel} smoothing (WASM)…`)
+            const signal = cancellable.begin()
             const startMs = performance.now()
-            const result = await client.smooth(input, {
+            const result = await client.smooth(meshData, {
                 method,
                 iterations,
                 lambda,
@@ -203,8 +252,11 @@ function SmoothingPage() {
                 alpha,
                 beta,
                 onStatus: (s) => setStatus(s),
+                signal,
             })
             const elapsedMs = performance.now() - startMs
+            setStatus('Measuring deviation from the source…')
+            const deviation = await measureDeviation(result.output, signal)
 
             const entry: SmoothedResult = {
                 data: result.output,
@@ -215,10 +267,15 @@ function SmoothingPage() {
                 vertices: result.vertices,
                 elapsedMs,
                 params: describeParams(method, iterations, lambda, mu, alpha, beta),
+                deviation,
             }
             setResults((prev) => [...prev, entry])
             setStatus(`Done in ${elapsedMs.toFixed(0)} ms — ${methodLabel}, ${iterations} iterations`)
         } catch (e: any) {
+            if (isAbortError(e)) {
+                setStatus('Smoothing cancelled')
+                return
+            }
             console.error('[Smoothing] failed:', e)
             setError(String(e?.message || e))
             setStatus('')
@@ -240,10 +297,17 @@ function SmoothingPage() {
         <>
             <Navbar pageTitle="Smoothing" showBack />
             <FileSelector
-                files={COMPLEX_STL_FILES}
-                selectedFile={selectedFile}
-                onFileSelect={setSelectedFile}
-            />
+                files={meshFile.entries}
+                selectedFile={meshFile.selectedKey}
+                onFileSelect={meshFile.select}
+                onFilesAdded={meshFile.addFiles}
+                isLoading={meshFile.isLoading}
+                error={meshFile.error}
+            >
+                <MeshHistory />
+                <ViewScaleControls />
+                <MeshStatsPanel />
+            </FileSelector>
 
             {/* Status / Error panel */}
             {(status || error) && (
@@ -263,71 +327,111 @@ function SmoothingPage() {
 
             {/* Processing overlay */}
             {isSmoothing && (
-                <div className="wasm-spinner-overlay">
-                    <div className="wasm-spinner-ring" />
-                    <div className="wasm-spinner-label">{status || 'Processing…'}</div>
-                </div>
+                <WasmSpinner label={status || 'Processing…'} onCancel={cancellable.cancel} />
             )}
 
             <CanvasContainer>
-                <Canvas
-                    camera={{
-                        position: [120, -320, 100],
-                        fov: 24,
-                        near: 0.1,
-                        far: 200000,
-                    }}
-                    shadows
-                    gl={{ antialias: true, alpha: false }}
-                    style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
-                >
-                    <Scene />
-
-                    {/* ---- Original model ---- */}
-                    {selectedFile && (
-                        <group position={[0, 0, 0]}>
-                            {hasResults && (
-                                <Billboard position={[0, -30, 10]}>
-                                    <Text
-                                        fontSize={5}
-                                        color="#ffffff"
-                                        anchorX="center"
-                                        anchorY="bottom"
-                                        outlineWidth={0.3}
-                                        outlineColor="#000000"
-                                    >
-                                        Original
-                                    </Text>
-                                </Billboard>
+                <FileDropZone onFilesDropped={meshFile.addFiles}>
+                    <Canvas
+                        camera={{
+                            position: [120, -320, 100],
+                            fov: 24,
+                            near: 0.1,
+                            far: 200000,
+                        }}
+                        shadows
+                        gl={{ antialias: true, alpha: false }}
+                        style={{ width: '100%', height: '100%', background: '#0a0a0a' }}
+                    >
+                        <Scene />
+                        <TrueScaleGroup>
+
+                            {/* ---- Original model ---- */}
+                            {meshGeometry && meshTransform && (
+                                <group position={[0, 0, 0]}>
+                                    {hasResults && (
+                                        <Billboard position={[0, -30, 10]}>
+                                            <Text
+                                                fontSize={5}
+                                                color="#ffffff"
+                                                anchorX="center"
+                                                anchorY="bottom"
+                                                outlineWidth={0.3}
+                                                outlineColor="#000000"
+                                            >
+                                                Original
+                                            </Text>
+                                        </Billboard>
+                                    )}
+                                    <STLViewer geometry={meshGeometry} transform={meshTransform} />
+                                </group>
                             )}
-                            <STLViewer filename={selectedFile} />
-                        </group>
-                    )}
 
-                    {/* ---- Smoothed results ---- */}
+                            {/* ---- Smoothed results ---- */}
+                            {meshTransform &&
+                                results.map((r, i) => {
+                                    const pos = positionForResult(i)
+                                    const color = RESULT_COLORS[i % RESULT_COLORS.length]
+                                    return (
+                                        <group key={i} position={pos}>
+                                            <Billboard position={[0, -30, 10]}>
+                                                <Text
+                                                    fontSize={3.5}
+                                                    color={color}
+                                                    anchorX="center"
+                                                    anchorY="bottom"
+                                                    outlineWidth={0.3}
+                                                    outlineColor="#000000"
+                                                >
+                                                    {`${r.methodLabel}  ${r.params}`}
+                                                </Text>
+                                            </Billboard>
+                                            <STLBufferViewer
+                                                data={r.data}
+                                                transform={meshTransform}
+                                                color={color}
+                                                vertexColors={heatmaps[i]}
+                                            />
+                                        </group>
+                                    )
+                                })}
+                        </TrueScaleGroup>
+                    </Canvas>
+                </FileDropZone>
+            </CanvasContainer>
+
+            {/* ---- Result cards (left) ---- */}
+            {hasResults && (
+                <div style={resultListStyle}>
                     {results.map((r, i) => {
-                        const pos = positionForResult(i)
                         const color = RESULT_COLORS[i % RESULT_COLORS.length]
                         return (
-                            <group key={i} position={pos}>
-                                <Billboard position={[0, -30, 10]}>
-                                    <Text
-                                        fontSize={3.5}
-                                        color={color}
-                                        anchorX="center"
-                                        anchorY="bottom"
-                                        outlineWidth={0.3}
-                                        outlineColor="#000000"
-                                    >
-                                        {`${r.methodLabel}  ${r.params}`}
-                                    </Text>
-                                </Billboard>
-                                <STLBufferViewer data={r.data} color={color} />
-                            </group>
+                            <ResultCard
+                                key={i}
+                                title={`${r.methodLabel}  ${r.params}`}
+                                color={color}
+                                details={[
+                                    `${r.faces.toLocaleString()} faces, ${r.vertices.toLocaleString()} vertices`,
+                                    `${r.elapsedMs.toFixed(0)} ms`,
+                                    ...(r.deviation ? describeDeviation(r.deviation) : []),
+                                ]}
+                            >
+                                <ResultCardButton
+                                    onClick={() => commit(r.data, `${r.methodLabel} ×${r.iterations}`)}
+                                    disabled={isSmoothing}
+                                >
+                                    Use as mesh
+                                </ResultCardButton>
+                                <MeshDownloadButton
+                                    data={r.data}
+                                    name={`${exportName}_${r.method}_${r.iterations}`}
+                                    disabled={isSmoothing}
+                                />
+                            </ResultCard>
                         )
                     })}
-                </Canvas>
-            </CanvasContainer>
+                </div>
+            )}
 
             {/* ---- Controls (bottom‑right) ---- */}
             <div
@@ -510,6 +614,17 @@ function SmoothingPage() {
                     </div>
                 )}
 
+                {/* Deviation heatmap */}
+                {results.some((r) => r.deviation) && (
+                    <DeviationLegend
+                        show={showDeviation}
+                        onShowChange={setShowDeviation}
+                        range={heatmapRange}
+                        autoRange={autoDeviationRange}
+                        onRangeChange={setDeviationRange}
+                    />
+                )}
+
                 {/* Results summary */}
                 {hasResults && (
                     <span
@@ -536,7 +651,7 @@ function SmoothingPage() {
                 <HelloButton
                     onClick={onSmooth}
                     disabled={
-                        !selectedFile ||
+                        !meshData ||
                         isSmoothing ||
                         (method === 'taubin' && mu <= lambda)
                     }
@@ -35,4 +35,28 @@ export const routeLinks: RouteLink[] = [
     description:
       "Run diagnostic checks on STL meshes to verify geometry integrity.",
   },
+  {
+    title: "Pipeline",
+    path: "/pipeline",
+    description:
+      "Chain hole filling, self-intersection repair, simplification and smoothing into a saved, repeatable pipeline.",
+  },
+  {
+    title: "Batch",
+    path: "/batch",
+    description:
+      "Run the same checks and repairs over a folder of meshes and export a per-file report and the processed outputs.",
+  },
+  {
+    title: "Measure",
+    path: "/measure",
+    description:
+      "Pick points on a mesh to measure distances, angles, circle diameters and path lengths over the surface, then export them as CSV.",
+  },
+  {
+    title: "Sections",
+    path: "/sections",
+    description:
+      "Slice through a mesh with movable clipping planes, see the capped cut, and export each section's outline as SVG or DXF.",
+  },
 ];
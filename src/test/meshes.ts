@@ -0,0 +1,99 @@
+// Small hand-built meshes shared by the library tests.
+
+import type { IndexedMesh } from "../lib/meshExport";
+import type { SurfacePoint, Vec3 } from "../lib/meshAnalysis";
+
+/** Outward-wound faces of a cube whose corner v has coordinates (v & 1, v >> 1 & 1, v >> 2 & 1). */
+const CUBE_FACES = [
+  [0, 2, 3], [0, 3, 1], // z = 0
+  [4, 5, 7], [4, 7, 6], // z = 1
+  [0, 1, 5], [0, 5, 4], // y = 0
+  [2, 6, 7], [2, 7, 3], // y = 1
+  [0, 4, 6], [0, 6, 2], // x = 0
+  [1, 3, 7], [1, 7, 5], // x = 1
+];
+
+/** Closed axis-aligned cube from `min` with edge length `size`, 12 outward-facing triangles. */
+export function cube(size = 1, min: Vec3 = [0, 0, 0]): IndexedMesh {
+  const positions = new Float32Array(24);
+  for (let v = 0; v < 8; v++) {
+    positions[v * 3] = min[0] + (v & 1) * size;
+    positions[v * 3 + 1] = min[1] + ((v >> 1) & 1) * size;
+    positions[v * 3 + 2] = min[2] + ((v >> 2) & 1) * size;
+  }
+  return { positions, indices: new Uint32Array(CUBE_FACES.flat()) };
+}
+
+/** Flat n × n grid of squares over [0, size]² at z = 0, two triangles per square, facing +z. */
+export function grid(n: number, size = 1): IndexedMesh {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (let j = 0; j <= n; j++) {
+    for (let i = 0; i <= n; i++) positions.push((i / n) * size, (j / n) * size, 0);
+  }
+  const at = (i: number, j: number) => j * (n + 1) + i;
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      indices.push(at(i, j), at(i + 1, j), at(i + 1, j + 1));
+      indices.push(at(i, j), at(i + 1, j + 1), at(i, j + 1));
+    }
+  }
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+/** Concatenate meshes into one, keeping each one's faces in order. */
+export function merge(...meshes: IndexedMesh[]): IndexedMesh {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (const m of meshes) {
+    const base = positions.length / 3;
+    positions.push(...m.positions);
+    for (const i of m.indices) indices.push(base + i);
+  }
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+/** `mesh` without the faces listed in `faces`. */
+export function withoutFaces(mesh: IndexedMesh, faces: number[]): IndexedMesh {
+  const drop = new Set(faces);
+  const indices: number[] = [];
+  for (let f = 0; f < mesh.indices.length / 3; f++) {
+    if (!drop.has(f)) indices.push(...mesh.indices.subarray(f * 3, f * 3 + 3));
+  }
+  return { positions: mesh.positions, indices: new Uint32Array(indices) };
+}
+
+/** The surface point at `point`, on the first face that contains it. */
+export function pick(mesh: IndexedMesh, point: Vec3): SurfacePoint {
+  const { positions: p, indices: ix } = mesh;
+  const corner = (f: number, k: number): Vec3 => {
+    const v = ix[f * 3 + k] * 3;
+    return [p[v], p[v + 1], p[v + 2]];
+  };
+  for (let f = 0; f < ix.length / 3; f++) {
+    const [a, b, c] = [corner(f, 0), corner(f, 1), corner(f, 2)];
+    const e1 = sub(b, a);
+    const e2 = sub(c, a);
+    const r = sub(point, a);
+    const n = cross(e1, e2);
+    const area2 = dot(n, n);
+    // Off the face's plane
+    if (Math.abs(dot(r, n)) > 1e-6 * Math.sqrt(area2)) continue;
+    const s = dot(cross(r, e2), n) / area2;
+    const t = dot(cross(e1, r), n) / area2;
+    if (s >= -1e-9 && t >= -1e-9 && s + t <= 1 + 1e-9) return { face: f, point };
+  }
+  throw new Error(`No face contains ${point.join(", ")}`);
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
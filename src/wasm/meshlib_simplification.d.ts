@@ -0,0 +1,3 @@
+// Type declaration for the Emscripten-generated glue JS module.
+declare const createModule: any;
+export default createModule;
@@ -0,0 +1,182 @@
+/// <reference lib="webworker" />
+
+// Web Worker that runs the TypeScript mesh checks from meshAnalysis.ts.
+
+import type { MeshAnalysisApi } from "../lib/meshAnalysisClient";
+import {
+  EDGE_CATEGORIES,
+  MAX_REPORTED_OVERLAPS,
+  analyzeEdges,
+  analyzeOrientation,
+  fillHoleLoops,
+  findComponents,
+  findHoles,
+  findOverlaps,
+  flipFaces,
+  meshDeviation,
+  meshStatistics,
+  planeSection,
+  removeDuplicateFaces,
+  removeSmallComponents,
+  surfacePath,
+} from "../lib/meshAnalysis";
+import { indexedMeshFromStl, writeBinaryStl } from "../lib/meshExport";
+import { serveRpc } from "../lib/rpc/serveRpc";
+
+serveRpc<MeshAnalysisApi>({
+  holes({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Tracing boundary loops…");
+    const holes = findHoles(mesh);
+    ctx.status(`Found ${holes.length} hole(s)`);
+    return { holes };
+  },
+
+  fillHoles({ input, holes, method }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Tracing boundary loops…");
+    const wanted = new Set(holes);
+    const selected = findHoles(mesh).filter((h) => wanted.has(h.index));
+    ctx.status(`Filling ${selected.length} hole(s) (${method})…`);
+    const r = fillHoleLoops(mesh, selected, method);
+    ctx.status(`Added ${r.addedFaces} face(s)`);
+    return { output: writeBinaryStl(r.mesh), filledHoles: selected.length, addedFaces: r.addedFaces };
+  },
+
+  components({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Finding connected shells…");
+    const { components, faceComponent } = findComponents(mesh);
+    ctx.status(`Found ${components.length} shell(s)`);
+    return { components, faceComponent: faceComponent.buffer as ArrayBuffer };
+  },
+
+  removeComponents({ input, minAreaRatio }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Finding connected shells…");
+    const analysis = findComponents(mesh);
+    const r = removeSmallComponents(mesh, analysis, minAreaRatio);
+    ctx.status(`Removed ${r.removedComponents} shell(s), ${r.removedFaces} face(s)`);
+    return {
+      output: writeBinaryStl(r.mesh),
+      removedComponents: r.removedComponents,
+      removedFaces: r.removedFaces,
+    };
+  },
+
+  orientation({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Checking face orientation…");
+    const r = analyzeOrientation(mesh);
+    ctx.status(`Found ${r.invertedFaces} inverted face(s)`);
+    return {
+      shells: r.shells,
+      invertedFaces: r.invertedFaces,
+      faceInverted: r.faceInverted.buffer as ArrayBuffer,
+    };
+  },
+
+  reorient({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Checking face orientation…");
+    const r = analyzeOrientation(mesh);
+    ctx.status(`Flipping ${r.invertedFaces} face(s)…`);
+    return {
+      output: writeBinaryStl(flipFaces(mesh, r.faceInverted)),
+      flippedFaces: r.invertedFaces,
+    };
+  },
+
+  edges({ input, thresholds }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Classifying edges…");
+    const r = analyzeEdges(mesh, thresholds);
+    ctx.status(
+      EDGE_CATEGORIES.map(({ category, label }) => `${label}: ${r[category].length / 6}`).join(", "),
+    );
+    return {
+      boundary: r.boundary.buffer as ArrayBuffer,
+      nonManifold: r.nonManifold.buffer as ArrayBuffer,
+      short: r.short.buffer as ArrayBuffer,
+      sharp: r.sharp.buffer as ArrayBuffer,
+    };
+  },
+
+  overlaps({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Finding overlapping triangles…");
+    const r = findOverlaps(mesh);
+    const duplicateCount = r.pairs.filter((pair) => pair.duplicate).length;
+    ctx.status(`Found ${r.pairs.length} overlapping pair(s), ${duplicateCount} duplicate(s)`);
+    return {
+      pairs: r.pairs.slice(0, MAX_REPORTED_OVERLAPS),
+      pairCount: r.pairs.length,
+      duplicateCount,
+      faceOverlap: r.faceOverlap.buffer as ArrayBuffer,
+    };
+  },
+
+  removeDuplicates({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Finding duplicate triangles…");
+    const r = removeDuplicateFaces(mesh, findOverlaps(mesh).pairs);
+    ctx.status(`Removed ${r.removedFaces} duplicate face(s)`);
+    return { output: writeBinaryStl(r.mesh), removedFaces: r.removedFaces };
+  },
+
+  statistics({ input }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status("Measuring mesh…");
+    const r = meshStatistics(mesh);
+    ctx.status(`${r.faceCount} face(s), ${r.shellCount} shell(s)`);
+    return r;
+  },
+
+  surfacePath({ input, stops }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    ctx.status(`Tracing a surface path through ${stops.length} point(s)…`);
+    const r = surfacePath(mesh, stops);
+    ctx.status(`Path length ${r.length.toPrecision(5)}`);
+    return { length: r.length, points: r.points.buffer as ArrayBuffer };
+  },
+
+  sections({ input, planes }, ctx) {
+    ctx.status(`Indexing mesh (${input.byteLength} bytes)…`);
+    const mesh = indexedMeshFromStl(input);
+    const sections = planes.map((plane, i) => {
+      ctx.status(`Cutting section ${i + 1} of ${planes.length}…`);
+      return planeSection(mesh, plane);
+    });
+    const points = new Float32Array(sections.reduce((n, s) => n + s.points.length, 0));
+    let pointOffset = 0;
+    const packed = sections.map(({ points: own, ...s }) => {
+      points.set(own, pointOffset * 3);
+      const entry = { ...s, pointOffset, pointCount: own.length / 3 };
+      pointOffset += own.length / 3;
+      return entry;
+    });
+    ctx.status(`${sections.reduce((n, s) => n + s.loops.length, 0)} section loop(s)`);
+    return { sections: packed, points: points.buffer as ArrayBuffer };
+  },
+
+  deviation({ input, source }, ctx) {
+    ctx.status("Indexing meshes…");
+    const mesh = indexedMeshFromStl(input);
+    const reference = indexedMeshFromStl(source);
+    ctx.status(`Measuring deviation of ${mesh.positions.length / 3} vertices…`);
+    const { distances, ...stats } = meshDeviation(mesh, reference);
+    ctx.status(`Hausdorff distance ${stats.hausdorff.toPrecision(4)}`);
+    return { ...stats, distances: distances.buffer as ArrayBuffer };
+  },
+});
@@ -0,0 +1,16 @@
+/// <reference lib="webworker" />
+
+// Web Worker that detects a mesh file's format and converts it to binary STL.
+
+import type { MeshImportApi } from "../lib/meshImportClient";
+import { importMesh, MESH_FORMAT_LABELS } from "../lib/meshImport";
+import { serveRpc } from "../lib/rpc/serveRpc";
+
+serveRpc<MeshImportApi>({
+  async importMesh({ input, name }, ctx) {
+    ctx.status(`Importing ${name} (${input.byteLength} bytes)…`);
+    const result = await importMesh(input, name);
+    ctx.status(`Imported ${MESH_FORMAT_LABELS[result.format]}: ${result.faces} faces`);
+    return { output: result.stl, format: result.format, faces: result.faces };
+  },
+});
@@ -0,0 +1,153 @@
+/// <reference lib="webworker" />
+
+// Web Worker that runs the MeshRepair stages off the main thread.
+//
+// Self-intersections and (unlimited) hole filling go through the bundled
+// meshlib_self_intersections and meshlib_fill_holes modules, the same calls
+// their own workers make; the other stages are the TypeScript passes in
+// meshAnalysis.ts. The mesh is kept indexed between stages and only written
+// out as STL for the WASM calls.
+
+import { REPAIR_STAGES, RepairApi, RepairConfig, RepairStage, RepairStageTotals } from "../lib/repairClient";
+import { serveRpc } from "../lib/rpc/serveRpc";
+import {
+  collapseDegenerateFaces,
+  collapseShortEdges,
+  fillHoleLoops,
+  findComponents,
+  findHoles,
+  removeIsolatedVertices,
+  removeSmallComponents,
+} from "../lib/meshAnalysis";
+import { IndexedMesh, indexedMeshFromStl, writeBinaryStl } from "../lib/meshExport";
+import { MeshlibModule, callWithStl, createModuleLoader, takeBuffer, u32 } from "./wasm";
+
+type SelfIntersectionsModule = MeshlibModule & {
+  _meshlib_repair_self_intersections_stl: (
+    inPtr: number,
+    inSize: number,
+    outPtrPtr: number,
+    outSizePtr: number,
+    outRemovedFacesPtr: number,
+    errPtrPtr: number,
+  ) => number;
+};
+
+type FillHolesModule = MeshlibModule & {
+  _meshlib_fill_holes_stl: (
+    inPtr: number,
+    inSize: number,
+    outPtrPtr: number,
+    outSizePtr: number,
+    errPtrPtr: number,
+  ) => number;
+};
+
+const getSelfIntersectionsModule = createModuleLoader<SelfIntersectionsModule>(
+  () => import("../wasm/meshlib_self_intersections.js"),
+);
+
+const getFillHolesModule = createModuleLoader<FillHolesModule>(
+  () => import("../wasm/meshlib_fill_holes.js"),
+);
+
+async function repairSelfIntersections(mesh: IndexedMesh): Promise<{ mesh: IndexedMesh; changed: number }> {
+  const M = await getSelfIntersectionsModule();
+  const r = callWithStl(
+    M,
+    writeBinaryStl(mesh),
+    3,
+    (inPtr, inSize, [outPtrPtr, outSizePtr, removedPtr], errPtrPtr) =>
+      M._meshlib_repair_self_intersections_stl(inPtr, inSize, outPtrPtr, outSizePtr, removedPtr, errPtrPtr),
+    ([outPtrPtr, outSizePtr, removedPtr]) => ({
+      output: takeBuffer(M, u32(M, outPtrPtr), u32(M, outSizePtr)),
+      removedFaces: u32(M, removedPtr),
+    }),
+  );
+  return { mesh: indexedMeshFromStl(r.output), changed: r.removedFaces };
+}
+
+/** Holes closed, counted as boundary loops before and after the fill. */
+async function fillHoles(mesh: IndexedMesh, maxPerimeter: number): Promise<{ mesh: IndexedMesh; changed: number }> {
+  const holes = findHoles(mesh);
+  if (holes.length === 0) return { mesh, changed: 0 };
+
+  let filled: IndexedMesh;
+  if (maxPerimeter > 0) {
+    const chosen = holes.filter((h) => h.perimeter <= maxPerimeter);
+    if (chosen.length === 0) return { mesh, changed: 0 };
+    filled = fillHoleLoops(mesh, chosen, "smooth").mesh;
+  } else {
+    const M = await getFillHolesModule();
+    const output = callWithStl(
+      M,
+      writeBinaryStl(mesh),
+      2,
+      (inPtr, inSize, [outPtrPtr, outSizePtr], errPtrPtr) =>
+        M._meshlib_fill_holes_stl(inPtr, inSize, outPtrPtr, outSizePtr, errPtrPtr),
+      ([outPtrPtr, outSizePtr]) => takeBuffer(M, u32(M, outPtrPtr), u32(M, outSizePtr)),
+    );
+    filled = indexedMeshFromStl(output);
+  }
+  return { mesh: filled, changed: Math.max(0, holes.length - findHoles(filled).length) };
+}
+
+async function runStage(
+  stage: RepairStage,
+  mesh: IndexedMesh,
+  config: RepairConfig,
+): Promise<{ mesh: IndexedMesh; changed: number }> {
+  switch (stage) {
+    case "isolatedVertices": {
+      const r = removeIsolatedVertices(mesh);
+      return { mesh: r.mesh, changed: r.removedVertices };
+    }
+    case "smallComponents": {
+      const r = removeSmallComponents(mesh, findComponents(mesh), config.smallComponents.minAreaRatio);
+      return { mesh: r.mesh, changed: r.removedComponents };
+    }
+    case "selfIntersections":
+      return repairSelfIntersections(mesh);
+    case "holes":
+      return fillHoles(mesh, config.holes.maxPerimeter);
+    case "shortEdges": {
+      const r = collapseShortEdges(mesh, config.shortEdges.minEdgeLength);
+      return { mesh: r.mesh, changed: r.collapsedEdges };
+    }
+    case "degenerateFaces": {
+      const r = collapseDegenerateFaces(mesh, config.degenerateFaces.criticalAspectRatio);
+      return { mesh: r.mesh, changed: r.removedFaces };
+    }
+  }
+}
+
+serveRpc<RepairApi>({
+  async repair({ input, config }, ctx) {
+    ctx.status(`Input bytes: ${input.byteLength}`);
+    let mesh = indexedMeshFromStl(input);
+    const inputFaces = mesh.indices.length / 3;
+
+    const enabled = REPAIR_STAGES.filter(({ stage }) => config[stage].enabled);
+    const totals: RepairStageTotals[] = enabled.map(({ stage }) => ({ stage, changed: 0, elapsedMs: 0 }));
+    const passes = Math.max(1, Math.round(config.iterations));
+    for (let pass = 1; pass <= passes; pass++) {
+      let changed = 0;
+      for (let i = 0; i < enabled.length; i++) {
+        ctx.status(`Pass ${pass}/${passes}: ${enabled[i].label}…`);
+        const startMs = performance.now();
+        const r = await runStage(enabled[i].stage, mesh, config);
+        mesh = r.mesh;
+        totals[i].changed += r.changed;
+        totals[i].elapsedMs += performance.now() - startMs;
+        changed += r.changed;
+      }
+      // Later passes only pick up what earlier stages left behind
+      if (changed === 0) break;
+    }
+
+    const output = writeBinaryStl(mesh);
+    const outputFaces = mesh.indices.length / 3;
+    ctx.status(`Repair complete. ${inputFaces} → ${outputFaces} faces. Output bytes: ${output.byteLength}`);
+    return { output, inputFaces, outputFaces, stages: totals };
+  },
+});
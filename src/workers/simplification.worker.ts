@@ -2,9 +2,11 @@
 
 // Web Worker that runs meshlib Simplification WASM off the main thread.
 
-type EmscriptenModule = {
-  _malloc: (n: number) => number;
-  _free: (ptr: number) => void;
+import type { SimplificationApi } from "../lib/simplificationClient";
+import { serveRpc } from "../lib/rpc/serveRpc";
+import { MeshlibModule, callWithStl, createModuleLoader, takeBuffer, u32 } from "./wasm";
+
+type SimplificationModule = MeshlibModule & {
   _meshlib_simplify_stl: (
     inPtr: number,
     inSize: number,
@@ -17,209 +19,48 @@ type EmscriptenModule = {
     outOutputFacesPtr: number,
     errPtrPtr: number,
   ) => number;
-  _meshlib_free: (ptr: number) => void;
-  HEAPU8: Uint8Array;
-  HEAPU32: Uint32Array;
-  HEAPF32: Float32Array;
-};
-
-type CreateModule = (opts?: {
-  locateFile?: (path: string) => string;
-  onAbort?: (reason: any) => void;
-}) => Promise<EmscriptenModule>;
-
-type PingMessage = { kind: "ping" };
-type RequestMessage = {
-  id: number;
-  input: ArrayBuffer;
-  targetFaces: number;
-  targetRatio: number;
-  preserveBorders: boolean;
 };
 
-type StatusMessage = { id: number; kind: "status"; stage: string };
-
-type ResponseMessage =
-  | {
-      id: number;
-      ok: true;
-      output: ArrayBuffer;
-      inputFaces: number;
-      outputFaces: number;
-    }
-  | { id: number; ok: false; rc: number; error: string };
-
-export {};
-
-let createModulePromise: Promise<CreateModule> | undefined;
-let modulePromise: Promise<EmscriptenModule> | undefined;
+const getModule = createModuleLoader<SimplificationModule>(
+  () => import("../wasm/meshlib_simplification.js"),
+);
 
-function postStatus(id: number, stage: string) {
-  const msg: StatusMessage = { id, kind: "status", stage };
-  (self as unknown as DedicatedWorkerGlobalScope).postMessage(msg);
-}
+serveRpc<SimplificationApi>({
+  async simplify({ input, targetFaces, targetRatio, preserveBorders }, ctx) {
+    ctx.status("Loading WASM module…");
+    const M = await getModule();
+    ctx.status(`Input bytes: ${input.byteLength}`);
 
-function withTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs: number,
-  label: string,
-): Promise<T> {
-  if (!timeoutMs) return promise;
-  return new Promise<T>((resolve, reject) => {
-    const t = setTimeout(
-      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
-      timeoutMs,
+    ctx.status(
+      `Calling meshlib_simplify_stl (target_faces=${targetFaces}, ratio=${targetRatio})…`,
     );
-    promise.then(
-      (v) => {
-        clearTimeout(t);
-        resolve(v);
-      },
-      (e) => {
-        clearTimeout(t);
-        reject(e);
-      },
+    const result = callWithStl(
+      M,
+      input,
+      4,
+      (inPtr, inSize, [outPtrPtr, outSizePtr, inFacesPtr, outFacesPtr], errPtrPtr) =>
+        M._meshlib_simplify_stl(
+          inPtr,
+          inSize,
+          targetFaces,
+          targetRatio,
+          preserveBorders ? 1 : 0,
+          outPtrPtr,
+          outSizePtr,
+          inFacesPtr,
+          outFacesPtr,
+          errPtrPtr,
+        ),
+      ([outPtrPtr, outSizePtr, inFacesPtr, outFacesPtr]) => ({
+        output: takeBuffer(M, u32(M, outPtrPtr), u32(M, outSizePtr)),
+        inputFaces: u32(M, inFacesPtr),
+        outputFaces: u32(M, outFacesPtr),
+      }),
     );
-  });
-}
 
-async function getCreateModule(): Promise<CreateModule> {
-  if (!createModulePromise) {
-    // @ts-expect-error -- Emscripten glue JS has no TS declarations
-    createModulePromise = import("../wasm/meshlib_simplification.js").then(
-      (m: any) => m.default as CreateModule,
+    ctx.status(
+      `Simplification complete. ${result.inputFaces} → ${result.outputFaces} faces. Output bytes: ${result.output.byteLength}`,
     );
-  }
-  return createModulePromise;
-}
-
-async function getModule(): Promise<EmscriptenModule> {
-  if (!modulePromise) {
-    const createModule = await getCreateModule();
-    modulePromise = createModule({
-      onAbort: (reason: any) => {
-        throw new Error(`WASM aborted: ${String(reason)}`);
-      },
-    });
-  }
-  return modulePromise;
-}
-
-function readCString(Module: EmscriptenModule, ptr: number): string {
-  if (!ptr) return "";
-  const heap = Module.HEAPU8;
-  const bytes: number[] = [];
-  for (let p = ptr; heap[p] !== 0; p++) bytes.push(heap[p]);
-  return new TextDecoder("utf-8").decode(new Uint8Array(bytes));
-}
-
-async function handleJobMessage(e: MessageEvent<RequestMessage>) {
-  const { id, input, targetFaces, targetRatio, preserveBorders } = e.data;
-
-  try {
-    postStatus(id, "Worker received job");
-
-    postStatus(id, "Loading WASM module…");
-    const Module = await withTimeout(getModule(), 30_000, "WASM module load");
-    postStatus(id, "WASM module loaded");
-
-    const inputBytes = new Uint8Array(input);
-    postStatus(id, `Input bytes: ${inputBytes.length}`);
-
-    const inPtr = Module._malloc(inputBytes.length);
-    Module.HEAPU8.set(inputBytes, inPtr);
-
-    // Allocate output pointers (4 bytes each)
-    const outPtrPtr = Module._malloc(4);
-    const outSizePtr = Module._malloc(4);
-    const outInputFacesPtr = Module._malloc(4);
-    const outOutputFacesPtr = Module._malloc(4);
-    const errPtrPtr = Module._malloc(4);
-
-    Module.HEAPU32[outPtrPtr >> 2] = 0;
-    Module.HEAPU32[outSizePtr >> 2] = 0;
-    Module.HEAPU32[outInputFacesPtr >> 2] = 0;
-    Module.HEAPU32[outOutputFacesPtr >> 2] = 0;
-    Module.HEAPU32[errPtrPtr >> 2] = 0;
-
-    try {
-      postStatus(
-        id,
-        `Calling meshlib_simplify_stl (target_faces=${targetFaces}, ratio=${targetRatio})…`,
-      );
-      const rc = Module._meshlib_simplify_stl(
-        inPtr,
-        inputBytes.length,
-        targetFaces,
-        targetRatio,
-        preserveBorders ? 1 : 0,
-        outPtrPtr,
-        outSizePtr,
-        outInputFacesPtr,
-        outOutputFacesPtr,
-        errPtrPtr,
-      );
-
-      const outPtr = Module.HEAPU32[outPtrPtr >> 2];
-      const outSize = Module.HEAPU32[outSizePtr >> 2];
-      const inputFaces = Module.HEAPU32[outInputFacesPtr >> 2];
-      const outputFaces = Module.HEAPU32[outOutputFacesPtr >> 2];
-      const errPtr = Module.HEAPU32[errPtrPtr >> 2];
-
-      if (rc !== 0) {
-        const err = readCString(Module, errPtr);
-        if (errPtr) Module._meshlib_free(errPtr);
-        const msg: ResponseMessage = { id, ok: false, rc, error: err };
-        self.postMessage(msg);
-        return;
-      }
-
-      const outBytes = Module.HEAPU8.slice(outPtr, outPtr + outSize);
-      Module._meshlib_free(outPtr);
-
-      postStatus(
-        id,
-        `Simplification complete. ${inputFaces} → ${outputFaces} faces. Output bytes: ${outBytes.byteLength}`,
-      );
-
-      const msg: ResponseMessage = {
-        id,
-        ok: true,
-        output: outBytes.buffer,
-        inputFaces,
-        outputFaces,
-      };
-      (self as unknown as DedicatedWorkerGlobalScope).postMessage(msg, [
-        outBytes.buffer,
-      ]);
-    } finally {
-      Module._free(inPtr);
-      Module._free(outPtrPtr);
-      Module._free(outSizePtr);
-      Module._free(outInputFacesPtr);
-      Module._free(outOutputFacesPtr);
-      Module._free(errPtrPtr);
-    }
-  } catch (error: any) {
-    const msg: ResponseMessage = {
-      id,
-      ok: false,
-      rc: -1,
-      error: String(error?.stack || error),
-    };
-    (self as unknown as DedicatedWorkerGlobalScope).postMessage(msg);
-  }
-}
-
-(self as unknown as DedicatedWorkerGlobalScope).addEventListener(
-  "message",
-  (e: MessageEvent<RequestMessage | PingMessage>) => {
-    if ((e.data as any)?.kind === "ping") {
-      (self as unknown as DedicatedWorkerGlobalScope).postMessage({
-        kind: "ready",
-      });
-      return;
-    }
-    void handleJobMessage(e as MessageEvent<RequestMessage>);
+    return result;
   },
-);
+});
@@ -0,0 +1,185 @@
+/// <reference lib="webworker" />
+
+// Helpers shared by the workers that drive the meshlib Emscripten modules:
+// lazy module loading, heap copies, and the out-pointer / error-string
+// calling convention every `meshlib_*` export follows:
+//
+//   int meshlib_xxx(const uint8_t* in, size_t inSize, …, T* out…, char** err)
+//
+// A non-zero return code means failure and `*err` holds a message that must
+// be released with meshlib_free.
+
+export interface MeshlibModule {
+  _malloc: (n: number) => number;
+  _free: (ptr: number) => void;
+  _meshlib_free: (ptr: number) => void;
+  HEAPU8: Uint8Array;
+  HEAPU32: Uint32Array;
+  HEAPF32: Float32Array;
+}
+
+type CreateModule<M> = (opts?: {
+  locateFile?: (path: string) => string;
+  onAbort?: (reason: any) => void;
+}) => Promise<M>;
+
+/** A meshlib export returned a non-zero code. */
+export class WasmCallError extends Error {
+  constructor(
+    readonly rc: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "WasmCallError";
+  }
+}
+
+/** The WASM runtime aborted; the module (and worker) cannot be reused. */
+export class WasmAbortError extends Error {
+  readonly fatal = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "WasmAbortError";
+  }
+}
+
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  label: string,
+): Promise<T> {
+  if (!timeoutMs) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(
+      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+    promise.then(
+      (v) => {
+        clearTimeout(t);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(t);
+        reject(e);
+      },
+    );
+  });
+}
+
+/**
+ * Returns a getter that instantiates the module on first use and caches it.
+ * `importGlue` must be a literal `import("../wasm/…js")` so Vite bundles it.
+ */
+export function createModuleLoader<M extends MeshlibModule>(
+  importGlue: () => Promise<{ default: unknown }>,
+  loadTimeoutMs = 30_000,
+): () => Promise<M> {
+  let modulePromise: Promise<M> | undefined;
+  let abortReason: string | undefined;
+
+  return () => {
+    if (abortReason !== undefined) {
+      return Promise.reject(new WasmAbortError(`WASM aborted: ${abortReason}`));
+    }
+    if (!modulePromise) {
+      modulePromise = importGlue().then((m) =>
+        (m.default as CreateModule<M>)({
+          onAbort: (reason: any) => {
+            abortReason = String(reason);
+          },
+        }),
+      );
+      // Let a failed load be retried on the next call
+      modulePromise.catch(() => {
+        modulePromise = undefined;
+      });
+    }
+    return withTimeout(modulePromise, loadTimeoutMs, "WASM module load");
+  };
+}
+
+export function readCString(M: MeshlibModule, ptr: number): string {
+  if (!ptr) return "";
+  const heap = M.HEAPU8;
+  let end = ptr;
+  while (heap[end] !== 0) end++;
+  return new TextDecoder("utf-8").decode(heap.slice(ptr, end));
+}
+
+/** Copy bytes into a fresh heap allocation. Free with M._free. */
+export function copyToHeap(M: MeshlibModule, bytes: Uint8Array): number {
+  const ptr = M._malloc(bytes.length);
+  M.HEAPU8.set(bytes, ptr);
+  return ptr;
+}
+
+/** Copy a meshlib-allocated block out of the heap and release it. */
+export function takeBuffer(M: MeshlibModule, ptr: number, size: number): ArrayBuffer {
+  if (!ptr) return new ArrayBuffer(0);
+  const out = M.HEAPU8.slice(ptr, ptr + size);
+  M._meshlib_free(ptr);
+  return out.buffer as ArrayBuffer;
+}
+
+/** Read a u32 out-slot. */
+export function u32(M: MeshlibModule, slot: number): number {
+  return M.HEAPU32[slot >> 2];
+}
+
+/** Read an f32 out-slot. */
+export function f32(M: MeshlibModule, slot: number): number {
+  return M.HEAPF32[slot >> 2];
+}
+
+/**
+ * Run one meshlib export that takes binary STL input.
+ *
+ * Copies `input` into the heap, allocates `slotCount` zeroed 4-byte out
+ * slots plus the error slot, invokes `fn`, and frees everything afterwards.
+ * On a non-zero return code the error string is read, released and thrown
+ * as a WasmCallError; otherwise `collect` reads the out slots (it must
+ * release any meshlib-owned blocks, e.g. via takeBuffer).
+ */
+export function callWithStl<M extends MeshlibModule, T>(
+  M: M,
+  input: ArrayBuffer,
+  slotCount: number,
+  fn: (inPtr: number, inSize: number, slots: number[], errPtrPtr: number) => number,
+  collect: (slots: number[]) => T,
+): T {
+  const inputBytes = new Uint8Array(input);
+  const inPtr = copyToHeap(M, inputBytes);
+  const slots: number[] = [];
+  for (let i = 0; i < slotCount; i++) {
+    const slot = M._malloc(4);
+    M.HEAPU32[slot >> 2] = 0;
+    slots.push(slot);
+  }
+  const errPtrPtr = M._malloc(4);
+  M.HEAPU32[errPtrPtr >> 2] = 0;
+
+  try {
+    let rc: number;
+    try {
+      rc = fn(inPtr, inputBytes.length, slots, errPtrPtr);
+    } catch (e: any) {
+      // Emscripten surfaces abort() as a thrown RuntimeError
+      throw e instanceof WebAssembly.RuntimeError
+        ? new WasmAbortError(`WASM aborted: ${e.message}`)
+        : e;
+    }
+    if (rc !== 0) {
+      const errPtr = u32(M, errPtrPtr);
+      const message = readCString(M, errPtr) || `meshlib call failed`;
+      if (errPtr) M._meshlib_free(errPtr);
+      throw new WasmCallError(rc, message);
+    }
+    return collect(slots);
+  } finally {
+    M._free(inPtr);
+    for (const slot of slots) M._free(slot);
+    M._free(errPtrPtr);
+  }
+}